@@ -38,6 +38,13 @@ interface AppConfiguration {
     /** Number of dimensions for embedding vectors */
     embeddingDimensions: number;
   };
+  /** Embedding provider selection, shared by search indexing and the AI gateway */
+  embedding: {
+    /** Which provider generates vectors: hosted OpenAI or the local hashed n-gram model */
+    provider: "openai" | "local";
+    /** Vector length every provider must return; must equal the SearchDocument column size */
+    dimensions: number;
+  };
   /** S3-compatible storage configuration */
   storage: {
     /** S3 bucket name for file storage */
@@ -87,6 +94,12 @@ interface AppConfiguration {
     lexicalWeight: number;
     /** Maximum number of search results to return */
     maxResults: number;
+    /** Default fusion strategy for combining vector and lexical scores; tenants may override it */
+    fusion: "linear" | "rrf" | "minmax";
+    /** Rank offset used by reciprocal rank fusion */
+    rrfK: number;
+    /** How a consultant's document and resume chunk scores combine into one score */
+    chunkPooling: "max" | "mean";
   };
 }
 
@@ -128,7 +141,13 @@ export const AppConfig = (): AppConfiguration => {
   
   // Number of dimensions for embedding vectors
   // Higher dimensions provide better semantic understanding but use more storage/compute
-  const embeddingDimensions = Number(process.env.OPENAI_EMBEDDING_DIMENSIONS ?? 3072);
+  const embeddingDimensions = Number(process.env.EMBEDDING_DIMENSIONS ?? process.env.OPENAI_EMBEDDING_DIMENSIONS ?? 3072);
+
+  // Embedding provider selection
+  // Falls back to the local CPU model when no OpenAI key is available
+  const embeddingProvider = process.env.EMBEDDING_PROVIDER === "openai" || process.env.EMBEDDING_PROVIDER === "local"
+    ? process.env.EMBEDDING_PROVIDER
+    : process.env.OPENAI_API_KEY ? "openai" : "local";
   
   // Search algorithm weights - these must sum to 1.0 for proper result ranking
   // Vector weight determines how much semantic similarity influences results
@@ -137,6 +156,14 @@ export const AppConfig = (): AppConfiguration => {
   // Lexical weight determines how much exact text matching influences results
   const lexicalWeight = Number(process.env.SEARCH_LEXICAL_WEIGHT ?? 0.4);
 
+  // Fusion strategy - how the two score lists are combined into one ranking
+  const searchFusion = process.env.SEARCH_FUSION_STRATEGY === "rrf" || process.env.SEARCH_FUSION_STRATEGY === "minmax"
+    ? process.env.SEARCH_FUSION_STRATEGY
+    : "linear";
+
+  // Chunk pooling - a consultant scores as its best matching chunk unless configured to average them
+  const chunkPooling = process.env.SEARCH_CHUNK_POOLING === "mean" ? "mean" : "max";
+
   return {
     /**
      * PostgreSQL database connection URL
@@ -164,6 +191,15 @@ export const AppConfig = (): AppConfiguration => {
       embeddingModel,
       embeddingDimensions
     },
+
+    /**
+     * Embedding provider configuration
+     * Switching provider or dimensions triggers a reindex of stored search vectors
+     */
+    embedding: {
+      provider: embeddingProvider,
+      dimensions: embeddingDimensions
+    },
     
     /**
      * S3-compatible storage configuration
@@ -228,7 +264,13 @@ export const AppConfig = (): AppConfiguration => {
       vectorWeight,
       lexicalWeight,
       /** Maximum number of search results to return per query */
-      maxResults: Number(process.env.SEARCH_MAX_RESULTS ?? 20)
+      maxResults: Number(process.env.SEARCH_MAX_RESULTS ?? 20),
+      /** Linear blend of raw scores unless configured otherwise */
+      fusion: searchFusion,
+      /** Standard RRF constant (k = 60) */
+      rrfK: Number(process.env.SEARCH_RRF_K ?? 60),
+      /** Max pooling rewards one strongly matching section; mean favours resumes that match throughout */
+      chunkPooling
     }
   };
 };
@@ -51,17 +51,33 @@ const TENANT_SCOPED_MODELS = new Set<string>([
   "ConsultantSkill",        // Consultant skill mappings
   "RequirementSkill",       // Required skills for positions
   "ConsultantTag",          // Consultant categorization tags
+  "ConsultantExperience",   // Work history parsed from resumes or entered manually
+  "ConsultantEducation",    // Degrees and institutions
+  "ConsultantCertification",// Professional certifications
   "AuditLog",               // Audit trail and logging
   "AiActivity",             // AI service usage tracking
   "RequirementIngestion",   // Requirement data ingestion
+  "RequirementRevision",    // Requirement field changes from email replies
+  "TenantMailbox",          // Per-tenant IMAP ingestion mailboxes
+  "MailboxRoutingRule",     // Mailbox sender/subject routing rules
   "Resume",                 // Resume documents and metadata
   "AnalyticsSnapshot",      // Analytics and reporting data
   "FeatureFlag",            // Feature flag configuration
   "DocumentAsset",          // Document storage and management
   "DocumentMetadata",       // Document metadata and indexing
   "SearchDocument",         // Search index documents
+  "SearchIndexRun",         // Queued search reindex runs
+  "SavedSearch",            // Per-user saved searches and alert schedules
+  "SavedSearchRun",         // Saved search executions and result diffs
   "MatchFeatureSnapshot",   // Matching algorithm features
   "MatchFeedback",          // User feedback on matches
+  "MatchBatchRun",          // Queued bench-wide matching runs
+  "MatchFilterPolicy",      // Matching hard filter policies
+  "RankingModel",           // Tenant-trained learning-to-rank models
+  "MatchWeightSet",         // Per-tenant linear scorer weights
+  "MatchExperiment",        // Ranking A/B experiments
+  "MatchScoreHistory",      // Change-driven match re-scoring history
+  "MatchFairnessAudit",     // Shortlist fairness audits per match run
   "IdentitySignature",      // Identity verification signatures
   "IdentityCluster"         // Identity clustering data
 ]);
@@ -2,6 +2,7 @@ import "./telemetry/otel";
 
 import { ValidationPipe } from "@nestjs/common";
 import { NestFactory } from "@nestjs/core";
+import { NestExpressApplication } from "@nestjs/platform-express";
 import { DocumentBuilder, SwaggerModule } from "@nestjs/swagger";
 import { Logger } from "nestjs-pino";
 
@@ -9,11 +10,13 @@ import { AppModule } from "./app.module";
 import { dumpRoutes } from "./route-inventory";
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, { bufferLogs: true });
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { bufferLogs: true });
   const logger = app.get(Logger);
   app.useLogger(logger);
 
   app.setGlobalPrefix("api");
+  // Raw RFC 822 posts to the inbound email webhook
+  app.useBodyParser("raw", { type: ["message/rfc822", "application/octet-stream"], limit: "25mb" });
   app.useGlobalPipes(
     new ValidationPipe({
       whitelist: true,
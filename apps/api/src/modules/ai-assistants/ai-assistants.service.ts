@@ -85,7 +85,8 @@ export class AiAssistantsService {
     const results = await this.vectorSearch.hybridSearch(tenantId, {
       query: consultantId,
       entityTypes: ["CONSULTANT" as any],
-      limit: 1
+      limit: 1,
+      plainText: true
     });
     
     const top = results[0];
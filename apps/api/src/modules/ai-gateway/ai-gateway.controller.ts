@@ -60,36 +60,41 @@ export class AiGatewayController {
   /**
    * Extracts structured requirement data from unstructured job description text.
    * 
-   * This endpoint uses pattern matching and natural language processing to extract
-   * key information from job descriptions including title, location, client name,
-   * rate information, and required skills.
+   * This endpoint reads labelled lines and free text to extract the title, client, location, work mode,
+   * engagement type, rate band, duration, closing date and must-have vs nice-to-have skills (resolved
+   * against the skill catalog and ontology). Every field carries a confidence score.
    * 
    * @param tenantId - The tenant identifier for data isolation
    * @param dto - Request body containing the job description text
    * @param dto.text - Raw job description text to process (minimum 10 characters)
+   * @param dto.subject - Optional email subject, used as a title fallback
    * @returns Structured requirement data extracted from the text
    * 
    * @example
    * ```typescript
    * // Request body
    * {
-   *   "text": "Role: Senior React Developer\nLocation: Remote\nClient: Tech Corp\nRate: $120/hour\nSkills: React, JavaScript, Node.js"
+   *   "text": "Role: Senior React Developer\nLocation: Remote\nClient: Tech Corp\nRate: $120/hour\nMust have: React, Node.js"
    * }
    * 
-   * // Response format
+   * // Response format (abridged)
    * {
    *   "title": "Senior React Developer",
    *   "clientName": "Tech Corp",
    *   "location": "Remote",
-   *   "suggestedRate": 120,
-   *   "skills": ["React", "JavaScript", "Node.js"]
+   *   "workMode": "REMOTE",
+   *   "rate": { "min": 120, "max": 120, "currency": "USD", "unit": "HOURLY" },
+   *   "mustHaveSkills": [{ "id": "...", "name": "React" }, { "id": "...", "name": "Node.js" }],
+   *   "niceToHaveSkills": [],
+   *   "fieldConfidence": { "title": 0.95, "clientName": 0.95, ... },
+   *   "confidence": 0.93
    * }
    * ```
    */
   @Post("extract-requirement")
   @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
   extractRequirement(@Param("tenantId") tenantId: string, @Body() dto: ExtractRequirementDto) {
-    return this.aiGatewayService.extractRequirement(tenantId, dto.text);
+    return this.aiGatewayService.extractRequirement(tenantId, dto.text, { subject: dto.subject });
   }
 
   /**
@@ -97,7 +102,8 @@ export class AiGatewayController {
    * 
    * This endpoint creates vector embeddings from text inputs that can be used
    * for semantic search, similarity matching, and other AI-powered operations.
-   * The embeddings are generated using a deterministic algorithm for consistency.
+   * The embeddings come from the configured embedding provider (OpenAI or the local
+   * hashed n-gram model) and always have the configured dimension.
    * 
    * @param tenantId - The tenant identifier for data isolation
    * @param dto - Request body containing text inputs to embed
@@ -117,9 +123,9 @@ export class AiGatewayController {
    * 
    * // Response format
    * [
-   *   [0.1, 0.2, 0.3, ...], // 32-dimensional vector for first text
-   *   [0.4, 0.5, 0.6, ...], // 32-dimensional vector for second text
-   *   [0.7, 0.8, 0.9, ...]  // 32-dimensional vector for third text
+   *   [0.1, 0.2, 0.3, ...], // EMBEDDING_DIMENSIONS-long vector for first text
+   *   [0.4, 0.5, 0.6, ...], // EMBEDDING_DIMENSIONS-long vector for second text
+   *   [0.7, 0.8, 0.9, ...]  // EMBEDDING_DIMENSIONS-long vector for third text
    * ]
    * ```
    */
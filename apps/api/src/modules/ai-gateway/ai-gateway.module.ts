@@ -1,9 +1,12 @@
 ﻿import { Module } from "@nestjs/common";
 
+import { OntologyModule } from "../ontology/ontology.module";
+import { EmbeddingModule } from "../vector-search/embedding/embedding.module";
 import { AiGatewayController } from "./ai-gateway.controller";
 import { AiGatewayService } from "./ai-gateway.service";
 
 @Module({
+  imports: [EmbeddingModule, OntologyModule],
   controllers: [AiGatewayController],
   providers: [AiGatewayService],
   exports: [AiGatewayService]
@@ -3,39 +3,63 @@ import { AiActivityType, Prisma } from "@prisma/client";
 import crypto from "node:crypto";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { findSkills } from "../ingestion/resume-parser";
+import { OntologyService } from "../ontology/ontology.service";
+import { EmbeddingService } from "../vector-search/embedding/embedding.service";
 import type { MatchSummaryFacts, MatchSummaryResponse } from "./dto/match-summary.dto";
+import { extractRequirementFields, RequirementExtraction } from "./requirement-extraction";
+
+interface AiActivitySource {
+  provider: string;
+  model: string;
+}
+
+const RULE_BASED_SOURCE: AiActivitySource = { provider: "rule-based", model: "heuristics-v1" };
 
 @Injectable()
 export class AiGatewayService {
-  constructor(private readonly prisma: PrismaService) {}
-
-  async extractRequirement(tenantId: string, text: string) {
-    const titleMatch = text.match(/(?:role|position|title)[:\-]\s*(.+)/i);
-    const locationMatch = text.match(/(?:location)[:\-]\s*(.+)/i);
-    const clientMatch = text.match(/(?:client|customer)[:\-]\s*(.+)/i);
-    const rateMatch = text.match(/\$?(\d{2,3})\s?(?:\/|per)\s?(?:hour|hr)/i);
-
-    const skills = Array.from(new Set((text.match(/\b[A-Z][a-zA-Z+#]{2,}\b/g) ?? []).slice(0, 10)));
-
-    const requirement = {
-      title: titleMatch ? titleMatch[1].trim() : undefined,
-      clientName: clientMatch ? clientMatch[1].trim() : undefined,
-      location: locationMatch ? locationMatch[1].trim() : undefined,
-      suggestedRate: rateMatch ? Number(rateMatch[1]) : undefined,
-      skills
-    };
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly embeddings: EmbeddingService,
+    private readonly ontology: OntologyService
+  ) {}
+
+  /**
+   * Structured requirement fields from a posting, with skills resolved against the catalog and active ontology.
+   * `subject` is the email subject when there is one; titles are often only stated there. `clientName` comes from
+   * mailbox routing rules.
+   */
+  async extractRequirement(
+    tenantId: string,
+    text: string,
+    hints: { subject?: string; clientName?: string } = {}
+  ): Promise<RequirementExtraction> {
+    const { lookup, maxWords } = await this.ontology.buildSkillLookup();
+    const extraction = extractRequirementFields(text, {
+      subject: hints.subject,
+      clientName: hints.clientName,
+      findSkills: (value) => findSkills(value, lookup, maxWords)
+    });
 
-    await this.logActivity(tenantId, AiActivityType.EXTRACTION, text, {
-      resultPreview: requirement
+    await this.logActivity(tenantId, AiActivityType.EXTRACTION, text, RULE_BASED_SOURCE, {
+      resultPreview: {
+        title: extraction.title,
+        clientName: extraction.clientName,
+        mustHaveSkills: extraction.mustHaveSkills.length,
+        niceToHaveSkills: extraction.niceToHaveSkills.length
+      },
+      confidence: extraction.confidence
     });
 
-    return requirement;
+    return extraction;
   }
 
   async embedTexts(tenantId: string, texts: string[]) {
-    const embeddings = texts.map((text) => this.fakeEmbedding(text));
-    await this.logActivity(tenantId, AiActivityType.EMBEDDING, texts.join("|"), {
-      textCount: texts.length
+    const embeddings = await this.embeddings.generateEmbeddings(texts);
+    const { provider, model, dimensions } = this.embeddings.getSignature();
+    await this.logActivity(tenantId, AiActivityType.EMBEDDING, texts.join("|"), { provider, model }, {
+      textCount: texts.length,
+      dimensions
     });
     return embeddings;
   }
@@ -45,7 +69,7 @@ export class AiGatewayService {
     const highlights = this.buildHighlights(facts);
     const confidence = this.estimateConfidence(facts);
 
-    await this.logActivity(tenantId, AiActivityType.COMPLETION, JSON.stringify(facts), {
+    await this.logActivity(tenantId, AiActivityType.COMPLETION, JSON.stringify(facts), RULE_BASED_SOURCE, {
       summary,
       highlights,
       confidence,
@@ -61,15 +85,6 @@ export class AiGatewayService {
     };
   }
 
-  private fakeEmbedding(text: string) {
-    const hash = crypto.createHash("sha256").update(text).digest();
-    const vector = [] as number[];
-    for (let i = 0; i < 32; i += 1) {
-      vector.push(Number(hash[i]) / 255);
-    }
-    return vector;
-  }
-
   private renderSummaryFromFacts(facts: MatchSummaryFacts): string {
     const skillSnippet = facts.consultant.alignedSkills.length
       ? `${facts.consultant.name} aligns on ${facts.consultant.alignedSkills.slice(0, 3).join(", ")}`
@@ -166,6 +181,7 @@ export class AiGatewayService {
     tenantId: string,
     type: AiActivityType,
     rawInput: string,
+    source: AiActivitySource,
     metadata: Prisma.JsonObject
   ) {
     const hash = crypto.createHash("sha1").update(rawInput).digest("hex");
@@ -176,6 +192,8 @@ export class AiGatewayService {
         inputHash: hash,
         cost: new Prisma.Decimal("0.001"),
         tokens: Math.ceil(rawInput.length / 4),
+        provider: source.provider,
+        model: source.model,
         metadata
       }
     });
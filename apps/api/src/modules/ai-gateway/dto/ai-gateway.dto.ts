@@ -15,7 +15,7 @@
  * @since 2024
  */
 
-import { ArrayMinSize, IsArray, IsString, MinLength } from "class-validator";
+import { ArrayMinSize, IsArray, IsOptional, IsString, MinLength } from "class-validator";
 
 /**
  * Data Transfer Object for requirement extraction requests.
@@ -38,6 +38,11 @@ export class ExtractRequirementDto {
   @IsString()
   @MinLength(10)
   text!: string;
+
+  /** Email subject line, used as the title when the body does not state one. */
+  @IsOptional()
+  @IsString()
+  subject?: string;
 }
 
 /**
@@ -0,0 +1,125 @@
+import { RequirementRateUnit, RequirementType, RequirementWorkMode } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import { findSkills, SkillRef, tokenizeSkillText } from "../ingestion/resume-parser";
+import { extractRequirementFields, parseDate } from "./requirement-extraction";
+
+const catalog: SkillRef[] = [
+  { id: "s-java", name: "Java" },
+  { id: "s-spring", name: "Spring Boot" },
+  { id: "s-kafka", name: "Kafka" },
+  { id: "s-aws", name: "AWS" },
+  { id: "s-k8s", name: "Kubernetes" }
+];
+const lookup = new Map(catalog.map((skill) => [tokenizeSkillText(skill.name).join(" "), skill]));
+// An ontology acronym resolves to the catalog skill.
+lookup.set("k8s", catalog[4]);
+const options = { findSkills: (text: string) => findSkills(text, lookup, 2) };
+
+const ids = (skills: SkillRef[]) => skills.map((skill) => skill.id);
+
+describe("extractRequirementFields", () => {
+  it("reads labelled postings with high confidence", () => {
+    const extraction = extractRequirementFields(
+      [
+        "From: recruiter@vendor.example",
+        "Subject: Urgent need: Java Developer - Austin, TX",
+        "",
+        "Hi team, please share profiles for the role below.",
+        "Role: Senior Java Developer",
+        "Client: Acme Bank",
+        "Location: Austin, TX (Hybrid, 3 days onsite)",
+        "Type: Contract to hire",
+        "Rate: $75-85/hr on C2C",
+        "Duration: 12 months",
+        "Apply by: July 15, 2026",
+        "",
+        "Must have:",
+        "- Java, Spring Boot and Kafka",
+        "Nice to have:",
+        "- AWS, k8s"
+      ].join("\n"),
+      options
+    );
+
+    expect(extraction).toMatchObject({
+      title: "Senior Java Developer",
+      clientName: "Acme Bank",
+      location: "Austin, TX (Hybrid, 3 days onsite)",
+      workMode: RequirementWorkMode.HYBRID,
+      type: RequirementType.CONTRACT_TO_HIRE,
+      rate: { min: 75, max: 85, currency: "USD", unit: RequirementRateUnit.HOURLY },
+      durationMonths: 12,
+      closesAt: "2026-07-15"
+    });
+    expect(ids(extraction.mustHaveSkills)).toEqual(["s-java", "s-spring", "s-kafka"]);
+    expect(ids(extraction.niceToHaveSkills)).toEqual(["s-aws", "s-k8s"]);
+    expect(extraction.description).not.toContain("recruiter@vendor.example");
+    expect(extraction.description).toContain("Rate: $75-85/hr on C2C");
+    expect(extraction.fieldConfidence.title).toBe(0.95);
+    expect(extraction.confidence).toBeGreaterThan(0.8);
+  });
+
+  it("falls back to the subject and free text with lower confidence", () => {
+    const extraction = extractRequirementFields(
+      [
+        "Our client Globex Corp is hiring for a fully remote, 6 month contract.",
+        "Strong Java and Kafka required; AWS experience is a plus.",
+        "Budget up to $110k per year."
+      ].join("\n"),
+      { ...options, subject: "FW: Kafka Engineer | Remote" }
+    );
+
+    expect(extraction).toMatchObject({
+      title: "Kafka Engineer",
+      clientName: "Globex Corp",
+      workMode: RequirementWorkMode.REMOTE,
+      type: RequirementType.CONTRACT,
+      rate: { min: null, max: 110_000, currency: "USD", unit: RequirementRateUnit.ANNUAL },
+      durationMonths: 6
+    });
+    expect(ids(extraction.mustHaveSkills)).toEqual(["s-kafka", "s-java"]);
+    expect(ids(extraction.niceToHaveSkills)).toEqual(["s-aws"]);
+    expect(extraction.fieldConfidence.title).toBe(0.75);
+  });
+
+  it("prefers a routing-rule client over a free-text mention but not over a label", () => {
+    const mentioned = extractRequirementFields("Our client Globex Corp needs a Java developer.", {
+      ...options,
+      clientName: "Acme Bank"
+    });
+    const labelled = extractRequirementFields("Client: Initech\nJava developer needed.", {
+      ...options,
+      clientName: "Acme Bank"
+    });
+
+    expect(mentioned.clientName).toBe("Acme Bank");
+    expect(mentioned.fieldConfidence.clientName).toBe(0.85);
+    expect(labelled.clientName).toBe("Initech");
+  });
+
+  it("does not read experience requirements as rates or durations", () => {
+    const extraction = extractRequirementFields("Need 10 years of Java experience and 5+ years with AWS.", options);
+
+    expect(extraction.rate).toBeNull();
+    expect(extraction.durationMonths).toBeNull();
+  });
+
+  it("scores thin postings low enough for review", () => {
+    const extraction = extractRequirementFields("Please call me about an opening.", options);
+
+    expect(extraction.title).toBeNull();
+    expect(extraction.mustHaveSkills).toEqual([]);
+    expect(extraction.confidence).toBeLessThan(0.3);
+  });
+});
+
+describe("parseDate", () => {
+  it("accepts ISO, US numeric and written dates and rejects impossible ones", () => {
+    expect(parseDate("2026-07-01")).toBe("2026-07-01");
+    expect(parseDate("by 07/04/2026 EOD")).toBe("2026-07-04");
+    expect(parseDate("1st Aug 2026")).toBe("2026-08-01");
+    expect(parseDate("02/30/2026")).toBeNull();
+    expect(parseDate("ASAP")).toBeNull();
+  });
+});
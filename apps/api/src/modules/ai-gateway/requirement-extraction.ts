@@ -0,0 +1,506 @@
+import { RequirementRateUnit, RequirementType, RequirementWorkMode } from "@prisma/client";
+
+import type { SkillRef } from "../ingestion/resume-parser";
+
+export const EXTRACTION_FIELDS = [
+  "title",
+  "clientName",
+  "location",
+  "workMode",
+  "type",
+  "rate",
+  "duration",
+  "closesAt",
+  "skills",
+  "description"
+] as const;
+
+export type ExtractionField = (typeof EXTRACTION_FIELDS)[number];
+
+export interface ExtractedRate {
+  min: number | null;
+  max: number | null;
+  /** ISO 4217 code; USD when the posting names none. */
+  currency: string;
+  unit: RequirementRateUnit;
+}
+
+export interface RequirementExtraction {
+  title: string | null;
+  clientName: string | null;
+  location: string | null;
+  workMode: RequirementWorkMode | null;
+  type: RequirementType | null;
+  rate: ExtractedRate | null;
+  durationMonths: number | null;
+  /** YYYY-MM-DD */
+  closesAt: string | null;
+  mustHaveSkills: SkillRef[];
+  niceToHaveSkills: SkillRef[];
+  /** The posting without mail headers. */
+  description: string;
+  /** 0-1 per field; 0 when nothing was found. */
+  fieldConfidence: Record<ExtractionField, number>;
+  /** Weighted over the fields a usable requirement cannot do without. */
+  confidence: number;
+}
+
+export interface RequirementExtractionOptions {
+  /** Subject of the email the posting arrived in, if any. */
+  subject?: string;
+  /** Client named by the tenant's mailbox routing rules; a client label in the posting still takes precedence. */
+  clientName?: string;
+  findSkills: (text: string) => SkillRef[];
+}
+
+// Optional fields (rate, duration, dates) are often absent from good postings, so only these decide review.
+const CONFIDENCE_WEIGHTS: Partial<Record<ExtractionField, number>> = {
+  title: 0.35,
+  skills: 0.25,
+  clientName: 0.15,
+  description: 0.15,
+  location: 0.1
+};
+
+const LABELS: Record<string, ExtractionField> = {
+  "job title": "title",
+  title: "title",
+  role: "title",
+  "job role": "title",
+  position: "title",
+  "position title": "title",
+  client: "clientName",
+  "end client": "clientName",
+  "client name": "clientName",
+  customer: "clientName",
+  company: "clientName",
+  location: "location",
+  "job location": "location",
+  "work location": "location",
+  city: "location",
+  "work mode": "workMode",
+  "work type": "workMode",
+  "workplace type": "workMode",
+  "work arrangement": "workMode",
+  "job type": "type",
+  "employment type": "type",
+  "position type": "type",
+  type: "type",
+  engagement: "type",
+  rate: "rate",
+  "pay rate": "rate",
+  "bill rate": "rate",
+  salary: "rate",
+  compensation: "rate",
+  budget: "rate",
+  duration: "duration",
+  "contract duration": "duration",
+  "contract length": "duration",
+  "project duration": "duration",
+  term: "duration",
+  "closing date": "closesAt",
+  deadline: "closesAt",
+  "apply by": "closesAt",
+  "submission deadline": "closesAt",
+  "respond by": "closesAt",
+  "due date": "closesAt",
+  "last date": "closesAt"
+};
+
+const MAIL_HEADER = /^(from|to|cc|bcc|sent|date|subject|reply-to)\s*:/i;
+const ROLE_WORD =
+  /\b(developer|engineer|architect|analyst|administrator|admin|manager|lead|consultant|designer|scientist|tester|specialist|programmer|dba|devops|sre|qa)\b/i;
+const US_STATE =
+  "A[LKZR]|C[AOT]|D[EC]|FL|GA|HI|I[ADLN]|K[SY]|LA|M[ADEINOST]|N[CDEHJMVY]|O[HKR]|PA|RI|S[CD]|T[NX]|UT|V[AT]|W[AIVY]";
+const CITY_STATE = new RegExp(`\\b([A-Z][a-zA-Z.]+(?: [A-Z][a-zA-Z.]+)?),\\s?(${US_STATE})\\b`);
+const CLIENT_MENTION = /\b(?:[Oo]ur|[Tt]he)\s+(?:[Ee]nd\s+)?[Cc]lient,?\s+([A-Z][\w&.'-]*(?:\s+[A-Z][\w&.'-]*){0,3})/;
+
+const HYBRID = /\bhybrid\b/i;
+const REMOTE = /\b(?:100%\s+remote|fully\s+remote|remote|work\s+from\s+home|wfh)\b/i;
+const NOT_REMOTE = /\b(?:no|not|non)[\s-]+remote\b/i;
+const ONSITE = /\b(?:on[\s-]?site|in[\s-]office)\b/i;
+
+const CONTRACT_TO_HIRE = /\b(?:contract[\s-]+to[\s-]+hire|c2h|cth)\b/i;
+const FULL_TIME = /\b(?:full[\s-]?time|fte|permanent|direct[\s-]+hire)\b/i;
+const CONTRACT = /\b(?:contract|c2c|corp[\s-]+to[\s-]+corp|w2|1099)\b/i;
+
+const CURRENCY = "(\\$|us\\$|usd|€|eur|£|gbp|₹|inr|c\\$|cad)?";
+const AMOUNT = "(\\d{1,3}(?:,\\d{3})+|\\d+(?:\\.\\d+)?)\\s*(k)?";
+const RATE = new RegExp(
+  `(?:(up\\s*to|max(?:imum)?|from|min(?:imum)?|starting\\s+at)\\s*)?${CURRENCY}\\s*${AMOUNT}` +
+    `(?:\\s*(?:-|–|to)\\s*${CURRENCY}\\s*${AMOUNT})?\\s*(usd|eur|gbp|inr|cad)?` +
+    "\\s*(\\/|per|an|a)?\\s*(hour|hr|h|day|diem|year|yr|annum|annual|pa)?\\b",
+  "gi"
+);
+const CURRENCY_CODES: Record<string, string> = {
+  $: "USD",
+  us$: "USD",
+  usd: "USD",
+  "€": "EUR",
+  eur: "EUR",
+  "£": "GBP",
+  gbp: "GBP",
+  "₹": "INR",
+  inr: "INR",
+  c$: "CAD",
+  cad: "CAD"
+};
+
+const DURATION_UNIT = "(months?|mos?|weeks?|wks?|years?|yrs?)";
+const DURATION_AFTER = new RegExp(
+  `\\b(\\d{1,2})\\s*\\+?\\s*${DURATION_UNIT}\\s+(?:[\\w-]+\\s+){0,2}(?:contract|assignment|project|engagement|term|duration)\\b`,
+  "i"
+);
+const DURATION_BEFORE = new RegExp(
+  `\\b(?:duration|contract|assignment|project|engagement)\\s*(?:of|for|is|:)?\\s*(\\d{1,2})\\s*\\+?\\s*${DURATION_UNIT}\\b`,
+  "i"
+);
+const CLOSING_PHRASE =
+  /\b(?:apply\s+by|closing\s+date|closes\s+on|deadline|respond\s+by|submissions?\s+(?:due|close)s?\s+(?:by|on))\s*:?\s*([^\n;]+)/i;
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const NICE_MARKER =
+  /\b(?:nice[\s-]+to[\s-]+haves?|good[\s-]+to[\s-]+have|preferred|desired|desirable|bonus|plus|optional|secondary\s+skills)\b/i;
+const MUST_MARKER =
+  /\b(?:must[\s-]+haves?|must|required|requirements|mandatory|essential|minimum\s+qualifications|primary\s+skills|key\s+skills)\b/i;
+
+/**
+ * Rule-based extraction of a job posting (usually a recruiter email) into Requirement fields. Labelled lines
+ * ("Rate: $80/hr") are trusted most; free-text fallbacks score lower so weak parses can be sent to review.
+ */
+export function extractRequirementFields(text: string, options: RequirementExtractionOptions): RequirementExtraction {
+  const lines = text.replace(/\r/g, "").split("\n");
+  const subject = options.subject?.trim() || lines.find((line) => /^subject\s*:/i.test(line))?.replace(/^subject\s*:/i, "").trim();
+  const body = lines.filter((line) => !MAIL_HEADER.test(line.trim()));
+  const description = body.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+  const labelled = readLabels(body);
+
+  const confidence = {} as Record<ExtractionField, number>;
+  const pick = <T>(field: ExtractionField, value: T | null, score: number): T | null => {
+    confidence[field] = value === null ? 0 : score;
+    return value;
+  };
+
+  const title = pickTitle(labelled.get("title"), subject, body);
+  const client = pickClient(labelled.get("clientName"), options.clientName?.trim(), description);
+  const location = pickLocation(labelled.get("location"), description);
+  const workMode = pickWorkMode(labelled.get("workMode") ?? labelled.get("location"), description);
+  const type = pickType(labelled.get("type"), description);
+  const rate = pickRate(labelled.get("rate"), description);
+  const duration = pickDuration(labelled.get("duration"), description);
+  const closesAt = pickClosingDate(labelled.get("closesAt"), description);
+  const skills = pickSkills(subject ? [subject, ...body] : body, options.findSkills);
+
+  const extraction: RequirementExtraction = {
+    title: pick("title", title.value, title.confidence),
+    clientName: pick("clientName", client.value, client.confidence),
+    location: pick("location", location.value, location.confidence),
+    workMode: pick("workMode", workMode.value, workMode.confidence),
+    type: pick("type", type.value, type.confidence),
+    rate: pick("rate", rate.value, rate.confidence),
+    durationMonths: pick("duration", duration.value, duration.confidence),
+    closesAt: pick("closesAt", closesAt.value, closesAt.confidence),
+    mustHaveSkills: skills.mustHave,
+    niceToHaveSkills: skills.niceToHave,
+    description,
+    fieldConfidence: confidence,
+    confidence: 0
+  };
+  confidence.skills = skills.confidence;
+  confidence.description = description.length >= 200 ? 0.9 : description.length >= 50 ? 0.6 : description ? 0.3 : 0;
+  // A remote posting without a city is complete, so the work mode stands in for the location.
+  const locationScore = Math.max(confidence.location, extraction.workMode === RequirementWorkMode.REMOTE ? confidence.workMode : 0);
+
+  extraction.confidence = round(
+    Object.entries(CONFIDENCE_WEIGHTS).reduce(
+      (acc, [field, weight]) => acc + (field === "location" ? locationScore : confidence[field as ExtractionField]) * weight!,
+      0
+    )
+  );
+  return extraction;
+}
+
+interface Scored<T> {
+  value: T | null;
+  confidence: number;
+}
+
+const NONE = { value: null, confidence: 0 };
+
+function readLabels(lines: string[]): Map<ExtractionField, string> {
+  const labels = new Map<ExtractionField, string>();
+  for (const line of lines) {
+    const match = /^\s*[-*•]?\s*([A-Za-z][A-Za-z /&-]{1,30}?)\s*:\s*(.+?)\s*$/.exec(line);
+    const field = match ? LABELS[match[1].toLowerCase().replace(/\s+/g, " ")] : undefined;
+    if (field && !labels.has(field)) {
+      labels.set(field, match![2]);
+    }
+  }
+  return labels;
+}
+
+function pickTitle(label: string | undefined, subject: string | undefined, body: string[]): Scored<string> {
+  if (label) {
+    return { value: label, confidence: 0.95 };
+  }
+  if (subject) {
+    const cleaned = subject.replace(/^(?:\s*(?:re|fwd?)\s*:\s*)+/i, "").trim();
+    const segment = cleaned.split(/\s+[-|–]\s+|\s*\|\s*/).find((part) => ROLE_WORD.test(part));
+    if (segment) {
+      return { value: stripRequestWords(segment), confidence: 0.75 };
+    }
+  }
+  const line = body
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .slice(0, 5)
+    .find((entry) => entry.length <= 80 && ROLE_WORD.test(entry));
+  return line ? { value: stripRequestWords(line), confidence: 0.6 } : NONE;
+}
+
+function stripRequestWords(value: string): string {
+  return value
+    .replace(/^(?:(?:urgent|immediate|hot|new)\s+)?(?:(?:need|requirement|req|opening|position|hiring)\b\s*)?(?:(?:for|:)\s*)?(?:an?\s+)?/i, "")
+    .trim();
+}
+
+function pickClient(label: string | undefined, hint: string | undefined, text: string): Scored<string> {
+  if (label) {
+    return { value: label, confidence: 0.9 };
+  }
+  if (hint) {
+    return { value: hint, confidence: 0.85 };
+  }
+  const mention = CLIENT_MENTION.exec(text);
+  return mention ? { value: mention[1].trim(), confidence: 0.6 } : NONE;
+}
+
+function pickLocation(label: string | undefined, text: string): Scored<string> {
+  if (label) {
+    return { value: label, confidence: 0.9 };
+  }
+  const match = CITY_STATE.exec(text);
+  return match ? { value: `${match[1]}, ${match[2]}`, confidence: 0.65 } : NONE;
+}
+
+function pickWorkMode(label: string | undefined, text: string): Scored<RequirementWorkMode> {
+  const fromLabel = label ? detectWorkModes(label) : [];
+  if (fromLabel.length === 1) {
+    return { value: fromLabel[0], confidence: 0.95 };
+  }
+  const modes = detectWorkModes(text);
+  if (modes.includes(RequirementWorkMode.HYBRID)) {
+    return { value: RequirementWorkMode.HYBRID, confidence: 0.85 };
+  }
+  if (modes.length === 1) {
+    return { value: modes[0], confidence: 0.8 };
+  }
+  // "Remote to start, then onsite" and similar.
+  return modes.length > 1 ? { value: RequirementWorkMode.HYBRID, confidence: 0.5 } : NONE;
+}
+
+function detectWorkModes(text: string): RequirementWorkMode[] {
+  const modes: RequirementWorkMode[] = [];
+  if (HYBRID.test(text)) {
+    modes.push(RequirementWorkMode.HYBRID);
+  }
+  if (REMOTE.test(text) && !NOT_REMOTE.test(text)) {
+    modes.push(RequirementWorkMode.REMOTE);
+  }
+  if (ONSITE.test(text)) {
+    modes.push(RequirementWorkMode.ONSITE);
+  }
+  return modes;
+}
+
+function pickType(label: string | undefined, text: string): Scored<RequirementType> {
+  for (const [source, confidence] of [
+    [label, 0.95],
+    [text, 0.8]
+  ] as const) {
+    if (!source) {
+      continue;
+    }
+    if (CONTRACT_TO_HIRE.test(source)) {
+      return { value: RequirementType.CONTRACT_TO_HIRE, confidence };
+    }
+    if (FULL_TIME.test(source)) {
+      return { value: RequirementType.FULL_TIME, confidence };
+    }
+    if (CONTRACT.test(source)) {
+      return { value: RequirementType.CONTRACT, confidence };
+    }
+  }
+  return NONE;
+}
+
+function pickRate(label: string | undefined, text: string): Scored<ExtractedRate> {
+  return (label ? parseRate(label, true) : null) ?? parseRate(text, false) ?? NONE;
+}
+
+function parseRate(text: string, labelled: boolean): Scored<ExtractedRate> | null {
+  RATE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = RATE.exec(text)) !== null) {
+    const [, bound, currencyA, amountA, kA, currencyB, amountB, kB, currencySuffix, separator, unitWord] = match;
+    const currencyToken = (currencyA ?? currencyB ?? currencySuffix)?.toLowerCase();
+    // Bare numbers in prose ("5 years") are not rates; outside a rate label, demand a currency or "/hour".
+    if (!labelled && !currencyToken && !(separator && unitWord)) {
+      continue;
+    }
+    const first = toAmount(amountA, kA);
+    const second = amountB ? toAmount(amountB, kB ?? kA) : null;
+    let unit = toRateUnit(unitWord);
+    let confidence = labelled ? 0.9 : 0.75;
+    if (!unit) {
+      unit = kA || Math.max(first, second ?? 0) >= 1_000 ? RequirementRateUnit.ANNUAL : RequirementRateUnit.HOURLY;
+      confidence -= 0.2;
+    }
+    if (!currencyToken) {
+      confidence -= 0.1;
+    }
+
+    const ceiling = bound && /^(up|max)/i.test(bound);
+    const floor = bound && /^(from|min|starting)/i.test(bound);
+    const rate: ExtractedRate = {
+      min: second !== null ? Math.min(first, second) : ceiling ? null : first,
+      max: second !== null ? Math.max(first, second) : floor ? null : first,
+      currency: currencyToken ? CURRENCY_CODES[currencyToken] : "USD",
+      unit
+    };
+    return { value: rate, confidence: round(confidence) };
+  }
+  return null;
+}
+
+function toAmount(value: string, thousands?: string): number {
+  const amount = Number(value.replace(/,/g, ""));
+  return thousands ? amount * 1_000 : amount;
+}
+
+function toRateUnit(word?: string): RequirementRateUnit | null {
+  if (!word) {
+    return null;
+  }
+  const value = word.toLowerCase();
+  if (["hour", "hr", "h"].includes(value)) {
+    return RequirementRateUnit.HOURLY;
+  }
+  return ["day", "diem"].includes(value) ? RequirementRateUnit.DAILY : RequirementRateUnit.ANNUAL;
+}
+
+function pickDuration(label: string | undefined, text: string): Scored<number> {
+  const fromLabel = label ? new RegExp(`(\\d{1,2})\\s*\\+?\\s*${DURATION_UNIT}`, "i").exec(label) : null;
+  if (fromLabel) {
+    return { value: toMonths(Number(fromLabel[1]), fromLabel[2]), confidence: 0.9 };
+  }
+  const match = DURATION_AFTER.exec(text) ?? DURATION_BEFORE.exec(text);
+  return match ? { value: toMonths(Number(match[1]), match[2]), confidence: 0.7 } : NONE;
+}
+
+function toMonths(amount: number, unit: string): number {
+  const value = unit.toLowerCase();
+  if (value.startsWith("w")) {
+    return Math.max(1, Math.round(amount / 4.345));
+  }
+  return value.startsWith("y") ? amount * 12 : amount;
+}
+
+function pickClosingDate(label: string | undefined, text: string): Scored<string> {
+  const fromLabel = label ? parseDate(label) : null;
+  if (fromLabel) {
+    return { value: fromLabel, confidence: 0.9 };
+  }
+  const phrase = CLOSING_PHRASE.exec(text);
+  const date = phrase ? parseDate(phrase[1]) : null;
+  return date ? { value: date, confidence: 0.75 } : NONE;
+}
+
+/** Absolute dates only, US order for numeric ones; returns YYYY-MM-DD. */
+export function parseDate(value: string): string | null {
+  const text = value.toLowerCase();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/.exec(text);
+  const numeric = /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/.exec(text);
+  const monthFirst = /\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/.exec(text);
+  const dayFirst = /\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})\b/.exec(text);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (numeric) {
+    [year, month, day] = [Number(numeric[3]), Number(numeric[1]), Number(numeric[2])];
+  } else if (monthFirst && MONTHS.includes(monthFirst[1])) {
+    [year, month, day] = [Number(monthFirst[3]), MONTHS.indexOf(monthFirst[1]) + 1, Number(monthFirst[2])];
+  } else if (dayFirst && MONTHS.includes(dayFirst[2])) {
+    [year, month, day] = [Number(dayFirst[3]), MONTHS.indexOf(dayFirst[2]) + 1, Number(dayFirst[1])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Splits skills into must-have and nice-to-have by the section or line they appear in. Postings default to
+ * must-have; a skill named in both places stays must-have.
+ */
+function pickSkills(
+  lines: string[],
+  findSkills: (text: string) => SkillRef[]
+): { mustHave: SkillRef[]; niceToHave: SkillRef[]; confidence: number } {
+  const mustHave = new Map<string, SkillRef>();
+  const niceToHave = new Map<string, SkillRef>();
+  let section: "must" | "nice" = "must";
+  let marked = false;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) {
+      continue;
+    }
+    const colon = line.indexOf(":");
+    const labelled = colon >= 0 && colon <= 40;
+    const head = labelled ? line.slice(0, colon) : line;
+    const content = labelled ? line.slice(colon + 1) : line;
+    const headMarker = labelled ? markerOf(head) : null;
+    const lineMarker = markerOf(line);
+    if ((labelled && !content.trim()) || (line.length <= 50 && lineMarker && !findSkills(content).length)) {
+      // Any other heading ("Responsibilities:") ends a nice-to-have section.
+      section = lineMarker ?? "must";
+      marked = marked || lineMarker !== null;
+      continue;
+    }
+    // Clauses are classified on their own so "Java required; AWS is a plus" splits across both lists.
+    for (const clause of content.split(/[;!?]|\.(?=\s|$)/)) {
+      const marker = markerOf(clause) ?? headMarker;
+      marked = marked || marker !== null;
+      for (const skill of findSkills(clause)) {
+        ((marker ?? section) === "nice" ? niceToHave : mustHave).set(skill.id, skill);
+      }
+    }
+  }
+
+  for (const id of mustHave.keys()) {
+    niceToHave.delete(id);
+  }
+  const total = mustHave.size + niceToHave.size;
+  return {
+    mustHave: Array.from(mustHave.values()),
+    niceToHave: Array.from(niceToHave.values()),
+    confidence: total === 0 ? 0 : marked ? 0.9 : 0.7
+  };
+}
+
+function markerOf(text: string): "must" | "nice" | null {
+  return NICE_MARKER.test(text) ? "nice" : MUST_MARKER.test(text) ? "must" : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -155,6 +155,7 @@ export class AuditService {
       await tx.auditLog.create({
         data: {
           tenant: { connect: { id: event.tenantId } },
+          user: event.userId ? { connect: { id: event.userId } } : undefined,
           actorRole: (event.actorRole as UserRole | undefined),
           action: event.action,
           entityType: event.entityType,
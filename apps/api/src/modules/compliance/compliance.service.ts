@@ -131,12 +131,22 @@ export class ComplianceService {
         // Delete in order to respect foreign key constraints
         await tx.matchFeedback.deleteMany({ where: { tenantId } });
         await tx.matchFeatureSnapshot.deleteMany({ where: { tenantId } });
+        await tx.matchScoreHistory.deleteMany({ where: { tenantId } });
         await tx.match.deleteMany({ where: { tenantId } });
+        await tx.matchExperiment.deleteMany({ where: { tenantId } });
+        await tx.matchFairnessAudit.deleteMany({ where: { tenantId } });
+        await tx.matchFilterPolicy.deleteMany({ where: { tenantId } });
+        await tx.matchBatchRun.deleteMany({ where: { tenantId } });
+        await tx.matchWeightSet.deleteMany({ where: { tenantId } });
+        await tx.rankingModel.deleteMany({ where: { tenantId } });
         await tx.submission.deleteMany({ where: { tenantId } });
         await tx.interview.deleteMany({ where: { tenantId } });
         await tx.requirementSkill.deleteMany({ where: { tenantId } });
         await tx.consultantSkill.deleteMany({ where: { tenantId } });
         await tx.consultantTag.deleteMany({ where: { tenantId } });
+        await tx.consultantExperience.deleteMany({ where: { tenantId } });
+        await tx.consultantEducation.deleteMany({ where: { tenantId } });
+        await tx.consultantCertification.deleteMany({ where: { tenantId } });
         await tx.identityClusterMember.deleteMany({ where: { cluster: { tenantId } } });
         await tx.identityCluster.deleteMany({ where: { tenantId } });
         await tx.identitySignature.deleteMany({ where: { tenantId } });
@@ -146,9 +156,16 @@ export class ComplianceService {
         await tx.aiActivity.deleteMany({ where: { tenantId } });
         await tx.auditLog.deleteMany({ where: { tenantId } });
         await tx.consultant.deleteMany({ where: { tenantId } });
+        await tx.requirementRevision.deleteMany({ where: { tenantId } });
+        await tx.requirementIngestion.deleteMany({ where: { tenantId } });
         await tx.requirement.deleteMany({ where: { tenantId } });
         await tx.featureFlag.deleteMany({ where: { tenantId } });
         await tx.searchDocument.deleteMany({ where: { tenantId } });
+        await tx.searchIndexRun.deleteMany({ where: { tenantId } });
+        await tx.savedSearchRun.deleteMany({ where: { tenantId } });
+        await tx.savedSearch.deleteMany({ where: { tenantId } });
+        await tx.mailboxRoutingRule.deleteMany({ where: { tenantId } });
+        await tx.tenantMailbox.deleteMany({ where: { tenantId } });
         await tx.user.deleteMany({ where: { tenantId } });
         
         // Delete billing and integration data
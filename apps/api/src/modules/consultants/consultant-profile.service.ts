@@ -0,0 +1,197 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { ConsultantProfileSource } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { ConsultantsService } from "./consultants.service";
+import {
+  CreateConsultantCertificationDto,
+  CreateConsultantEducationDto,
+  CreateConsultantExperienceDto,
+  UpdateConsultantCertificationDto,
+  UpdateConsultantEducationDto,
+  UpdateConsultantExperienceDto
+} from "./dto/consultant-profile.dto";
+
+/**
+ * Recruiter edits to the work history, education and certifications parsed from resumes. Every write is stored as
+ * MANUAL so the next resume upload, which only replaces RESUME rows, does not undo the correction.
+ */
+@Injectable()
+export class ConsultantProfileService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly consultants: ConsultantsService
+  ) {}
+
+  async addExperience(tenantId: string, consultantId: string, dto: CreateConsultantExperienceDto) {
+    await this.assertConsultant(tenantId, consultantId);
+    await this.assertSkills(dto.skillIds);
+    const current = dto.current ?? false;
+    const startDate = toDate(dto.startDate);
+    const endDate = current ? null : toDate(dto.endDate);
+    assertRange(startDate, endDate);
+
+    const experience = await this.prisma.consultantExperience.create({
+      data: {
+        tenantId,
+        consultantId,
+        source: ConsultantProfileSource.MANUAL,
+        employer: dto.employer,
+        title: dto.title,
+        startDate,
+        endDate,
+        current,
+        description: dto.description,
+        skillIds: dto.skillIds ?? []
+      }
+    });
+    await this.consultants.scheduleRefresh(tenantId, consultantId);
+    return experience;
+  }
+
+  async updateExperience(tenantId: string, consultantId: string, entryId: string, dto: UpdateConsultantExperienceDto) {
+    const existing = await this.prisma.consultantExperience.findFirst({ where: { id: entryId, tenantId, consultantId } });
+    if (!existing) {
+      throw new NotFoundException(`Experience ${entryId} not found`);
+    }
+    await this.assertSkills(dto.skillIds);
+    const current = dto.current ?? existing.current;
+    const startDate = dto.startDate !== undefined ? toDate(dto.startDate) : existing.startDate;
+    const endDate = current ? null : dto.endDate !== undefined ? toDate(dto.endDate) : existing.endDate;
+    assertRange(startDate, endDate);
+
+    const experience = await this.prisma.consultantExperience.update({
+      where: { id: entryId },
+      data: {
+        source: ConsultantProfileSource.MANUAL,
+        employer: dto.employer,
+        title: dto.title,
+        startDate,
+        endDate,
+        current,
+        description: dto.description,
+        skillIds: dto.skillIds
+      }
+    });
+    await this.consultants.scheduleRefresh(tenantId, consultantId);
+    return experience;
+  }
+
+  async removeExperience(tenantId: string, consultantId: string, entryId: string) {
+    const { count } = await this.prisma.consultantExperience.deleteMany({ where: { id: entryId, tenantId, consultantId } });
+    if (count === 0) {
+      throw new NotFoundException(`Experience ${entryId} not found`);
+    }
+    await this.consultants.scheduleRefresh(tenantId, consultantId);
+    return { id: entryId, deleted: true };
+  }
+
+  async addEducation(tenantId: string, consultantId: string, dto: CreateConsultantEducationDto) {
+    await this.assertConsultant(tenantId, consultantId);
+    const education = await this.prisma.consultantEducation.create({
+      data: { tenantId, consultantId, source: ConsultantProfileSource.MANUAL, ...dto }
+    });
+    await this.consultants.scheduleRefresh(tenantId, consultantId);
+    return education;
+  }
+
+  async updateEducation(tenantId: string, consultantId: string, entryId: string, dto: UpdateConsultantEducationDto) {
+    const existing = await this.prisma.consultantEducation.findFirst({ where: { id: entryId, tenantId, consultantId } });
+    if (!existing) {
+      throw new NotFoundException(`Education ${entryId} not found`);
+    }
+    const education = await this.prisma.consultantEducation.update({
+      where: { id: entryId },
+      data: { source: ConsultantProfileSource.MANUAL, ...dto }
+    });
+    await this.consultants.scheduleRefresh(tenantId, consultantId);
+    return education;
+  }
+
+  async removeEducation(tenantId: string, consultantId: string, entryId: string) {
+    const { count } = await this.prisma.consultantEducation.deleteMany({ where: { id: entryId, tenantId, consultantId } });
+    if (count === 0) {
+      throw new NotFoundException(`Education ${entryId} not found`);
+    }
+    await this.consultants.scheduleRefresh(tenantId, consultantId);
+    return { id: entryId, deleted: true };
+  }
+
+  async addCertification(tenantId: string, consultantId: string, dto: CreateConsultantCertificationDto) {
+    await this.assertConsultant(tenantId, consultantId);
+    const certification = await this.prisma.consultantCertification.create({
+      data: {
+        tenantId,
+        consultantId,
+        source: ConsultantProfileSource.MANUAL,
+        name: dto.name,
+        issuer: dto.issuer,
+        year: dto.year,
+        expiresAt: toDate(dto.expiresAt)
+      }
+    });
+    await this.consultants.scheduleRefresh(tenantId, consultantId);
+    return certification;
+  }
+
+  async updateCertification(
+    tenantId: string,
+    consultantId: string,
+    entryId: string,
+    dto: UpdateConsultantCertificationDto
+  ) {
+    const existing = await this.prisma.consultantCertification.findFirst({ where: { id: entryId, tenantId, consultantId } });
+    if (!existing) {
+      throw new NotFoundException(`Certification ${entryId} not found`);
+    }
+    const certification = await this.prisma.consultantCertification.update({
+      where: { id: entryId },
+      data: {
+        source: ConsultantProfileSource.MANUAL,
+        name: dto.name,
+        issuer: dto.issuer,
+        year: dto.year,
+        expiresAt: dto.expiresAt !== undefined ? toDate(dto.expiresAt) : undefined
+      }
+    });
+    await this.consultants.scheduleRefresh(tenantId, consultantId);
+    return certification;
+  }
+
+  async removeCertification(tenantId: string, consultantId: string, entryId: string) {
+    const { count } = await this.prisma.consultantCertification.deleteMany({ where: { id: entryId, tenantId, consultantId } });
+    if (count === 0) {
+      throw new NotFoundException(`Certification ${entryId} not found`);
+    }
+    await this.consultants.scheduleRefresh(tenantId, consultantId);
+    return { id: entryId, deleted: true };
+  }
+
+  private async assertConsultant(tenantId: string, consultantId: string) {
+    const consultant = await this.prisma.consultant.findFirst({ where: { id: consultantId, tenantId }, select: { id: true } });
+    if (!consultant) {
+      throw new NotFoundException(`Consultant ${consultantId} not found`);
+    }
+  }
+
+  private async assertSkills(skillIds?: string[]) {
+    if (!skillIds?.length) {
+      return;
+    }
+    const unique = [...new Set(skillIds)];
+    const found = await this.prisma.skill.count({ where: { id: { in: unique } } });
+    if (found !== unique.length) {
+      throw new BadRequestException("skillIds contains unknown skills");
+    }
+  }
+}
+
+function toDate(value?: string): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function assertRange(startDate: Date | null, endDate: Date | null) {
+  if (startDate && endDate && endDate < startDate) {
+    throw new BadRequestException("endDate must not be before startDate");
+  }
+}
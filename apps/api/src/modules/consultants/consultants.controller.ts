@@ -1,13 +1,25 @@
-import { Body, Controller, Get, Param, Patch, Post, Query } from "@nestjs/common";
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from "@nestjs/common";
 import { UserRole } from "@prisma/client";
 
 import { Roles } from "../auth/decorators/roles.decorator";
+import { ConsultantProfileService } from "./consultant-profile.service";
 import { ConsultantsService } from "./consultants.service";
 import { CreateConsultantDto, UpdateConsultantDto } from "./dto/consultant.dto";
+import {
+  CreateConsultantCertificationDto,
+  CreateConsultantEducationDto,
+  CreateConsultantExperienceDto,
+  UpdateConsultantCertificationDto,
+  UpdateConsultantEducationDto,
+  UpdateConsultantExperienceDto
+} from "./dto/consultant-profile.dto";
 
 @Controller("tenants/:tenantId/consultants")
 export class ConsultantsController {
-  constructor(private readonly consultantsService: ConsultantsService) {}
+  constructor(
+    private readonly consultantsService: ConsultantsService,
+    private readonly profileService: ConsultantProfileService
+  ) {}
 
   @Get()
   @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP, UserRole.VIEWER)
@@ -39,4 +51,97 @@ export class ConsultantsController {
   ) {
     return this.consultantsService.update(tenantId, id, dto);
   }
+
+  @Post(":id/experience")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  addExperience(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Body() dto: CreateConsultantExperienceDto
+  ) {
+    return this.profileService.addExperience(tenantId, id, dto);
+  }
+
+  @Patch(":id/experience/:entryId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  updateExperience(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Param("entryId") entryId: string,
+    @Body() dto: UpdateConsultantExperienceDto
+  ) {
+    return this.profileService.updateExperience(tenantId, id, entryId, dto);
+  }
+
+  @Delete(":id/experience/:entryId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  removeExperience(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Param("entryId") entryId: string
+  ) {
+    return this.profileService.removeExperience(tenantId, id, entryId);
+  }
+
+  @Post(":id/education")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  addEducation(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Body() dto: CreateConsultantEducationDto
+  ) {
+    return this.profileService.addEducation(tenantId, id, dto);
+  }
+
+  @Patch(":id/education/:entryId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  updateEducation(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Param("entryId") entryId: string,
+    @Body() dto: UpdateConsultantEducationDto
+  ) {
+    return this.profileService.updateEducation(tenantId, id, entryId, dto);
+  }
+
+  @Delete(":id/education/:entryId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  removeEducation(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Param("entryId") entryId: string
+  ) {
+    return this.profileService.removeEducation(tenantId, id, entryId);
+  }
+
+  @Post(":id/certifications")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  addCertification(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Body() dto: CreateConsultantCertificationDto
+  ) {
+    return this.profileService.addCertification(tenantId, id, dto);
+  }
+
+  @Patch(":id/certifications/:entryId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  updateCertification(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Param("entryId") entryId: string,
+    @Body() dto: UpdateConsultantCertificationDto
+  ) {
+    return this.profileService.updateCertification(tenantId, id, entryId, dto);
+  }
+
+  @Delete(":id/certifications/:entryId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  removeCertification(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Param("entryId") entryId: string
+  ) {
+    return this.profileService.removeCertification(tenantId, id, entryId);
+  }
 }
@@ -1,12 +1,14 @@
 ﻿import { Module } from "@nestjs/common";
 
 import { DedupeModule } from "../dedupe/dedupe.module";
+import { IngestionQueueModule } from "../ingestion/ingestion-queue.module";
+import { ConsultantProfileService } from "./consultant-profile.service";
 import { ConsultantsController } from "./consultants.controller";
 import { ConsultantsService } from "./consultants.service";
 
 @Module({
-  imports: [DedupeModule],
+  imports: [DedupeModule, IngestionQueueModule],
   controllers: [ConsultantsController],
-  providers: [ConsultantsService]
+  providers: [ConsultantsService, ConsultantProfileService]
 })
 export class ConsultantsModule {}
@@ -1,13 +1,20 @@
-import { Injectable, NotFoundException } from "@nestjs/common";
-import { Prisma } from "@prisma/client";
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Prisma, SearchEntityType } from "@prisma/client";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
 import { DedupeService } from "../dedupe/dedupe.service";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
 import { CreateConsultantDto, UpdateConsultantDto } from "./dto/consultant.dto";
 
 @Injectable()
 export class ConsultantsService {
-  constructor(private readonly prisma: PrismaService, private readonly dedupe: DedupeService) {}
+  private readonly logger = new Logger(ConsultantsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly dedupe: DedupeService,
+    private readonly queue: IngestionQueueService
+  ) {}
 
   list(tenantId: string, search?: string) {
     return this.prisma.consultant.findMany({
@@ -37,7 +44,10 @@ export class ConsultantsService {
         skills: { include: { skill: true } },
         tags: true,
         submissions: true,
-        documents: { include: { metadata: true } }
+        documents: { include: { metadata: true } },
+        experiences: { orderBy: [{ current: "desc" }, { startDate: "desc" }] },
+        education: { orderBy: { graduationYear: "desc" } },
+        certifications: { orderBy: { name: "asc" } }
       }
     });
 
@@ -74,6 +84,7 @@ export class ConsultantsService {
     });
 
     await this.dedupe.refreshConsultantSignatures(dto.tenantId, consultant.id);
+    await this.enqueueIndex(dto.tenantId, consultant.id);
 
     return consultant;
   }
@@ -113,7 +124,27 @@ export class ConsultantsService {
     });
 
     await this.dedupe.refreshConsultantSignatures(tenantId, result.id);
+    await this.scheduleRefresh(tenantId, id);
 
     return result;
   }
+
+  /** Re-indexes the consultant and re-scores their open matches after a profile change. */
+  async scheduleRefresh(tenantId: string, consultantId: string) {
+    await this.enqueueIndex(tenantId, consultantId);
+
+    try {
+      await this.queue.enqueueMatchRescore({ tenantId, trigger: "CONSULTANT_UPDATED", consultantId });
+    } catch (error) {
+      this.logger.warn(`Failed to enqueue match re-scoring for consultant ${consultantId}: ${(error as Error).message}`);
+    }
+  }
+
+  private async enqueueIndex(tenantId: string, consultantId: string) {
+    try {
+      await this.queue.enqueueSearchIndex({ tenantId, entityType: SearchEntityType.CONSULTANT, entityId: consultantId });
+    } catch (error) {
+      this.logger.warn(`Failed to enqueue search indexing for consultant ${consultantId}: ${(error as Error).message}`);
+    }
+  }
 }
@@ -0,0 +1,96 @@
+import { PartialType } from "@nestjs/mapped-types";
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min
+} from "class-validator";
+
+export class CreateConsultantExperienceDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  employer?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  title?: string;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  current?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(10_000)
+  description?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  skillIds?: string[];
+}
+
+export class UpdateConsultantExperienceDto extends PartialType(CreateConsultantExperienceDto) {}
+
+export class CreateConsultantEducationDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  institution?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  degree?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  field?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1950)
+  @Max(2100)
+  graduationYear?: number;
+}
+
+export class UpdateConsultantEducationDto extends PartialType(CreateConsultantEducationDto) {}
+
+export class CreateConsultantCertificationDto {
+  @IsString()
+  @MaxLength(200)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  issuer?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1950)
+  @Max(2100)
+  year?: number;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class UpdateConsultantCertificationDto extends PartialType(CreateConsultantCertificationDto) {}
@@ -0,0 +1,67 @@
+import { Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested
+} from "class-validator";
+
+import { SearchEntityType } from "@prisma/client";
+
+import { SearchFiltersDto } from "../../vector-search/dto/hybrid-search.dto";
+
+export class LabelledSearchQueryDto {
+  @IsString()
+  @MaxLength(2000)
+  query!: string;
+
+  @IsOptional()
+  @IsEnum(SearchEntityType, { each: true })
+  entityTypes?: SearchEntityType[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SearchFiltersDto)
+  filters?: SearchFiltersDto;
+
+  /** Entity ids judged relevant for the query. */
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  expectedIds!: string[];
+
+  /** Optional graded relevance per entity id; ids without a grade count as 1. */
+  @IsOptional()
+  @IsObject()
+  grades?: Record<string, number>;
+}
+
+export class SearchFusionEvalDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => LabelledSearchQueryDto)
+  queries!: LabelledSearchQueryDto[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  k?: number;
+
+  /** Minimum grade counted as a hit for MRR and hit rate. */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  relevanceThreshold?: number;
+}
@@ -2,6 +2,7 @@ import { Body, Controller, Get, Param, Post } from "@nestjs/common";
 import { UserRole } from "@prisma/client";
 
 import { Roles } from "../auth/decorators/roles.decorator";
+import { SearchFusionEvalDto } from "./dto/search-fusion-eval.dto";
 import { EvalsService } from "./evals.service";
 
 @Controller("tenants/:tenantId/evals")
@@ -14,6 +15,12 @@ export class EvalsController {
     return this.evals.submitRetrievalEval(tenantId, body);
   }
 
+  @Post("search-fusion")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  compareSearchFusion(@Param("tenantId") tenantId: string, @Body() body: SearchFusionEvalDto) {
+    return this.evals.compareSearchFusion(tenantId, body);
+  }
+
   @Get("metrics")
   @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
   metrics(@Param("tenantId") tenantId: string) {
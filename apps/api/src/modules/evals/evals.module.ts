@@ -1,9 +1,11 @@
 import { Module } from "@nestjs/common";
 
+import { VectorSearchModule } from "../vector-search/vector-search.module";
 import { EvalsController } from "./evals.controller";
 import { EvalsService } from "./evals.service";
 
 @Module({
+  imports: [VectorSearchModule],
   controllers: [EvalsController],
   providers: [EvalsService]
 })
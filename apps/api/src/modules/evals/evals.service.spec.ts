@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { VectorSearchService } from "../vector-search/vector-search.service";
+import { EvalsService } from "./evals.service";
+
+describe("EvalsService.compareSearchFusion", () => {
+  const hits = (...ids: string[]) => ids.map((entityId) => ({ entityId }));
+
+  it("scores each strategy against the labelled ids and picks the best", async () => {
+    const vectorSearchMock = {
+      rankByStrategy: vi.fn().mockResolvedValue({
+        linear: hits("x", "a", "b"),
+        rrf: hits("a", "b", "x"),
+        minmax: hits("x", "y", "z")
+      })
+    };
+    const service = new EvalsService(vectorSearchMock as unknown as VectorSearchService);
+
+    const report = await service.compareSearchFusion("tenant-1", {
+      queries: [{ query: "react developer", expectedIds: ["a", "b"] }],
+      k: 3
+    });
+
+    expect(vectorSearchMock.rankByStrategy).toHaveBeenCalledWith("tenant-1", expect.objectContaining({ limit: 3 }));
+    expect(report.strategies.rrf).toEqual({ ndcg: 1, mrr: 1, hitRate: 1 });
+    expect(report.strategies.linear.mrr).toBeCloseTo(0.5, 6);
+    expect(report.strategies.minmax).toEqual({ ndcg: 0, mrr: 0, hitRate: 0 });
+    expect(report.best).toBe("rrf");
+  });
+});
@@ -1,7 +1,34 @@
 import { Injectable } from "@nestjs/common";
 
+import {
+  computeDiscountedCumulativeGain,
+  computeHitRate,
+  computeMean,
+  computeReciprocalRank,
+  safeDivide
+} from "../matching/evaluation/evaluation.metrics";
+import { FUSION_STRATEGIES, FusionStrategy } from "../vector-search/fusion";
+import { VectorSearchService } from "../vector-search/vector-search.service";
+import type { SearchFusionEvalDto } from "./dto/search-fusion-eval.dto";
+
+export interface FusionStrategyMetrics {
+  ndcg: number;
+  mrr: number;
+  hitRate: number;
+}
+
+export interface SearchFusionEvalReport {
+  k: number;
+  queryCount: number;
+  strategies: Record<FusionStrategy, FusionStrategyMetrics>;
+  best: FusionStrategy;
+  queries: Array<{ query: string } & Record<FusionStrategy, FusionStrategyMetrics>>;
+}
+
 @Injectable()
 export class EvalsService {
+  constructor(private readonly vectorSearch: VectorSearchService) {}
+
   async submitRetrievalEval(_tenantId: string, payload: { pairs: Array<{ query: string; expectedIds: string[] }> }) {
     // Stub: ingest labeled pairs
     return { status: "queued", count: payload.pairs.length };
@@ -10,6 +37,59 @@ export class EvalsService {
   async metrics(_tenantId: string) {
     return { recallAt50: 0.0, latencyP95Ms: 0 };
   }
-}
 
+  /** Runs each labelled query once and scores every fusion strategy on the same candidate pool. */
+  async compareSearchFusion(tenantId: string, payload: SearchFusionEvalDto): Promise<SearchFusionEvalReport> {
+    const k = payload.k ?? 10;
+    const threshold = payload.relevanceThreshold ?? 1;
+    const queries: SearchFusionEvalReport["queries"] = [];
 
+    for (const labelled of payload.queries) {
+      const grades = new Map(labelled.expectedIds.map((id) => [id, labelled.grades?.[id] ?? 1]));
+      const rankings = await this.vectorSearch.rankByStrategy(tenantId, {
+        query: labelled.query,
+        entityTypes: labelled.entityTypes,
+        filters: labelled.filters,
+        limit: k
+      });
+      // nDCG is normalised against every labelled id, so relevant documents that were never retrieved count.
+      const idealDcg = computeDiscountedCumulativeGain(Array.from(grades.values()).sort((a, b) => b - a), k);
+
+      const perStrategy = Object.fromEntries(
+        FUSION_STRATEGIES.map((strategy) => {
+          const relevances = rankings[strategy].map((hit) => grades.get(hit.entityId) ?? 0);
+          return [
+            strategy,
+            {
+              ndcg: safeDivide(computeDiscountedCumulativeGain(relevances, k), idealDcg),
+              mrr: computeReciprocalRank(relevances, k, threshold),
+              hitRate: computeHitRate(relevances, k, threshold)
+            }
+          ];
+        })
+      ) as Record<FusionStrategy, FusionStrategyMetrics>;
+
+      queries.push({ query: labelled.query, ...perStrategy });
+    }
+
+    const strategies = Object.fromEntries(
+      FUSION_STRATEGIES.map((strategy) => [
+        strategy,
+        {
+          ndcg: computeMean(queries.map((item) => item[strategy].ndcg)),
+          mrr: computeMean(queries.map((item) => item[strategy].mrr)),
+          hitRate: computeMean(queries.map((item) => item[strategy].hitRate))
+        }
+      ])
+    ) as Record<FusionStrategy, FusionStrategyMetrics>;
+
+    const best = FUSION_STRATEGIES.reduce((leader, strategy) =>
+      strategies[strategy].ndcg > strategies[leader].ndcg ||
+      (strategies[strategy].ndcg === strategies[leader].ndcg && strategies[strategy].mrr > strategies[leader].mrr)
+        ? strategy
+        : leader
+    );
+
+    return { k, queryCount: queries.length, strategies, best, queries };
+  }
+}
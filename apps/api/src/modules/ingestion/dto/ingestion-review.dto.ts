@@ -0,0 +1,58 @@
+import { OmitType, PartialType } from "@nestjs/mapped-types";
+import { Type } from "class-transformer";
+import { IsArray, IsEmail, IsIn, IsOptional, IsString, MaxLength, ValidateNested } from "class-validator";
+
+import { CreateRequirementDto, RequirementSkillInput } from "../../requirements/dto/requirement.dto";
+
+export const INGESTION_REVIEW_KINDS = ["requirement", "resume"] as const;
+export type IngestionReviewKind = (typeof INGESTION_REVIEW_KINDS)[number];
+
+export class ListIngestionReviewsQueryDto {
+  @IsOptional()
+  @IsIn(INGESTION_REVIEW_KINDS)
+  kind?: IngestionReviewKind;
+}
+
+/** Reviewer corrections applied over the extracted fields; omitted fields keep the extracted value. */
+export class ApproveRequirementReviewDto extends PartialType(
+  OmitType(CreateRequirementDto, ["tenantId", "status", "source", "skills"] as const)
+) {
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RequirementSkillInput)
+  skills?: RequirementSkillInput[];
+}
+
+/**
+ * Attach the resume to an existing consultant, or create one from the parsed candidate with any of the identity
+ * fields corrected.
+ */
+export class ApproveResumeReviewDto {
+  @IsOptional()
+  @IsString()
+  consultantId?: string;
+
+  @IsOptional()
+  @IsString()
+  firstName?: string;
+
+  @IsOptional()
+  @IsString()
+  lastName?: string;
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+}
+
+export class RejectIngestionReviewDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,115 @@
+import { OmitType, PartialType } from "@nestjs/mapped-types";
+import { MailboxKind, MailboxRoute } from "@prisma/client";
+import {
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min
+} from "class-validator";
+
+import { MAX_SUBJECT_PATTERN_LENGTH } from "../mailbox-routing";
+
+/**
+ * IMAP mailboxes need host, username and password. INBOUND mailboxes need none; they are given a webhook token on
+ * creation and may claim an address for the SMTP listener.
+ */
+export class CreateMailboxDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name!: string;
+
+  @IsOptional()
+  @IsEnum(MailboxKind)
+  kind?: MailboxKind;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  host?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  port?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  secure?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  username?: string;
+
+  /** Stored encrypted and never returned. */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  password?: string;
+
+  /** Recipient address the SMTP listener accepts for this mailbox. */
+  @IsOptional()
+  @IsEmail()
+  inboundAddress?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  folder?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(30)
+  @Max(3600)
+  pollIntervalSeconds?: number;
+}
+
+export class UpdateMailboxDto extends PartialType(OmitType(CreateMailboxDto, ["kind"] as const)) {}
+
+/** A rule needs at least one condition (senderDomain, subjectPattern) and one effect (clientName, route). */
+export class CreateMailboxRoutingRuleDto {
+  /** Omit to apply the rule to every mailbox of the tenant. */
+  @IsOptional()
+  @IsString()
+  mailboxId?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  priority?: number;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^@?[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/, { message: "senderDomain must be a domain such as acme.com" })
+  senderDomain?: string;
+
+  /** Case-insensitive glob (`*`, `?`) matched anywhere in the subject. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_SUBJECT_PATTERN_LENGTH)
+  subjectPattern?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  clientName?: string;
+
+  @IsOptional()
+  @IsEnum(MailboxRoute)
+  route?: MailboxRoute;
+}
+
+export class UpdateMailboxRoutingRuleDto extends PartialType(CreateMailboxRoutingRuleDto) {}
@@ -1,21 +1,37 @@
-import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { Injectable, Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
-import { IngestionStatus, RequirementSource, DocumentAssetType, Prisma } from "@prisma/client";
-import { ImapFlow } from "imapflow";
+import {
+  DocumentAssetType,
+  IngestionReviewReason,
+  IngestionStatus,
+  MailboxRoute,
+  Prisma,
+  RequirementSource
+} from "@prisma/client";
 import { simpleParser } from "mailparser";
 import { createHash } from "node:crypto";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { EXTRACTION_FIELDS, ExtractionField, RequirementExtraction } from "../ai-gateway/requirement-extraction";
 import { DocumentsService } from "../documents/documents.service";
-import { IngestionConfig, EmailIngestionConfig } from "./ingestion.types";
+import { IngestionConfig, EmailIngestionTarget, EmailProcessingOutcome } from "./ingestion.types";
 import { IngestionQueueService } from "./ingestion.queue";
-
+import { EmailThreadHeaders, isReply, stripQuotedReply, threadAncestors, threadHeaders } from "./email-thread";
+import { fromParsedMail, InboundEmail } from "./inbound-email";
+import { resolveMailboxRoute } from "./mailbox-routing";
+
+// Raw source kept for a reviewer when a message cannot be processed; enough to judge it without every attachment.
+const MAX_HELD_SOURCE_CHARS = 100_000;
+
+/**
+ * Turns one email into ingestion work for the tenant that owns the receiving mailbox. The tenant's routing rules
+ * decide whether the body is a requirement, the attachments are resumes, or the message is ignored, and may name the
+ * client for the requirement extractor.
+ */
 @Injectable()
-export class EmailIngestionService implements OnModuleInit, OnModuleDestroy {
+export class EmailIngestionService {
   private readonly logger = new Logger(EmailIngestionService.name);
-  private readonly emailConfig: EmailIngestionConfig;
-  private client: ImapFlow | null = null;
-  private pollHandle: NodeJS.Timeout | null = null;
+  private readonly attachmentWhitelist: Set<string>;
 
   constructor(
     private readonly configService: ConfigService,
@@ -24,120 +40,61 @@ export class EmailIngestionService implements OnModuleInit, OnModuleDestroy {
     private readonly prisma: PrismaService
   ) {
     const ingestion = (this.configService.get<IngestionConfig>("ingestion") ?? {}) as IngestionConfig;
-    this.emailConfig = ingestion.email ?? {
-      enabled: false,
-      mailbox: "INBOX",
-      pollIntervalMs: 60_000,
-      attachmentMimeWhitelist: ["application/pdf"],
-      defaultTenantId: "demo-tenant"
-    };
-  }
-
-  async onModuleInit() {
-    if (!this.emailConfig.enabled) {
-      this.logger.log("Email ingestion disabled");
-      return;
-    }
-
-    try {
-      await this.connect();
-      await this.pollMailbox();
-      this.pollHandle = setInterval(() => this.safePoll(), this.emailConfig.pollIntervalMs);
-    } catch (error) {
-      this.logger.error(`Failed to initialize IMAP ingestion: ${(error as Error).message}`);
-    }
-  }
-
-  async onModuleDestroy() {
-    if (this.pollHandle) {
-      clearInterval(this.pollHandle);
-      this.pollHandle = null;
-    }
-    if (this.client) {
-      try { await this.client.logout(); } catch {}
-      try { await this.client.close(); } catch {}
-      this.client = null;
-    }
+    this.attachmentWhitelist = new Set(
+      (ingestion.email?.attachmentMimeWhitelist ?? ["application/pdf"]).map((item) => item.toLowerCase())
+    );
   }
 
-  private async connect() {
-    const { host, port, secure, user, password, mailbox } = this.emailConfig;
-    if (!host || !user || !password) {
-      throw new Error("IMAP configuration incomplete");
-    }
-    this.client = new ImapFlow({
-      host,
-      port: port ?? 993,
-      secure: secure ?? true,
-      auth: { user, pass: password }
+  /**
+   * Shared by every inbound path: IMAP polling and the SMTP listener pass raw RFC 822 bytes, the inbound webhook may
+   * pass a message a mail provider has already parsed.
+   */
+  async processMessage(target: EmailIngestionTarget, source: Buffer | InboundEmail): Promise<EmailProcessingOutcome> {
+    const { tenantId } = target;
+    const parsed = Buffer.isBuffer(source) ? fromParsedMail(await simpleParser(source)) : source;
+    const subject = parsed.subject ?? "";
+    const rules = await this.prisma.mailboxRoutingRule.findMany({
+      where: { tenantId, OR: [{ mailboxId: null }, { mailboxId: target.mailboxId }] }
     });
-    await this.client.connect();
-    await this.client.mailboxOpen(mailbox ?? "INBOX");
-    this.logger.log(`Connected to IMAP mailbox ${mailbox ?? "INBOX"}`);
-  }
+    const { route, clientName } = resolveMailboxRoute(rules, {
+      mailboxId: target.mailboxId,
+      from: parsed.from,
+      subject
+    });
+    const outcome: EmailProcessingOutcome = { route, clientName, requirementIngestionId: null, resumeDocumentIds: [] };
 
-  private async safePoll() {
-    try {
-      await this.pollMailbox();
-    } catch (error) {
-      this.logger.error(`Email ingestion poll failure: ${(error as Error).message}`);
-      if (!this.client || !this.client.usable) {
-        await this.reconnect();
-      }
+    if (route === MailboxRoute.IGNORE) {
+      this.logger.log(`Ignored email "${subject}" for tenant ${tenantId} by routing rule`);
+      return outcome;
     }
-  }
-
-  private async reconnect() {
-    await this.onModuleDestroy();
-    await this.connect();
-  }
 
-  private async pollMailbox() {
-    if (!this.client) {
-      return;
-    }
-    const mailbox = this.emailConfig.mailbox ?? "INBOX";
-    const lock = await this.client.getMailboxLock(mailbox);
-    try {
-      const unseen = (await this.client.search({ seen: false })) as unknown as number[];
-      for (const seq of unseen) {
-        const message: any = await this.client.fetchOne(seq, { uid: true, source: true, envelope: true } as any);
-        if (!message || !(message as any).source) {
-          continue;
-        }
-        await this.processMessage((message as any).source as Buffer, (message.envelope && message.envelope.subject) ? String(message.envelope.subject) : undefined);
-        if ((message as any).uid) {
-          await this.client.messageFlagsAdd({ uid: (message as any).uid }, ["\\Seen"] as any);
-        }
-      }
-    } finally {
-      lock.release();
+    const html = parsed.html ?? "";
+    const thread = threadHeaders(parsed);
+    const reply = isReply(thread);
+    // A reply such as "rate is now $85/hr" is short once the quoted posting is dropped, and still worth applying.
+    const fullText = parsed.text ?? this.stripHtml(html);
+    const textContent = reply ? stripQuotedReply(fullText) : fullText;
+    const minimumLength = reply ? 0 : 50;
+
+    if (route !== MailboxRoute.RESUME && textContent.trim().length > minimumLength) {
+      outcome.requirementIngestionId = await this.enqueueRequirementIngestion(tenantId, textContent, {
+        subject,
+        clientName,
+        thread
+      });
     }
-  }
-
-  private async processMessage(source: Buffer, subject?: string) {
-    const tenantId = this.emailConfig.defaultTenantId ?? "demo-tenant";
-    const parsed = await simpleParser(source);
-    const html = typeof parsed.html === "string" ? parsed.html : "";
-    const textContent = parsed.text ?? this.stripHtml(html);
 
-    if (textContent.trim().length > 50) {
-      await this.enqueueRequirementIngestion(tenantId, textContent, subject ?? parsed.subject ?? "");
+    if (route === MailboxRoute.REQUIREMENT) {
+      return outcome;
     }
 
-    const whitelist = new Set(
-      (this.emailConfig.attachmentMimeWhitelist ?? ["application/pdf"]).map((item) => item.toLowerCase())
-    );
-
-    if (parsed.attachments?.length) {
+    if (parsed.attachments.length) {
       for (const attachment of parsed.attachments) {
         const contentType = attachment.contentType?.toLowerCase() ?? "application/octet-stream";
-        if (!whitelist.has(contentType)) {
+        if (!this.attachmentWhitelist.has(contentType)) {
           continue;
         }
-        const buffer = Buffer.isBuffer(attachment.content)
-          ? (attachment.content as Buffer)
-          : Buffer.from(attachment.content as Uint8Array);
+        const buffer = attachment.content;
         const fileName = attachment.filename ?? `attachment-${Date.now()}`;
 
         const result = await this.documents.ingestBinary(tenantId, {
@@ -156,13 +113,76 @@ export class EmailIngestionService implements OnModuleInit, OnModuleDestroy {
             contentType: result.document.contentType,
             source: "email"
           });
+          outcome.resumeDocumentIds.push(result.document.id);
         }
       }
     }
+
+    return outcome;
   }
 
-  private async enqueueRequirementIngestion(tenantId: string, content: string, subject: string) {
-    const contentHash = createHash("md5").update(content).digest("hex");
+  /**
+   * Sets aside a message that keeps failing to process: its raw source waits in the review queue as an UNPROCESSABLE
+   * requirement ingestion, so a reviewer can reject it or approve it with the fields filled in by hand.
+   */
+  async holdUnprocessable(target: EmailIngestionTarget, source: Buffer, reason: string): Promise<string> {
+    const { tenantId } = target;
+    const contentHash = createHash("md5").update(source).digest("hex");
+    const existing = await this.prisma.requirementIngestion.findUnique({
+      where: { tenantId_contentHash: { tenantId, contentHash } },
+      select: { id: true }
+    });
+    if (existing) {
+      return existing.id;
+    }
+
+    const text = source.toString("utf8");
+    const headerEnd = text.search(/\r?\n\r?\n/);
+    const headers = text.slice(0, headerEnd === -1 ? undefined : headerEnd);
+    const subject = headers.match(/^subject:[ \t]*(.*)$/im)?.[1]?.trim();
+    const fieldConfidence = Object.fromEntries(EXTRACTION_FIELDS.map((field) => [field, 0]));
+    const extraction: RequirementExtraction = {
+      title: null,
+      clientName: null,
+      location: null,
+      workMode: null,
+      type: null,
+      rate: null,
+      durationMonths: null,
+      closesAt: null,
+      mustHaveSkills: [],
+      niceToHaveSkills: [],
+      description: "",
+      fieldConfidence: fieldConfidence as Record<ExtractionField, number>,
+      confidence: 0
+    };
+    const ingestion = await this.prisma.requirementIngestion.create({
+      data: {
+        tenantId,
+        source: RequirementSource.EMAIL,
+        rawContent: text.slice(0, MAX_HELD_SOURCE_CHARS),
+        contentHash,
+        status: IngestionStatus.PENDING_REVIEW,
+        reviewReason: IngestionReviewReason.UNPROCESSABLE,
+        parsedData: { ...extraction, subject } as unknown as Prisma.InputJsonValue,
+        confidence: 0,
+        error: reason.slice(0, 1000)
+      }
+    });
+    this.logger.warn(`Email for mailbox ${target.mailboxId} held for review as ingestion ${ingestion.id}: ${reason}`);
+    return ingestion.id;
+  }
+
+  private async enqueueRequirementIngestion(
+    tenantId: string,
+    content: string,
+    hints: { subject: string; clientName: string | null; thread: EmailThreadHeaders }
+  ) {
+    const { subject, clientName, thread } = hints;
+    // Replies are hashed with the message they answer so the same short update in two threads is not deduplicated.
+    const contentHash = createHash("md5")
+      .update(isReply(thread) ? `${threadAncestors(thread)[0]}\n${content}` : content)
+      .digest("hex");
     const existing = await this.prisma.requirementIngestion.findUnique({
       where: {
         tenantId_contentHash: {
@@ -183,7 +203,10 @@ export class EmailIngestionService implements OnModuleInit, OnModuleDestroy {
         rawContent: content,
         contentHash,
         status: IngestionStatus.PENDING,
-        parsedData: { subject } as Prisma.InputJsonValue
+        parsedData: { subject, clientName } as Prisma.InputJsonValue,
+        messageId: thread.messageId,
+        inReplyTo: thread.inReplyTo,
+        references: thread.references
       }
     });
     await this.queue.enqueueRequirement({ tenantId, ingestionId: ingestion.id });
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { stripQuotedReply, threadAncestors, threadHeaders } from "./email-thread";
+
+describe("threadHeaders", () => {
+  it("normalizes mailparser's header values and orders ancestors closest first", () => {
+    const headers = threadHeaders({
+      messageId: "<c@vendor.io>",
+      inReplyTo: "<b@acme.com> (Jo's message)",
+      references: ["<a@acme.com>", "<b@acme.com>"]
+    });
+
+    expect(headers).toEqual({
+      messageId: "<c@vendor.io>",
+      inReplyTo: "<b@acme.com>",
+      references: ["<a@acme.com>", "<b@acme.com>"]
+    });
+    expect(threadAncestors(headers)).toEqual(["<b@acme.com>", "<a@acme.com>"]);
+  });
+
+  it("accepts a single folded References string", () => {
+    expect(threadHeaders({ references: "<a@x.io>\r\n <b@x.io>" }).references).toEqual(["<a@x.io>", "<b@x.io>"]);
+  });
+});
+
+describe("stripQuotedReply", () => {
+  it("keeps only what the reply adds", () => {
+    const text = [
+      "Rate updated to $85/hr, everything else unchanged.",
+      "",
+      "On Mon, Oct 19, 2026 at 9:00 AM Jo <jo@acme.com> wrote:",
+      "> Java Developer",
+      "> Rate: $75/hr"
+    ].join("\n");
+
+    expect(stripQuotedReply(text)).toBe("Rate updated to $85/hr, everything else unchanged.");
+  });
+
+  it("does not cut a forwarded posting at its own headers", () => {
+    const text = "From: jo@acme.com\nSubject: Java Developer\n\nRate: $75/hr";
+
+    expect(stripQuotedReply(text)).toBe(text);
+  });
+});
@@ -0,0 +1,62 @@
+import type { ParsedMail } from "mailparser";
+
+export interface EmailThreadHeaders {
+  messageId: string | null;
+  inReplyTo: string | null;
+  /** Oldest first, as in the References header. */
+  references: string[];
+}
+
+const MESSAGE_ID = /<[^<>\s]+>/g;
+
+/** Message-ID, In-Reply-To and References as bare `<id>` tokens; mailparser leaves folding and extra text in. */
+export function threadHeaders(parsed: Pick<ParsedMail, "messageId" | "inReplyTo" | "references">): EmailThreadHeaders {
+  const references = Array.isArray(parsed.references) ? parsed.references.join(" ") : parsed.references;
+  return {
+    messageId: messageIds(parsed.messageId)[0] ?? null,
+    inReplyTo: messageIds(parsed.inReplyTo)[0] ?? null,
+    references: [...new Set(messageIds(references))]
+  };
+}
+
+/** Ancestors of a message, closest first: the message it answers, then the References chain newest to oldest. */
+export function threadAncestors(headers: Pick<EmailThreadHeaders, "inReplyTo" | "references">): string[] {
+  const ancestors = [headers.inReplyTo, ...[...headers.references].reverse()].filter(
+    (id): id is string => Boolean(id)
+  );
+  return [...new Set(ancestors)];
+}
+
+export function isReply(headers: Pick<EmailThreadHeaders, "inReplyTo" | "references">): boolean {
+  return threadAncestors(headers).length > 0;
+}
+
+const QUOTE_HEADER = [
+  /^On .+wrote:\s*$/,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{5,}\s*$/,
+  /^From:\s.+/
+];
+
+/**
+ * The text a reply adds, without the quoted thread below it. Quote attribution lines only count once the reply has
+ * said something, so a forwarded posting that starts with its own headers is kept whole.
+ */
+export function stripQuotedReply(text: string): string {
+  const kept: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith(">")) {
+      continue;
+    }
+    if (kept.some((entry) => entry.trim()) && QUOTE_HEADER.some((pattern) => pattern.test(trimmed))) {
+      break;
+    }
+    kept.push(line);
+  }
+  return kept.join("\n").trim();
+}
+
+function messageIds(value: string | undefined): string[] {
+  return value?.match(MESSAGE_ID) ?? [];
+}
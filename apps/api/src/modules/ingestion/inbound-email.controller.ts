@@ -0,0 +1,62 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Headers,
+  Param,
+  Post,
+  UploadedFiles,
+  UseInterceptors
+} from "@nestjs/common";
+import { AnyFilesInterceptor } from "@nestjs/platform-express";
+
+import { Public } from "../auth/decorators/public.decorator";
+import { InboundEmailService } from "./inbound-email.service";
+import { InboundUploadedFile, parseInboundPayload } from "./inbound-email";
+
+const MAX_INBOUND_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Inbound webhook for mail forwarded by a provider (SendGrid Inbound Parse, Mailgun routes) or posted as raw
+ * `message/rfc822`. Providers cannot send a user token, so the mailbox's inbound token authenticates the call instead:
+ * `X-Inbound-Token`, `Authorization: Bearer` or the HTTP basic auth password. It is never read from the URL, which
+ * ends up in access logs.
+ */
+@Controller("ingestion/inbound")
+export class InboundEmailController {
+  constructor(private readonly inbound: InboundEmailService) {}
+
+  @Public()
+  @Post(":mailboxId")
+  @UseInterceptors(AnyFilesInterceptor({ limits: { fileSize: MAX_INBOUND_BYTES } }))
+  async receive(
+    @Param("mailboxId") mailboxId: string,
+    @Body() body: unknown,
+    @UploadedFiles() files: InboundUploadedFile[] | undefined,
+    @Headers("x-inbound-token") headerToken?: string,
+    @Headers("authorization") authorization?: string
+  ) {
+    const token = headerToken ?? tokenFromAuthorization(authorization);
+    const message = parseInboundPayload(body, files ?? []);
+    if (!message) {
+      throw new BadRequestException("Request body holds no email message");
+    }
+    const outcome = await this.inbound.receiveWebhook(mailboxId, token, message);
+    return { mailboxId, ...outcome };
+  }
+}
+
+function tokenFromAuthorization(header: string | undefined): string | undefined {
+  const [scheme, value] = header?.split(" ") ?? [];
+  if (!value) {
+    return undefined;
+  }
+  if (scheme.toLowerCase() === "bearer") {
+    return value;
+  }
+  if (scheme.toLowerCase() === "basic") {
+    const decoded = Buffer.from(value, "base64").toString("utf8");
+    return decoded.slice(decoded.indexOf(":") + 1) || undefined;
+  }
+  return undefined;
+}
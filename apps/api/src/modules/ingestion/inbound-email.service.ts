@@ -0,0 +1,92 @@
+import { ForbiddenException, Injectable, Logger, UnauthorizedException } from "@nestjs/common";
+import { MailboxKind, MailboxStatus, Prisma, TenantMailbox } from "@prisma/client";
+
+import { RequestContextService } from "../../infrastructure/context";
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { EmailIngestionService } from "./email-ingestion.service";
+import { EmailProcessingOutcome } from "./ingestion.types";
+import { InboundEmail } from "./inbound-email";
+import { hashInboundToken } from "./mailbox-credentials";
+
+export type InboundMailbox = Pick<TenantMailbox, "id" | "tenantId" | "name" | "enabled">;
+
+const INBOUND_MAILBOX_SELECT = { id: true, tenantId: true, name: true, enabled: true } as const;
+
+/**
+ * Mail pushed to BenchCRM rather than polled: the inbound webhook and the SMTP listener resolve the INBOUND mailbox
+ * it was sent to and hand the message to the same processing as IMAP. Each delivery updates the mailbox's health.
+ */
+@Injectable()
+export class InboundEmailService {
+  private readonly logger = new Logger(InboundEmailService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly context: RequestContextService,
+    private readonly emailIngestion: EmailIngestionService
+  ) {}
+
+  async receiveWebhook(mailboxId: string, token: string | undefined, message: Buffer | InboundEmail) {
+    const mailbox = token
+      ? await this.prisma.tenantMailbox.findFirst({
+          where: { id: mailboxId, kind: MailboxKind.INBOUND, inboundTokenHash: hashInboundToken(token) },
+          select: INBOUND_MAILBOX_SELECT
+        })
+      : null;
+    if (!mailbox) {
+      throw new UnauthorizedException("Invalid inbound mailbox token");
+    }
+    if (!mailbox.enabled) {
+      throw new ForbiddenException(`Mailbox ${mailboxId} is disabled`);
+    }
+    return this.deliver(mailbox, message);
+  }
+
+  /** The enabled INBOUND mailbox claiming an SMTP recipient address, if any. */
+  findByAddress(address: string): Promise<InboundMailbox | null> {
+    return this.prisma.tenantMailbox.findFirst({
+      where: { inboundAddress: address.trim().toLowerCase(), kind: MailboxKind.INBOUND, enabled: true },
+      select: INBOUND_MAILBOX_SELECT
+    });
+  }
+
+  deliver(mailbox: InboundMailbox, message: Buffer | InboundEmail): Promise<EmailProcessingOutcome> {
+    return this.context.run(async () => {
+      this.context.setTenant(mailbox.tenantId);
+      const receivedAt = new Date();
+      try {
+        const outcome = await this.emailIngestion.processMessage(
+          { tenantId: mailbox.tenantId, mailboxId: mailbox.id },
+          message
+        );
+        await this.recordHealth(mailbox.id, {
+          status: MailboxStatus.CONNECTED,
+          lastPollAt: receivedAt,
+          lastSuccessAt: new Date(),
+          lastError: null,
+          consecutiveFailures: 0,
+          lastMessageCount: 1
+        });
+        return outcome;
+      } catch (error) {
+        const reason = (error as Error).message ?? String(error);
+        this.logger.error(`Inbound email for mailbox ${mailbox.name} (${mailbox.id}) failed: ${reason}`);
+        await this.recordHealth(mailbox.id, {
+          status: MailboxStatus.ERROR,
+          lastPollAt: receivedAt,
+          lastError: reason.slice(0, 1000),
+          consecutiveFailures: { increment: 1 }
+        });
+        throw error;
+      }
+    });
+  }
+
+  private async recordHealth(mailboxId: string, data: Prisma.TenantMailboxUpdateInput) {
+    try {
+      await this.prisma.tenantMailbox.update({ where: { id: mailboxId }, data });
+    } catch (error) {
+      this.logger.warn(`Failed to record health for mailbox ${mailboxId}: ${(error as Error).message}`);
+    }
+  }
+}
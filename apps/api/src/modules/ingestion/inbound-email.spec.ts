@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { parseInboundPayload } from "./inbound-email";
+
+describe("parseInboundPayload", () => {
+  it("passes raw MIME through, whether posted as the body or in a provider field", () => {
+    const raw = "From: jo@acme.com\r\nSubject: Java Developer\r\n\r\nRate: $75/hr";
+
+    expect(parseInboundPayload(Buffer.from(raw))).toEqual(Buffer.from(raw));
+    expect(parseInboundPayload({ "body-mime": raw })).toEqual(Buffer.from(raw));
+    expect(parseInboundPayload({ email: raw, subject: "ignored" })).toEqual(Buffer.from(raw));
+  });
+
+  it("reads SendGrid Inbound Parse fields and thread headers from the raw header block", () => {
+    const message = parseInboundPayload(
+      {
+        from: "Jo <jo@acme.com>",
+        subject: "RE: Java Developer",
+        text: "Rate is now $85/hr",
+        headers: "Message-ID: <c@acme.com>\r\nIn-Reply-To: <b@acme.com>\r\nReferences: <a@acme.com>\r\n <b@acme.com>"
+      },
+      [{ originalname: "resume.pdf", mimetype: "application/pdf", buffer: Buffer.from("%PDF") }]
+    );
+
+    expect(message).toEqual({
+      from: "Jo <jo@acme.com>",
+      subject: "RE: Java Developer",
+      text: "Rate is now $85/hr",
+      html: undefined,
+      messageId: "<c@acme.com>",
+      inReplyTo: "<b@acme.com>",
+      references: "<a@acme.com> <b@acme.com>",
+      attachments: [{ filename: "resume.pdf", contentType: "application/pdf", content: Buffer.from("%PDF") }]
+    });
+  });
+
+  it("reads Mailgun route fields", () => {
+    const message = parseInboundPayload({
+      sender: "jo@acme.com",
+      subject: "Data Engineer",
+      "body-plain": "Spark and Kafka, Austin TX",
+      "Message-Id": "<m@acme.com>",
+      "message-headers": JSON.stringify([["In-Reply-To", "<p@acme.com>"]])
+    });
+
+    expect(message).toMatchObject({
+      from: "jo@acme.com",
+      text: "Spark and Kafka, Austin TX",
+      messageId: "<m@acme.com>",
+      inReplyTo: "<p@acme.com>"
+    });
+  });
+
+  it("returns null for a body without a message", () => {
+    expect(parseInboundPayload({ subject: "empty" })).toBeNull();
+    expect(parseInboundPayload(Buffer.alloc(0))).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import type { ParsedMail } from "mailparser";
+
+export interface InboundAttachment {
+  filename?: string;
+  contentType?: string;
+  content: Buffer;
+}
+
+/** The parts of an email ingestion reads, whether parsed from MIME here or already parsed by a mail provider. */
+export interface InboundEmail {
+  from?: string;
+  subject?: string;
+  text?: string;
+  html?: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string | string[];
+  attachments: InboundAttachment[];
+}
+
+/** A multipart upload as multer hands it over. */
+export interface InboundUploadedFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+/** Provider form fields that carry the untouched MIME message: SendGrid "Send Raw", Mailgun `mime` routes. */
+const RAW_MIME_FIELDS = ["email", "body-mime"];
+
+export function fromParsedMail(parsed: ParsedMail): InboundEmail {
+  return {
+    from: parsed.from?.value[0]?.address ?? parsed.from?.text,
+    subject: parsed.subject,
+    text: parsed.text,
+    html: typeof parsed.html === "string" ? parsed.html : undefined,
+    messageId: parsed.messageId,
+    inReplyTo: parsed.inReplyTo,
+    references: parsed.references,
+    attachments: (parsed.attachments ?? []).map((attachment) => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: Buffer.isBuffer(attachment.content) ? attachment.content : Buffer.from(attachment.content as Uint8Array)
+    }))
+  };
+}
+
+/**
+ * Reads an inbound webhook body: raw RFC 822 bytes, a provider field holding the raw message, or SendGrid Inbound
+ * Parse / Mailgun route fields with uploaded attachments. Returns null when the body holds no message.
+ */
+export function parseInboundPayload(
+  body: unknown,
+  files: InboundUploadedFile[] = []
+): Buffer | InboundEmail | null {
+  if (Buffer.isBuffer(body)) {
+    return body.length ? body : null;
+  }
+  if (typeof body === "string") {
+    return body.trim() ? Buffer.from(body) : null;
+  }
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+
+  const fields = body as Record<string, unknown>;
+  for (const name of RAW_MIME_FIELDS) {
+    const raw = fields[name];
+    if (typeof raw === "string" && raw.trim()) {
+      return Buffer.from(raw);
+    }
+  }
+
+  const email: InboundEmail = {
+    from: field(fields, "from") ?? field(fields, "sender"),
+    subject: field(fields, "subject"),
+    text: field(fields, "text") ?? field(fields, "body-plain"),
+    html: field(fields, "html") ?? field(fields, "body-html"),
+    messageId: header(fields, "Message-Id"),
+    inReplyTo: header(fields, "In-Reply-To"),
+    references: header(fields, "References"),
+    attachments: files.map((file) => ({
+      filename: file.originalname,
+      contentType: file.mimetype,
+      content: file.buffer
+    }))
+  };
+  return email.text || email.html || email.attachments.length ? email : null;
+}
+
+function field(fields: Record<string, unknown>, name: string): string | undefined {
+  const key = Object.keys(fields).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  const value = key ? fields[key] : undefined;
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+/** A header from its own field (Mailgun), the `message-headers` pairs (Mailgun) or the raw `headers` block (SendGrid). */
+function header(fields: Record<string, unknown>, name: string): string | undefined {
+  const direct = field(fields, name);
+  if (direct) {
+    return direct;
+  }
+
+  const pairs = field(fields, "message-headers");
+  if (pairs) {
+    try {
+      const match = (JSON.parse(pairs) as [string, string][]).find(
+        ([key]) => key.toLowerCase() === name.toLowerCase()
+      );
+      if (match) {
+        return match[1];
+      }
+    } catch {
+      // Not JSON; fall through to the raw header block.
+    }
+  }
+
+  const block = field(fields, "headers");
+  if (!block) {
+    return undefined;
+  }
+  const unfolded = block.replace(/\r?\n[ \t]+/g, " ");
+  const line = unfolded.split(/\r?\n/).find((entry) => entry.toLowerCase().startsWith(`${name.toLowerCase()}:`));
+  return line?.slice(name.length + 1).trim() || undefined;
+}
@@ -0,0 +1,59 @@
+import type { ConfigService } from "@nestjs/config";
+import { Readable } from "node:stream";
+import type { SMTPServerDataStream, SMTPServerSession } from "smtp-server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { InboundEmailService } from "./inbound-email.service";
+import { InboundSmtpService } from "./inbound-smtp.service";
+
+describe("InboundSmtpService", () => {
+  const inboundMock = { findByAddress: vi.fn(), deliver: vi.fn() };
+  const configMock = { get: vi.fn() };
+  const raw = "Message-ID: <m1@acme.com>\r\nSubject: Java Developer\r\n\r\nRate: $75/hr";
+  const mailboxes: Record<string, { id: string; tenantId: string; name: string; enabled: boolean }> = {
+    "jobs@a.example": { id: "mb-a", tenantId: "tenant-a", name: "A jobs", enabled: true },
+    "jobs@b.example": { id: "mb-b", tenantId: "tenant-b", name: "B jobs", enabled: true }
+  };
+
+  let service: InboundSmtpService;
+
+  function receive() {
+    const stream = Object.assign(Readable.from([Buffer.from(raw)]), { sizeExceeded: false });
+    const session = {
+      envelope: { rcptTo: [{ address: "jobs@a.example" }, { address: "jobs@b.example" }] }
+    } as unknown as SMTPServerSession;
+    const receiver = service as unknown as {
+      receive(stream: SMTPServerDataStream, session: SMTPServerSession): Promise<void>;
+    };
+    return receiver.receive(stream as unknown as SMTPServerDataStream, session);
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    inboundMock.findByAddress.mockImplementation(async (address: string) => mailboxes[address] ?? null);
+    service = new InboundSmtpService(
+      configMock as unknown as ConfigService,
+      inboundMock as unknown as InboundEmailService
+    );
+  });
+
+  it("names only the failing recipients and skips mailboxes that already took the message on retry", async () => {
+    inboundMock.deliver.mockImplementation(async (mailbox: { id: string }) => {
+      if (mailbox.id === "mb-b") {
+        throw new Error("storage unavailable");
+      }
+    });
+
+    await expect(receive()).rejects.toMatchObject({
+      message: expect.stringContaining("jobs@b.example"),
+      responseCode: 451
+    });
+    await expect(receive()).rejects.toMatchObject({ message: expect.not.stringContaining("jobs@a.example") });
+
+    inboundMock.deliver.mockResolvedValue({});
+    await expect(receive()).resolves.toBeUndefined();
+
+    const deliveredTo = inboundMock.deliver.mock.calls.map(([mailbox]) => mailbox.id);
+    expect(deliveredTo).toEqual(["mb-a", "mb-b", "mb-b", "mb-b"]);
+  });
+});
@@ -0,0 +1,140 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "node:crypto";
+import { SMTPServer, SMTPServerDataStream, SMTPServerSession } from "smtp-server";
+
+import { InboundEmailService, InboundMailbox } from "./inbound-email.service";
+import { IngestionConfig, InboundSmtpConfig } from "./ingestion.types";
+
+/**
+ * Optional SMTP listener: mail addressed to an INBOUND mailbox's `inboundAddress` is ingested as it arrives.
+ * Unknown recipients are refused at RCPT TO; processing failures answer with a temporary error so the sender retries.
+ * There is no AUTH or STARTTLS, so it binds to loopback unless INBOUND_SMTP_HOST names another interface, which
+ * should only be reachable from a trusted relay.
+ */
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+const MAX_REMEMBERED_DELIVERIES = 10_000;
+
+@Injectable()
+export class InboundSmtpService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(InboundSmtpService.name);
+  private readonly smtpConfig: InboundSmtpConfig;
+  private server: SMTPServer | null = null;
+  /**
+   * Mailbox and message pairs already ingested. SMTP answers DATA once for every recipient, so when one mailbox fails
+   * the sender retries the whole message; the mailboxes that took it the first time skip the retry.
+   */
+  private readonly delivered = new Set<string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly inbound: InboundEmailService
+  ) {
+    const ingestion = (this.configService.get<IngestionConfig>("ingestion") ?? {}) as IngestionConfig;
+    this.smtpConfig = ingestion.inboundSmtp ?? {
+      enabled: process.env.INBOUND_SMTP_ENABLED === "true",
+      host: process.env.INBOUND_SMTP_HOST ?? "127.0.0.1",
+      port: Number(process.env.INBOUND_SMTP_PORT ?? 2525),
+      maxMessageBytes: 25 * 1024 * 1024
+    };
+  }
+
+  onModuleInit() {
+    if (!this.smtpConfig.enabled) {
+      return;
+    }
+
+    this.server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ["AUTH", "STARTTLS"],
+      size: this.smtpConfig.maxMessageBytes,
+      logger: false,
+      onRcptTo: (address, _session, callback) => {
+        this.inbound
+          .findByAddress(address.address)
+          .then((mailbox) => callback(mailbox ? null : smtpError(`No mailbox for ${address.address}`, 550)))
+          .catch((error: Error) => callback(smtpError(error.message, 451)));
+      },
+      onData: (stream, session, callback) => {
+        this.receive(stream, session)
+          .then(() => callback())
+          .catch((error: Error & { responseCode?: number }) => callback(smtpError(error.message, error.responseCode ?? 451)));
+      }
+    });
+    this.server.on("error", (error) => this.logger.error(`SMTP listener error: ${error.message}`));
+    if (!LOOPBACK_HOSTS.has(this.smtpConfig.host)) {
+      this.logger.warn(`Inbound SMTP accepts unauthenticated mail on ${this.smtpConfig.host}; restrict it to a trusted relay`);
+    }
+    this.server.listen(this.smtpConfig.port, this.smtpConfig.host, () =>
+      this.logger.log(`Inbound SMTP listening on ${this.smtpConfig.host}:${this.smtpConfig.port}`)
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  private async receive(stream: SMTPServerDataStream, session: SMTPServerSession) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    if (stream.sizeExceeded) {
+      throw smtpError("Message exceeds the size limit", 552);
+    }
+
+    const source = Buffer.concat(chunks);
+    const messageKey = messageIdentity(source);
+    const recipients = new Map<string, { mailbox: InboundMailbox; addresses: string[] }>();
+    for (const recipient of session.envelope.rcptTo) {
+      const mailbox = await this.inbound.findByAddress(recipient.address);
+      if (!mailbox) {
+        continue;
+      }
+      // Several recipient addresses may belong to one mailbox; ingest the message once per mailbox.
+      const entry = recipients.get(mailbox.id) ?? { mailbox, addresses: [] };
+      entry.addresses.push(recipient.address);
+      recipients.set(mailbox.id, entry);
+    }
+
+    const failedRecipients: string[] = [];
+    for (const { mailbox, addresses } of recipients.values()) {
+      const deliveryKey = `${mailbox.id}:${messageKey}`;
+      if (this.delivered.has(deliveryKey)) {
+        continue;
+      }
+      try {
+        await this.inbound.deliver(mailbox, source);
+        this.rememberDelivery(deliveryKey);
+      } catch {
+        failedRecipients.push(...addresses);
+      }
+    }
+
+    if (failedRecipients.length) {
+      throw smtpError(`Delivery failed for ${failedRecipients.join(", ")}; retry`, 451);
+    }
+  }
+
+  private rememberDelivery(deliveryKey: string) {
+    this.delivered.add(deliveryKey);
+    if (this.delivered.size > MAX_REMEMBERED_DELIVERIES) {
+      this.delivered.delete(this.delivered.values().next().value as string);
+    }
+  }
+}
+
+/** The Message-ID header, or a digest of the message when the sender did not set one. */
+function messageIdentity(source: Buffer): string {
+  const headerEnd = source.indexOf("\r\n\r\n");
+  const headers = source.subarray(0, headerEnd === -1 ? source.length : headerEnd).toString("utf8");
+  const messageId = headers.match(/^message-id:\s*(<[^>\r\n]+>)/im)?.[1];
+  return messageId ?? createHash("sha256").update(source).digest("hex");
+}
+
+function smtpError(message: string, responseCode: number) {
+  return Object.assign(new Error(message), { responseCode });
+}
@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+
+import { IngestionQueueService } from "./ingestion.queue";
+
+@Module({
+  imports: [ConfigModule],
+  providers: [IngestionQueueService],
+  exports: [IngestionQueueService]
+})
+export class IngestionQueueModule {}
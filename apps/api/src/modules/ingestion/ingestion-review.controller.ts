@@ -0,0 +1,62 @@
+import { Body, Controller, Get, Param, Post, Query } from "@nestjs/common";
+import { UserRole } from "@prisma/client";
+
+import { Roles } from "../auth/decorators/roles.decorator";
+import {
+  ApproveRequirementReviewDto,
+  ApproveResumeReviewDto,
+  ListIngestionReviewsQueryDto,
+  RejectIngestionReviewDto
+} from "./dto/ingestion-review.dto";
+import { IngestionReviewService } from "./ingestion-review.service";
+
+@Controller("tenants/:tenantId/ingestion/reviews")
+export class IngestionReviewController {
+  constructor(private readonly reviews: IngestionReviewService) {}
+
+  @Get()
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  list(@Param("tenantId") tenantId: string, @Query() query: ListIngestionReviewsQueryDto) {
+    return this.reviews.list(tenantId, query.kind);
+  }
+
+  @Get("requirements/:id")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  getRequirement(@Param("tenantId") tenantId: string, @Param("id") id: string) {
+    return this.reviews.getRequirement(tenantId, id);
+  }
+
+  @Post("requirements/:id/approve")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  approveRequirement(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Body() dto: ApproveRequirementReviewDto
+  ) {
+    return this.reviews.approveRequirement(tenantId, id, dto);
+  }
+
+  @Post("requirements/:id/reject")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  rejectRequirement(@Param("tenantId") tenantId: string, @Param("id") id: string, @Body() dto: RejectIngestionReviewDto) {
+    return this.reviews.rejectRequirement(tenantId, id, dto);
+  }
+
+  @Get("resumes/:id")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  getResume(@Param("tenantId") tenantId: string, @Param("id") id: string) {
+    return this.reviews.getResume(tenantId, id);
+  }
+
+  @Post("resumes/:id/approve")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  approveResume(@Param("tenantId") tenantId: string, @Param("id") id: string, @Body() dto: ApproveResumeReviewDto) {
+    return this.reviews.approveResume(tenantId, id, dto);
+  }
+
+  @Post("resumes/:id/reject")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  rejectResume(@Param("tenantId") tenantId: string, @Param("id") id: string, @Body() dto: RejectIngestionReviewDto) {
+    return this.reviews.rejectResume(tenantId, id, dto);
+  }
+}
@@ -0,0 +1,229 @@
+import { BadRequestException } from "@nestjs/common";
+import { DocumentIngestionStatus, IngestionReviewReason, IngestionStatus, Prisma, RequirementSource } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { RequestContextService } from "../../infrastructure/context";
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { AuditService } from "../audit/audit.service";
+import { IngestionReviewService } from "./ingestion-review.service";
+import type { RequirementIngestionService } from "./requirement-ingestion.service";
+import type { ResumeProfileService } from "./resume-profile.service";
+
+describe("IngestionReviewService", () => {
+  const prismaMock = {
+    requirementIngestion: { findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    documentMetadata: { findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    documentAsset: { update: vi.fn(), updateMany: vi.fn() },
+    consultant: { findFirst: vi.fn(), create: vi.fn(), delete: vi.fn() }
+  };
+  const contextMock = { getUser: vi.fn() };
+  const auditMock = { record: vi.fn() };
+  const requirementIngestionMock = { upsertRequirement: vi.fn() };
+  const resumeProfileMock = { attach: vi.fn() };
+
+  const service = new IngestionReviewService(
+    prismaMock as unknown as PrismaService,
+    contextMock as unknown as RequestContextService,
+    requirementIngestionMock as unknown as RequirementIngestionService,
+    resumeProfileMock as unknown as ResumeProfileService,
+    auditMock as unknown as AuditService
+  );
+
+  const extraction = {
+    title: "Data Engineer",
+    clientName: null,
+    location: "Austin, TX",
+    workMode: null,
+    type: null,
+    rate: null,
+    durationMonths: null,
+    closesAt: null,
+    mustHaveSkills: [{ id: "s-spark", name: "Spark" }],
+    niceToHaveSkills: [],
+    description: "Data Engineer in Austin. Spark.",
+    fieldConfidence: {},
+    confidence: 0.42
+  };
+
+  const heldResume = {
+    documentId: "doc-1",
+    tenantId: "tenant-1",
+    ingestionStatus: DocumentIngestionStatus.PENDING_REVIEW,
+    reviewReason: IngestionReviewReason.MISSING_IDENTITY,
+    reviewData: {
+      normalized: { candidate: { emails: ["pat@example.com"], phones: [] }, summary: "" },
+      candidateConsultantIds: [],
+      text: "[[PERSON_1]] Spark engineer"
+    },
+    document: { fileName: "resume.pdf", storageKey: "tenant-1/doc-1" }
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    contextMock.getUser.mockReturnValue({ sub: "user-1" });
+    prismaMock.requirementIngestion.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.documentMetadata.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("applies reviewer edits over the extraction and records the approval", async () => {
+    prismaMock.requirementIngestion.findFirst.mockResolvedValue({
+      id: "ing-1",
+      status: IngestionStatus.PENDING_REVIEW,
+      source: RequirementSource.EMAIL,
+      reviewReason: IngestionReviewReason.LOW_CONFIDENCE,
+      parsedData: extraction
+    });
+    requirementIngestionMock.upsertRequirement.mockResolvedValue({ id: "req-1", created: true, updated: false });
+
+    const result = await service.approveRequirement("tenant-1", "ing-1", { clientName: "Acme Bank", maxRate: 90 });
+
+    expect(result).toEqual({ ingestionId: "ing-1", requirementId: "req-1", created: true, updated: false });
+    expect(requirementIngestionMock.upsertRequirement).toHaveBeenCalledWith(
+      "tenant-1",
+      expect.objectContaining({
+        title: "Data Engineer",
+        clientName: "Acme Bank",
+        location: "Austin, TX",
+        maxRate: 90,
+        skills: [{ id: "s-spark", weight: 80, mustHave: true }]
+      })
+    );
+    expect(prismaMock.requirementIngestion.updateMany).toHaveBeenCalledWith({
+      where: { id: "ing-1", tenantId: "tenant-1", status: IngestionStatus.PENDING_REVIEW },
+      data: expect.objectContaining({ status: IngestionStatus.PENDING, reviewedBy: "user-1" })
+    });
+    expect(prismaMock.requirementIngestion.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: IngestionStatus.PROCESSED, requirementId: "req-1" })
+      })
+    );
+    expect(auditMock.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: "tenant-1",
+        action: "Ingestion review: approved with edits",
+        entityType: "RequirementIngestion",
+        entityId: "ing-1",
+        userId: "user-1",
+        payload: expect.objectContaining({ edits: { clientName: "Acme Bank", maxRate: 90 }, requirementId: "req-1" })
+      })
+    );
+  });
+
+  it("leaves the requirement alone when another reviewer decided first", async () => {
+    prismaMock.requirementIngestion.findFirst.mockResolvedValue({
+      id: "ing-1",
+      status: IngestionStatus.PENDING_REVIEW,
+      source: RequirementSource.EMAIL,
+      parsedData: extraction
+    });
+    prismaMock.requirementIngestion.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.approveRequirement("tenant-1", "ing-1", {})).rejects.toBeInstanceOf(BadRequestException);
+    expect(requirementIngestionMock.upsertRequirement).not.toHaveBeenCalled();
+    expect(auditMock.record).not.toHaveBeenCalled();
+  });
+
+  it("returns the ingestion to the queue when the approval fails", async () => {
+    prismaMock.requirementIngestion.findFirst.mockResolvedValue({
+      id: "ing-1",
+      status: IngestionStatus.PENDING_REVIEW,
+      source: RequirementSource.EMAIL,
+      parsedData: extraction
+    });
+    requirementIngestionMock.upsertRequirement.mockRejectedValue(new Error("db down"));
+
+    await expect(service.approveRequirement("tenant-1", "ing-1", {})).rejects.toThrow("db down");
+    expect(prismaMock.requirementIngestion.updateMany).toHaveBeenLastCalledWith({
+      where: { id: "ing-1", status: IngestionStatus.PENDING },
+      data: { status: IngestionStatus.PENDING_REVIEW, reviewedBy: null, reviewedAt: null }
+    });
+  });
+
+  it("only decides ingestions that are waiting for review", async () => {
+    prismaMock.requirementIngestion.findFirst.mockResolvedValue({ id: "ing-1", status: IngestionStatus.PROCESSED });
+
+    await expect(service.rejectRequirement("tenant-1", "ing-1", {})).rejects.toBeInstanceOf(BadRequestException);
+    expect(prismaMock.requirementIngestion.updateMany).not.toHaveBeenCalled();
+    expect(auditMock.record).not.toHaveBeenCalled();
+  });
+
+  it("will not create a consultant without a name", async () => {
+    prismaMock.documentMetadata.findFirst.mockResolvedValue(heldResume);
+
+    await expect(service.approveResume("tenant-1", "doc-1", { lastName: "Lee" })).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    expect(prismaMock.documentMetadata.updateMany).not.toHaveBeenCalled();
+    expect(prismaMock.consultant.create).not.toHaveBeenCalled();
+    expect(resumeProfileMock.attach).not.toHaveBeenCalled();
+  });
+
+  it("creates the consultant from corrected identity fields and attaches the resume", async () => {
+    prismaMock.documentMetadata.findFirst.mockResolvedValue(heldResume);
+    prismaMock.consultant.create.mockResolvedValue({ id: "c-9" });
+
+    const result = await service.approveResume("tenant-1", "doc-1", { firstName: "Pat", lastName: "Lee" });
+
+    expect(result).toEqual({ documentId: "doc-1", consultantId: "c-9", created: true });
+    expect(prismaMock.consultant.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ firstName: "Pat", lastName: "Lee", email: "pat@example.com" })
+    });
+    expect(resumeProfileMock.attach).toHaveBeenCalledWith(
+      "tenant-1",
+      "c-9",
+      "tenant-1/doc-1",
+      heldResume.reviewData.normalized,
+      heldResume.reviewData.text
+    );
+    expect(prismaMock.documentMetadata.updateMany).toHaveBeenCalledWith({
+      where: { documentId: "doc-1", tenantId: "tenant-1", ingestionStatus: DocumentIngestionStatus.PENDING_REVIEW },
+      data: expect.objectContaining({ ingestionStatus: DocumentIngestionStatus.PROCESSING, reviewedBy: "user-1" })
+    });
+    expect(prismaMock.documentMetadata.update).toHaveBeenCalledWith({
+      where: { documentId: "doc-1" },
+      data: { ingestionStatus: DocumentIngestionStatus.COMPLETE }
+    });
+    expect(auditMock.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "Ingestion review: approved with edits", entityType: "DocumentAsset" })
+    );
+  });
+
+  it("removes the consultant it created when attaching the resume fails", async () => {
+    prismaMock.documentMetadata.findFirst.mockResolvedValue(heldResume);
+    prismaMock.consultant.create.mockResolvedValue({ id: "c-9" });
+    resumeProfileMock.attach.mockRejectedValue(new Error("profile write failed"));
+
+    await expect(service.approveResume("tenant-1", "doc-1", { firstName: "Pat", lastName: "Lee" })).rejects.toThrow(
+      "profile write failed"
+    );
+    expect(prismaMock.documentAsset.updateMany).toHaveBeenCalledWith({
+      where: { id: "doc-1", consultantId: "c-9" },
+      data: { consultantId: null }
+    });
+    expect(prismaMock.consultant.delete).toHaveBeenCalledWith({ where: { id: "c-9" } });
+    expect(prismaMock.documentMetadata.updateMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ ingestionStatus: DocumentIngestionStatus.PENDING_REVIEW })
+      })
+    );
+    expect(auditMock.record).not.toHaveBeenCalled();
+  });
+
+  it("drops the held parse when a resume is rejected", async () => {
+    prismaMock.documentMetadata.findFirst.mockResolvedValue(heldResume);
+
+    await service.rejectResume("tenant-1", "doc-1", { reason: "Not a resume" });
+
+    expect(prismaMock.documentMetadata.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ ingestionStatus: DocumentIngestionStatus.REJECTED, reviewData: Prisma.DbNull })
+      })
+    );
+    expect(auditMock.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "Ingestion review: rejected",
+        payload: { reviewReason: IngestionReviewReason.MISSING_IDENTITY, note: "Not a resume" }
+      })
+    );
+  });
+});
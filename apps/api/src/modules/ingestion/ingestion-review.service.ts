@@ -0,0 +1,365 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { DocumentIngestionStatus, IngestionStatus, Prisma, RequirementSource } from "@prisma/client";
+
+import { RequestContextService } from "../../infrastructure/context";
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { AuditService } from "../audit/audit.service";
+import { RequirementExtraction } from "../ai-gateway/requirement-extraction";
+import {
+  ApproveRequirementReviewDto,
+  ApproveResumeReviewDto,
+  IngestionReviewKind,
+  RejectIngestionReviewDto
+} from "./dto/ingestion-review.dto";
+import { ResumeReviewData } from "./ingestion.types";
+import { RequirementIngestionService, toRequirementFields } from "./requirement-ingestion.service";
+import { ResumeProfileService } from "./resume-profile.service";
+
+type HeldRequirementExtraction = RequirementExtraction & { subject?: string };
+
+/**
+ * Queue of requirement and resume ingestions held in PENDING_REVIEW. Reviewers see the parsed fields next to the
+ * source text and approve (optionally with corrections) or reject them; every decision is written to the audit log.
+ * A decision first claims the item out of PENDING_REVIEW, so two reviewers acting at once cannot both apply it.
+ */
+@Injectable()
+export class IngestionReviewService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly context: RequestContextService,
+    private readonly requirementIngestion: RequirementIngestionService,
+    private readonly resumeProfile: ResumeProfileService,
+    private readonly audit: AuditService
+  ) {}
+
+  /** Oldest first, so the queue drains in arrival order. */
+  async list(tenantId: string, kind?: IngestionReviewKind) {
+    const [requirements, resumes] = await Promise.all([
+      kind === "resume"
+        ? []
+        : this.prisma.requirementIngestion.findMany({
+            where: { tenantId, status: IngestionStatus.PENDING_REVIEW },
+            select: { id: true, source: true, reviewReason: true, confidence: true, parsedData: true, createdAt: true }
+          }),
+      kind === "requirement"
+        ? []
+        : this.prisma.documentMetadata.findMany({
+            where: { tenantId, ingestionStatus: DocumentIngestionStatus.PENDING_REVIEW },
+            select: { documentId: true, reviewReason: true, updatedAt: true, document: { select: { fileName: true } } }
+          })
+    ]);
+
+    return [
+      ...requirements.map((ingestion) => ({
+        kind: "requirement" as const,
+        id: ingestion.id,
+        reason: ingestion.reviewReason,
+        confidence: ingestion.confidence,
+        label: ((ingestion.parsedData as Prisma.JsonObject | null)?.title as string | null) ?? null,
+        source: ingestion.source,
+        createdAt: ingestion.createdAt
+      })),
+      ...resumes.map((metadata) => ({
+        kind: "resume" as const,
+        id: metadata.documentId,
+        reason: metadata.reviewReason,
+        confidence: null,
+        label: metadata.document.fileName,
+        source: null,
+        createdAt: metadata.updatedAt
+      }))
+    ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getRequirement(tenantId: string, ingestionId: string) {
+    const ingestion = await this.findRequirementIngestion(tenantId, ingestionId);
+    return {
+      id: ingestion.id,
+      status: ingestion.status,
+      reason: ingestion.reviewReason,
+      confidence: ingestion.confidence,
+      source: ingestion.source,
+      parsed: ingestion.parsedData,
+      sourceText: ingestion.rawContent,
+      createdAt: ingestion.createdAt,
+      reviewedBy: ingestion.reviewedBy,
+      reviewedAt: ingestion.reviewedAt
+    };
+  }
+
+  async getResume(tenantId: string, documentId: string) {
+    const metadata = await this.findResumeMetadata(tenantId, documentId);
+    const held = metadata.reviewData as unknown as ResumeReviewData | null;
+    const candidates = held?.candidateConsultantIds.length
+      ? await this.prisma.consultant.findMany({
+          where: { tenantId, id: { in: held.candidateConsultantIds } },
+          select: { id: true, firstName: true, lastName: true, email: true, phone: true, location: true }
+        })
+      : [];
+
+    return {
+      id: metadata.documentId,
+      status: metadata.ingestionStatus,
+      reason: metadata.reviewReason,
+      fileName: metadata.document.fileName,
+      parsed: held?.normalized ?? null,
+      candidates,
+      sourceText: held?.text ?? null,
+      reviewedBy: metadata.reviewedBy,
+      reviewedAt: metadata.reviewedAt
+    };
+  }
+
+  async approveRequirement(tenantId: string, ingestionId: string, dto: ApproveRequirementReviewDto) {
+    const ingestion = await this.findRequirementIngestion(tenantId, ingestionId);
+    if (ingestion.status !== IngestionStatus.PENDING_REVIEW) {
+      throw new BadRequestException(`Requirement ingestion ${ingestionId} is not awaiting review`);
+    }
+
+    const parsed = ingestion.parsedData as unknown as HeldRequirementExtraction;
+    if (!parsed.title && !dto.title?.trim()) {
+      throw new BadRequestException("title is required when none was extracted");
+    }
+    const edits = definedFields(dto);
+    const fields = { ...toRequirementFields(parsed, ingestion.source ?? RequirementSource.EMAIL), ...edits };
+
+    await this.claimRequirement(tenantId, ingestionId, IngestionStatus.PENDING);
+    let requirement: Awaited<ReturnType<RequirementIngestionService["upsertRequirement"]>>;
+    try {
+      requirement = await this.requirementIngestion.upsertRequirement(tenantId, fields);
+    } catch (error) {
+      await this.releaseRequirement(ingestionId);
+      throw error;
+    }
+
+    const edited = Object.keys(edits).length > 0;
+    await this.prisma.requirementIngestion.update({
+      where: { id: ingestionId },
+      data: {
+        status: IngestionStatus.PROCESSED,
+        parsedData: { ...parsed, requirementId: requirement.id } as unknown as Prisma.InputJsonValue,
+        requirementId: requirement.id,
+        processedAt: new Date()
+      }
+    });
+    await this.auditDecision(tenantId, "RequirementIngestion", ingestionId, edited ? "approved with edits" : "approved", {
+      reviewReason: ingestion.reviewReason,
+      requirementId: requirement.id,
+      created: requirement.created,
+      ...(edited ? { edits } : {})
+    });
+
+    return { ingestionId, requirementId: requirement.id, created: requirement.created, updated: requirement.updated };
+  }
+
+  async rejectRequirement(tenantId: string, ingestionId: string, dto: RejectIngestionReviewDto) {
+    const ingestion = await this.findRequirementIngestion(tenantId, ingestionId);
+    if (ingestion.status !== IngestionStatus.PENDING_REVIEW) {
+      throw new BadRequestException(`Requirement ingestion ${ingestionId} is not awaiting review`);
+    }
+
+    const stamp = await this.claimRequirement(tenantId, ingestionId, IngestionStatus.REJECTED);
+    await this.auditDecision(tenantId, "RequirementIngestion", ingestionId, "rejected", {
+      reviewReason: ingestion.reviewReason,
+      note: dto.reason ?? null
+    });
+    return { id: ingestionId, status: IngestionStatus.REJECTED, ...stamp };
+  }
+
+  async approveResume(tenantId: string, documentId: string, dto: ApproveResumeReviewDto) {
+    const metadata = await this.findResumeMetadata(tenantId, documentId);
+    const held = metadata.reviewData as unknown as ResumeReviewData | null;
+    if (metadata.ingestionStatus !== DocumentIngestionStatus.PENDING_REVIEW || !held) {
+      throw new BadRequestException(`Resume ${documentId} is not awaiting review`);
+    }
+
+    const identityEdits = definedFields({
+      firstName: dto.firstName,
+      lastName: dto.lastName,
+      email: dto.email,
+      phone: dto.phone
+    });
+    // Validation happens before the claim; the consultant is only created once this reviewer owns the decision.
+    let resolveConsultantId: () => Promise<string>;
+    if (dto.consultantId) {
+      if (Object.keys(identityEdits).length) {
+        throw new BadRequestException("Pass either consultantId or new consultant details, not both");
+      }
+      const consultant = await this.prisma.consultant.findFirst({
+        where: { id: dto.consultantId, tenantId },
+        select: { id: true }
+      });
+      if (!consultant) {
+        throw new NotFoundException(`Consultant ${dto.consultantId} not found`);
+      }
+      resolveConsultantId = async () => consultant.id;
+    } else {
+      const candidate = held.normalized.candidate;
+      const firstName = (dto.firstName ?? candidate.firstName)?.trim();
+      const lastName = (dto.lastName ?? candidate.lastName)?.trim();
+      if (!firstName || !lastName) {
+        throw new BadRequestException("firstName and lastName are required to create a consultant");
+      }
+      resolveConsultantId = async () => {
+        const consultant = await this.prisma.consultant.create({
+          data: {
+            tenantId,
+            firstName,
+            lastName,
+            email: dto.email ?? candidate.emails[0] ?? null,
+            phone: dto.phone ?? candidate.phones[0] ?? null,
+            summary: held.normalized.summary || null
+          }
+        });
+        return consultant.id;
+      };
+    }
+
+    await this.claimResume(tenantId, documentId, DocumentIngestionStatus.PROCESSING);
+    let consultantId: string | undefined;
+    try {
+      consultantId = await resolveConsultantId();
+      await this.prisma.documentAsset.update({ where: { id: documentId }, data: { consultantId } });
+      await this.resumeProfile.attach(tenantId, consultantId, metadata.document.storageKey, held.normalized, held.text);
+    } catch (error) {
+      if (consultantId && !dto.consultantId) {
+        await this.discardConsultant(documentId, consultantId);
+      }
+      await this.releaseResume(documentId);
+      throw error;
+    }
+
+    const created = !dto.consultantId;
+    const edited = Object.keys(identityEdits).length > 0;
+    await this.prisma.documentMetadata.update({
+      where: { documentId },
+      data: { ingestionStatus: DocumentIngestionStatus.COMPLETE }
+    });
+    await this.auditDecision(tenantId, "DocumentAsset", documentId, edited ? "approved with edits" : "approved", {
+      reviewReason: metadata.reviewReason,
+      consultantId,
+      created,
+      candidateConsultantIds: held.candidateConsultantIds,
+      ...(edited ? { edits: identityEdits } : {})
+    });
+
+    return { documentId, consultantId, created };
+  }
+
+  /** Rejected parses are dropped; the uploaded file itself stays in document storage. */
+  async rejectResume(tenantId: string, documentId: string, dto: RejectIngestionReviewDto) {
+    const metadata = await this.findResumeMetadata(tenantId, documentId);
+    if (metadata.ingestionStatus !== DocumentIngestionStatus.PENDING_REVIEW) {
+      throw new BadRequestException(`Resume ${documentId} is not awaiting review`);
+    }
+
+    const stamp = await this.claimResume(tenantId, documentId, DocumentIngestionStatus.REJECTED, {
+      reviewData: Prisma.DbNull
+    });
+    await this.auditDecision(tenantId, "DocumentAsset", documentId, "rejected", {
+      reviewReason: metadata.reviewReason,
+      note: dto.reason ?? null
+    });
+    return { documentId, ingestionStatus: DocumentIngestionStatus.REJECTED, ...stamp };
+  }
+
+  private async findRequirementIngestion(tenantId: string, ingestionId: string) {
+    const ingestion = await this.prisma.requirementIngestion.findFirst({ where: { id: ingestionId, tenantId } });
+    if (!ingestion) {
+      throw new NotFoundException(`Requirement ingestion ${ingestionId} not found`);
+    }
+    return ingestion;
+  }
+
+  private async findResumeMetadata(tenantId: string, documentId: string) {
+    const metadata = await this.prisma.documentMetadata.findFirst({
+      where: { documentId, tenantId },
+      include: { document: { select: { fileName: true, storageKey: true } } }
+    });
+    if (!metadata) {
+      throw new NotFoundException(`Resume ${documentId} not found`);
+    }
+    return metadata;
+  }
+
+  private reviewStamp() {
+    return { reviewedBy: this.context.getUser()?.sub ?? null, reviewedAt: new Date() };
+  }
+
+  /** Undoes a consultant created for an approval that then failed, so a retried approval does not leave one behind. */
+  private async discardConsultant(documentId: string, consultantId: string) {
+    await this.prisma.documentAsset.updateMany({
+      where: { id: documentId, consultantId },
+      data: { consultantId: null }
+    });
+    await this.prisma.consultant.delete({ where: { id: consultantId } });
+  }
+
+  /** Moves the ingestion out of PENDING_REVIEW only if no other decision got there first. */
+  private async claimRequirement(tenantId: string, ingestionId: string, status: IngestionStatus) {
+    const stamp = this.reviewStamp();
+    const claimed = await this.prisma.requirementIngestion.updateMany({
+      where: { id: ingestionId, tenantId, status: IngestionStatus.PENDING_REVIEW },
+      data: { ...stamp, status }
+    });
+    if (claimed.count !== 1) {
+      throw new BadRequestException(`Requirement ingestion ${ingestionId} is not awaiting review`);
+    }
+    return stamp;
+  }
+
+  private async releaseRequirement(ingestionId: string) {
+    await this.prisma.requirementIngestion.updateMany({
+      where: { id: ingestionId, status: IngestionStatus.PENDING },
+      data: { status: IngestionStatus.PENDING_REVIEW, reviewedBy: null, reviewedAt: null }
+    });
+  }
+
+  private async claimResume(
+    tenantId: string,
+    documentId: string,
+    ingestionStatus: DocumentIngestionStatus,
+    data: Prisma.DocumentMetadataUpdateManyMutationInput = {}
+  ) {
+    const stamp = this.reviewStamp();
+    const claimed = await this.prisma.documentMetadata.updateMany({
+      where: { documentId, tenantId, ingestionStatus: DocumentIngestionStatus.PENDING_REVIEW },
+      data: { ...data, ...stamp, ingestionStatus }
+    });
+    if (claimed.count !== 1) {
+      throw new BadRequestException(`Resume ${documentId} is not awaiting review`);
+    }
+    return stamp;
+  }
+
+  private async releaseResume(documentId: string) {
+    await this.prisma.documentMetadata.updateMany({
+      where: { documentId, ingestionStatus: DocumentIngestionStatus.PROCESSING },
+      data: { ingestionStatus: DocumentIngestionStatus.PENDING_REVIEW, reviewedBy: null, reviewedAt: null }
+    });
+  }
+
+  private async auditDecision(
+    tenantId: string,
+    entityType: string,
+    entityId: string,
+    decision: string,
+    payload: Record<string, unknown>
+  ) {
+    const user = this.context.getUser();
+    await this.audit.record({
+      tenantId,
+      userId: user?.sub,
+      actorRole: user?.roles?.[0],
+      action: `Ingestion review: ${decision}`,
+      entityType,
+      entityId,
+      payload,
+      resultCode: "SUCCESS"
+    });
+  }
+}
+
+function definedFields<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as Partial<T>;
+}
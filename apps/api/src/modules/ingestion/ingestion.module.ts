@@ -3,15 +3,26 @@ import { ConfigModule } from "@nestjs/config";
 
 import { PrismaModule } from "../../infrastructure/prisma/prisma.module";
 import { AiGatewayModule } from "../ai-gateway/ai-gateway.module";
+import { AuditModule } from "../audit/audit.module";
 import { DocumentsModule } from "../documents/documents.module";
 import { DedupeModule } from "../dedupe/dedupe.module";
 import { RequirementsModule } from "../requirements/requirements.module";
 import { IngestionController } from "./ingestion.controller";
+import { IngestionReviewController } from "./ingestion-review.controller";
+import { IngestionReviewService } from "./ingestion-review.service";
 import { EmailIngestionService } from "./email-ingestion.service";
+import { InboundEmailController } from "./inbound-email.controller";
+import { InboundEmailService } from "./inbound-email.service";
+import { InboundSmtpService } from "./inbound-smtp.service";
 import { IngestionMetricsService } from "./ingestion.metrics.service";
-import { IngestionQueueService } from "./ingestion.queue";
+import { IngestionQueueModule } from "./ingestion-queue.module";
+import { MailboxPoolService } from "./mailbox-pool.service";
+import { MailboxesController } from "./mailboxes.controller";
+import { MailboxesService } from "./mailboxes.service";
 import { RequirementIngestionService } from "./requirement-ingestion.service";
+import { RequirementIngestionWorker } from "./requirement-ingestion.worker";
 import { ResumeIngestionWorker } from "./resume-ingestion.worker";
+import { ResumeProfileService } from "./resume-profile.service";
 import { SchemaNormalizerService } from "./schema-normalizer.service";
 import { SpacyService } from "./spacy.service";
 import { TextExtractionService } from "./text-extraction.service";
@@ -24,19 +35,28 @@ import { PiiRedactionService } from "./pii-redaction.service";
     DocumentsModule,
     DedupeModule,
     RequirementsModule,
-    AiGatewayModule
+    AiGatewayModule,
+    AuditModule,
+    IngestionQueueModule
   ],
-  controllers: [IngestionController],
+  controllers: [IngestionController, IngestionReviewController, MailboxesController, InboundEmailController],
   providers: [
-    IngestionQueueService,
     ResumeIngestionWorker,
+    ResumeProfileService,
     EmailIngestionService,
+    MailboxesService,
+    MailboxPoolService,
+    InboundEmailService,
+    InboundSmtpService,
     RequirementIngestionService,
+    RequirementIngestionWorker,
+    IngestionReviewService,
     TextExtractionService,
     PiiRedactionService,
     SchemaNormalizerService,
     SpacyService,
     IngestionMetricsService
-  ]
+  ],
+  exports: [IngestionQueueModule]
 })
 export class IngestionModule {}
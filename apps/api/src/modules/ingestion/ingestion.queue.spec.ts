@@ -0,0 +1,98 @@
+import type { ConfigService } from "@nestjs/config";
+import { SavedSearchRunTrigger, SearchEntityType } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { IngestionQueueService } from "./ingestion.queue";
+
+const added = vi.hoisted(() => [] as { queue: string; name: string; opts: Record<string, unknown> }[]);
+
+// Queues never reach Redis here, but every add builds a real BullMQ Job and runs its option checks (custom ids).
+vi.mock("bullmq", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("bullmq")>();
+  class ValidatedJob extends actual.Job {
+    validate() {
+      this.validateOptions(this.asJSON());
+    }
+  }
+  class ValidatingQueue {
+    readonly qualifiedName: string;
+    readonly opts = {};
+    readonly keys = {};
+
+    constructor(readonly name: string) {
+      this.qualifiedName = `bull:${name}`;
+    }
+
+    toKey(type: string) {
+      return `${this.qualifiedName}:${type}`;
+    }
+
+    async add(name: string, data: unknown, opts: Record<string, unknown> = {}) {
+      const job = new ValidatedJob(this as never, name, data, opts);
+      job.validate();
+      added.push({ queue: this.name, name, opts });
+      return job;
+    }
+  }
+  class IdleQueueEvents {
+    waitUntilReady() {
+      return Promise.resolve();
+    }
+  }
+  return { ...actual, Queue: ValidatingQueue, QueueEvents: IdleQueueEvents };
+});
+
+describe("IngestionQueueService", () => {
+  const service = new IngestionQueueService({ get: () => undefined } as unknown as ConfigService);
+  const tenantId = "5f0c6a55-8a8e-4a62-9a55-2b8f3b9a7c11";
+
+  beforeEach(() => {
+    added.length = 0;
+    // Pin the clock so both calls fall in the same coalescing window.
+    vi.spyOn(Date, "now").mockReturnValue(1_790_000_000_000);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("enqueues change-driven re-scoring under a BullMQ-valid coalescing id", async () => {
+    await service.enqueueMatchRescore({
+      tenantId,
+      trigger: "CONSULTANT_UPDATED",
+      consultantId: "c-1"
+    });
+    await service.enqueueMatchRescore({
+      tenantId,
+      trigger: "CONSULTANT_UPDATED",
+      consultantId: "c-1"
+    });
+
+    expect(added).toHaveLength(2);
+    expect(added[0].queue).toBe("matching.rescore");
+    expect(added[0].opts.jobId).toMatch(new RegExp(`^rescore-${tenantId}-c-1-\\d+$`));
+    expect(added[1].opts.jobId).toBe(added[0].opts.jobId);
+  });
+
+  it("enqueues incremental search indexing under a BullMQ-valid coalescing id", async () => {
+    await service.enqueueSearchIndex({ tenantId, entityType: SearchEntityType.CONSULTANT, entityId: "c-1" });
+
+    expect(added).toEqual([
+      expect.objectContaining({
+        queue: "search.index",
+        name: "search.index",
+        opts: expect.objectContaining({ jobId: expect.stringMatching(new RegExp(`^index-${tenantId}-CONSULTANT-c-1-\\d+$`)) })
+      })
+    ]);
+  });
+
+  it("enqueues index-triggered saved search runs, coalesced per saved search", async () => {
+    await service.enqueueSavedSearchRun({ tenantId, savedSearchId: "ss-1", trigger: SavedSearchRunTrigger.INDEX });
+    await service.enqueueSavedSearchRun({ tenantId, savedSearchId: "ss-1", trigger: SavedSearchRunTrigger.INDEX });
+
+    expect(added).toHaveLength(2);
+    expect(added[0]).toMatchObject({ queue: "search.saved", name: "search.saved" });
+    expect(added[0].opts.jobId).toMatch(new RegExp(`^saved-${tenantId}-ss-1-\\d+$`));
+    expect(added[1].opts.jobId).toBe(added[0].opts.jobId);
+  });
+});
@@ -3,9 +3,24 @@ import { ConfigService } from "@nestjs/config";
 import { Job, JobsOptions, Queue, QueueEvents, Worker, WorkerOptions } from "bullmq";
 import IORedis from "ioredis";
 
-import { IngestionConfig, IngestionQueuesConfig, RequirementIngestionJob, ResumeIngestionJob } from "./ingestion.types";
+import {
+  IngestionConfig,
+  IngestionQueuesConfig,
+  MatchingBatchJob,
+  MatchRescoreJob,
+  RequirementIngestionJob,
+  ResumeIngestionJob,
+  SavedSearchRunJob,
+  SearchEntityIndexJob,
+  SearchIndexJob,
+  SearchReindexJob
+} from "./ingestion.types";
 import { WebhookEvent, SyncJob } from "../integrations/integrations.types";
 
+const RESCORE_COALESCE_MS = 5_000;
+const SEARCH_INDEX_COALESCE_MS = 2_000;
+const SAVED_SEARCH_INDEX_COALESCE_MS = 60_000;
+
 @Injectable()
 export class IngestionQueueService implements OnModuleDestroy {
   private readonly logger = new Logger(IngestionQueueService.name);
@@ -15,10 +30,18 @@ export class IngestionQueueService implements OnModuleDestroy {
   private readonly requirementQueue: Queue<RequirementIngestionJob>;
   private readonly webhookQueue: Queue<WebhookEvent>;
   private readonly syncQueue: Queue<SyncJob>;
+  private readonly matchingQueue: Queue<MatchingBatchJob>;
+  private readonly rescoreQueue: Queue<MatchRescoreJob>;
+  private readonly searchIndexQueue: Queue<SearchIndexJob>;
+  private readonly savedSearchQueue: Queue<SavedSearchRunJob>;
   private readonly resumeDlq: Queue<ResumeIngestionJob>;
   private readonly requirementDlq: Queue<RequirementIngestionJob>;
   private readonly webhookDlq: Queue<WebhookEvent>;
   private readonly syncDlq: Queue<SyncJob>;
+  private readonly matchingDlq: Queue<MatchingBatchJob>;
+  private readonly rescoreDlq: Queue<MatchRescoreJob>;
+  private readonly searchIndexDlq: Queue<SearchIndexJob>;
+  private readonly savedSearchDlq: Queue<SavedSearchRunJob>;
   private readonly events: QueueEvents[] = [];
   private readonly defaultJobOptions: JobsOptions;
 
@@ -30,9 +53,17 @@ export class IngestionQueueService implements OnModuleDestroy {
       requirementQueueName: "requirement.ingestion",
       webhookQueueName: "webhook.processing",
       syncQueueName: "sync.processing",
+      matchingQueueName: "matching.batch",
+      rescoreQueueName: "matching.rescore",
+      searchIndexQueueName: "search.index",
+      savedSearchQueueName: "search.saved",
       dlqSuffix: ".dlq",
       resumeConcurrency: 4,
       requirementConcurrency: 2,
+      matchingConcurrency: 1,
+      rescoreConcurrency: 2,
+      searchIndexConcurrency: 2,
+      savedSearchConcurrency: 2,
       webhookConcurrency: 8,
       syncConcurrency: 4,
       defaultAttempts: 5,
@@ -44,6 +75,10 @@ export class IngestionQueueService implements OnModuleDestroy {
     this.requirementQueue = new Queue<RequirementIngestionJob>(this.queuesConfig.requirementQueueName, { connection });
     this.webhookQueue = new Queue<WebhookEvent>(this.queuesConfig.webhookQueueName, { connection });
     this.syncQueue = new Queue<SyncJob>(this.queuesConfig.syncQueueName, { connection });
+    this.matchingQueue = new Queue<MatchingBatchJob>(this.queuesConfig.matchingQueueName, { connection });
+    this.rescoreQueue = new Queue<MatchRescoreJob>(this.queuesConfig.rescoreQueueName, { connection });
+    this.searchIndexQueue = new Queue<SearchIndexJob>(this.queuesConfig.searchIndexQueueName, { connection });
+    this.savedSearchQueue = new Queue<SavedSearchRunJob>(this.queuesConfig.savedSearchQueueName, { connection });
     
     this.resumeDlq = new Queue<ResumeIngestionJob>(`${this.queuesConfig.resumeQueueName}${this.queuesConfig.dlqSuffix}`, {
       connection
@@ -58,11 +93,31 @@ export class IngestionQueueService implements OnModuleDestroy {
     this.syncDlq = new Queue<SyncJob>(`${this.queuesConfig.syncQueueName}${this.queuesConfig.dlqSuffix}`, {
       connection
     });
+    this.matchingDlq = new Queue<MatchingBatchJob>(
+      `${this.queuesConfig.matchingQueueName}${this.queuesConfig.dlqSuffix}`,
+      { connection }
+    );
+    this.rescoreDlq = new Queue<MatchRescoreJob>(
+      `${this.queuesConfig.rescoreQueueName}${this.queuesConfig.dlqSuffix}`,
+      { connection }
+    );
+    this.searchIndexDlq = new Queue<SearchIndexJob>(
+      `${this.queuesConfig.searchIndexQueueName}${this.queuesConfig.dlqSuffix}`,
+      { connection }
+    );
+    this.savedSearchDlq = new Queue<SavedSearchRunJob>(
+      `${this.queuesConfig.savedSearchQueueName}${this.queuesConfig.dlqSuffix}`,
+      { connection }
+    );
 
     this.events.push(new QueueEvents(this.queuesConfig.resumeQueueName, { connection }));
     this.events.push(new QueueEvents(this.queuesConfig.requirementQueueName, { connection }));
     this.events.push(new QueueEvents(this.queuesConfig.webhookQueueName, { connection }));
     this.events.push(new QueueEvents(this.queuesConfig.syncQueueName, { connection }));
+    this.events.push(new QueueEvents(this.queuesConfig.matchingQueueName, { connection }));
+    this.events.push(new QueueEvents(this.queuesConfig.rescoreQueueName, { connection }));
+    this.events.push(new QueueEvents(this.queuesConfig.searchIndexQueueName, { connection }));
+    this.events.push(new QueueEvents(this.queuesConfig.savedSearchQueueName, { connection }));
 
     this.defaultJobOptions = {
       removeOnComplete: { age: 3600, count: 1000 },
@@ -85,6 +140,63 @@ export class IngestionQueueService implements OnModuleDestroy {
     await this.requirementQueue.add("requirement.ingest", job, { ...this.defaultJobOptions, ...options });
   }
 
+  async enqueueMatchingBatch(job: MatchingBatchJob, options: JobsOptions = {}) {
+    // A batch run records per-requirement failures itself; retrying would re-match the whole bench.
+    await this.matchingQueue.add("matching.batch", job, { ...this.defaultJobOptions, attempts: 1, ...options });
+  }
+
+  async enqueueMatchRescore(job: MatchRescoreJob, options: JobsOptions = {}) {
+    // Edits to the same entity within one delay window share a job id, so a burst of saves rescores once.
+    const entityId = job.consultantId ?? job.requirementId ?? "tenant";
+    const window = Math.floor(Date.now() / RESCORE_COALESCE_MS);
+    await this.rescoreQueue.add("matching.rescore", job, {
+      ...this.defaultJobOptions,
+      jobId: `rescore-${job.tenantId}-${entityId}-${window}`,
+      delay: RESCORE_COALESCE_MS,
+      removeOnComplete: true,
+      ...options
+    });
+  }
+
+  async enqueueSearchIndex(job: Omit<SearchEntityIndexJob, "kind">, options: JobsOptions = {}) {
+    // Saves to the same entity inside the window collapse into one job; the worker reads the latest row anyway.
+    const window = Math.floor(Date.now() / SEARCH_INDEX_COALESCE_MS);
+    await this.searchIndexQueue.add("search.index", { kind: "entity", ...job }, {
+      ...this.defaultJobOptions,
+      jobId: `index-${job.tenantId}-${job.entityType}-${job.entityId}-${window}`,
+      delay: SEARCH_INDEX_COALESCE_MS,
+      removeOnComplete: true,
+      ...options
+    });
+  }
+
+  async enqueueSearchReindex(job: Omit<SearchReindexJob, "kind">, options: JobsOptions = {}) {
+    // The run records per-document failures itself; retrying would re-walk the whole tenant.
+    await this.searchIndexQueue.add("search.reindex", { kind: "reindex", ...job }, {
+      ...this.defaultJobOptions,
+      jobId: job.runId,
+      attempts: 1,
+      ...options
+    });
+  }
+
+  async enqueueSavedSearchRun(job: SavedSearchRunJob, options: JobsOptions = {}) {
+    // Index-triggered runs coalesce per saved search, so a bulk import alerts once rather than per document.
+    const coalesce =
+      job.trigger === "INDEX"
+        ? {
+            jobId: `saved-${job.tenantId}-${job.savedSearchId}-${Math.floor(Date.now() / SAVED_SEARCH_INDEX_COALESCE_MS)}`,
+            delay: SAVED_SEARCH_INDEX_COALESCE_MS
+          }
+        : {};
+    await this.savedSearchQueue.add("search.saved", job, {
+      ...this.defaultJobOptions,
+      ...coalesce,
+      removeOnComplete: true,
+      ...options
+    });
+  }
+
   createResumeWorker(
     processor: (job: Job<ResumeIngestionJob>) => Promise<unknown>,
     overrides: Partial<WorkerOptions> = {}
@@ -99,6 +211,34 @@ export class IngestionQueueService implements OnModuleDestroy {
     return this.createWorker(this.queuesConfig.requirementQueueName, processor, overrides, this.requirementDlq);
   }
 
+  createMatchingBatchWorker(
+    processor: (job: Job<MatchingBatchJob>) => Promise<unknown>,
+    overrides: Partial<WorkerOptions> = {}
+  ): Worker<MatchingBatchJob> {
+    return this.createWorker(this.queuesConfig.matchingQueueName, processor, overrides, this.matchingDlq);
+  }
+
+  createMatchRescoreWorker(
+    processor: (job: Job<MatchRescoreJob>) => Promise<unknown>,
+    overrides: Partial<WorkerOptions> = {}
+  ): Worker<MatchRescoreJob> {
+    return this.createWorker(this.queuesConfig.rescoreQueueName, processor, overrides, this.rescoreDlq);
+  }
+
+  createSearchIndexWorker(
+    processor: (job: Job<SearchIndexJob>) => Promise<unknown>,
+    overrides: Partial<WorkerOptions> = {}
+  ): Worker<SearchIndexJob> {
+    return this.createWorker(this.queuesConfig.searchIndexQueueName, processor, overrides, this.searchIndexDlq);
+  }
+
+  createSavedSearchWorker(
+    processor: (job: Job<SavedSearchRunJob>) => Promise<unknown>,
+    overrides: Partial<WorkerOptions> = {}
+  ): Worker<SavedSearchRunJob> {
+    return this.createWorker(this.queuesConfig.savedSearchQueueName, processor, overrides, this.savedSearchDlq);
+  }
+
   async moveDlqJobsToQueue(queue: "resume" | "requirement", limit = 50) {
     const dlq = queue === "resume" ? this.resumeDlq : this.requirementDlq;
     const target = queue === "resume" ? this.resumeQueue : this.requirementQueue;
@@ -132,10 +272,7 @@ export class IngestionQueueService implements OnModuleDestroy {
       processor,
       {
         connection: new IORedis(this.redisUrl, { maxRetriesPerRequest: null }),
-        concurrency:
-          queueName === this.queuesConfig.resumeQueueName
-            ? this.queuesConfig.resumeConcurrency
-            : this.queuesConfig.requirementConcurrency,
+        concurrency: this.resolveConcurrency(queueName),
         autorun: true,
         ...overrides
       }
@@ -167,6 +304,23 @@ export class IngestionQueueService implements OnModuleDestroy {
     return worker;
   }
 
+  private resolveConcurrency(queueName: string): number {
+    switch (queueName) {
+      case this.queuesConfig.resumeQueueName:
+        return this.queuesConfig.resumeConcurrency;
+      case this.queuesConfig.matchingQueueName:
+        return this.queuesConfig.matchingConcurrency ?? 1;
+      case this.queuesConfig.rescoreQueueName:
+        return this.queuesConfig.rescoreConcurrency ?? 1;
+      case this.queuesConfig.searchIndexQueueName:
+        return this.queuesConfig.searchIndexConcurrency ?? 1;
+      case this.queuesConfig.savedSearchQueueName:
+        return this.queuesConfig.savedSearchConcurrency ?? 1;
+      default:
+        return this.queuesConfig.requirementConcurrency;
+    }
+  }
+
   async enqueueWebhookProcessing(event: WebhookEvent, overrides?: JobsOptions): Promise<Job<WebhookEvent>> {
     return this.webhookQueue.add("webhook.processing", event, {
       ...this.defaultJobOptions,
@@ -190,10 +344,18 @@ export class IngestionQueueService implements OnModuleDestroy {
       this.requirementQueue.close(),
       this.webhookQueue.close(),
       this.syncQueue.close(),
+      this.matchingQueue.close(),
+      this.rescoreQueue.close(),
+      this.searchIndexQueue.close(),
+      this.savedSearchQueue.close(),
       this.resumeDlq.close(),
       this.requirementDlq.close(),
       this.webhookDlq.close(),
-      this.syncDlq.close()
+      this.syncDlq.close(),
+      this.matchingDlq.close(),
+      this.rescoreDlq.close(),
+      this.searchIndexDlq.close(),
+      this.savedSearchDlq.close()
     ]);
   }
 }
@@ -1,4 +1,4 @@
-import { DocumentAssetType } from "@prisma/client";
+import { DocumentAssetType, MailboxRoute, SavedSearchRunTrigger, SearchEntityType } from "@prisma/client";
 
 export interface ResumeIngestionJob {
   tenantId: string;
@@ -17,31 +17,88 @@ export interface RequirementIngestionJob {
   ingestionId: string;
 }
 
+export interface MatchingBatchJob {
+  tenantId: string;
+  runId: string;
+}
+
+export interface MatchRescoreJob {
+  tenantId: string;
+  trigger: "CONSULTANT_UPDATED" | "REQUIREMENT_UPDATED" | "REQUIREMENT_TRANSITION";
+  consultantId?: string;
+  requirementId?: string;
+}
+
+export interface SearchEntityIndexJob {
+  kind: "entity";
+  tenantId: string;
+  entityType: SearchEntityType;
+  entityId: string;
+}
+
+export interface SearchReindexJob {
+  kind: "reindex";
+  tenantId: string;
+  runId: string;
+}
+
+export type SearchIndexJob = SearchEntityIndexJob | SearchReindexJob;
+
+export interface SavedSearchRunJob {
+  tenantId: string;
+  savedSearchId: string;
+  trigger: SavedSearchRunTrigger;
+}
+
 export interface IngestionQueuesConfig {
   resumeQueueName: string;
   requirementQueueName: string;
   webhookQueueName: string;
   syncQueueName: string;
+  matchingQueueName: string;
+  rescoreQueueName: string;
+  searchIndexQueueName: string;
+  savedSearchQueueName: string;
   dlqSuffix: string;
   resumeConcurrency: number;
   requirementConcurrency: number;
+  matchingConcurrency: number;
+  rescoreConcurrency: number;
+  searchIndexConcurrency: number;
+  savedSearchConcurrency: number;
   webhookConcurrency: number;
   syncConcurrency: number;
   defaultAttempts: number;
   backoffMs: number;
 }
 
+/** Mailbox connections themselves are configured per tenant (TenantMailbox); this only gates and keys them. */
 export interface EmailIngestionConfig {
+  /** Global switch for polling tenant mailboxes. */
   enabled: boolean;
-  host?: string;
-  port?: number;
-  secure?: boolean;
-  user?: string;
-  password?: string;
-  mailbox: string;
-  pollIntervalMs: number;
+  /** Secret the mailbox passwords are encrypted under. */
+  credentialsSecret: string;
   attachmentMimeWhitelist: string[];
-  defaultTenantId?: string;
+}
+
+/** Embedded SMTP listener for INBOUND mailboxes, meant for local deployments without a mail provider. */
+export interface InboundSmtpConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  maxMessageBytes: number;
+}
+
+export interface EmailIngestionTarget {
+  tenantId: string;
+  mailboxId: string;
+}
+
+export interface EmailProcessingOutcome {
+  route: MailboxRoute | null;
+  clientName: string | null;
+  requirementIngestionId: string | null;
+  resumeDocumentIds: string[];
 }
 
 export interface SmtpConfig {
@@ -59,11 +116,18 @@ export interface IngestionSloConfig {
   requirementMinutes: number;
 }
 
+export interface IngestionReviewConfig {
+  /** Requirement extractions scoring below this overall confidence wait in PENDING_REVIEW. */
+  confidenceThreshold: number;
+}
+
 export interface IngestionConfig {
   queues: IngestionQueuesConfig;
   email: EmailIngestionConfig;
+  inboundSmtp: InboundSmtpConfig;
   smtp: SmtpConfig;
   slo: IngestionSloConfig;
+  review: IngestionReviewConfig;
 }
 
 export interface NamedEntity {
@@ -88,6 +152,45 @@ export interface PiiRedactionResult {
   counts: Record<string, number>;
 }
 
+/** Dates are "YYYY-MM"; a year-only date is January when it starts a range and December when it ends one. */
+export interface ResumeExperienceEntry {
+  title: string | null;
+  employer: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  current: boolean;
+  months: number;
+  description: string;
+}
+
+export interface NormalizedExperienceEntry extends ResumeExperienceEntry {
+  /** Catalog skills named in the role's title or description. */
+  skillIds: string[];
+}
+
+export interface ResumeEducationEntry {
+  institution: string | null;
+  degree: string | null;
+  field: string | null;
+  graduationYear: number | null;
+}
+
+export interface ResumeCertificationEntry {
+  name: string;
+  issuer: string | null;
+  year: number | null;
+}
+
+export interface ResumeSkillExperience {
+  skillId: string;
+  name: string;
+  /** Years across dated roles mentioning the skill, overlaps counted once; 0 when only listed. */
+  years: number;
+  lastUsed: string | null;
+  /** ConsultantSkill.weight on its 0-100 scale. */
+  weight: number;
+}
+
 export interface NormalizedResumeData {
   candidate: {
     firstName?: string;
@@ -101,24 +204,44 @@ export interface NormalizedResumeData {
   skills: string[];
   summary: string;
   matchedSkillIds: string[];
+  experience: NormalizedExperienceEntry[];
+  education: ResumeEducationEntry[];
+  certifications: ResumeCertificationEntry[];
+  skillExperience: ResumeSkillExperience[];
+  /** Years covered by dated roles, overlaps counted once; null when no role had dates. */
+  totalExperienceYears: number | null;
 }
 
 export interface ResumeProcessingOutcome {
   documentId: string;
-  consultantId: string;
+  /** Unset when the resume was held for human review instead of being linked to a consultant. */
+  consultantId?: string;
   requirementId?: string;
   duplicate: boolean;
+  review: boolean;
   ingestionMillis?: number;
   piiFindingCount: number;
   normalized?: NormalizedResumeData;
 }
 
+/** Stored on `DocumentMetadata.reviewData` while a resume waits in PENDING_REVIEW. */
+export interface ResumeReviewData {
+  normalized: NormalizedResumeData;
+  /** Consultants the resume's email or phone matched, or the one it was uploaded for. */
+  candidateConsultantIds: string[];
+  /** Extracted text with PII replaced by vault tokens. */
+  text: string;
+}
+
 export interface RequirementProcessingOutcome {
   ingestionId: string;
-  requirementId: string;
+  /** Unset when the extraction was held for human review instead of creating a requirement. */
+  requirementId?: string;
   latencyMs?: number;
   created: boolean;
   updated: boolean;
+  review: boolean;
+  confidence?: number;
 }
 
 export interface PiiTokenConfig {
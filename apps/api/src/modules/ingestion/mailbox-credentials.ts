@@ -0,0 +1,35 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/** AES-256-GCM under a key derived from the configured secret; output is base64 of iv, auth tag and ciphertext. */
+export function encryptMailboxSecret(value: string, secret: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+/** Throws when the payload was sealed under a different secret or has been tampered with. */
+export function decryptMailboxSecret(payload: string, secret: string): string {
+  const buffer = Buffer.from(payload, "base64");
+  const iv = buffer.subarray(0, IV_LENGTH);
+  const authTag = buffer.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const decipher = createDecipheriv("aes-256-gcm", deriveKey(secret), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(buffer.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]).toString("utf8");
+}
+
+function deriveKey(secret: string): Buffer {
+  return createHash("sha256").update(secret).digest();
+}
+
+/** Inbound webhook tokens are random and shown once; only their SHA-256 is stored and looked up. */
+export function generateInboundToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function hashInboundToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,76 @@
+import type { ConfigService } from "@nestjs/config";
+import type { TenantMailbox } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { RequestContextService } from "../../infrastructure/context";
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { EmailIngestionService } from "./email-ingestion.service";
+import { MailboxPoolService } from "./mailbox-pool.service";
+import type { MailboxesService } from "./mailboxes.service";
+
+describe("MailboxPoolService", () => {
+  const emailIngestionMock = { processMessage: vi.fn(), holdUnprocessable: vi.fn() };
+  const clientMock = {
+    usable: true,
+    getMailboxLock: vi.fn(),
+    search: vi.fn(),
+    fetchOne: vi.fn(),
+    messageFlagsAdd: vi.fn()
+  };
+  const source = Buffer.from("Subject: Java Developer\r\n\r\nRate: $75/hr");
+
+  const service = new MailboxPoolService(
+    {} as PrismaService,
+    {} as RequestContextService,
+    {} as MailboxesService,
+    emailIngestionMock as unknown as EmailIngestionService,
+    { get: vi.fn() } as unknown as ConfigService
+  );
+  const poller = service as unknown as { poll(entry: unknown): Promise<number> };
+  let entry: Record<string, unknown>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clientMock.getMailboxLock.mockResolvedValue({ release: vi.fn() });
+    clientMock.search.mockResolvedValue([7]);
+    clientMock.fetchOne.mockResolvedValue({ uid: 7, source });
+    entry = {
+      mailboxId: "mb-1",
+      tenantId: "tenant-1",
+      mailbox: { folder: "INBOX" } as TenantMailbox,
+      client: clientMock,
+      messageAttempts: new Map(),
+      closed: false
+    };
+  });
+
+  it("holds a message for review and marks it seen once it has failed on every attempt", async () => {
+    emailIngestionMock.processMessage.mockRejectedValue(new Error("malformed MIME"));
+
+    await poller.poll(entry);
+    await poller.poll(entry);
+    expect(clientMock.messageFlagsAdd).not.toHaveBeenCalled();
+
+    await expect(poller.poll(entry)).resolves.toBe(0);
+    expect(emailIngestionMock.holdUnprocessable).toHaveBeenCalledTimes(1);
+    expect(emailIngestionMock.holdUnprocessable).toHaveBeenCalledWith(
+      { tenantId: "tenant-1", mailboxId: "mb-1" },
+      source,
+      "malformed MIME"
+    );
+    expect(clientMock.messageFlagsAdd).toHaveBeenCalledWith({ uid: "7" }, ["\\Seen"], { uid: true });
+    expect(entry.messageAttempts).toEqual(new Map());
+  });
+
+  it("keeps retrying a message that could not be held", async () => {
+    emailIngestionMock.processMessage.mockRejectedValue(new Error("database unavailable"));
+    emailIngestionMock.holdUnprocessable.mockRejectedValue(new Error("database unavailable"));
+
+    for (let poll = 0; poll < 4; poll += 1) {
+      await poller.poll(entry);
+    }
+
+    expect(emailIngestionMock.holdUnprocessable).toHaveBeenCalledTimes(2);
+    expect(clientMock.messageFlagsAdd).not.toHaveBeenCalled();
+  });
+});
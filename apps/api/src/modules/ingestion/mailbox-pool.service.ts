@@ -0,0 +1,270 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { MailboxKind, MailboxStatus, Prisma, TenantMailbox } from "@prisma/client";
+import { ImapFlow } from "imapflow";
+
+import { RequestContextService } from "../../infrastructure/context";
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { EmailIngestionService } from "./email-ingestion.service";
+import { IngestionConfig } from "./ingestion.types";
+import { MailboxesService } from "./mailboxes.service";
+
+const SYNC_INTERVAL_MS = 60_000;
+const MAX_BACKOFF_EXPONENT = 4;
+const MAX_BACKOFF_MS = 30 * 60_000;
+// Polls a message may fail in before it is marked seen and held for review instead of retried.
+const MAX_MESSAGE_ATTEMPTS = 3;
+
+interface PooledMailbox {
+  mailboxId: string;
+  tenantId: string;
+  /** Connection settings the client was opened with; a change in the table reopens it. */
+  signature: string;
+  mailbox: TenantMailbox;
+  client: ImapFlow | null;
+  timer: NodeJS.Timeout | null;
+  failures: number;
+  /** Failed processing attempts per unseen message UID. */
+  messageAttempts: Map<number, number>;
+  closed: boolean;
+}
+
+/**
+ * Keeps one IMAP connection per enabled IMAP tenant mailbox and polls each on its own interval, backing off after
+ * failures. Mailbox rows are re-read every minute, so added, edited, disabled or deleted mailboxes are picked up
+ * without a restart. Health is written back to the mailbox row after every attempt.
+ */
+@Injectable()
+export class MailboxPoolService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MailboxPoolService.name);
+  private readonly enabled: boolean;
+  private readonly pool = new Map<string, PooledMailbox>();
+  private syncHandle: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly context: RequestContextService,
+    private readonly mailboxes: MailboxesService,
+    private readonly emailIngestion: EmailIngestionService,
+    private readonly configService: ConfigService
+  ) {
+    const ingestion = (this.configService.get<IngestionConfig>("ingestion") ?? {}) as IngestionConfig;
+    this.enabled = ingestion.email?.enabled ?? process.env.EMAIL_INGESTION_ENABLED === "true";
+  }
+
+  onModuleInit() {
+    if (!this.enabled) {
+      this.logger.log("Email ingestion disabled");
+      return;
+    }
+    void this.safeSync();
+    this.syncHandle = setInterval(() => void this.safeSync(), SYNC_INTERVAL_MS);
+  }
+
+  async onModuleDestroy() {
+    if (this.syncHandle) {
+      clearInterval(this.syncHandle);
+      this.syncHandle = null;
+    }
+    await Promise.all([...this.pool.values()].map((entry) => this.close(entry)));
+    this.pool.clear();
+  }
+
+  /** Reconciles the pool with the enabled mailboxes of every tenant. */
+  async sync() {
+    const mailboxes = await this.prisma.tenantMailbox.findMany({ where: { enabled: true, kind: MailboxKind.IMAP } });
+    const wanted = new Map(mailboxes.map((mailbox) => [mailbox.id, mailbox]));
+
+    for (const entry of [...this.pool.values()]) {
+      const mailbox = wanted.get(entry.mailboxId);
+      if (!mailbox || connectionSignature(mailbox) !== entry.signature) {
+        this.pool.delete(entry.mailboxId);
+        await this.close(entry);
+      }
+    }
+
+    for (const mailbox of mailboxes) {
+      if (this.pool.has(mailbox.id)) {
+        continue;
+      }
+      const entry: PooledMailbox = {
+        mailboxId: mailbox.id,
+        tenantId: mailbox.tenantId,
+        signature: connectionSignature(mailbox),
+        mailbox,
+        client: null,
+        timer: null,
+        failures: mailbox.consecutiveFailures,
+        messageAttempts: new Map(),
+        closed: false
+      };
+      this.pool.set(mailbox.id, entry);
+      this.schedule(entry, 0);
+    }
+  }
+
+  private async safeSync() {
+    try {
+      await this.sync();
+    } catch (error) {
+      this.logger.error(`Mailbox pool sync failed: ${(error as Error).message}`);
+    }
+  }
+
+  private schedule(entry: PooledMailbox, delayMs: number) {
+    if (entry.closed) {
+      return;
+    }
+    entry.timer = setTimeout(() => void this.safePoll(entry), delayMs);
+  }
+
+  private async safePoll(entry: PooledMailbox) {
+    await this.context.run(async () => {
+      this.context.setTenant(entry.tenantId);
+      const attemptedAt = new Date();
+      try {
+        const messageCount = await this.poll(entry);
+        entry.failures = 0;
+        await this.recordHealth(entry, {
+          status: MailboxStatus.CONNECTED,
+          lastPollAt: attemptedAt,
+          lastSuccessAt: new Date(),
+          lastError: null,
+          consecutiveFailures: 0,
+          lastMessageCount: messageCount
+        });
+      } catch (error) {
+        const message = (error as Error).message ?? String(error);
+        entry.failures += 1;
+        this.logger.warn(`Mailbox ${entry.mailboxId} poll failed (${entry.failures}): ${message}`);
+        await this.disconnect(entry);
+        await this.recordHealth(entry, {
+          status: MailboxStatus.ERROR,
+          lastPollAt: attemptedAt,
+          lastError: message.slice(0, 1000),
+          consecutiveFailures: entry.failures
+        });
+      }
+    });
+
+    const intervalMs = entry.mailbox.pollIntervalSeconds * 1000;
+    this.schedule(entry, Math.min(intervalMs * 2 ** Math.min(entry.failures, MAX_BACKOFF_EXPONENT), MAX_BACKOFF_MS));
+  }
+
+  /**
+   * Ingests every unseen message and marks it seen; returns how many were ingested. A message that fails is left
+   * unseen for the next poll, up to MAX_MESSAGE_ATTEMPTS, and then held for review and marked seen.
+   */
+  private async poll(entry: PooledMailbox): Promise<number> {
+    const client = await this.connect(entry);
+    const lock = await client.getMailboxLock(entry.mailbox.folder);
+    let ingested = 0;
+    try {
+      const unseen = (await client.search({ seen: false }, { uid: true })) as unknown as number[];
+      const pending = new Set(unseen);
+      for (const uid of entry.messageAttempts.keys()) {
+        if (!pending.has(uid)) {
+          entry.messageAttempts.delete(uid);
+        }
+      }
+      for (const uid of unseen) {
+        if (entry.closed) {
+          break;
+        }
+        const message = await client.fetchOne(String(uid), { uid: true, source: true }, { uid: true });
+        if (!message || !message.source) {
+          continue;
+        }
+        const target = { tenantId: entry.tenantId, mailboxId: entry.mailboxId };
+        try {
+          await this.emailIngestion.processMessage(target, message.source);
+          ingested += 1;
+        } catch (error) {
+          const reason = (error as Error).message;
+          const attempts = (entry.messageAttempts.get(uid) ?? 0) + 1;
+          this.logger.error(`Mailbox ${entry.mailboxId} message ${uid} failed (${attempts}): ${reason}`);
+          if (attempts < MAX_MESSAGE_ATTEMPTS) {
+            entry.messageAttempts.set(uid, attempts);
+            continue;
+          }
+          try {
+            await this.emailIngestion.holdUnprocessable(target, message.source, reason);
+          } catch (holdError) {
+            const holdReason = (holdError as Error).message;
+            this.logger.error(`Mailbox ${entry.mailboxId} message ${uid} could not be held: ${holdReason}`);
+            continue;
+          }
+        }
+        await client.messageFlagsAdd({ uid: String(uid) }, ["\\Seen"], { uid: true });
+        entry.messageAttempts.delete(uid);
+      }
+    } finally {
+      lock.release();
+    }
+    return ingested;
+  }
+
+  private async connect(entry: PooledMailbox): Promise<ImapFlow> {
+    if (entry.client?.usable) {
+      return entry.client;
+    }
+    await this.disconnect(entry);
+    const { host, port, secure, username, folder } = entry.mailbox;
+    if (!host || !username) {
+      throw new Error("IMAP configuration incomplete");
+    }
+    const client = new ImapFlow({
+      host,
+      port,
+      secure,
+      auth: { user: username, pass: this.mailboxes.decryptPassword(entry.mailbox) },
+      logger: false
+    });
+    await client.connect();
+    await client.mailboxOpen(folder);
+    entry.client = client;
+    this.logger.log(`Connected to mailbox ${entry.mailbox.name} (${folder}) for tenant ${entry.tenantId}`);
+    return client;
+  }
+
+  private async disconnect(entry: PooledMailbox) {
+    const client = entry.client;
+    entry.client = null;
+    if (client) {
+      try { await client.logout(); } catch {}
+      try { client.close(); } catch {}
+    }
+  }
+
+  private async close(entry: PooledMailbox) {
+    entry.closed = true;
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+    await this.disconnect(entry);
+  }
+
+  private async recordHealth(entry: PooledMailbox, data: Prisma.TenantMailboxUpdateInput) {
+    if (entry.closed) {
+      return;
+    }
+    try {
+      await this.prisma.tenantMailbox.update({ where: { id: entry.mailboxId }, data });
+    } catch (error) {
+      this.logger.warn(`Failed to record health for mailbox ${entry.mailboxId}: ${(error as Error).message}`);
+    }
+  }
+}
+
+function connectionSignature(mailbox: TenantMailbox) {
+  return [
+    mailbox.host,
+    mailbox.port,
+    mailbox.secure,
+    mailbox.username,
+    mailbox.passwordCiphertext,
+    mailbox.folder,
+    mailbox.pollIntervalSeconds
+  ].join("|");
+}
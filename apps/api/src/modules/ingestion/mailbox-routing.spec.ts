@@ -0,0 +1,90 @@
+import { MailboxRoute } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import { decryptMailboxSecret, encryptMailboxSecret } from "./mailbox-credentials";
+import {
+  MailboxRoutingRuleInput,
+  resolveMailboxRoute,
+  senderDomain,
+  subjectMatches,
+  subjectPatternError
+} from "./mailbox-routing";
+
+function rule(overrides: Partial<MailboxRoutingRuleInput>): MailboxRoutingRuleInput {
+  return {
+    mailboxId: null,
+    priority: 100,
+    senderDomain: null,
+    subjectPattern: null,
+    clientName: null,
+    route: null,
+    ...overrides
+  };
+}
+
+describe("resolveMailboxRoute", () => {
+  it("matches sender domains including subdomains", () => {
+    const rules = [rule({ senderDomain: "acmebank.com", clientName: "Acme Bank" })];
+
+    expect(resolveMailboxRoute(rules, { mailboxId: "mb-1", from: "Jo <jo@hr.AcmeBank.com>" }).clientName).toBe(
+      "Acme Bank"
+    );
+    expect(resolveMailboxRoute(rules, { mailboxId: "mb-1", from: "jo@notacmebank.com" }).clientName).toBeNull();
+  });
+
+  it("resolves client and route independently by priority", () => {
+    const rules = [
+      rule({ priority: 50, subjectPattern: "resume - *dev", route: MailboxRoute.RESUME }),
+      rule({ priority: 10, senderDomain: "vendor.io", clientName: "Globex" }),
+      rule({ priority: 90, senderDomain: "vendor.io", clientName: "Ignored", route: MailboxRoute.REQUIREMENT })
+    ];
+
+    expect(
+      resolveMailboxRoute(rules, { mailboxId: "mb-1", from: "recruit@vendor.io", subject: "FW: Resume - Java dev" })
+    ).toEqual({ clientName: "Globex", route: MailboxRoute.RESUME });
+  });
+
+  it("skips rules scoped to another mailbox", () => {
+    const rules = [rule({ mailboxId: "mb-2", subjectPattern: "req", route: MailboxRoute.IGNORE })];
+
+    expect(resolveMailboxRoute(rules, { mailboxId: "mb-1", subject: "req" })).toEqual({
+      clientName: null,
+      route: null
+    });
+  });
+
+  it("matches subject globs literally apart from * and ?", () => {
+    expect(subjectMatches("resume", "FW: RESUME attached")).toBe(true);
+    expect(subjectMatches("req-???:*java", "Req-104: Senior Java")).toBe(true);
+    expect(subjectMatches("(a+)+", "aaaa")).toBe(false);
+    expect(subjectMatches("(a+)+", "re: (a+)+")).toBe(true);
+    expect(subjectPatternError("  ")).not.toBeNull();
+    expect(subjectPatternError("x".repeat(121))).not.toBeNull();
+  });
+
+  it("matches patterns that would backtrack as regular expressions in bounded time", () => {
+    const started = Date.now();
+
+    for (const pattern of [".*.*.*.*.*x", "*a*a*a*a*a*a*a*a*a*a*x", "(a+)+$"]) {
+      expect(subjectPatternError(pattern)).toBeNull();
+      expect(subjectMatches(pattern, "a".repeat(1_000))).toBe(false);
+    }
+    expect(Date.now() - started).toBeLessThan(200);
+  });
+
+  it("reads the domain from bare and named addresses", () => {
+    expect(senderDomain("a@b.example.org")).toBe("b.example.org");
+    expect(senderDomain("\"Smith, A\" <a@example.org>")).toBe("example.org");
+    expect(senderDomain(undefined)).toBeNull();
+  });
+});
+
+describe("mailbox credentials", () => {
+  it("round-trips a password and refuses another secret", () => {
+    const sealed = encryptMailboxSecret("imap-pass", "secret-a");
+
+    expect(sealed).not.toContain("imap-pass");
+    expect(decryptMailboxSecret(sealed, "secret-a")).toBe("imap-pass");
+    expect(() => decryptMailboxSecret(sealed, "secret-b")).toThrow();
+  });
+});
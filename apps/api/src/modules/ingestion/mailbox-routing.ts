@@ -0,0 +1,119 @@
+import { MailboxRoute } from "@prisma/client";
+
+export const MAX_SUBJECT_PATTERN_LENGTH = 120;
+
+// Subjects are only matched up to this length, which bounds the work any single rule can do.
+const MAX_MATCHED_SUBJECT_LENGTH = 300;
+
+export interface MailboxRoutingRuleInput {
+  mailboxId: string | null;
+  priority: number;
+  senderDomain: string | null;
+  subjectPattern: string | null;
+  clientName: string | null;
+  route: MailboxRoute | null;
+}
+
+export interface MailboxRoutingDecision {
+  clientName: string | null;
+  /** Null keeps the default split: body as a requirement, whitelisted attachments as resumes. */
+  route: MailboxRoute | null;
+}
+
+/**
+ * Rules are tried in ascending priority. clientName and route are resolved independently, so a broad subject rule
+ * can decide the route while a narrower sender rule names the client.
+ */
+export function resolveMailboxRoute(
+  rules: MailboxRoutingRuleInput[],
+  message: { mailboxId: string; from?: string | null; subject?: string | null }
+): MailboxRoutingDecision {
+  const decision: MailboxRoutingDecision = { clientName: null, route: null };
+  const domain = senderDomain(message.from);
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+
+  for (const rule of ordered) {
+    if (rule.mailboxId && rule.mailboxId !== message.mailboxId) {
+      continue;
+    }
+    if (!ruleMatches(rule, domain, message.subject ?? "")) {
+      continue;
+    }
+    decision.clientName ??= rule.clientName;
+    decision.route ??= rule.route;
+    if (decision.clientName && decision.route) {
+      break;
+    }
+  }
+
+  return decision;
+}
+
+/** Lower-cased domain of a bare address or a "Name <address>" header. */
+export function senderDomain(from?: string | null): string | null {
+  const match = from?.match(/@([A-Za-z0-9.-]+)>?\s*$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Validates a subject pattern before it is stored; returns why it was refused, if it was. Patterns are globs rather
+ * than regular expressions so that no stored rule can make matching backtrack: `*` stands for any run of characters,
+ * `?` for any single character, and everything else is literal.
+ */
+export function subjectPatternError(pattern: string): string | null {
+  if (pattern.length > MAX_SUBJECT_PATTERN_LENGTH) {
+    return `must be at most ${MAX_SUBJECT_PATTERN_LENGTH} characters`;
+  }
+  return pattern.trim() ? null : "must not be blank";
+}
+
+/**
+ * Case-insensitive glob match anywhere in the subject. Only the most recent `*` is ever revisited, so the work is
+ * bounded by pattern length times subject length whatever the pattern looks like.
+ */
+export function subjectMatches(pattern: string, subject: string): boolean {
+  const glob = `*${pattern.toLowerCase()}*`;
+  const text = subject.slice(0, MAX_MATCHED_SUBJECT_LENGTH).toLowerCase();
+  let patternIndex = 0;
+  let textIndex = 0;
+  let starIndex = -1;
+  let resumeIndex = 0;
+
+  while (textIndex < text.length) {
+    const char = glob[patternIndex];
+    if (char === "*") {
+      starIndex = patternIndex;
+      resumeIndex = textIndex;
+      patternIndex += 1;
+    } else if (patternIndex < glob.length && (char === "?" || char === text[textIndex])) {
+      patternIndex += 1;
+      textIndex += 1;
+    } else if (starIndex >= 0) {
+      patternIndex = starIndex + 1;
+      resumeIndex += 1;
+      textIndex = resumeIndex;
+    } else {
+      return false;
+    }
+  }
+  while (glob[patternIndex] === "*") {
+    patternIndex += 1;
+  }
+  return patternIndex === glob.length;
+}
+
+function ruleMatches(rule: MailboxRoutingRuleInput, domain: string | null, subject: string): boolean {
+  if (!rule.senderDomain && !rule.subjectPattern) {
+    return false;
+  }
+  if (rule.senderDomain) {
+    const expected = rule.senderDomain.toLowerCase().replace(/^@/, "");
+    if (!domain || (domain !== expected && !domain.endsWith(`.${expected}`))) {
+      return false;
+    }
+  }
+  if (rule.subjectPattern) {
+    return subjectMatches(rule.subjectPattern, subject);
+  }
+  return true;
+}
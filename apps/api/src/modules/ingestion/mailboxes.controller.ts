@@ -0,0 +1,81 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from "@nestjs/common";
+import { UserRole } from "@prisma/client";
+
+import { Roles } from "../auth/decorators/roles.decorator";
+import {
+  CreateMailboxDto,
+  CreateMailboxRoutingRuleDto,
+  UpdateMailboxDto,
+  UpdateMailboxRoutingRuleDto
+} from "./dto/mailbox.dto";
+import { MailboxesService } from "./mailboxes.service";
+
+@Controller("tenants/:tenantId/ingestion/mailboxes")
+export class MailboxesController {
+  constructor(private readonly mailboxes: MailboxesService) {}
+
+  @Get()
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  list(@Param("tenantId") tenantId: string) {
+    return this.mailboxes.list(tenantId);
+  }
+
+  @Post()
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  create(@Param("tenantId") tenantId: string, @Body() dto: CreateMailboxDto) {
+    return this.mailboxes.create(tenantId, dto);
+  }
+
+  @Get("rules")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  listRules(@Param("tenantId") tenantId: string, @Query("mailboxId") mailboxId?: string) {
+    return this.mailboxes.listRules(tenantId, mailboxId);
+  }
+
+  @Post("rules")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  createRule(@Param("tenantId") tenantId: string, @Body() dto: CreateMailboxRoutingRuleDto) {
+    return this.mailboxes.createRule(tenantId, dto);
+  }
+
+  @Patch("rules/:ruleId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  updateRule(
+    @Param("tenantId") tenantId: string,
+    @Param("ruleId") ruleId: string,
+    @Body() dto: UpdateMailboxRoutingRuleDto
+  ) {
+    return this.mailboxes.updateRule(tenantId, ruleId, dto);
+  }
+
+  @Delete("rules/:ruleId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  removeRule(@Param("tenantId") tenantId: string, @Param("ruleId") ruleId: string) {
+    return this.mailboxes.removeRule(tenantId, ruleId);
+  }
+
+  /** Includes connection health: status, last poll and success times, last error and consecutive failures. */
+  @Get(":id")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  get(@Param("tenantId") tenantId: string, @Param("id") id: string) {
+    return this.mailboxes.get(tenantId, id);
+  }
+
+  @Patch(":id")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  update(@Param("tenantId") tenantId: string, @Param("id") id: string, @Body() dto: UpdateMailboxDto) {
+    return this.mailboxes.update(tenantId, id, dto);
+  }
+
+  @Post(":id/inbound-token")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  rotateInboundToken(@Param("tenantId") tenantId: string, @Param("id") id: string) {
+    return this.mailboxes.rotateInboundToken(tenantId, id);
+  }
+
+  @Delete(":id")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  remove(@Param("tenantId") tenantId: string, @Param("id") id: string) {
+    return this.mailboxes.remove(tenantId, id);
+  }
+}
@@ -0,0 +1,273 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { MailboxKind, MailboxStatus, Prisma, TenantMailbox } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import {
+  CreateMailboxDto,
+  CreateMailboxRoutingRuleDto,
+  UpdateMailboxDto,
+  UpdateMailboxRoutingRuleDto
+} from "./dto/mailbox.dto";
+import { IngestionConfig } from "./ingestion.types";
+import {
+  decryptMailboxSecret,
+  encryptMailboxSecret,
+  generateInboundToken,
+  hashInboundToken
+} from "./mailbox-credentials";
+import { subjectPatternError } from "./mailbox-routing";
+
+/** Everything but the password ciphertext. */
+const MAILBOX_SELECT = {
+  id: true,
+  tenantId: true,
+  name: true,
+  kind: true,
+  host: true,
+  port: true,
+  secure: true,
+  username: true,
+  folder: true,
+  inboundAddress: true,
+  enabled: true,
+  pollIntervalSeconds: true,
+  status: true,
+  lastPollAt: true,
+  lastSuccessAt: true,
+  lastError: true,
+  consecutiveFailures: true,
+  lastMessageCount: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.TenantMailboxSelect;
+
+const CONNECTION_FIELDS = ["host", "port", "secure", "username", "folder"] as const;
+const IMAP_FIELDS = [...CONNECTION_FIELDS, "password", "pollIntervalSeconds"] as const;
+
+/** Tenant-managed IMAP mailboxes and the rules that route their mail. */
+@Injectable()
+export class MailboxesService {
+  private readonly credentialsSecret: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService
+  ) {
+    const ingestion = (this.configService.get<IngestionConfig>("ingestion") ?? {}) as IngestionConfig;
+    const secret = ingestion.email?.credentialsSecret ?? process.env.MAILBOX_CREDENTIALS_SECRET;
+    if (!secret) {
+      throw new Error("MAILBOX_CREDENTIALS_SECRET must be set to encrypt tenant mailbox credentials");
+    }
+    this.credentialsSecret = secret;
+  }
+
+  list(tenantId: string) {
+    return this.prisma.tenantMailbox.findMany({
+      where: { tenantId },
+      select: MAILBOX_SELECT,
+      orderBy: { name: "asc" }
+    });
+  }
+
+  async get(tenantId: string, mailboxId: string) {
+    const mailbox = await this.prisma.tenantMailbox.findFirst({
+      where: { id: mailboxId, tenantId },
+      select: MAILBOX_SELECT
+    });
+    if (!mailbox) {
+      throw new NotFoundException(`Mailbox ${mailboxId} not found`);
+    }
+    return mailbox;
+  }
+
+  /** INBOUND mailboxes are returned with their webhook token; it is not retrievable afterwards. */
+  async create(tenantId: string, dto: CreateMailboxDto) {
+    const { password, ...fields } = dto;
+    const kind = fields.kind ?? MailboxKind.IMAP;
+    this.assertKindFields(kind, dto);
+    if (kind === MailboxKind.IMAP && (!fields.host || !fields.username || !password)) {
+      throw new BadRequestException("host, username and password are required for IMAP mailboxes");
+    }
+    await this.assertNameAvailable(tenantId, fields.name);
+
+    const inboundToken = kind === MailboxKind.INBOUND ? generateInboundToken() : null;
+    const mailbox = await this.writeMailbox(fields.inboundAddress, () =>
+      this.prisma.tenantMailbox.create({
+        data: {
+          ...fields,
+          kind,
+          tenantId,
+          inboundAddress: fields.inboundAddress?.toLowerCase(),
+          passwordCiphertext: password ? encryptMailboxSecret(password, this.credentialsSecret) : null,
+          inboundTokenHash: inboundToken ? hashInboundToken(inboundToken) : null,
+          status: fields.enabled === false ? MailboxStatus.DISABLED : MailboxStatus.PENDING
+        },
+        select: MAILBOX_SELECT
+      })
+    );
+    return inboundToken ? { ...mailbox, inboundToken } : mailbox;
+  }
+
+  /** Replaces an INBOUND mailbox's webhook token; the previous one stops working immediately. */
+  async rotateInboundToken(tenantId: string, mailboxId: string) {
+    const mailbox = await this.get(tenantId, mailboxId);
+    if (mailbox.kind !== MailboxKind.INBOUND) {
+      throw new BadRequestException(`Mailbox ${mailboxId} is not an inbound mailbox`);
+    }
+    const inboundToken = generateInboundToken();
+    await this.prisma.tenantMailbox.update({
+      where: { id: mailboxId },
+      data: { inboundTokenHash: hashInboundToken(inboundToken) }
+    });
+    return { id: mailboxId, inboundToken };
+  }
+
+  /** Connection changes reset health to PENDING until the pool reconnects with the new settings. */
+  async update(tenantId: string, mailboxId: string, dto: UpdateMailboxDto) {
+    const current = await this.get(tenantId, mailboxId);
+    const { password, ...fields } = dto;
+    this.assertKindFields(current.kind, dto);
+    if (fields.name && fields.name !== current.name) {
+      await this.assertNameAvailable(tenantId, fields.name);
+    }
+
+    const enabled = fields.enabled ?? current.enabled;
+    const reconnect =
+      current.kind === MailboxKind.IMAP &&
+      (Boolean(password) ||
+        CONNECTION_FIELDS.some((field) => fields[field] !== undefined && fields[field] !== current[field]));
+    const status = !enabled
+      ? MailboxStatus.DISABLED
+      : reconnect || !current.enabled
+        ? MailboxStatus.PENDING
+        : undefined;
+    return this.writeMailbox(fields.inboundAddress, () =>
+      this.prisma.tenantMailbox.update({
+        where: { id: mailboxId },
+        data: {
+          ...fields,
+          inboundAddress: fields.inboundAddress?.toLowerCase(),
+          ...(password ? { passwordCiphertext: encryptMailboxSecret(password, this.credentialsSecret) } : {}),
+          status,
+          ...(status ? { lastError: null, consecutiveFailures: 0 } : {})
+        },
+        select: MAILBOX_SELECT
+      })
+    );
+  }
+
+  async remove(tenantId: string, mailboxId: string) {
+    await this.get(tenantId, mailboxId);
+    await this.prisma.tenantMailbox.delete({ where: { id: mailboxId } });
+    return { id: mailboxId, deleted: true };
+  }
+
+  /** Used by the connection pool only. */
+  decryptPassword(mailbox: Pick<TenantMailbox, "id" | "passwordCiphertext">): string {
+    if (!mailbox.passwordCiphertext) {
+      throw new Error(`Mailbox ${mailbox.id} has no stored password`);
+    }
+    return decryptMailboxSecret(mailbox.passwordCiphertext, this.credentialsSecret);
+  }
+
+  listRules(tenantId: string, mailboxId?: string) {
+    return this.prisma.mailboxRoutingRule.findMany({
+      where: { tenantId, ...(mailboxId ? { OR: [{ mailboxId }, { mailboxId: null }] } : {}) },
+      orderBy: [{ priority: "asc" }, { createdAt: "asc" }]
+    });
+  }
+
+  async createRule(tenantId: string, dto: CreateMailboxRoutingRuleDto) {
+    await this.validateRule(tenantId, dto);
+    return this.prisma.mailboxRoutingRule.create({
+      data: { ...dto, senderDomain: normalizeDomain(dto.senderDomain), tenantId }
+    });
+  }
+
+  async updateRule(tenantId: string, ruleId: string, dto: UpdateMailboxRoutingRuleDto) {
+    const current = await this.findRule(tenantId, ruleId);
+    await this.validateRule(tenantId, { ...current, ...dto });
+    return this.prisma.mailboxRoutingRule.update({
+      where: { id: ruleId },
+      data: { ...dto, ...(dto.senderDomain !== undefined ? { senderDomain: normalizeDomain(dto.senderDomain) } : {}) }
+    });
+  }
+
+  async removeRule(tenantId: string, ruleId: string) {
+    await this.findRule(tenantId, ruleId);
+    await this.prisma.mailboxRoutingRule.delete({ where: { id: ruleId } });
+    return { id: ruleId, deleted: true };
+  }
+
+  private async findRule(tenantId: string, ruleId: string) {
+    const rule = await this.prisma.mailboxRoutingRule.findFirst({ where: { id: ruleId, tenantId } });
+    if (!rule) {
+      throw new NotFoundException(`Routing rule ${ruleId} not found`);
+    }
+    return rule;
+  }
+
+  private async validateRule(tenantId: string, rule: RuleFields) {
+    if (!rule.senderDomain && !rule.subjectPattern) {
+      throw new BadRequestException("A routing rule needs a senderDomain or a subjectPattern");
+    }
+    if (!rule.clientName && !rule.route) {
+      throw new BadRequestException("A routing rule needs a clientName or a route");
+    }
+    const patternError = rule.subjectPattern ? subjectPatternError(rule.subjectPattern) : null;
+    if (patternError) {
+      throw new BadRequestException(`Invalid subjectPattern: ${patternError}`);
+    }
+    if (rule.mailboxId) {
+      await this.get(tenantId, rule.mailboxId);
+    }
+  }
+
+  private assertKindFields(kind: MailboxKind, dto: UpdateMailboxDto) {
+    if (kind === MailboxKind.INBOUND && IMAP_FIELDS.some((field) => dto[field] !== undefined)) {
+      throw new BadRequestException(`INBOUND mailboxes do not take ${IMAP_FIELDS.join(", ")}`);
+    }
+    if (kind === MailboxKind.IMAP && dto.inboundAddress !== undefined) {
+      throw new BadRequestException("inboundAddress only applies to INBOUND mailboxes");
+    }
+    if (kind === MailboxKind.IMAP && (["host", "username", "password"] as const).some((field) => dto[field] === null)) {
+      throw new BadRequestException("host, username and password cannot be cleared on IMAP mailboxes");
+    }
+  }
+
+  /**
+   * Inbound addresses are unique across tenants, which a tenant-scoped lookup cannot see, so a taken address
+   * is detected from the unique index instead.
+   */
+  private async writeMailbox<T>(inboundAddress: string | undefined, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (
+        inboundAddress &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002" &&
+        String(error.meta?.target ?? "").includes("inboundAddress")
+      ) {
+        throw new ConflictException(`Inbound address ${inboundAddress} is already in use`);
+      }
+      throw error;
+    }
+  }
+
+  private async assertNameAvailable(tenantId: string, name: string) {
+    const existing = await this.prisma.tenantMailbox.findFirst({ where: { tenantId, name }, select: { id: true } });
+    if (existing) {
+      throw new BadRequestException(`Mailbox ${name} already exists`);
+    }
+  }
+}
+
+type RuleFields = {
+  [K in "mailboxId" | "senderDomain" | "subjectPattern" | "clientName" | "route"]?: CreateMailboxRoutingRuleDto[K] | null;
+};
+
+function normalizeDomain(domain: string | null | undefined) {
+  return domain ? domain.trim().toLowerCase().replace(/^@/, "") : domain;
+}
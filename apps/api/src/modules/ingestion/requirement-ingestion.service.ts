@@ -1,27 +1,44 @@
 import { Injectable, Logger } from "@nestjs/common";
-import { IngestionStatus, Prisma, RequirementSource } from "@prisma/client";
+import { ConfigService } from "@nestjs/config";
+import {
+  IngestionReviewReason,
+  IngestionStatus,
+  Prisma,
+  RequirementIngestion,
+  RequirementSource,
+  RequirementStatus
+} from "@prisma/client";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
 import { AiGatewayService } from "../ai-gateway/ai-gateway.service";
+import { RequirementExtraction } from "../ai-gateway/requirement-extraction";
+import { CreateRequirementDto } from "../requirements/dto/requirement.dto";
 import { RequirementsService } from "../requirements/requirements.service";
-import { RequirementProcessingOutcome } from "./ingestion.types";
+import { threadAncestors } from "./email-thread";
+import { IngestionConfig, IngestionReviewConfig, RequirementIngestionJob, RequirementProcessingOutcome } from "./ingestion.types";
+import { diffRequirementFields, hasRevisions } from "./requirement-revision";
 
-interface RequirementIngestionJobPayload {
-  tenantId: string;
-  ingestionId: string;
-}
+const MUST_HAVE_WEIGHT = 80;
+const NICE_TO_HAVE_WEIGHT = 40;
 
 @Injectable()
 export class RequirementIngestionService {
   private readonly logger = new Logger(RequirementIngestionService.name);
+  private readonly reviewConfig: IngestionReviewConfig;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly aiGateway: AiGatewayService,
-    private readonly requirements: RequirementsService
-  ) {}
+    private readonly requirements: RequirementsService,
+    private readonly configService: ConfigService
+  ) {
+    const ingestion = (this.configService.get<IngestionConfig>("ingestion") ?? {}) as IngestionConfig;
+    this.reviewConfig = ingestion.review ?? {
+      confidenceThreshold: Number(process.env.INGESTION_REVIEW_THRESHOLD ?? 0.6)
+    };
+  }
 
-  async process(job: RequirementIngestionJobPayload): Promise<RequirementProcessingOutcome> {
+  async process(job: RequirementIngestionJob): Promise<RequirementProcessingOutcome> {
     const startedAt = Date.now();
     const ingestion = await this.prisma.requirementIngestion.findUnique({
       where: { id: job.ingestionId }
@@ -31,24 +48,68 @@ export class RequirementIngestionService {
       throw new Error(`Requirement ingestion ${job.ingestionId} not found`);
     }
 
-    if (ingestion.status === IngestionStatus.PROCESSED) {
+    if (ingestion.status === IngestionStatus.PROCESSED || ingestion.status === IngestionStatus.PENDING_REVIEW) {
       return {
         ingestionId: ingestion.id,
-        requirementId: (ingestion.parsedData as Prisma.JsonObject | null)?.requirementId as string,
+        requirementId: ingestion.requirementId ?? undefined,
         latencyMs: ingestion.latencyMs ?? undefined,
         created: false,
-        updated: false
+        updated: false,
+        review: ingestion.status === IngestionStatus.PENDING_REVIEW,
+        confidence: ingestion.confidence ?? undefined
       };
     }
 
     try {
-      const parsed = await this.aiGateway.extractRequirement(job.tenantId, ingestion.rawContent);
+      const hints = (ingestion.parsedData ?? {}) as { subject?: string; clientName?: string | null };
+      const subject = hints.subject;
+      const parsed = await this.aiGateway.extractRequirement(job.tenantId, ingestion.rawContent, {
+        subject,
+        clientName: hints.clientName ?? undefined
+      });
+      const latencyMs = Date.now() - startedAt;
+
+      const thread = await this.findThreadParent(ingestion);
+      if (thread?.requirementId) {
+        return await this.applyReply(ingestion, parsed, thread, { subject, latencyMs });
+      }
+
+      // Without a title there is nothing to match an existing requirement on, whatever the other fields score.
+      const reviewReason = !parsed.title
+        ? IngestionReviewReason.MISSING_TITLE
+        : parsed.confidence < this.reviewConfig.confidenceThreshold
+          ? IngestionReviewReason.LOW_CONFIDENCE
+          : null;
+      if (reviewReason) {
+        await this.prisma.requirementIngestion.update({
+          where: { id: ingestion.id },
+          data: {
+            status: IngestionStatus.PENDING_REVIEW,
+            reviewReason,
+            parentIngestionId: thread?.parentIngestionId,
+            parsedData: { ...parsed, subject } as unknown as Prisma.InputJsonValue,
+            confidence: parsed.confidence,
+            latencyMs,
+            error: null,
+            retryCount: 0
+          }
+        });
+        this.logger.log(`Requirement ingestion ${ingestion.id} held for review: ${reviewReason} (${parsed.confidence})`);
+
+        return {
+          ingestionId: ingestion.id,
+          latencyMs,
+          created: false,
+          updated: false,
+          review: true,
+          confidence: parsed.confidence
+        };
+      }
+
       const requirement = await this.upsertRequirement(
         job.tenantId,
-        parsed,
-        ingestion.source ?? RequirementSource.EMAIL
+        toRequirementFields(parsed, ingestion.source ?? RequirementSource.EMAIL)
       );
-      const latencyMs = Date.now() - startedAt;
 
       await this.prisma.requirementIngestion.update({
         where: { id: ingestion.id },
@@ -56,8 +117,12 @@ export class RequirementIngestionService {
           status: IngestionStatus.PROCESSED,
           parsedData: {
             ...parsed,
+            subject,
             requirementId: requirement.id
-          } as Prisma.InputJsonValue,
+          } as unknown as Prisma.InputJsonValue,
+          requirementId: requirement.id,
+          parentIngestionId: thread?.parentIngestionId,
+          confidence: parsed.confidence,
           processedAt: new Date(),
           latencyMs,
           error: null,
@@ -70,7 +135,9 @@ export class RequirementIngestionService {
         requirementId: requirement.id,
         latencyMs,
         created: requirement.created,
-        updated: requirement.updated
+        updated: requirement.updated,
+        review: false,
+        confidence: parsed.confidence
       };
     } catch (error) {
       const message = (error as Error).message ?? String(error);
@@ -87,82 +154,167 @@ export class RequirementIngestionService {
     }
   }
 
-  private async upsertRequirement(
-    tenantId: string,
-    parsed: {
-      title?: string;
-      clientName?: string;
-      location?: string;
-      suggestedRate?: number;
-      skills?: string[];
-    },
-    source: RequirementSource
-  ) {
-    const title = parsed.title?.trim() ?? "Untitled Requirement";
-    const clientName = parsed.clientName?.trim() ?? "Unknown Client";
+  /**
+   * The closest earlier ingestion in the same email thread, preferring one that already produced a requirement.
+   * Only ingestions that carry thread headers can have one.
+   */
+  private async findThreadParent(
+    ingestion: RequirementIngestion
+  ): Promise<{ parentIngestionId: string; requirementId: string | null } | null> {
+    const ancestors = threadAncestors(ingestion);
+    if (!ancestors.length) {
+      return null;
+    }
 
-    const existing = await this.prisma.requirement.findFirst({
-      where: {
-        tenantId,
-        title: { equals: title, mode: "insensitive" },
-        clientName: { equals: clientName, mode: "insensitive" }
-      },
-      include: { skills: true }
+    const candidates = await this.prisma.requirementIngestion.findMany({
+      where: { tenantId: ingestion.tenantId, messageId: { in: ancestors }, id: { not: ingestion.id } },
+      select: { id: true, messageId: true, requirementId: true },
+      orderBy: { createdAt: "asc" }
     });
+    const byMessageId = new Map(candidates.map((candidate) => [candidate.messageId, candidate]));
+    const ordered = ancestors.flatMap((messageId) => byMessageId.get(messageId) ?? []);
+    const parent = ordered.find((candidate) => candidate.requirementId) ?? ordered[0];
+    return parent ? { parentIngestionId: parent.id, requirementId: parent.requirementId } : null;
+  }
 
-    const skillRecords = await this.resolveSkills(parsed.skills ?? []);
+  /**
+   * A reply in a requirement's thread revises that requirement: only fields the reply states and that differ are
+   * written, and each applied diff is kept as a RequirementRevision. Replies skip the confidence review since they
+   * cannot open a requirement.
+   */
+  private async applyReply(
+    ingestion: RequirementIngestion,
+    parsed: RequirementExtraction,
+    thread: { parentIngestionId: string; requirementId: string | null },
+    context: { subject?: string; latencyMs: number }
+  ): Promise<RequirementProcessingOutcome> {
+    const requirementId = thread.requirementId as string;
+    const current = await this.prisma.requirement.findFirst({
+      where: { id: requirementId, tenantId: ingestion.tenantId },
+      select: {
+        location: true,
+        workMode: true,
+        type: true,
+        minRate: true,
+        maxRate: true,
+        rateCurrency: true,
+        rateUnit: true,
+        durationMonths: true,
+        closesAt: true,
+        skills: { select: { skillId: true, weight: true, mustHave: true } }
+      }
+    });
+    if (!current) {
+      throw new Error(`Requirement ${requirementId} for thread of ingestion ${ingestion.id} not found`);
+    }
 
-    if (existing) {
-      await this.prisma.requirement.update({
-        where: { id: existing.id },
+    const { update, changes } = diffRequirementFields(
+      current,
+      toRequirementFields(parsed, ingestion.source ?? RequirementSource.EMAIL)
+    );
+    const revised = hasRevisions(changes);
+    // The revision and the ingestion's PROCESSED mark commit with the field update, so a retry never re-diffs against
+    // an already revised requirement and loses the edit from the history.
+    const record = async (tx: Prisma.TransactionClient) => {
+      if (revised) {
+        await tx.requirementRevision.create({
+          data: {
+            tenantId: ingestion.tenantId,
+            requirementId,
+            ingestionId: ingestion.id,
+            messageId: ingestion.messageId,
+            changes: changes as unknown as Prisma.InputJsonValue
+          }
+        });
+      }
+      await tx.requirementIngestion.update({
+        where: { id: ingestion.id },
         data: {
-          description: existing.description,
-          location: parsed.location ?? existing.location,
-          source
+          status: IngestionStatus.PROCESSED,
+          parsedData: {
+            ...parsed,
+            subject: context.subject,
+            requirementId,
+            revision: changes
+          } as unknown as Prisma.InputJsonValue,
+          requirementId,
+          parentIngestionId: thread.parentIngestionId,
+          confidence: parsed.confidence,
+          processedAt: new Date(),
+          latencyMs: context.latencyMs,
+          error: null,
+          retryCount: 0
         }
       });
+    };
 
-      await this.prisma.requirementSkill.deleteMany({ where: { requirementId: existing.id, tenantId } });
-      if (skillRecords.length > 0) {
-        await this.prisma.requirementSkill.createMany({
-          data: skillRecords.map((skill) => ({
-            tenantId,
-            requirementId: existing.id,
-            skillId: skill.id,
-            weight: 70
-          }))
-        });
-      }
-
-      return { id: existing.id, created: false, updated: true };
+    if (revised) {
+      await this.requirements.update(ingestion.tenantId, requirementId, update, record);
+      this.logger.log(
+        `Requirement ${requirementId} revised by reply ${ingestion.id}: ${[
+          ...Object.keys(changes.fields),
+          ...(changes.addedSkills.length ? ["skills"] : [])
+        ].join(", ")}`
+      );
+    } else {
+      await this.prisma.$transaction(record);
     }
 
-    const requirement = await this.requirements.create({
-      tenantId,
-      title,
-      clientName,
-      description: parsed.title ?? "",
-      location: parsed.location,
-      source,
-      status: "OPEN",
-      skills: skillRecords.map((skill) => ({ id: skill.id, weight: 70 }))
-    });
-
-    return { id: requirement.id, created: true, updated: false };
+    return {
+      ingestionId: ingestion.id,
+      requirementId,
+      latencyMs: context.latencyMs,
+      created: false,
+      updated: revised,
+      review: false,
+      confidence: parsed.confidence
+    };
   }
 
-  private async resolveSkills(skillNames: string[]) {
-    if (!skillNames.length) {
-      return [] as Array<{ id: string; name: string }>;
-    }
-
-    const skills = await this.prisma.skill.findMany({
+  /** Updates the requirement with the same title and client, or opens a new one. Also used by review approval. */
+  async upsertRequirement(tenantId: string, fields: Omit<CreateRequirementDto, "tenantId">) {
+    const existing = await this.prisma.requirement.findFirst({
       where: {
-        OR: skillNames.map((name) => ({ name: { equals: name, mode: "insensitive" } }))
+        tenantId,
+        title: { equals: fields.title, mode: "insensitive" },
+        clientName: { equals: fields.clientName, mode: "insensitive" }
       },
-      select: { id: true, name: true }
+      select: { id: true }
     });
 
-    return skills;
+    if (existing) {
+      await this.requirements.update(tenantId, existing.id, fields);
+      return { id: existing.id, created: false, updated: true };
+    }
+
+    const requirement = await this.requirements.create({ tenantId, ...fields, status: RequirementStatus.OPEN });
+    return { id: requirement.id, created: true, updated: false };
   }
 }
+
+/** Requirement fields for an extraction; fields the posting did not state are left unset rather than cleared. */
+export function toRequirementFields(
+  parsed: RequirementExtraction,
+  source: RequirementSource
+): Omit<CreateRequirementDto, "tenantId"> {
+  const title = parsed.title?.trim() || "Untitled Requirement";
+  return {
+    title,
+    clientName: parsed.clientName?.trim() || "Unknown Client",
+    description: parsed.description || title,
+    location: parsed.location ?? undefined,
+    workMode: parsed.workMode ?? undefined,
+    type: parsed.type ?? undefined,
+    source,
+    minRate: parsed.rate?.min ?? undefined,
+    maxRate: parsed.rate?.max ?? undefined,
+    rateCurrency: parsed.rate?.currency,
+    rateUnit: parsed.rate?.unit,
+    durationMonths: parsed.durationMonths ?? undefined,
+    closesAt: parsed.closesAt ?? undefined,
+    skills: [
+      ...parsed.mustHaveSkills.map((skill) => ({ id: skill.id, weight: MUST_HAVE_WEIGHT, mustHave: true })),
+      ...parsed.niceToHaveSkills.map((skill) => ({ id: skill.id, weight: NICE_TO_HAVE_WEIGHT, mustHave: false }))
+    ]
+  };
+}
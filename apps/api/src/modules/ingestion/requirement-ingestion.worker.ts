@@ -0,0 +1,35 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { Job, Worker } from "bullmq";
+
+import { RequestContextService } from "../../infrastructure/context";
+import { IngestionQueueService } from "./ingestion.queue";
+import { RequirementIngestionJob } from "./ingestion.types";
+import { RequirementIngestionService } from "./requirement-ingestion.service";
+
+@Injectable()
+export class RequirementIngestionWorker implements OnModuleInit, OnModuleDestroy {
+  private worker: Worker<RequirementIngestionJob> | null = null;
+
+  constructor(
+    private readonly queue: IngestionQueueService,
+    private readonly ingestion: RequirementIngestionService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async onModuleInit() {
+    this.worker = this.queue.createRequirementWorker((job) => this.handle(job));
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    this.worker = null;
+  }
+
+  private handle(job: Job<RequirementIngestionJob>) {
+    // The job carries its tenant; bind it so extraction and requirement writes stay tenant-scoped.
+    return this.context.run(() => {
+      this.context.setTenant(job.data.tenantId);
+      return this.ingestion.process(job.data);
+    });
+  }
+}
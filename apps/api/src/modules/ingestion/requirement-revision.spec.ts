@@ -0,0 +1,65 @@
+import { Prisma, RequirementRateUnit, RequirementSource, RequirementType, RequirementWorkMode } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import type { CreateRequirementDto } from "../requirements/dto/requirement.dto";
+import { diffRequirementFields, hasRevisions, RequirementSnapshot } from "./requirement-revision";
+
+const current: RequirementSnapshot = {
+  location: "Austin, TX",
+  workMode: RequirementWorkMode.HYBRID,
+  type: RequirementType.CONTRACT,
+  minRate: new Prisma.Decimal(75),
+  maxRate: new Prisma.Decimal(75),
+  rateCurrency: "USD",
+  rateUnit: RequirementRateUnit.HOURLY,
+  durationMonths: 6,
+  closesAt: new Date("2026-11-01T00:00:00.000Z"),
+  skills: [{ skillId: "s-java", weight: 80, mustHave: true }]
+};
+
+const reply: Omit<CreateRequirementDto, "tenantId"> = {
+  title: "Java Developer",
+  clientName: "Unknown Client",
+  description: "Rate updated to $85/hr",
+  source: RequirementSource.EMAIL,
+  skills: []
+};
+
+describe("diffRequirementFields", () => {
+  it("applies only stated fields that changed", () => {
+    const { update, changes } = diffRequirementFields(current, {
+      ...reply,
+      minRate: 85,
+      maxRate: 85,
+      rateCurrency: "usd",
+      rateUnit: RequirementRateUnit.HOURLY,
+      closesAt: "2026-11-01",
+      skills: [{ id: "s-java", weight: 80, mustHave: true }]
+    });
+
+    expect(update).toEqual({ minRate: 85, maxRate: 85 });
+    expect(changes).toEqual({
+      fields: { minRate: { from: 75, to: 85 }, maxRate: { from: 75, to: 85 } },
+      addedSkills: []
+    });
+  });
+
+  it("adds new skills without dropping existing ones", () => {
+    const { update, changes } = diffRequirementFields(current, {
+      ...reply,
+      skills: [{ id: "s-k8s", weight: 40, mustHave: false }]
+    });
+
+    expect(update.skills).toEqual([
+      { id: "s-java", weight: 80, mustHave: true },
+      { id: "s-k8s", weight: 40, mustHave: false }
+    ]);
+    expect(changes.fields).toEqual({});
+  });
+
+  it("reports no revision when the reply restates the requirement", () => {
+    const { changes } = diffRequirementFields(current, { ...reply, location: "Austin, TX", durationMonths: 6 });
+
+    expect(hasRevisions(changes)).toBe(false);
+  });
+});
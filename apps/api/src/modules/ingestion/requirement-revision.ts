@@ -0,0 +1,88 @@
+import type { Prisma, Requirement, RequirementSkill } from "@prisma/client";
+
+import type { CreateRequirementDto, RequirementSkillInput, UpdateRequirementDto } from "../requirements/dto/requirement.dto";
+
+/**
+ * Fields a reply may revise. Title and client identify the thread's requirement and a reply's description is only
+ * the reply, so those stay as the original posting set them.
+ */
+const REVISABLE_FIELDS = [
+  "location",
+  "workMode",
+  "type",
+  "minRate",
+  "maxRate",
+  "rateCurrency",
+  "rateUnit",
+  "durationMonths",
+  "closesAt"
+] as const;
+
+type RevisableField = (typeof REVISABLE_FIELDS)[number];
+
+export type RequirementSnapshot = Pick<Requirement, RevisableField> & {
+  skills: Pick<RequirementSkill, "skillId" | "weight" | "mustHave">[];
+};
+
+export interface FieldChange {
+  from: string | number | null;
+  to: string | number;
+}
+
+export interface RequirementRevisionChanges {
+  fields: Partial<Record<RevisableField, FieldChange>>;
+  addedSkills: RequirementSkillInput[];
+}
+
+/**
+ * Fields the reply states that differ from the requirement. Unstated fields are left alone and skills are only added:
+ * a reply naming one extra skill does not drop the rest.
+ */
+export function diffRequirementFields(
+  current: RequirementSnapshot,
+  proposed: Omit<CreateRequirementDto, "tenantId">
+): { update: UpdateRequirementDto; changes: RequirementRevisionChanges } {
+  const update: UpdateRequirementDto = {};
+  const changes: RequirementRevisionChanges = { fields: {}, addedSkills: [] };
+
+  for (const field of REVISABLE_FIELDS) {
+    const to = comparable(field, proposed[field]);
+    const from = comparable(field, current[field]);
+    if (to === null || to === from) {
+      continue;
+    }
+    changes.fields[field] = { from, to };
+    Object.assign(update, { [field]: proposed[field] });
+  }
+
+  const existing = new Set(current.skills.map((skill) => skill.skillId));
+  changes.addedSkills = (proposed.skills ?? []).filter((skill) => !existing.has(skill.id));
+  if (changes.addedSkills.length) {
+    update.skills = [
+      ...current.skills.map((skill) => ({ id: skill.skillId, weight: skill.weight, mustHave: skill.mustHave })),
+      ...changes.addedSkills
+    ];
+  }
+
+  return { update, changes };
+}
+
+export function hasRevisions(changes: RequirementRevisionChanges): boolean {
+  return Object.keys(changes.fields).length > 0 || changes.addedSkills.length > 0;
+}
+
+function comparable(field: RevisableField, value: unknown): string | number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  if (field === "closesAt") {
+    return (value instanceof Date ? value.toISOString() : String(value)).slice(0, 10);
+  }
+  if (field === "minRate" || field === "maxRate") {
+    return Number(value as number | Prisma.Decimal);
+  }
+  if (field === "rateCurrency") {
+    return String(value).toUpperCase();
+  }
+  return value as string | number;
+}
@@ -1,16 +1,18 @@
 import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
-import { DocumentIngestionStatus, PiiScanStatus, Prisma } from "@prisma/client";
+import { DocumentIngestionStatus, IngestionReviewReason, PiiScanStatus, Prisma } from "@prisma/client";
 import { Job, Worker } from "bullmq";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
 import { DocumentsService } from "../documents/documents.service";
-import { DedupeService } from "../dedupe/dedupe.service";
 import { TextExtractionService } from "./text-extraction.service";
 import { PiiRedactionService } from "./pii-redaction.service";
+import { ResumeProfileService } from "./resume-profile.service";
 import { SchemaNormalizerService } from "./schema-normalizer.service";
 import { SpacyService } from "./spacy.service";
 import { IngestionQueueService } from "./ingestion.queue";
-import { ResumeIngestionJob, ResumeProcessingOutcome, NormalizedResumeData } from "./ingestion.types";
+import { ResumeIngestionJob, ResumeProcessingOutcome, NormalizedResumeData, ResumeReviewData } from "./ingestion.types";
+
+type IdentityResolution = { consultantId: string } | { reason: IngestionReviewReason; candidateIds: string[] };
 
 @Injectable()
 export class ResumeIngestionWorker implements OnModuleInit, OnModuleDestroy {
@@ -25,7 +27,7 @@ export class ResumeIngestionWorker implements OnModuleInit, OnModuleDestroy {
     private readonly pii: PiiRedactionService,
     private readonly spacy: SpacyService,
     private readonly normalizer: SchemaNormalizerService,
-    private readonly dedupe: DedupeService
+    private readonly resumeProfile: ResumeProfileService
   ) {}
 
   async onModuleInit() {
@@ -52,8 +54,49 @@ export class ResumeIngestionWorker implements OnModuleInit, OnModuleDestroy {
     });
 
     const normalized = await this.normalizer.normalizeResume(extraction.text, entities);
-    const consultantId = await this.resolveConsultant(tenantId, document.consultantId, normalized);
+    const resolution = await this.resolveConsultant(tenantId, document.consultantId, normalized);
+    const ingestionMillis = Date.now() - startedAt;
+    const scan = {
+      piiStatus: redaction.findings.length > 0 ? PiiScanStatus.FLAGGED : PiiScanStatus.CLEAN,
+      piiSummary: {
+        counts: redaction.counts,
+        tokens: redaction.findings.map((finding) => ({ token: finding.token, type: finding.type })),
+        vault: redaction.vault
+      } as Prisma.InputJsonValue,
+      textByteSize: extraction.length,
+      ingestionLatencyMs: ingestionMillis,
+      extractedAt: new Date(),
+      lastRedactionAt: new Date()
+    };
+
+    if ("reason" in resolution) {
+      const reviewData: ResumeReviewData = {
+        normalized,
+        candidateConsultantIds: resolution.candidateIds,
+        text: redaction.redactedText
+      };
+      await this.prisma.documentMetadata.update({
+        where: { documentId: document.id },
+        data: {
+          ...scan,
+          ingestionStatus: DocumentIngestionStatus.PENDING_REVIEW,
+          reviewReason: resolution.reason,
+          reviewData: reviewData as unknown as Prisma.InputJsonValue
+        }
+      });
+      this.logger.log(`Resume ${documentId} held for review (${resolution.reason})`);
+
+      return {
+        documentId,
+        duplicate: false,
+        review: true,
+        ingestionMillis,
+        piiFindingCount: redaction.findings.length,
+        normalized
+      };
+    }
 
+    const { consultantId } = resolution;
     if (!document.consultantId || document.consultantId !== consultantId) {
       await this.prisma.documentAsset.update({
         where: { id: document.id },
@@ -61,121 +104,90 @@ export class ResumeIngestionWorker implements OnModuleInit, OnModuleDestroy {
       });
     }
 
-    await this.upsertResumeRecord(tenantId, consultantId, document.storageKey, normalized);
-    await this.dedupe.refreshConsultantSignatures(tenantId, consultantId);
-
-    const ingestionMillis = Date.now() - startedAt;
+    await this.resumeProfile.attach(tenantId, consultantId, document.storageKey, normalized, redaction.redactedText);
     await this.prisma.documentMetadata.update({
       where: { documentId: document.id },
-      data: {
-        ingestionStatus: DocumentIngestionStatus.COMPLETE,
-        piiStatus: redaction.findings.length > 0 ? PiiScanStatus.FLAGGED : PiiScanStatus.CLEAN,
-        piiSummary: {
-          counts: redaction.counts,
-          tokens: redaction.findings.map((finding) => ({ token: finding.token, type: finding.type })),
-          vault: redaction.vault
-        } as Prisma.InputJsonValue,
-        textByteSize: extraction.length,
-        ingestionLatencyMs: ingestionMillis,
-        extractedAt: new Date(),
-        lastRedactionAt: new Date()
-      }
+      data: { ...scan, ingestionStatus: DocumentIngestionStatus.COMPLETE }
     });
 
     return {
       documentId,
       consultantId,
       duplicate: false,
+      review: false,
       ingestionMillis,
       piiFindingCount: redaction.findings.length,
       normalized
     };
   }
 
+  /**
+   * Links the resume to the consultant it was uploaded for, or to the one consultant its email or phone matches.
+   * A new consultant is only created when the parse has a full name; anything else waits for a reviewer, as does a
+   * parse with neither skills nor work history, which would otherwise wipe the consultant's resume-sourced profile.
+   */
   private async resolveConsultant(
     tenantId: string,
     existingConsultantId: string | null,
-    normalized: ReturnType<typeof SchemaNormalizerService.prototype.normalizeResume> extends Promise<infer R> ? R : never
-  ): Promise<string> {
+    normalized: NormalizedResumeData
+  ): Promise<IdentityResolution> {
+    if (!normalized.matchedSkillIds.length && !normalized.experience.length) {
+      return { reason: IngestionReviewReason.LOW_CONFIDENCE, candidateIds: existingConsultantId ? [existingConsultantId] : [] };
+    }
     if (existingConsultantId) {
-      return existingConsultantId;
+      return { consultantId: existingConsultantId };
     }
 
+    const matches = new Set<string>();
     const primaryEmail = normalized.candidate.emails[0];
     if (primaryEmail) {
-      const match = await this.prisma.consultant.findFirst({
+      const rows = await this.prisma.consultant.findMany({
         where: {
           tenantId,
           email: { equals: primaryEmail, mode: "insensitive" }
-        }
+        },
+        select: { id: true },
+        take: 2
       });
-      if (match) {
-        return match.id;
-      }
+      rows.forEach((row) => matches.add(row.id));
     }
 
     const primaryPhone = normalized.candidate.phones[0]?.replace(/[^0-9]/g, "");
     if (primaryPhone) {
-      const match = await this.prisma.consultant.findFirst({
+      const rows = await this.prisma.consultant.findMany({
         where: {
           tenantId,
           phone: { contains: primaryPhone }
-        }
+        },
+        select: { id: true },
+        take: 2
       });
-      if (match) {
-        return match.id;
-      }
+      rows.forEach((row) => matches.add(row.id));
+    }
+
+    if (matches.size > 1) {
+      return { reason: IngestionReviewReason.AMBIGUOUS_IDENTITY, candidateIds: Array.from(matches) };
+    }
+    if (matches.size === 1) {
+      return { consultantId: Array.from(matches)[0] };
+    }
+
+    const firstName = normalized.candidate.firstName?.trim();
+    const lastName = normalized.candidate.lastName?.trim();
+    if (!firstName || !lastName) {
+      return { reason: IngestionReviewReason.MISSING_IDENTITY, candidateIds: [] };
     }
 
     const consultant = await this.prisma.consultant.create({
       data: {
         tenantId,
-        firstName: normalized.candidate.firstName ?? "",
-        lastName: normalized.candidate.lastName ?? "",
+        firstName,
+        lastName,
         email: primaryEmail ?? null,
         phone: normalized.candidate.phones[0] ?? null,
         summary: normalized.summary ?? null
       }
     });
-    return consultant.id;
-  }
-
-  private async upsertResumeRecord(
-    tenantId: string,
-    consultantId: string,
-    storageKey: string,
-    normalized: NormalizedResumeData
-  ) {
-    const existing = await this.prisma.resume.findFirst({
-      where: {
-        tenantId,
-        consultantId,
-        fileKey: storageKey
-      }
-    });
-
-    const payload = {
-      matchedSkillIds: normalized.matchedSkillIds,
-      skills: normalized.skills,
-      candidate: normalized.candidate
-    } as Prisma.InputJsonValue;
-
-    if (existing) {
-      await this.prisma.resume.update({
-        where: { id: existing.id },
-        data: {
-          parsedData: payload
-        }
-      });
-    } else {
-      await this.prisma.resume.create({
-        data: {
-          tenantId,
-          consultantId,
-          fileKey: storageKey,
-          parsedData: payload
-        }
-      });
-    }
+    return { consultantId: consultant.id };
   }
 }
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeSkillExperience,
+  detectHeading,
+  findSkills,
+  mergedMonths,
+  parseResume,
+  skillWeight,
+  SkillRef,
+  tokenizeSkillText
+} from "./resume-parser";
+
+const NOW = new Date(2026, 5, 15);
+
+const RESUME = [
+  "Jane Doe",
+  "Senior Data Engineer | jane@example.com | (555) 123-4567 | Austin, TX",
+  "",
+  "Professional Summary",
+  "Data engineer with a decade of Spark and Python. Loves streaming systems.",
+  "",
+  "Experience",
+  "Senior Data Engineer, Acme Corp    Jan 2022 - Present",
+  "- Built Kafka and Spark Streaming pipelines on AWS",
+  "Globex",
+  "03/2018 – 12/2021",
+  "Data Engineer",
+  "- Batch ETL in Python and Airflow",
+  "",
+  "Education",
+  "BS in Computer Science, State University, 2017",
+  "",
+  "Certifications",
+  "AWS Certified Solutions Architect - Amazon, 2023",
+  "",
+  "Skills",
+  "Python, Spark, Kafka, AWS, Airflow, Node.js"
+].join("\n");
+
+describe("detectHeading", () => {
+  it("recognises common section headings regardless of case and decoration", () => {
+    expect(detectHeading("PROFESSIONAL EXPERIENCE")).toBe("experience");
+    expect(detectHeading("Work History:")).toBe("experience");
+    expect(detectHeading("## Technical Skills")).toBe("skills");
+    expect(detectHeading("Licenses & Certifications")).toBe("certifications");
+  });
+
+  it("treats sentences that mention a section as content", () => {
+    expect(detectHeading("Experience building Spark pipelines on AWS")).toBeNull();
+    expect(detectHeading("")).toBeNull();
+  });
+});
+
+describe("parseResume", () => {
+  const parsed = parseResume(RESUME, NOW);
+
+  it("reads name, headline and location from the contact block", () => {
+    expect(parsed.contact).toEqual({ name: "Jane Doe", headline: "Senior Data Engineer", location: "Austin, TX" });
+    expect(parsed.summary).toContain("decade of Spark");
+  });
+
+  it("splits roles into title, employer and date range", () => {
+    expect(parsed.experience).toEqual([
+      {
+        title: "Senior Data Engineer",
+        employer: "Acme Corp",
+        startDate: "2022-01",
+        endDate: "2026-06",
+        current: true,
+        months: 54,
+        description: "- Built Kafka and Spark Streaming pipelines on AWS"
+      },
+      {
+        title: "Data Engineer",
+        employer: "Globex",
+        startDate: "2018-03",
+        endDate: "2021-12",
+        current: false,
+        months: 46,
+        description: "- Batch ETL in Python and Airflow"
+      }
+    ]);
+    expect(parsed.totalExperienceMonths).toBe(100);
+  });
+
+  it("parses education and certifications", () => {
+    expect(parsed.education).toEqual([
+      { institution: "State University", degree: "BS in Computer Science", field: "Computer Science", graduationYear: 2017 }
+    ]);
+    expect(parsed.certifications).toEqual([{ name: "AWS Certified Solutions Architect", issuer: "Amazon", year: 2023 }]);
+  });
+});
+
+describe("skill matching and weighting", () => {
+  const catalog: SkillRef[] = [
+    { id: "s-python", name: "Python" },
+    { id: "s-spark", name: "Spark" },
+    { id: "s-spark-streaming", name: "Spark Streaming" },
+    { id: "s-node", name: "Node.js" },
+    { id: "s-cpp", name: "C++" },
+    { id: "s-airflow", name: "Airflow" }
+  ];
+  const lookup = new Map(catalog.map((skill) => [tokenizeSkillText(skill.name).join(" "), skill]));
+  const find = (text: string) => findSkills(text, lookup, 2);
+
+  it("matches multi-word and symbol-bearing skill names", () => {
+    expect(find("Shipped Spark Streaming jobs, some C++ and node.js.").map((skill) => skill.id)).toEqual([
+      "s-spark-streaming",
+      "s-spark",
+      "s-cpp",
+      "s-node"
+    ]);
+  });
+
+  it("counts overlapping roles once", () => {
+    expect(mergedMonths([[0, 11], [6, 17], [30, 35]])).toBe(24);
+  });
+
+  it("weights recent, long-used skills above old or merely listed ones", () => {
+    const experience = parseResume(RESUME, NOW).experience;
+    const skills = computeSkillExperience(find(RESUME), experience, find, NOW);
+    const byId = new Map(skills.map((skill) => [skill.skillId, skill]));
+
+    expect(byId.get("s-spark")).toMatchObject({ years: 4.5, lastUsed: "2026-06" });
+    expect(byId.get("s-airflow")).toMatchObject({ years: 3.8, lastUsed: "2021-12" });
+    expect(byId.get("s-node")).toMatchObject({ years: 0, lastUsed: null, weight: 30 });
+    expect(byId.get("s-spark")!.weight).toBeGreaterThan(byId.get("s-airflow")!.weight);
+    expect(skillWeight(10, 0)).toBeGreaterThan(skillWeight(1, 0));
+  });
+});
@@ -0,0 +1,424 @@
+import {
+  ResumeCertificationEntry,
+  ResumeEducationEntry,
+  ResumeExperienceEntry,
+  ResumeSkillExperience
+} from "./ingestion.types";
+
+export const RESUME_SECTIONS = ["contact", "summary", "experience", "education", "skills", "certifications", "projects"] as const;
+export type ResumeSection = (typeof RESUME_SECTIONS)[number];
+
+export interface ResumeSectionBlock {
+  section: ResumeSection;
+  lines: string[];
+}
+
+export interface ResumeContact {
+  name: string | null;
+  headline: string | null;
+  location: string | null;
+}
+
+export interface ParsedResume {
+  sections: ResumeSectionBlock[];
+  contact: ResumeContact;
+  summary: string | null;
+  experience: ResumeExperienceEntry[];
+  education: ResumeEducationEntry[];
+  certifications: ResumeCertificationEntry[];
+  totalExperienceMonths: number;
+}
+
+export interface SkillRef {
+  id: string;
+  name: string;
+}
+
+const HEADINGS: Array<{ section: ResumeSection; pattern: RegExp }> = [
+  { section: "summary", pattern: /^(professional\s+)?(summary|profile|objective|about( me)?|overview)$/ },
+  {
+    section: "experience",
+    pattern: /^((professional|work|relevant|employment)\s+)?(experience|history|employment)(\s+history)?$/
+  },
+  { section: "education", pattern: /^(education|academic (background|qualifications)|qualifications)$/ },
+  { section: "skills", pattern: /^((technical|core|key)\s+)?(skills|competencies|technologies|skill set|expertise)$/ },
+  { section: "certifications", pattern: /^(certifications?|licenses?( (and|&) certifications?)?|certificates?)$/ },
+  { section: "projects", pattern: /^((key|selected|notable)\s+)?projects$/ }
+];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_PATTERN = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?";
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\s*,?\\s*\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4})`;
+const OPEN_END_PATTERN = "(?:present|current|now|today|date)";
+const DATE_RANGE = new RegExp(
+  `(${DATE_PATTERN})\\s*(?:-|–|—|to|until|through)\\s*(${DATE_PATTERN}|${OPEN_END_PATTERN})`,
+  "i"
+);
+
+const ROLE_WORDS =
+  /\b(engineer|developer|programmer|architect|analyst|consultant|manager|lead|director|administrator|admin|designer|scientist|specialist|tester|qa|devops|sre|intern|associate|officer|head|owner|coordinator|strategist)\b/i;
+const INSTITUTION_WORDS = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+const DEGREE_WORDS =
+  /\b(bachelor|master|doctor|ph\.?\s?d|mba|b\.?\s?s\.?c?|m\.?\s?s\.?c?|b\.?\s?tech|m\.?\s?tech|b\.e|m\.e|b\.?a|m\.?a|associate|diploma)\b/i;
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const PHONE = /(?:\+?\d{1,3}[\s-]?)?(?:\(?\d{3}\)?[\s-]?){2}\d{4}/;
+const URL = /(https?:\/\/|www\.|linkedin\.com|github\.com)/i;
+const CITY_STATE = /^[A-Z][A-Za-z .'-]+,\s*[A-Z]{2}\b/;
+const PERSON_NAME = /^[A-Za-z][A-Za-z'.-]+(?:\s+[A-Za-z][A-Za-z'.-]+){1,3}$/;
+const BULLET = /^[\s•·▪◦*\-–—]+/;
+const YEAR = /\b(19[5-9]\d|20\d{2})\b/g;
+
+// Listed without a dated role to back it up.
+const MIN_SKILL_WEIGHT = 30;
+
+/** The section a line introduces, or null when the line is content. */
+export function detectHeading(line: string): ResumeSection | null {
+  const normalized = line
+    .trim()
+    .replace(/[:\-–—_=*#|]+$/g, "")
+    .replace(/^[\s#*•\-–—]+/, "")
+    .trim()
+    .toLowerCase();
+  if (!normalized || normalized.length > 40) {
+    return null;
+  }
+  return HEADINGS.find((heading) => heading.pattern.test(normalized))?.section ?? null;
+}
+
+/** Splits resume text at section headings; whatever precedes the first heading is the contact block. */
+export function segmentResume(text: string): ResumeSectionBlock[] {
+  const blocks: ResumeSectionBlock[] = [{ section: "contact", lines: [] }];
+  for (const line of text.replace(/\r/g, "").split("\n")) {
+    const heading = detectHeading(line);
+    if (heading) {
+      blocks.push({ section: heading, lines: [] });
+    } else {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+  return blocks;
+}
+
+export function parseResume(text: string, now = new Date()): ParsedResume {
+  const sections = segmentResume(text);
+  const linesOf = (section: ResumeSection) => sections.filter((block) => block.section === section).flatMap((block) => block.lines);
+
+  const summaryText = joinText(linesOf("summary"));
+  const experience = parseExperience(linesOf("experience"), now);
+  return {
+    sections,
+    contact: parseContact(linesOf("contact"), summaryText),
+    summary: summaryText || null,
+    experience,
+    education: parseEducation(linesOf("education")),
+    certifications: parseCertifications(linesOf("certifications")),
+    totalExperienceMonths: mergedMonths(experience.flatMap(toInterval))
+  };
+}
+
+function parseContact(lines: string[], summary: string): ResumeContact {
+  const segments = lines
+    .flatMap((line) => line.split(/\s*[|•·]\s*/))
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  const nameIndex = segments.findIndex((segment) => PERSON_NAME.test(segment) && !ROLE_WORDS.test(segment));
+  const isContactDetail = (segment: string) => EMAIL.test(segment) || PHONE.test(segment) || URL.test(segment);
+
+  const labelled = segments.map((segment) => /^(?:location|based in)[:\-\s]\s*(.+)$/i.exec(segment)?.[1]).find(Boolean);
+  const location = labelled ?? segments.find((segment) => CITY_STATE.test(segment) && !isContactDetail(segment)) ?? null;
+
+  const headline =
+    segments.find(
+      (segment, index) => index !== nameIndex && ROLE_WORDS.test(segment) && !isContactDetail(segment) && segment.length <= 100
+    ) ??
+    summary.split(/(?<=[.!?])\s+/)[0] ??
+    null;
+
+  return { name: nameIndex >= 0 ? segments[nameIndex] : null, headline: headline || null, location: location?.trim() ?? null };
+}
+
+/**
+ * A line holding a date range starts a role. The rest of that line (or, when it holds only dates, the line above)
+ * names the title and employer; everything after it up to the next range is the description.
+ */
+export function parseExperience(lines: string[], now = new Date()): ResumeExperienceEntry[] {
+  const entries: ResumeExperienceEntry[] = [];
+  let pending: string[] = [];
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) {
+      continue;
+    }
+    const range = DATE_RANGE.exec(line);
+    if (!range) {
+      pending.push(line);
+      continue;
+    }
+
+    let header = stripSeparators(line.replace(range[0], " ").replace(/[()[\]]/g, " "));
+    const current = entries[entries.length - 1];
+    if (!header && pending.length) {
+      header = stripSeparators(pending.pop() ?? "");
+    }
+    if (current) {
+      current.description = joinText([current.description, ...pending]);
+    }
+    pending = [];
+
+    const start = parseResumeDate(range[1], false, now);
+    const end = parseResumeDate(range[2], true, now);
+    const months = start && end ? monthIndex(end) - monthIndex(start) + 1 : 0;
+    entries.push({
+      ...splitHeader(header),
+      startDate: start ? formatMonth(start) : null,
+      endDate: end ? formatMonth(end) : null,
+      current: new RegExp(`^${OPEN_END_PATTERN}$`, "i").test(range[2].trim()),
+      months: Math.max(months, 0),
+      description: ""
+    });
+  }
+
+  const last = entries[entries.length - 1];
+  if (last) {
+    last.description = joinText([last.description, ...pending]);
+  }
+
+  // "Acme Corp   2019 - 2021" followed by a title line: lift the title out of the description.
+  for (const entry of entries) {
+    const [firstLine, ...rest] = entry.description.split("\n");
+    if (!entry.title && firstLine && firstLine.length <= 80 && !BULLET.test(firstLine) && ROLE_WORDS.test(firstLine)) {
+      entry.title = stripSeparators(firstLine);
+      entry.description = rest.join("\n");
+    }
+  }
+  return entries;
+}
+
+export function parseEducation(lines: string[]): ResumeEducationEntry[] {
+  const entries: ResumeEducationEntry[] = [];
+  let current: ResumeEducationEntry | null = null;
+
+  for (const raw of lines) {
+    const line = stripSeparators(raw.replace(BULLET, ""));
+    if (!line) {
+      continue;
+    }
+    const isInstitution = INSTITUTION_WORDS.test(line);
+    const isDegree = DEGREE_WORDS.test(line);
+    if (!current || (isInstitution && current.institution) || (isDegree && !isInstitution && current.degree)) {
+      current = { institution: null, degree: null, field: null, graduationYear: null };
+      entries.push(current);
+    }
+
+    const withoutYears = stripSeparators(line.replace(YEAR, " ").replace(/[()]/g, " "));
+    // "BS in Computer Science, State University" names both on one line.
+    const parts = withoutYears.split(/\s*[,|–—]\s*|\s+-\s+/).filter(Boolean);
+    for (const part of parts) {
+      if (INSTITUTION_WORDS.test(part) && !current.institution) {
+        current.institution = part;
+      } else if (DEGREE_WORDS.test(part) && !current.degree) {
+        current.degree = part;
+        current.field = /\b(?:in|of)\s+(.+)$/i.exec(part)?.[1]?.trim() ?? null;
+      }
+    }
+    if (!isInstitution && !isDegree && !current.degree) {
+      current.degree = withoutYears || null;
+    }
+
+    const years = line.match(YEAR)?.map(Number) ?? [];
+    if (years.length) {
+      current.graduationYear = Math.max(current.graduationYear ?? 0, ...years);
+    }
+  }
+  return entries.filter((entry) => entry.institution || entry.degree);
+}
+
+export function parseCertifications(lines: string[]): ResumeCertificationEntry[] {
+  return lines
+    .map((raw) => raw.replace(BULLET, "").trim())
+    .filter(Boolean)
+    .map((line) => {
+      const years = line.match(YEAR)?.map(Number) ?? [];
+      const [name, issuer] = stripSeparators(line.replace(YEAR, " ").replace(/[()]/g, " "))
+        .split(/\s+[|–—-]\s+|,\s+|\s+by\s+/i)
+        .map((part) => part.trim())
+        .filter(Boolean);
+      return { name: name ?? line, issuer: issuer ?? null, year: years.length ? Math.max(...years) : null };
+    });
+}
+
+/** Lower-cased word tokens; symbols that belong to skill names (C++, C#, Node.js) are kept. */
+export function tokenizeSkillText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .map((token) => token.replace(/^\.+|\.+$/g, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Skills named anywhere in `text`, in order of first mention. `lookup` is keyed by the tokenized skill name joined with
+ * single spaces, so one pass over word n-grams replaces a regex per known skill.
+ */
+export function findSkills(text: string, lookup: Map<string, SkillRef>, maxWords: number): SkillRef[] {
+  const tokens = tokenizeSkillText(text);
+  const found = new Map<string, SkillRef>();
+  for (let index = 0; index < tokens.length; index += 1) {
+    for (let length = Math.min(maxWords, tokens.length - index); length >= 1; length -= 1) {
+      const skill = lookup.get(tokens.slice(index, index + length).join(" "));
+      if (skill && !found.has(skill.id)) {
+        found.set(skill.id, skill);
+      }
+    }
+  }
+  return Array.from(found.values());
+}
+
+/**
+ * Weight on ConsultantSkill's 0-100 scale. Duration saturates (three years is about two thirds of the way) and
+ * recency halves roughly every three years since last use; a skill that is only listed gets the floor.
+ */
+export function skillWeight(years: number, yearsSinceLastUsed: number | null): number {
+  if (years <= 0 || yearsSinceLastUsed === null) {
+    return MIN_SKILL_WEIGHT;
+  }
+  const duration = 1 - Math.exp(-years / 3);
+  const recency = Math.exp(-Math.max(yearsSinceLastUsed, 0) / 4);
+  return Math.round(MIN_SKILL_WEIGHT + (100 - MIN_SKILL_WEIGHT) * duration * recency);
+}
+
+/** Years and weight per skill, from the dated roles whose title or description mentions it. */
+export function computeSkillExperience(
+  skills: SkillRef[],
+  experience: ResumeExperienceEntry[],
+  findInText: (text: string) => SkillRef[],
+  now = new Date()
+): ResumeSkillExperience[] {
+  const intervals = new Map<string, Array<[number, number]>>();
+  for (const entry of experience) {
+    const interval = toInterval(entry);
+    if (!interval.length) {
+      continue;
+    }
+    for (const skill of findInText([entry.title, entry.employer, entry.description].filter(Boolean).join("\n"))) {
+      intervals.set(skill.id, [...(intervals.get(skill.id) ?? []), ...interval]);
+    }
+  }
+
+  const nowIndex = monthIndex({ year: now.getFullYear(), month: now.getMonth() });
+  return skills.map((skill) => {
+    const ranges = intervals.get(skill.id) ?? [];
+    const years = roundYears(mergedMonths(ranges));
+    const lastIndex = ranges.length ? Math.max(...ranges.map(([, end]) => end)) : null;
+    return {
+      skillId: skill.id,
+      name: skill.name,
+      years,
+      lastUsed: lastIndex === null ? null : formatMonth({ year: Math.floor(lastIndex / 12), month: lastIndex % 12 }),
+      weight: skillWeight(years, lastIndex === null ? null : (nowIndex - lastIndex) / 12)
+    };
+  });
+}
+
+export function roundYears(months: number): number {
+  return Math.round((months / 12) * 10) / 10;
+}
+
+/** "YYYY-MM" to the first instant of that month in UTC, which is how profile records store dates. */
+export function monthToDate(value: string | null): Date | null {
+  const match = value ? /^(\d{4})-(\d{2})$/.exec(value) : null;
+  return match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1)) : null;
+}
+
+interface YearMonth {
+  year: number;
+  month: number;
+}
+
+export function parseResumeDate(value: string, isEnd: boolean, now = new Date()): YearMonth | null {
+  const text = value.trim().toLowerCase();
+  if (new RegExp(`^${OPEN_END_PATTERN}$`).test(text)) {
+    return { year: now.getFullYear(), month: now.getMonth() };
+  }
+
+  const numeric = /^(\d{1,2})\/(\d{4})$/.exec(text);
+  if (numeric) {
+    const month = Number(numeric[1]) - 1;
+    return month >= 0 && month < 12 ? { year: Number(numeric[2]), month } : null;
+  }
+
+  const named = /^([a-z]+)\.?\s*,?\s*(\d{4})$/.exec(text);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3));
+    return month >= 0 ? { year: Number(named[2]), month } : null;
+  }
+
+  const year = /^(\d{4})$/.exec(text);
+  return year ? { year: Number(year[1]), month: isEnd ? 11 : 0 } : null;
+}
+
+function monthIndex(date: YearMonth): number {
+  return date.year * 12 + date.month;
+}
+
+function formatMonth(date: YearMonth): string {
+  return `${date.year}-${String(date.month + 1).padStart(2, "0")}`;
+}
+
+function toInterval(entry: ResumeExperienceEntry): Array<[number, number]> {
+  if (!entry.startDate || !entry.endDate || entry.months <= 0) {
+    return [];
+  }
+  const parse = (value: string) => {
+    const [year, month] = value.split("-").map(Number);
+    return year * 12 + month - 1;
+  };
+  return [[parse(entry.startDate), parse(entry.endDate)]];
+}
+
+/** Inclusive month count covered by the intervals, so concurrent roles are not double counted. */
+export function mergedMonths(intervals: Array<[number, number]>): number {
+  const sorted = [...intervals].sort((left, right) => left[0] - right[0]);
+  let total = 0;
+  let current: [number, number] | null = null;
+  for (const [start, end] of sorted) {
+    if (current && start <= current[1] + 1) {
+      current[1] = Math.max(current[1], end);
+      continue;
+    }
+    if (current) {
+      total += current[1] - current[0] + 1;
+    }
+    current = [start, end];
+  }
+  return current ? total + current[1] - current[0] + 1 : total;
+}
+
+function splitHeader(header: string): Pick<ResumeExperienceEntry, "title" | "employer"> {
+  const parts = header
+    .split(/\s+(?:at|@)\s+|\s*[|–—]\s*|\s+-\s+|,\s+/i)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    return { title: null, employer: null };
+  }
+  const title = parts.find((part) => ROLE_WORDS.test(part)) ?? null;
+  const employer = parts.find((part) => part !== title) ?? null;
+  return { title, employer };
+}
+
+function stripSeparators(value: string): string {
+  return value
+    .replace(/\s+/g, " ")
+    .replace(/^[\s,|•·:;–—-]+|[\s,|•·:;–—-]+$/g, "")
+    .trim();
+}
+
+function joinText(lines: string[]): string {
+  return lines
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
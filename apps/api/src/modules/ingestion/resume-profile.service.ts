@@ -0,0 +1,138 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConsultantProfileSource, Prisma, SearchEntityType } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { DedupeService } from "../dedupe/dedupe.service";
+import { IngestionQueueService } from "./ingestion.queue";
+import { NormalizedResumeData } from "./ingestion.types";
+import { monthToDate } from "./resume-parser";
+
+/**
+ * Writes a parsed resume onto its consultant. Shared by the resume worker and by reviewers approving a resume that
+ * was held for identity review.
+ */
+@Injectable()
+export class ResumeProfileService {
+  private readonly logger = new Logger(ResumeProfileService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly dedupe: DedupeService,
+    private readonly queue: IngestionQueueService
+  ) {}
+
+  async attach(tenantId: string, consultantId: string, storageKey: string, normalized: NormalizedResumeData, text: string) {
+    // Only the redacted text is kept; search indexes it as section chunks.
+    const resumeId = await this.upsertResumeRecord(tenantId, consultantId, storageKey, normalized, text);
+    await this.applyResumeProfile(tenantId, consultantId, resumeId, normalized);
+    await this.dedupe.refreshConsultantSignatures(tenantId, consultantId);
+    try {
+      await this.queue.enqueueSearchIndex({ tenantId, entityType: SearchEntityType.CONSULTANT, entityId: consultantId });
+    } catch (error) {
+      this.logger.warn(`Failed to enqueue search indexing for consultant ${consultantId}: ${(error as Error).message}`);
+    }
+    return resumeId;
+  }
+
+  private async upsertResumeRecord(
+    tenantId: string,
+    consultantId: string,
+    storageKey: string,
+    normalized: NormalizedResumeData,
+    text: string
+  ): Promise<string> {
+    const existing = await this.prisma.resume.findFirst({
+      where: {
+        tenantId,
+        consultantId,
+        fileKey: storageKey
+      }
+    });
+
+    const payload = {
+      matchedSkillIds: normalized.matchedSkillIds,
+      skills: normalized.skills,
+      candidate: normalized.candidate,
+      experience: normalized.experience,
+      education: normalized.education,
+      certifications: normalized.certifications,
+      skillExperience: normalized.skillExperience,
+      totalExperienceYears: normalized.totalExperienceYears
+    } as unknown as Prisma.InputJsonValue;
+
+    if (existing) {
+      await this.prisma.resume.update({
+        where: { id: existing.id },
+        data: {
+          parsedData: payload,
+          text
+        }
+      });
+      return existing.id;
+    }
+
+    const created = await this.prisma.resume.create({
+      data: {
+        tenantId,
+        consultantId,
+        fileKey: storageKey,
+        parsedData: payload,
+        text
+      }
+    });
+    return created.id;
+  }
+
+  /**
+   * The latest resume sets total experience, re-weights the skills it evidences and replaces the resume-sourced
+   * work history, education and certifications. Other skills and manually entered records are left alone.
+   */
+  private async applyResumeProfile(
+    tenantId: string,
+    consultantId: string,
+    resumeId: string,
+    normalized: NormalizedResumeData
+  ) {
+    if (normalized.totalExperienceYears !== null) {
+      await this.prisma.consultant.update({
+        where: { id: consultantId },
+        data: { experience: new Prisma.Decimal(normalized.totalExperienceYears) }
+      });
+    }
+
+    for (const skill of normalized.skillExperience) {
+      await this.prisma.consultantSkill.upsert({
+        where: { tenantId_consultantId_skillId: { tenantId, consultantId, skillId: skill.skillId } },
+        create: { tenantId, consultantId, skillId: skill.skillId, weight: skill.weight },
+        update: { weight: skill.weight }
+      });
+    }
+
+    const owner = { tenantId, consultantId, resumeId, source: ConsultantProfileSource.RESUME };
+    const resumeRows = { tenantId, consultantId, source: ConsultantProfileSource.RESUME };
+    await this.prisma.$transaction([
+      this.prisma.consultantExperience.deleteMany({ where: resumeRows }),
+      this.prisma.consultantEducation.deleteMany({ where: resumeRows }),
+      this.prisma.consultantCertification.deleteMany({ where: resumeRows }),
+      this.prisma.consultantExperience.createMany({
+        data: normalized.experience.map((entry) => ({
+          ...owner,
+          employer: entry.employer,
+          title: entry.title,
+          startDate: monthToDate(entry.startDate),
+          // Open-ended roles are resolved to the parse month; store them as still running.
+          endDate: entry.current ? null : monthToDate(entry.endDate),
+          current: entry.current,
+          description: entry.description || null,
+          skillIds: entry.skillIds
+        }))
+      }),
+      this.prisma.consultantEducation.createMany({
+        data: normalized.education.map((entry) => ({ ...owner, ...entry }))
+      }),
+      this.prisma.consultantCertification.createMany({
+        data: normalized.certifications.map((entry) => ({ ...owner, ...entry }))
+      })
+    ]);
+  }
+}
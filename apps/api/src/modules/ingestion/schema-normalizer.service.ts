@@ -2,6 +2,7 @@ import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
 import { NamedEntity, NormalizedResumeData } from "./ingestion.types";
+import { computeSkillExperience, findSkills, parseResume, roundYears, SkillRef, tokenizeSkillText } from "./resume-parser";
 
 const EMAIL_REGEX = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
 const PHONE_REGEX = /(?:\+?\d{1,3}[\s-]?)?(?:\(?\d{3}\)?[\s-]?){2}\d{4}/g;
@@ -9,7 +10,9 @@ const PHONE_REGEX = /(?:\+?\d{1,3}[\s-]?)?(?:\(?\d{3}\)?[\s-]?){2}\d{4}/g;
 @Injectable()
 export class SchemaNormalizerService implements OnModuleInit {
   private readonly logger = new Logger(SchemaNormalizerService.name);
-  private skillIndex: Map<string, { id: string; name: string }> = new Map();
+  // Keyed by the tokenized skill name, so matching is one n-gram pass over the text rather than a regex per skill.
+  private skillIndex: Map<string, SkillRef> = new Map();
+  private maxSkillWords = 1;
 
   constructor(private readonly prisma: PrismaService) {}
 
@@ -19,7 +22,15 @@ export class SchemaNormalizerService implements OnModuleInit {
 
   async refreshSkillIndex() {
     const skills = await this.prisma.skill.findMany({ select: { id: true, name: true } });
-    this.skillIndex = new Map(skills.map((skill) => [skill.name.toLowerCase(), skill]));
+    this.skillIndex = new Map();
+    this.maxSkillWords = 1;
+    for (const skill of skills) {
+      const tokens = tokenizeSkillText(skill.name);
+      if (tokens.length) {
+        this.skillIndex.set(tokens.join(" "), skill);
+        this.maxSkillWords = Math.max(this.maxSkillWords, tokens.length);
+      }
+    }
   }
 
   async normalizeResume(text: string, entities: NamedEntity[]): Promise<NormalizedResumeData> {
@@ -30,38 +41,40 @@ export class SchemaNormalizerService implements OnModuleInit {
     const cleaned = text.replace(/\r/g, "");
     const emails = this.extractUnique(cleaned, EMAIL_REGEX);
     const phones = this.extractUnique(cleaned, PHONE_REGEX);
-    const names = entities.filter((entity) => entity.label === "PERSON");
+    const parsed = parseResume(cleaned);
 
-    const firstPerson = names[0]?.text ?? "";
-    const [firstName, ...rest] = firstPerson.split(/\s+/);
+    // spaCy finds people anywhere (references, managers); prefer one named in the contact block.
+    const contactText = parsed.sections[0]?.lines.join("\n") ?? "";
+    const people = entities.filter((entity) => entity.label === "PERSON").map((entity) => entity.text.trim());
+    const fullName = people.find((person) => contactText.includes(person)) ?? parsed.contact.name ?? people[0] ?? "";
+    const [firstName, ...rest] = fullName.split(/\s+/);
     const lastName = rest.join(" ");
 
-    const matchedSkillIds: string[] = [];
-    const matchedSkillNames: string[] = [];
-    for (const [key, value] of this.skillIndex.entries()) {
-      const pattern = new RegExp(`\\b${this.escapeRegExp(key)}\\b`, "i");
-      if (pattern.test(cleaned)) {
-        matchedSkillIds.push(value.id);
-        matchedSkillNames.push(value.name);
-      }
-      if (matchedSkillIds.length >= 50) {
-        break;
-      }
-    }
+    const findInText = (value: string) => findSkills(value, this.skillIndex, this.maxSkillWords);
+    const skills = findInText(cleaned);
+    const skillExperience = computeSkillExperience(skills, parsed.experience, findInText);
 
     return {
       candidate: {
         firstName: firstName || undefined,
         lastName: lastName || undefined,
-        fullName: firstPerson || undefined,
+        fullName: fullName || undefined,
         emails,
         phones,
-        location: this.deriveLocation(cleaned),
-        headline: this.deriveHeadline(cleaned)
+        location: parsed.contact.location,
+        headline: parsed.contact.headline
       },
-      skills: matchedSkillNames,
-      matchedSkillIds,
-      summary: this.buildSummarySnippet(cleaned)
+      skills: skills.map((skill) => skill.name),
+      matchedSkillIds: skills.map((skill) => skill.id),
+      summary: parsed.summary ?? this.buildSummarySnippet(cleaned),
+      experience: parsed.experience.map((entry) => ({
+        ...entry,
+        skillIds: findInText([entry.title, entry.description].filter(Boolean).join("\n")).map((skill) => skill.id)
+      })),
+      education: parsed.education,
+      certifications: parsed.certifications,
+      skillExperience,
+      totalExperienceYears: parsed.totalExperienceMonths > 0 ? roundYears(parsed.totalExperienceMonths) : null
     };
   }
 
@@ -78,22 +91,8 @@ export class SchemaNormalizerService implements OnModuleInit {
     return Array.from(results);
   }
 
-  private deriveLocation(text: string): string | null {
-    const match = text.match(/Location[:\-]\s*([^\n]+)/i) || text.match(/Based in\s+([^\n]+)/i);
-    return match ? match[1].trim() : null;
-  }
-
-  private deriveHeadline(text: string): string | null {
-    const match = text.match(/Summary[:\-]\s*([^\n]+)/i) || text.match(/Professional Summary\s*\n([^\n]+)/i);
-    return match ? match[1].trim() : null;
-  }
-
   private buildSummarySnippet(text: string): string {
     const lines = text.split(/\n+/).map((line) => line.trim()).filter(Boolean);
     return lines.slice(0, 5).join(" \n");
   }
-
-  private escapeRegExp(value: string): string {
-    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  }
 }
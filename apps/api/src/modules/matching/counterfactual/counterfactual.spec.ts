@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import type { FeatureVector } from "../matching.domain";
+import { CounterfactualLever, findCounterfactuals } from "./counterfactual";
+
+const features: FeatureVector = {
+  skillOverlap: 0.4,
+  vectorScore: 0.6,
+  lexicalScore: 0.5,
+  availability: 0.25,
+  locationMatch: 1,
+  rateAlignment: 0.5,
+  recencyScore: 1,
+  domainExperience: 0.5,
+  certificationMatch: 0.5
+};
+
+const score = (vector: FeatureVector) => 0.5 * vector.skillOverlap + 0.3 * vector.availability + 0.2 * vector.rateAlignment;
+
+function lever(kind: CounterfactualLever["change"]["kind"], effort: number, patch: Partial<FeatureVector>): CounterfactualLever {
+  return {
+    change: { kind, feature: "skillOverlap", description: kind, from: null, to: kind, featureDelta: 0 },
+    effort,
+    apply: (current) => ({ ...current, ...patch })
+  };
+}
+
+describe("findCounterfactuals", () => {
+  const levers = [
+    lever("ADD_SKILL", 2, { skillOverlap: 0.8 }),
+    lever("SET_AVAILABILITY", 2, { availability: 1 }),
+    lever("ADJUST_RATE", 1, { rateAlignment: 1 })
+  ];
+
+  it("returns the cheapest single change that clears the target", () => {
+    // current score: 0.2 + 0.075 + 0.1 = 0.375
+    const scenarios = findCounterfactuals(features, levers, score, 0.45);
+    expect(scenarios[0].changes.map((change) => change.kind)).toEqual(["ADJUST_RATE"]);
+    expect(scenarios.every((scenario) => scenario.changes.length === 1)).toBe(true);
+  });
+
+  it("only combines changes when no single change is enough", () => {
+    const scenarios = findCounterfactuals(features, levers, score, 0.6);
+    expect(scenarios.length).toBeGreaterThan(0);
+    expect(scenarios.every((scenario) => scenario.changes.length === 2)).toBe(true);
+    expect(scenarios[0].projectedScore).toBeGreaterThan(0.6);
+  });
+
+  it("returns nothing when the target is out of reach", () => {
+    expect(findCounterfactuals(features, levers, score, 0.99)).toEqual([]);
+  });
+});
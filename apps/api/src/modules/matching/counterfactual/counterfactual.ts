@@ -0,0 +1,87 @@
+import type { FeatureKey, FeatureVector } from "../matching.domain";
+
+export type CounterfactualChangeKind =
+  | "ADD_SKILL"
+  | "ADJUST_RATE"
+  | "SET_AVAILABILITY"
+  | "MATCH_LOCATION"
+  | "REFRESH_PROFILE";
+
+export interface CounterfactualChange {
+  kind: CounterfactualChangeKind;
+  feature: FeatureKey;
+  description: string;
+  from: string | number | null;
+  to: string | number;
+  featureDelta: number;
+}
+
+export interface CounterfactualLever {
+  change: CounterfactualChange;
+  effort: number;
+  apply: (features: FeatureVector) => FeatureVector;
+}
+
+export interface CounterfactualScenario {
+  changes: CounterfactualChange[];
+  projectedScore: number;
+  scoreDelta: number;
+  effort: number;
+}
+
+export interface CounterfactualExplanation {
+  targetRank: number;
+  targetScore: number | null;
+  currentScore: number;
+  alreadyInTopN: boolean;
+  reachable: boolean;
+  scenarios: CounterfactualScenario[];
+}
+
+export const MAX_COUNTERFACTUAL_CHANGES = 3;
+export const MAX_COUNTERFACTUAL_SCENARIOS = 3;
+
+export function findCounterfactuals(
+  features: FeatureVector,
+  levers: CounterfactualLever[],
+  score: (features: FeatureVector) => number,
+  targetScore: number
+): CounterfactualScenario[] {
+  const currentScore = score(features);
+
+  // Subsets are searched smallest first so the first size that clears the bar is the minimal one.
+  for (let size = 1; size <= Math.min(MAX_COUNTERFACTUAL_CHANGES, levers.length); size += 1) {
+    const scenarios = combinations(levers, size)
+      .map((subset) => {
+        const projected = subset.reduce((acc, lever) => lever.apply(acc), { ...features });
+        const projectedScore = score(projected);
+        return {
+          changes: subset.map((lever) => lever.change),
+          projectedScore,
+          scoreDelta: Number((projectedScore - currentScore).toFixed(4)),
+          effort: subset.reduce((acc, lever) => acc + lever.effort, 0)
+        };
+      })
+      .filter((scenario) => scenario.projectedScore > targetScore)
+      .sort((a, b) => a.effort - b.effort || b.projectedScore - a.projectedScore);
+
+    if (scenarios.length > 0) {
+      return scenarios.slice(0, MAX_COUNTERFACTUAL_SCENARIOS);
+    }
+  }
+
+  return [];
+}
+
+function combinations<T>(items: T[], size: number, start = 0): T[][] {
+  if (size === 0) {
+    return [[]];
+  }
+  const result: T[][] = [];
+  for (let index = start; index <= items.length - size; index += 1) {
+    for (const rest of combinations(items, size - 1, index + 1)) {
+      result.push([items[index], ...rest]);
+    }
+  }
+  return result;
+}
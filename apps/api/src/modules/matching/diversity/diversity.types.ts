@@ -0,0 +1,39 @@
+export interface DiversityOptions {
+  // 1 keeps the pure score order, 0 picks the most dissimilar profile each step
+  lambda: number;
+  // Max shortlisted consultants per tag group value, e.g. { vendor: 2 }
+  groupCaps: Record<string, number>;
+}
+
+export interface DiversityCandidate {
+  key: string;
+  score: number;
+  embedding?: number[];
+  groups: Map<string, string>;
+}
+
+export interface FairnessValueStats {
+  value: string;
+  candidates: number;
+  shortlisted: number;
+  selectionRate: number;
+  meanScore: number;
+  minScore: number;
+  maxScore: number;
+}
+
+export interface FairnessGroupReport {
+  group: string;
+  values: FairnessValueStats[];
+  impactRatio: number | null;
+  meanScoreGap: number;
+  flagged: boolean;
+}
+
+export interface FairnessAuditReport {
+  candidateCount: number;
+  shortlistCount: number;
+  groups: FairnessGroupReport[];
+  minImpactRatio: number | null;
+  flagged: boolean;
+}
@@ -0,0 +1,64 @@
+import { computeMean, safeDivide } from "../evaluation/evaluation.metrics";
+import type { DiversityCandidate, FairnessAuditReport, FairnessGroupReport, FairnessValueStats } from "./diversity.types";
+
+// Four-fifths rule: a group value selected at under 80% of the best-selected value is flagged.
+export const ADVERSE_IMPACT_THRESHOLD = 0.8;
+export const MIN_GROUP_SAMPLE = 3;
+const UNKNOWN_GROUP_VALUE = "unknown";
+
+export function auditShortlistFairness(
+  pool: DiversityCandidate[],
+  shortlistKeys: Set<string>
+): FairnessAuditReport {
+  const groupNames = [...new Set(pool.flatMap((candidate) => [...candidate.groups.keys()]))].sort();
+
+  const groups = groupNames.map((group) => auditGroup(group, pool, shortlistKeys));
+  const ratios = groups.map((report) => report.impactRatio).filter((ratio): ratio is number => ratio !== null);
+
+  return {
+    candidateCount: pool.length,
+    shortlistCount: pool.filter((candidate) => shortlistKeys.has(candidate.key)).length,
+    groups,
+    minImpactRatio: ratios.length > 0 ? Math.min(...ratios) : null,
+    flagged: groups.some((report) => report.flagged)
+  };
+}
+
+function auditGroup(group: string, pool: DiversityCandidate[], shortlistKeys: Set<string>): FairnessGroupReport {
+  const byValue = new Map<string, DiversityCandidate[]>();
+  for (const candidate of pool) {
+    const value = candidate.groups.get(group) ?? UNKNOWN_GROUP_VALUE;
+    byValue.set(value, [...(byValue.get(value) ?? []), candidate]);
+  }
+
+  const values: FairnessValueStats[] = [...byValue.entries()]
+    .map(([value, members]) => {
+      const scores = members.map((member) => member.score);
+      const shortlisted = members.filter((member) => shortlistKeys.has(member.key)).length;
+      return {
+        value,
+        candidates: members.length,
+        shortlisted,
+        selectionRate: safeDivide(shortlisted, members.length),
+        meanScore: computeMean(scores),
+        minScore: Math.min(...scores),
+        maxScore: Math.max(...scores)
+      };
+    })
+    .sort((a, b) => b.candidates - a.candidates);
+
+  // Small buckets swing wildly on a single pick, so they are reported but not used for the ratio.
+  const comparable = values.filter((stats) => stats.candidates >= MIN_GROUP_SAMPLE);
+  const rates = comparable.map((stats) => stats.shortlisted / stats.candidates);
+  const maxRate = rates.length > 0 ? Math.max(...rates) : 0;
+  const impactRatio = comparable.length >= 2 && maxRate > 0 ? safeDivide(Math.min(...rates), maxRate) : null;
+  const means = comparable.map((stats) => stats.meanScore);
+
+  return {
+    group,
+    values,
+    impactRatio,
+    meanScoreGap: means.length >= 2 ? Number((Math.max(...means) - Math.min(...means)).toFixed(4)) : 0,
+    flagged: impactRatio !== null && impactRatio < ADVERSE_IMPACT_THRESHOLD
+  };
+}
@@ -0,0 +1,84 @@
+import { Injectable } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+
+import { PrismaService } from "../../../infrastructure/prisma/prisma.service";
+import { computeMean } from "../evaluation/evaluation.metrics";
+import type { DiversityOptions, FairnessAuditReport, FairnessGroupReport } from "./diversity.types";
+
+export interface FairnessGroupSummary {
+  group: string;
+  runs: number;
+  flaggedRuns: number;
+  meanImpactRatio: number | null;
+  minImpactRatio: number | null;
+  meanScoreGap: number;
+}
+
+@Injectable()
+export class MatchFairnessService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  record(
+    tenantId: string,
+    requirementId: string,
+    topN: number,
+    diversity: DiversityOptions | null,
+    report: FairnessAuditReport
+  ) {
+    return this.prisma.matchFairnessAudit.create({
+      data: {
+        tenantId,
+        requirementId,
+        topN,
+        diversity: diversity ? (diversity as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+        candidateCount: report.candidateCount,
+        shortlistCount: report.shortlistCount,
+        groups: report.groups as unknown as Prisma.InputJsonValue,
+        minImpactRatio: report.minImpactRatio,
+        flagged: report.flagged
+      }
+    });
+  }
+
+  list(tenantId: string, options: { requirementId?: string; flagged?: boolean; limit?: number } = {}) {
+    return this.prisma.matchFairnessAudit.findMany({
+      where: {
+        tenantId,
+        requirementId: options.requirementId,
+        flagged: options.flagged
+      },
+      orderBy: { createdAt: "desc" },
+      take: options.limit ?? 50
+    });
+  }
+
+  async summarize(tenantId: string, options: { since?: Date; groups?: string[] } = {}): Promise<FairnessGroupSummary[]> {
+    const audits = await this.prisma.matchFairnessAudit.findMany({
+      where: { tenantId, createdAt: options.since ? { gte: options.since } : undefined },
+      select: { groups: true }
+    });
+
+    const byGroup = new Map<string, FairnessGroupReport[]>();
+    for (const audit of audits) {
+      const reports = Array.isArray(audit.groups) ? (audit.groups as unknown as FairnessGroupReport[]) : [];
+      for (const report of reports) {
+        if (options.groups?.length && !options.groups.includes(report.group)) {
+          continue;
+        }
+        byGroup.set(report.group, [...(byGroup.get(report.group) ?? []), report]);
+      }
+    }
+
+    return [...byGroup.entries()].map(([group, reports]) => {
+      const ratios = reports.map((report) => report.impactRatio).filter((ratio): ratio is number => ratio !== null);
+      return {
+        group,
+        runs: reports.length,
+        flaggedRuns: reports.filter((report) => report.flagged).length,
+        meanImpactRatio: ratios.length > 0 ? computeMean(ratios) : null,
+        minImpactRatio: ratios.length > 0 ? Math.min(...ratios) : null,
+        meanScoreGap: computeMean(reports.map((report) => report.meanScoreGap))
+      };
+    });
+  }
+}
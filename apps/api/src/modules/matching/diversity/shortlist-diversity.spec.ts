@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { auditShortlistFairness } from "./fairness-audit";
+import { diversifyShortlist, parseTagGroups } from "./shortlist-diversity";
+import type { DiversityCandidate } from "./diversity.types";
+
+function candidate(key: string, score: number, vendor: string, embedding?: number[]): DiversityCandidate {
+  return { key, score, embedding, groups: new Map([["vendor", vendor]]) };
+}
+
+describe("parseTagGroups", () => {
+  it("reads group:value tags and ignores plain tags", () => {
+    const groups = parseTagGroups([{ value: "Vendor: Acme" }, { value: "h1b" }, { value: "location:Austin" }]);
+    expect(groups.get("vendor")).toBe("acme");
+    expect(groups.get("location")).toBe("austin");
+    expect(groups.size).toBe(2);
+  });
+});
+
+describe("diversifyShortlist", () => {
+  it("keeps score order when lambda is 1 and no caps apply", () => {
+    const selected = diversifyShortlist(
+      [candidate("a", 0.7, "x"), candidate("b", 0.9, "x"), candidate("c", 0.8, "y")],
+      2,
+      { lambda: 1, groupCaps: {} }
+    );
+    expect(selected.map((item) => item.key)).toEqual(["b", "c"]);
+  });
+
+  it("skips near-duplicate embeddings in favour of a distinct profile", () => {
+    const selected = diversifyShortlist(
+      [
+        candidate("a", 0.9, "x", [1, 0]),
+        candidate("b", 0.88, "y", [1, 0.01]),
+        candidate("c", 0.8, "z", [0, 1])
+      ],
+      2,
+      { lambda: 0.5, groupCaps: {} }
+    );
+    expect(selected.map((item) => item.key)).toEqual(["a", "c"]);
+  });
+
+  it("enforces per-group caps even if the shortlist comes up short", () => {
+    const selected = diversifyShortlist(
+      [candidate("a", 0.9, "acme"), candidate("b", 0.85, "acme"), candidate("c", 0.8, "acme")],
+      3,
+      { lambda: 1, groupCaps: { vendor: 2 } }
+    );
+    expect(selected.map((item) => item.key)).toEqual(["a", "b"]);
+  });
+});
+
+describe("auditShortlistFairness", () => {
+  it("flags groups whose selection rate falls below four fifths of the best group", () => {
+    const pool = [
+      candidate("a1", 0.9, "acme"),
+      candidate("a2", 0.85, "acme"),
+      candidate("a3", 0.8, "acme"),
+      candidate("b1", 0.6, "globex"),
+      candidate("b2", 0.55, "globex"),
+      candidate("b3", 0.5, "globex")
+    ];
+
+    const report = auditShortlistFairness(pool, new Set(["a1", "a2", "b1"]));
+
+    const vendor = report.groups.find((group) => group.group === "vendor")!;
+    expect(vendor.impactRatio).toBe(0.5);
+    expect(vendor.flagged).toBe(true);
+    expect(vendor.meanScoreGap).toBeCloseTo(0.3, 4);
+    expect(report.shortlistCount).toBe(3);
+  });
+
+  it("does not compute a ratio from buckets below the minimum sample", () => {
+    const report = auditShortlistFairness([candidate("a", 0.9, "acme"), candidate("b", 0.4, "globex")], new Set(["a"]));
+    expect(report.groups[0].impactRatio).toBeNull();
+    expect(report.flagged).toBe(false);
+  });
+});
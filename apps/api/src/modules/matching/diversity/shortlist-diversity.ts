@@ -0,0 +1,86 @@
+import type { DiversityCandidate, DiversityOptions } from "./diversity.types";
+
+export function parseTagGroups(tags: Array<{ value: string }>): Map<string, string> {
+  const groups = new Map<string, string>();
+  for (const tag of tags) {
+    const separator = tag.value.indexOf(":");
+    if (separator <= 0) {
+      continue;
+    }
+    const group = tag.value.slice(0, separator).trim().toLowerCase();
+    const value = tag.value.slice(separator + 1).trim().toLowerCase();
+    if (group && value) {
+      groups.set(group, value);
+    }
+  }
+  return groups;
+}
+
+export function cosineSimilarity(left?: number[], right?: number[]): number {
+  if (!left || !right || left.length === 0 || left.length !== right.length) {
+    return 0;
+  }
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    dot += left[index] * right[index];
+    leftNorm += left[index] * left[index];
+    rightNorm += right[index] * right[index];
+  }
+  if (leftNorm === 0 || rightNorm === 0) {
+    return 0;
+  }
+  return dot / Math.sqrt(leftNorm * rightNorm);
+}
+
+export function diversifyShortlist<T extends DiversityCandidate>(
+  candidates: T[],
+  topN: number,
+  options: DiversityOptions
+): T[] {
+  const remaining = [...candidates].sort((a, b) => b.score - a.score);
+  const selected: T[] = [];
+  const groupCounts = new Map<string, number>();
+
+  const exceedsCap = (candidate: T) =>
+    Object.entries(options.groupCaps).some(([group, cap]) => {
+      const value = candidate.groups.get(group);
+      return value !== undefined && (groupCounts.get(`${group}:${value}`) ?? 0) >= cap;
+    });
+
+  while (selected.length < topN && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestValue = Number.NEGATIVE_INFINITY;
+
+    for (let index = 0; index < remaining.length; index += 1) {
+      const candidate = remaining[index];
+      if (exceedsCap(candidate)) {
+        continue;
+      }
+      const redundancy = selected.reduce(
+        (max, chosen) => Math.max(max, cosineSimilarity(candidate.embedding, chosen.embedding)),
+        0
+      );
+      const value = options.lambda * candidate.score - (1 - options.lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    }
+
+    // Caps are hard constraints: a shorter shortlist beats one that breaks them.
+    if (bestIndex === -1) {
+      break;
+    }
+
+    const [chosen] = remaining.splice(bestIndex, 1);
+    selected.push(chosen);
+    for (const [group, value] of chosen.groups) {
+      const key = `${group}:${value}`;
+      groupCounts.set(key, (groupCounts.get(key) ?? 0) + 1);
+    }
+  }
+
+  return selected;
+}
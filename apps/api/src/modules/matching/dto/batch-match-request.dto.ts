@@ -0,0 +1,19 @@
+import { Type } from "class-transformer";
+import { IsInt, IsOptional, Max, Min } from "class-validator";
+
+export class BatchMatchRequestDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  topN?: number = 5;
+}
+
+export class ListBatchRunsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
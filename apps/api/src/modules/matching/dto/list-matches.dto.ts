@@ -0,0 +1,91 @@
+import { MatchStatus } from "@prisma/client";
+import { Transform, Type } from "class-transformer";
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Max,
+  Min
+} from "class-validator";
+
+export const MATCH_SORT_FIELDS = ["createdAt", "updatedAt", "score"] as const;
+export type MatchSortField = (typeof MATCH_SORT_FIELDS)[number];
+
+export class ListMatchesQueryDto {
+  @IsOptional()
+  @IsString()
+  requirementId?: string;
+
+  @IsOptional()
+  @IsString()
+  consultantId?: string;
+
+  // Comma-separated, e.g. ?status=REVIEW,SHORTLISTED
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === "string" ? value.split(",").map((item) => item.trim()) : value))
+  @IsEnum(MatchStatus, { each: true })
+  status?: MatchStatus[];
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  minScore?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  maxScore?: number;
+
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === "true" ? true : value === "false" ? false : value))
+  @IsBoolean()
+  rankDropped?: boolean;
+
+  @IsOptional()
+  @IsIn(MATCH_SORT_FIELDS)
+  sortBy?: MatchSortField;
+
+  @IsOptional()
+  @IsIn(["asc", "desc"])
+  sortOrder?: "asc" | "desc";
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  cursor?: string;
+}
+
+export class UpdateMatchStatusDto {
+  @IsEnum(MatchStatus)
+  status!: MatchStatus;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  reason?: string;
+}
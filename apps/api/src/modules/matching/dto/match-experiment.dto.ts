@@ -0,0 +1,56 @@
+import { Type } from "class-transformer";
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested
+} from "class-validator";
+
+class ExperimentVariantInput {
+  @IsString()
+  @Matches(/^[a-z0-9_-]{1,32}$/i)
+  key!: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  traffic!: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  weightSetVersion?: number;
+
+  @IsOptional()
+  @IsString()
+  rankingModelId?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enableLlmRerank?: boolean;
+}
+
+export class CreateMatchExperimentDto {
+  @IsString()
+  @MaxLength(120)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsArray()
+  @ArrayMinSize(2)
+  @ValidateNested({ each: true })
+  @Type(() => ExperimentVariantInput)
+  variants!: ExperimentVariantInput[];
+}
@@ -0,0 +1,76 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested
+} from "class-validator";
+
+import { ConsultantAvailability } from "@prisma/client";
+
+class MustHaveSkillInput {
+  @IsString()
+  skillId!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  minWeight?: number;
+}
+
+export class MatchFilterPolicyDto {
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => MustHaveSkillInput)
+  mustHaveSkills?: MustHaveSkillInput[];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxRate?: number | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedLocations?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  remoteOnly?: boolean | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(ConsultantAvailability, { each: true })
+  excludedAvailability?: ConsultantAvailability[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  workAuthorizationTags?: string[];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  minSkillOverlap?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  minLocationMatch?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  minRateAlignment?: number | null;
+}
@@ -1,7 +1,26 @@
-import { IsNumber, IsOptional } from "class-validator";
+import { Type } from "class-transformer";
+import { IsNumber, IsObject, IsOptional, Max, Min, ValidateNested } from "class-validator";
+
+export class MatchDiversityDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  lambda?: number;
+
+  // Tag group -> max shortlisted consultants per value of that group, e.g. { "vendor": 2 }
+  @IsOptional()
+  @IsObject()
+  groupCaps?: Record<string, number>;
+}
 
 export class MatchRequestDto {
   @IsOptional()
   @IsNumber()
   topN?: number = 5;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MatchDiversityDto)
+  diversity?: MatchDiversityDto;
 }
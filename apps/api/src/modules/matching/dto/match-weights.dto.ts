@@ -0,0 +1,76 @@
+import { Type } from "class-transformer";
+import { IsBoolean, IsNumber, IsOptional, IsString, Max, MaxLength, Min, ValidateNested } from "class-validator";
+
+class FeatureWeightsInput {
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  skillOverlap!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  vectorScore!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  lexicalScore!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  availability!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  locationMatch!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  rateAlignment!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  recencyScore!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  domainExperience!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  certificationMatch!: number;
+}
+
+export class UpdateMatchWeightsDto {
+  @ValidateNested()
+  @Type(() => FeatureWeightsInput)
+  featureWeights!: FeatureWeightsInput;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  matchBaseWeight?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(0.3)
+  llmRerankWeight?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  enableLlmRerank?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
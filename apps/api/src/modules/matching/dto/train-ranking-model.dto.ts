@@ -0,0 +1,53 @@
+import { Type } from "class-transformer";
+import { IsBoolean, IsIn, IsInt, IsNumber, IsOptional, Max, Min, ValidateNested } from "class-validator";
+
+class TrainingGateInput {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minSamples?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minRequirements?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  minFeedbackCoverage?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-1)
+  @Max(1)
+  minNdcgLift?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.05)
+  @Max(0.5)
+  holdoutRatio?: number;
+}
+
+export class TrainRankingModelDto {
+  @IsOptional()
+  @IsIn(["gbdt", "logistic"])
+  algorithm?: "gbdt" | "logistic";
+
+  @IsOptional()
+  @IsInt()
+  @Min(7)
+  @Max(730)
+  windowDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  activate?: boolean;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TrainingGateInput)
+  gate?: TrainingGateInput;
+}
@@ -5,6 +5,7 @@ import {
   computeHitRate,
   computeMean,
   computeNormalizedDcg,
+  computeReciprocalRank,
   safeDivide
 } from "./evaluation.metrics";
 
@@ -25,6 +26,11 @@ describe("evaluation metrics", () => {
     expect(computeHitRate([0, 0, 0], 3, 1)).toBe(0);
   });
 
+  it("computes reciprocal rank of the first relevant item", () => {
+    expect(computeReciprocalRank([0, 2, 1], 3)).toBeCloseTo(0.5, 6);
+    expect(computeReciprocalRank([0, 0, 1], 2)).toBe(0);
+  });
+
   it("computes safe means", () => {
     expect(computeMean([0.5, 0.7, 0.9])).toBeCloseTo(0.7, 6);
     expect(computeMean([])).toBe(0);
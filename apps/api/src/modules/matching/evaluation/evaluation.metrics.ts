@@ -38,6 +38,17 @@ export function computeHitRate(relevances: number[], k: number, threshold = 1):
   return 0;
 }
 
+/** 1 / rank of the first relevant item within the top k; averaged over queries this is MRR@k. */
+export function computeReciprocalRank(relevances: number[], k: number, threshold = 1): number {
+  const limit = Math.min(k, relevances.length);
+  for (let index = 0; index < limit; index += 1) {
+    if (relevances[index] >= threshold) {
+      return Number((1 / (index + 1)).toFixed(6));
+    }
+  }
+  return 0;
+}
+
 export function computeMean(values: number[]): number {
   if (values.length === 0) {
     return 0;
@@ -0,0 +1,16 @@
+import { hashToUnit } from "../matching.domain";
+import type { ExperimentVariant } from "./experiment.types";
+
+export function assignVariant(salt: string, requirementId: string, variants: ExperimentVariant[]): ExperimentVariant {
+  const bucket = hashToUnit(`${salt}:${requirementId}`);
+  const total = variants.reduce((acc, variant) => acc + variant.traffic, 0) || 1;
+
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.traffic / total;
+    if (bucket < cumulative) {
+      return variant;
+    }
+  }
+  return variants[variants.length - 1];
+}
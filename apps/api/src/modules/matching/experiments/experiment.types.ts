@@ -0,0 +1,34 @@
+import type { LtrModel } from "../learning-to-rank.model";
+import type { ScoringConfig } from "../matching.domain";
+
+export interface ExperimentVariant {
+  key: string;
+  traffic: number;
+  weightSetVersion?: number;
+  rankingModelId?: string;
+  enableLlmRerank?: boolean;
+}
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  variant: string;
+}
+
+export interface VariantScoringPlan {
+  scoring: ScoringConfig;
+  rankingModel: LtrModel;
+  assignment: ExperimentAssignment | null;
+}
+
+export interface VariantOutcomeMetrics {
+  variant: string;
+  requirements: number;
+  matches: number;
+  shortlisted: number;
+  submitted: number;
+  hired: number;
+  shortlistRate: number;
+  submissionRate: number;
+  hireRate: number;
+  positiveFeedbackRate: number;
+}
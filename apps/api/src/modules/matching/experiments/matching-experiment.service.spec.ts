@@ -0,0 +1,114 @@
+import { MatchFeedbackOutcome, MatchStatus, SubmissionStatus } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import type { RequestContextService } from "../../../infrastructure/context";
+import type { PrismaService } from "../../../infrastructure/prisma/prisma.service";
+import { DEFAULT_LTR_MODEL } from "../learning-to-rank.model";
+import type { LearningToRankService } from "../learning-to-rank.service";
+import type { MatchingWeightsService } from "../matching-weights.service";
+import { assignVariant } from "./experiment-assignment";
+import { MatchingExperimentService, summarizeVariantOutcomes } from "./matching-experiment.service";
+
+describe("assignVariant", () => {
+  const variants = [
+    { key: "control", traffic: 0.5 },
+    { key: "treatment", traffic: 0.5, enableLlmRerank: false }
+  ];
+
+  it("assigns the same requirement to the same variant", () => {
+    const first = assignVariant("salt-1", "req-42", variants);
+    const second = assignVariant("salt-1", "req-42", variants);
+    expect(second.key).toBe(first.key);
+  });
+
+  it("splits traffic roughly by the configured share", () => {
+    const skewed = [
+      { key: "control", traffic: 0.8 },
+      { key: "treatment", traffic: 0.2 }
+    ];
+    const counts = { control: 0, treatment: 0 } as Record<string, number>;
+    for (let index = 0; index < 2000; index += 1) {
+      counts[assignVariant("salt-2", `req-${index}`, skewed).key] += 1;
+    }
+    expect(counts.control / 2000).toBeGreaterThan(0.75);
+    expect(counts.control / 2000).toBeLessThan(0.85);
+  });
+});
+
+describe("summarizeVariantOutcomes", () => {
+  it("computes shortlist, submission and hire rates per variant", () => {
+    const metrics = summarizeVariantOutcomes(
+      ["control", "treatment"],
+      [
+        {
+          requirementId: "req-1",
+          variant: "control",
+          status: MatchStatus.SHORTLISTED,
+          feedbackOutcomes: [MatchFeedbackOutcome.POSITIVE],
+          submissionStatus: null
+        },
+        {
+          requirementId: "req-1",
+          variant: "control",
+          status: MatchStatus.REVIEW,
+          feedbackOutcomes: [MatchFeedbackOutcome.NEGATIVE],
+          submissionStatus: null
+        },
+        {
+          requirementId: "req-2",
+          variant: "treatment",
+          status: MatchStatus.SUBMITTED,
+          feedbackOutcomes: [],
+          submissionStatus: SubmissionStatus.HIRED
+        }
+      ]
+    );
+
+    const [control, treatment] = metrics;
+    expect(control.matches).toBe(2);
+    expect(control.shortlistRate).toBe(0.5);
+    expect(control.submissionRate).toBe(0);
+    expect(control.positiveFeedbackRate).toBe(0.5);
+    expect(treatment.requirements).toBe(1);
+    expect(treatment.submissionRate).toBe(1);
+    expect(treatment.hireRate).toBe(1);
+  });
+});
+
+describe("MatchingExperimentService.planForRequirements", () => {
+  const variants = [
+    { key: "control", traffic: 0.5 },
+    { key: "treatment", traffic: 0.5, enableLlmRerank: false }
+  ];
+  const scoring = { enableLlmRerank: true };
+
+  function buildService(experiment: unknown) {
+    const prisma = { matchExperiment: { findFirst: async () => experiment } } as unknown as PrismaService;
+    const weights = { resolve: async () => scoring } as unknown as MatchingWeightsService;
+    const learningToRank = { resolveModel: async () => DEFAULT_LTR_MODEL } as unknown as LearningToRankService;
+    return new MatchingExperimentService(prisma, weights, learningToRank, {} as RequestContextService);
+  }
+
+  it("tags every requirement with its own variant", async () => {
+    const service = buildService({ id: "exp-1", salt: "salt-1", variants });
+    const requirementIds = Array.from({ length: 200 }, (_, index) => `req-${index}`);
+
+    const plans = await service.planForRequirements("tenant-1", requirementIds);
+
+    for (const requirementId of requirementIds) {
+      expect(plans.get(requirementId)?.assignment).toEqual({
+        experimentId: "exp-1",
+        variant: assignVariant("salt-1", requirementId, variants).key
+      });
+    }
+    const variantKeys = new Set(requirementIds.map((requirementId) => plans.get(requirementId)?.assignment?.variant));
+    expect(new Set(requirementIds.map((requirementId) => plans.get(requirementId))).size).toBe(variantKeys.size);
+  });
+
+  it("uses the default plan without a running experiment", async () => {
+    const plans = await buildService(null).planForRequirements("tenant-1", ["req-1", "req-2"]);
+
+    expect(plans.get("req-1")).toEqual({ scoring, rankingModel: DEFAULT_LTR_MODEL, assignment: null });
+    expect(plans.get("req-2")).toBe(plans.get("req-1"));
+  });
+});
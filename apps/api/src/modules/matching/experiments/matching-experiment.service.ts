@@ -0,0 +1,284 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import {
+  MatchExperiment,
+  MatchExperimentStatus,
+  MatchFeedbackOutcome,
+  MatchStatus,
+  Prisma,
+  RankingModelStatus,
+  SubmissionStatus
+} from "@prisma/client";
+import { randomUUID } from "crypto";
+
+import { PrismaService } from "../../../infrastructure/prisma/prisma.service";
+import { RequestContextService } from "../../../infrastructure/context";
+import { CreateMatchExperimentDto } from "../dto/match-experiment.dto";
+import { safeDivide } from "../evaluation/evaluation.metrics";
+import { LearningToRankService } from "../learning-to-rank.service";
+import { MatchingWeightsService } from "../matching-weights.service";
+import { assignVariant } from "./experiment-assignment";
+import type { ExperimentVariant, VariantOutcomeMetrics, VariantScoringPlan } from "./experiment.types";
+
+const TRAFFIC_SUM_TOLERANCE = 0.001;
+
+const SHORTLISTED_STATUSES: MatchStatus[] = [MatchStatus.SHORTLISTED, MatchStatus.SUBMITTED, MatchStatus.HIRED];
+const SUBMITTED_STATUSES: MatchStatus[] = [MatchStatus.SUBMITTED, MatchStatus.HIRED];
+const POSITIVE_OUTCOMES: MatchFeedbackOutcome[] = [MatchFeedbackOutcome.POSITIVE, MatchFeedbackOutcome.HIRED];
+
+export interface ExperimentMatchOutcome {
+  requirementId: string;
+  variant: string | null;
+  status: MatchStatus;
+  feedbackOutcomes: MatchFeedbackOutcome[];
+  submissionStatus: SubmissionStatus | null;
+}
+
+export function summarizeVariantOutcomes(
+  variants: string[],
+  matches: ExperimentMatchOutcome[]
+): VariantOutcomeMetrics[] {
+  return variants.map((variant) => {
+    const variantMatches = matches.filter((match) => match.variant === variant);
+    const shortlisted = variantMatches.filter(
+      (match) =>
+        SHORTLISTED_STATUSES.includes(match.status) ||
+        match.feedbackOutcomes.some((outcome) => POSITIVE_OUTCOMES.includes(outcome))
+    ).length;
+    const submitted = variantMatches.filter(
+      (match) =>
+        SUBMITTED_STATUSES.includes(match.status) ||
+        (match.submissionStatus !== null && match.submissionStatus !== SubmissionStatus.DRAFT)
+    ).length;
+    const hired = variantMatches.filter(
+      (match) =>
+        match.status === MatchStatus.HIRED ||
+        match.submissionStatus === SubmissionStatus.HIRED ||
+        match.feedbackOutcomes.includes(MatchFeedbackOutcome.HIRED)
+    ).length;
+    const feedback = variantMatches.flatMap((match) => match.feedbackOutcomes);
+
+    return {
+      variant,
+      requirements: new Set(variantMatches.map((match) => match.requirementId)).size,
+      matches: variantMatches.length,
+      shortlisted,
+      submitted,
+      hired,
+      shortlistRate: safeDivide(shortlisted, variantMatches.length),
+      submissionRate: safeDivide(submitted, variantMatches.length),
+      hireRate: safeDivide(hired, variantMatches.length),
+      positiveFeedbackRate: safeDivide(
+        feedback.filter((outcome) => POSITIVE_OUTCOMES.includes(outcome)).length,
+        feedback.length
+      )
+    };
+  });
+}
+
+@Injectable()
+export class MatchingExperimentService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly weights: MatchingWeightsService,
+    private readonly learningToRank: LearningToRankService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async create(tenantId: string, dto: CreateMatchExperimentDto) {
+    const variants = await this.validateVariants(tenantId, dto.variants);
+
+    return this.prisma.matchExperiment.create({
+      data: {
+        tenantId,
+        name: dto.name,
+        description: dto.description ?? null,
+        variants: variants as unknown as Prisma.InputJsonValue,
+        salt: randomUUID(),
+        createdBy: this.context.getUser()?.sub ?? null
+      }
+    });
+  }
+
+  list(tenantId: string) {
+    return this.prisma.matchExperiment.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: "desc" }
+    });
+  }
+
+  async get(tenantId: string, experimentId: string) {
+    const experiment = await this.findOrThrow(tenantId, experimentId);
+    return { ...experiment, results: await this.report(tenantId, experiment) };
+  }
+
+  async start(tenantId: string, experimentId: string) {
+    const experiment = await this.findOrThrow(tenantId, experimentId);
+    if (experiment.status !== MatchExperimentStatus.DRAFT) {
+      throw new BadRequestException(`Experiment ${experimentId} is ${experiment.status} and cannot be started`);
+    }
+
+    const running = await this.prisma.matchExperiment.findFirst({
+      where: { tenantId, status: MatchExperimentStatus.RUNNING }
+    });
+    if (running) {
+      throw new BadRequestException(`Experiment ${running.name} is already running; stop it first`);
+    }
+
+    return this.prisma.matchExperiment.update({
+      where: { id: experiment.id },
+      data: { status: MatchExperimentStatus.RUNNING, startedAt: new Date() }
+    });
+  }
+
+  async stop(tenantId: string, experimentId: string) {
+    const experiment = await this.findOrThrow(tenantId, experimentId);
+    if (experiment.status !== MatchExperimentStatus.RUNNING) {
+      throw new BadRequestException(`Experiment ${experimentId} is not running`);
+    }
+
+    return this.prisma.matchExperiment.update({
+      where: { id: experiment.id },
+      data: { status: MatchExperimentStatus.STOPPED, stoppedAt: new Date() }
+    });
+  }
+
+  async planForRequirement(tenantId: string, requirementId: string): Promise<VariantScoringPlan> {
+    const plans = await this.planForRequirements(tenantId, [requirementId]);
+    return plans.get(requirementId) as VariantScoringPlan;
+  }
+
+  /** Resolves each requirement's variant once per call so reverse matching can score every pair under its own plan. */
+  async planForRequirements(tenantId: string, requirementIds: string[]): Promise<Map<string, VariantScoringPlan>> {
+    const experiment = await this.prisma.matchExperiment.findFirst({
+      where: { tenantId, status: MatchExperimentStatus.RUNNING }
+    });
+    const baseline = await this.planDefault(tenantId);
+    if (!experiment) {
+      return new Map(requirementIds.map((requirementId) => [requirementId, baseline]));
+    }
+
+    const variants = this.parseVariants(experiment.variants);
+    const variantPlans = new Map<string, VariantScoringPlan>();
+    const plans = new Map<string, VariantScoringPlan>();
+    for (const requirementId of requirementIds) {
+      const variant = assignVariant(experiment.salt, requirementId, variants);
+      let plan = variantPlans.get(variant.key);
+      if (!plan) {
+        plan = await this.planForVariant(tenantId, experiment, variant, baseline);
+        variantPlans.set(variant.key, plan);
+      }
+      plans.set(requirementId, plan);
+    }
+    return plans;
+  }
+
+  async planDefault(tenantId: string): Promise<VariantScoringPlan> {
+    const [scoring, rankingModel] = await Promise.all([
+      this.weights.resolve(tenantId),
+      this.learningToRank.resolveModel(tenantId)
+    ]);
+    return { scoring, rankingModel, assignment: null };
+  }
+
+  private async report(tenantId: string, experiment: MatchExperiment): Promise<VariantOutcomeMetrics[]> {
+    const matches = await this.prisma.match.findMany({
+      where: { tenantId, experimentId: experiment.id },
+      select: {
+        requirementId: true,
+        variant: true,
+        status: true,
+        feedbackRecords: { select: { outcome: true } },
+        submission: { select: { status: true } }
+      }
+    });
+
+    return summarizeVariantOutcomes(
+      this.parseVariants(experiment.variants).map((variant) => variant.key),
+      matches.map((match) => ({
+        requirementId: match.requirementId,
+        variant: match.variant,
+        status: match.status,
+        feedbackOutcomes: match.feedbackRecords.map((record) => record.outcome),
+        submissionStatus: match.submission?.status ?? null
+      }))
+    );
+  }
+
+  private async validateVariants(tenantId: string, variants: ExperimentVariant[]): Promise<ExperimentVariant[]> {
+    const keys = new Set(variants.map((variant) => variant.key));
+    if (keys.size !== variants.length) {
+      throw new BadRequestException("Variant keys must be unique");
+    }
+
+    const traffic = variants.reduce((acc, variant) => acc + variant.traffic, 0);
+    if (Math.abs(traffic - 1) > TRAFFIC_SUM_TOLERANCE) {
+      throw new BadRequestException(`Variant traffic must sum to 1 (got ${Number(traffic.toFixed(4))})`);
+    }
+
+    for (const variant of variants) {
+      if (variant.weightSetVersion !== undefined) {
+        const weightSet = await this.weights.resolveVersion(tenantId, variant.weightSetVersion);
+        if (!weightSet) {
+          throw new BadRequestException(`Weight set version ${variant.weightSetVersion} not found`);
+        }
+      }
+      if (variant.rankingModelId) {
+        const model = await this.prisma.rankingModel.findFirst({
+          where: { tenantId, id: variant.rankingModelId },
+          select: { status: true }
+        });
+        if (!model) {
+          throw new BadRequestException(`Ranking model ${variant.rankingModelId} not found`);
+        }
+        if (model.status === RankingModelStatus.REJECTED) {
+          throw new BadRequestException(`Ranking model ${variant.rankingModelId} failed its evaluation gate`);
+        }
+      }
+    }
+
+    return variants.map((variant) => ({
+      key: variant.key,
+      traffic: variant.traffic,
+      weightSetVersion: variant.weightSetVersion,
+      rankingModelId: variant.rankingModelId,
+      enableLlmRerank: variant.enableLlmRerank
+    }));
+  }
+
+  private async planForVariant(
+    tenantId: string,
+    experiment: MatchExperiment,
+    variant: ExperimentVariant,
+    baseline: VariantScoringPlan
+  ): Promise<VariantScoringPlan> {
+    const weightSet =
+      variant.weightSetVersion !== undefined
+        ? await this.weights.resolveVersion(tenantId, variant.weightSetVersion)
+        : null;
+    const rankingModel = variant.rankingModelId
+      ? await this.learningToRank.loadModel(tenantId, variant.rankingModelId)
+      : null;
+    const scoring = weightSet ?? baseline.scoring;
+
+    return {
+      scoring: {
+        ...scoring,
+        enableLlmRerank: variant.enableLlmRerank ?? scoring.enableLlmRerank
+      },
+      rankingModel: rankingModel ?? baseline.rankingModel,
+      assignment: { experimentId: experiment.id, variant: variant.key }
+    };
+  }
+
+  private parseVariants(value: Prisma.JsonValue): ExperimentVariant[] {
+    return Array.isArray(value) ? (value as unknown as ExperimentVariant[]) : [];
+  }
+
+  private async findOrThrow(tenantId: string, experimentId: string) {
+    const experiment = await this.prisma.matchExperiment.findFirst({ where: { id: experimentId, tenantId } });
+    if (!experiment) {
+      throw new NotFoundException(`Experiment ${experimentId} not found`);
+    }
+    return experiment;
+  }
+}
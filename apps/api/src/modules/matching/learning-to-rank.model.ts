@@ -0,0 +1,202 @@
+import { FeatureVector, LTR_MODEL_VERSION } from "./matching.domain";
+
+export type LtrFeatureKey = keyof FeatureVector | "linearScore" | "retrievalScore";
+
+export type LtrFeatureMap = Record<LtrFeatureKey, number>;
+
+export const LTR_FEATURE_KEYS: LtrFeatureKey[] = [
+  "skillOverlap",
+  "vectorScore",
+  "lexicalScore",
+  "availability",
+  "locationMatch",
+  "rateAlignment",
+  "recencyScore",
+  "domainExperience",
+  "certificationMatch",
+  "linearScore",
+  "retrievalScore"
+];
+
+export type LightGbmNode =
+  | {
+      feature: LtrFeatureKey;
+      threshold: number;
+      left: LightGbmNode;
+      right: LightGbmNode;
+    }
+  | {
+      value: number;
+    };
+
+export interface GradientBoostedModel {
+  algorithm: "gbdt";
+  version: string;
+  baseScore: number;
+  learningRate: number;
+  trees: LightGbmNode[];
+}
+
+export interface LogisticModel {
+  algorithm: "logistic";
+  version: string;
+  bias: number;
+  weights: Partial<LtrFeatureMap>;
+}
+
+export type LtrModel = GradientBoostedModel | LogisticModel;
+
+export const DEFAULT_LTR_MODEL: GradientBoostedModel = {
+  algorithm: "gbdt",
+  version: LTR_MODEL_VERSION,
+  baseScore: -0.3,
+  learningRate: 0.3,
+  trees: [
+    {
+      feature: "skillOverlap",
+      threshold: 0.55,
+      left: {
+        feature: "retrievalScore",
+        threshold: 0.42,
+        left: { value: -0.4 },
+        right: { value: -0.1 }
+      },
+      right: { value: 0.6 }
+    },
+    {
+      feature: "availability",
+      threshold: 0.5,
+      left: {
+        feature: "recencyScore",
+        threshold: 0.4,
+        left: { value: -0.2 },
+        right: { value: 0.05 }
+      },
+      right: {
+        feature: "linearScore",
+        threshold: 0.7,
+        left: { value: 0.15 },
+        right: { value: 0.32 }
+      }
+    },
+    {
+      feature: "rateAlignment",
+      threshold: 0.6,
+      left: {
+        feature: "locationMatch",
+        threshold: 0.6,
+        left: { value: -0.05 },
+        right: { value: 0.08 }
+      },
+      right: { value: 0.18 }
+    }
+  ]
+};
+
+export function toLtrFeatureMap(features: FeatureVector, linearScore: number, retrievalScore: number): LtrFeatureMap {
+  return {
+    skillOverlap: features.skillOverlap,
+    vectorScore: features.vectorScore,
+    lexicalScore: features.lexicalScore,
+    availability: features.availability,
+    locationMatch: features.locationMatch,
+    rateAlignment: features.rateAlignment,
+    recencyScore: features.recencyScore,
+    domainExperience: features.domainExperience,
+    certificationMatch: features.certificationMatch,
+    linearScore,
+    retrievalScore
+  };
+}
+
+export function evaluateTree(node: LightGbmNode, featureMap: LtrFeatureMap): number {
+  if ("value" in node) {
+    return node.value;
+  }
+  const featureValue = featureMap[node.feature] ?? 0;
+  if (featureValue <= node.threshold) {
+    return evaluateTree(node.left, featureMap);
+  }
+  return evaluateTree(node.right, featureMap);
+}
+
+export function computeRawScore(model: LtrModel, featureMap: LtrFeatureMap): number {
+  if (model.algorithm === "logistic") {
+    return LTR_FEATURE_KEYS.reduce(
+      (acc, feature) => acc + (model.weights[feature] ?? 0) * (featureMap[feature] ?? 0),
+      model.bias
+    );
+  }
+
+  let score = model.baseScore;
+  for (const tree of model.trees) {
+    score += model.learningRate * evaluateTree(tree, featureMap);
+  }
+  return score;
+}
+
+export function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isLtrFeatureKey(value: unknown): value is LtrFeatureKey {
+  return typeof value === "string" && (LTR_FEATURE_KEYS as string[]).includes(value);
+}
+
+function isTreeNode(value: unknown, depth = 0): value is LightGbmNode {
+  if (!value || typeof value !== "object" || depth > 32) {
+    return false;
+  }
+  const node = value as Record<string, unknown>;
+  if ("value" in node) {
+    return isFiniteNumber(node.value);
+  }
+  return (
+    isLtrFeatureKey(node.feature) &&
+    isFiniteNumber(node.threshold) &&
+    isTreeNode(node.left, depth + 1) &&
+    isTreeNode(node.right, depth + 1)
+  );
+}
+
+/**
+ * Checks a stored model definition before it is used for scoring: unknown features, non-numeric
+ * weights or malformed trees yield null so callers can fall back to the default model.
+ */
+export function parseLtrModel(value: unknown): LtrModel | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const model = value as Record<string, unknown>;
+  if (typeof model.version !== "string" || model.version.length === 0) {
+    return null;
+  }
+
+  if (model.algorithm === "logistic") {
+    const weights = model.weights;
+    if (!isFiniteNumber(model.bias) || !weights || typeof weights !== "object" || Array.isArray(weights)) {
+      return null;
+    }
+    const entries = Object.entries(weights as Record<string, unknown>);
+    if (!entries.every(([feature, weight]) => isLtrFeatureKey(feature) && isFiniteNumber(weight))) {
+      return null;
+    }
+    return value as LogisticModel;
+  }
+
+  if (model.algorithm === "gbdt") {
+    if (!isFiniteNumber(model.baseScore) || !isFiniteNumber(model.learningRate) || !Array.isArray(model.trees)) {
+      return null;
+    }
+    if (!model.trees.every((tree) => isTreeNode(tree))) {
+      return null;
+    }
+    return value as GradientBoostedModel;
+  }
+
+  return null;
+}
@@ -1,10 +1,12 @@
 ﻿import { describe, expect, it } from "vitest";
 
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { DEFAULT_LTR_MODEL } from "./learning-to-rank.model";
 import { LearningToRankService } from "./learning-to-rank.service";
 import type { FeatureVector } from "./matching.domain";
 
 describe("LearningToRankService", () => {
-  const service = new LearningToRankService();
+  const service = new LearningToRankService({} as PrismaService);
 
   function buildFeatures(overrides: Partial<FeatureVector>): FeatureVector {
     return {
@@ -15,6 +17,8 @@ describe("LearningToRankService", () => {
       locationMatch: 0.5,
       rateAlignment: 0.5,
       recencyScore: 0.5,
+      domainExperience: 0.5,
+      certificationMatch: 0.5,
       ...overrides
     };
   }
@@ -71,4 +75,31 @@ describe("LearningToRankService", () => {
     expect(result.probability).toBeLessThanOrEqual(1);
     expect(result.probability).toBeGreaterThanOrEqual(0);
   });
+
+  it("falls back to the default model when the stored definition is malformed", async () => {
+    const definitions: unknown[] = [
+      { algorithm: "logistic", version: "logistic-1", bias: 0, weights: { skillOverlap: "0.4" } },
+      { algorithm: "logistic", version: "logistic-2", bias: 0, weights: { salary: 0.4 } },
+      { algorithm: "gbdt", version: "gbdt-1", baseScore: 0, learningRate: 0.1, trees: [{ feature: "skillOverlap", threshold: 0.5 }] }
+    ];
+
+    for (const definition of definitions) {
+      const prisma = {
+        rankingModel: { findFirst: async () => ({ version: "stored", definition }) }
+      } as unknown as PrismaService;
+      const loader = new LearningToRankService(prisma);
+
+      await expect(loader.resolveModel("tenant-1")).resolves.toBe(DEFAULT_LTR_MODEL);
+      await expect(loader.loadModel("tenant-1", "model-1")).resolves.toBeNull();
+    }
+  });
+
+  it("loads well-formed stored definitions", async () => {
+    const definition = { algorithm: "logistic", version: "logistic-3", bias: -0.2, weights: { skillOverlap: 1.4 } };
+    const prisma = {
+      rankingModel: { findFirst: async () => ({ version: "logistic-3", definition }) }
+    } as unknown as PrismaService;
+
+    await expect(new LearningToRankService(prisma).resolveModel("tenant-1")).resolves.toEqual(definition);
+  });
 });
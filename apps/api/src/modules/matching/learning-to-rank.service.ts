@@ -1,72 +1,11 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, Logger } from "@nestjs/common";
+import { RankingModelStatus } from "@prisma/client";
 
-import { FeatureKey, FeatureVector, LTR_MODEL_VERSION, clampScore } from "./matching.domain";
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { DEFAULT_LTR_MODEL, LtrModel, computeRawScore, parseLtrModel, sigmoid, toLtrFeatureMap } from "./learning-to-rank.model";
+import { FeatureVector, clampScore } from "./matching.domain";
 
-type LtrFeatureKey = FeatureKey | "linearScore" | "retrievalScore";
-
-type LightGbmNode =
-  | {
-      feature: LtrFeatureKey;
-      threshold: number;
-      left: LightGbmNode;
-      right: LightGbmNode;
-    }
-  | {
-      value: number;
-    };
-
-interface LightGbmModel {
-  version: string;
-  baseScore: number;
-  learningRate: number;
-  trees: LightGbmNode[];
-}
-
-const LIGHTGBM_MODEL: LightGbmModel = {
-  version: LTR_MODEL_VERSION,
-  baseScore: -0.3,
-  learningRate: 0.3,
-  trees: [
-    {
-      feature: "skillOverlap",
-      threshold: 0.55,
-      left: {
-        feature: "retrievalScore",
-        threshold: 0.42,
-        left: { value: -0.4 },
-        right: { value: -0.1 }
-      },
-      right: { value: 0.6 }
-    },
-    {
-      feature: "availability",
-      threshold: 0.5,
-      left: {
-        feature: "recencyScore",
-        threshold: 0.4,
-        left: { value: -0.2 },
-        right: { value: 0.05 }
-      },
-      right: {
-        feature: "linearScore",
-        threshold: 0.7,
-        left: { value: 0.15 },
-        right: { value: 0.32 }
-      }
-    },
-    {
-      feature: "rateAlignment",
-      threshold: 0.6,
-      left: {
-        feature: "locationMatch",
-        threshold: 0.6,
-        left: { value: -0.05 },
-        right: { value: 0.08 }
-      },
-      right: { value: 0.18 }
-    }
-  ]
-};
+const MODEL_CACHE_TTL_MS = 5 * 60 * 1000;
 
 export interface LearningToRankInput {
   features: FeatureVector;
@@ -81,42 +20,57 @@ export interface LearningToRankScore {
 
 @Injectable()
 export class LearningToRankService {
-  readonly version = LIGHTGBM_MODEL.version;
+  readonly version = DEFAULT_LTR_MODEL.version;
+
+  private readonly logger = new Logger(LearningToRankService.name);
+  private readonly cache = new Map<string, { model: LtrModel; loadedAt: number }>();
 
-  scoreCandidate(input: LearningToRankInput): LearningToRankScore {
-    const featureMap: Record<LtrFeatureKey, number> = {
-      skillOverlap: input.features.skillOverlap,
-      vectorScore: input.features.vectorScore,
-      lexicalScore: input.features.lexicalScore,
-      availability: input.features.availability,
-      locationMatch: input.features.locationMatch,
-      rateAlignment: input.features.rateAlignment,
-      recencyScore: input.features.recencyScore,
-      linearScore: input.linearScore,
-      retrievalScore: input.retrievalScore
-    };
+  constructor(private readonly prisma: PrismaService) {}
 
-    let score = LIGHTGBM_MODEL.baseScore;
-    for (const tree of LIGHTGBM_MODEL.trees) {
-      score += LIGHTGBM_MODEL.learningRate * this.evaluateTree(tree, featureMap);
+  async resolveModel(tenantId: string): Promise<LtrModel> {
+    const cached = this.cache.get(tenantId);
+    if (cached && Date.now() - cached.loadedAt < MODEL_CACHE_TTL_MS) {
+      return cached.model;
     }
 
-    const probability = clampScore(this.sigmoid(score));
-    return { rawScore: score, probability };
+    let model: LtrModel = DEFAULT_LTR_MODEL;
+    try {
+      const active = await this.prisma.rankingModel.findFirst({
+        where: { tenantId, status: RankingModelStatus.ACTIVE },
+        orderBy: { activatedAt: "desc" }
+      });
+      if (active) {
+        model = this.parseDefinition(tenantId, active) ?? DEFAULT_LTR_MODEL;
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to load ranking model for tenant ${tenantId}: ${(error as Error).message}`);
+    }
+
+    this.cache.set(tenantId, { model, loadedAt: Date.now() });
+    return model;
   }
 
-  private evaluateTree(node: LightGbmNode, featureMap: Record<LtrFeatureKey, number>): number {
-    if ("value" in node) {
-      return node.value;
-    }
-    const featureValue = featureMap[node.feature] ?? 0;
-    if (featureValue <= node.threshold) {
-      return this.evaluateTree(node.left, featureMap);
-    }
-    return this.evaluateTree(node.right, featureMap);
+  async loadModel(tenantId: string, modelId: string): Promise<LtrModel | null> {
+    const record = await this.prisma.rankingModel.findFirst({ where: { id: modelId, tenantId } });
+    return record ? this.parseDefinition(tenantId, record) : null;
+  }
+
+  invalidate(tenantId: string) {
+    this.cache.delete(tenantId);
   }
 
-  private sigmoid(value: number): number {
-    return 1 / (1 + Math.exp(-value));
+  scoreCandidate(input: LearningToRankInput, model: LtrModel = DEFAULT_LTR_MODEL): LearningToRankScore {
+    const featureMap = toLtrFeatureMap(input.features, input.linearScore, input.retrievalScore);
+    const score = computeRawScore(model, featureMap);
+    const probability = clampScore(sigmoid(score));
+    return { rawScore: score, probability };
+  }
+
+  private parseDefinition(tenantId: string, record: { version: string; definition: unknown }): LtrModel | null {
+    const model = parseLtrModel(record.definition);
+    if (!model) {
+      this.logger.warn(`Ignoring malformed ranking model ${record.version} for tenant ${tenantId}`);
+    }
+    return model;
   }
 }
@@ -94,7 +94,9 @@ describe("MatchExplanationBuilder", () => {
     availability: 1,
     locationMatch: 0.95,
     rateAlignment: 0.92,
-    recencyScore: 0.85
+    recencyScore: 0.85,
+    domainExperience: 0.5,
+    certificationMatch: 0.5
   };
 
   const candidate: CandidateScoreBundle = {
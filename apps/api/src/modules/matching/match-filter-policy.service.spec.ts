@@ -0,0 +1,136 @@
+import { ConsultantAvailability, Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { RequestContextService } from "../../infrastructure/context";
+import { MatchFilterPolicyService } from "./match-filter-policy.service";
+import type { CandidateFeatureBaseline, MatchConsultant, RequirementWithSkills } from "./matching.domain";
+import { DEFAULT_HARD_FILTERS } from "./matching.domain";
+
+describe("MatchFilterPolicyService", () => {
+  const prismaMock = {
+    matchFilterPolicy: {
+      findMany: vi.fn()
+    }
+  };
+
+  const service = new MatchFilterPolicyService(
+    prismaMock as unknown as PrismaService,
+    {} as RequestContextService
+  );
+
+  const requirement = {
+    id: "req-1",
+    title: "Senior TypeScript Engineer",
+    location: "Austin, TX",
+    skills: [
+      { skillId: "skill-1", weight: 60, skill: { id: "skill-1", name: "TypeScript" } },
+      { skillId: "skill-2", weight: 40, skill: { id: "skill-2", name: "React" } }
+    ]
+  } as unknown as RequirementWithSkills;
+
+  function buildCandidate(overrides: Partial<MatchConsultant> = {}): CandidateFeatureBaseline {
+    const consultant = {
+      id: "consultant-1",
+      firstName: "Jane",
+      lastName: "Doe",
+      availability: ConsultantAvailability.AVAILABLE,
+      location: "Austin, TX",
+      rate: new Prisma.Decimal(100),
+      preferences: null,
+      skills: [{ skillId: "skill-1", weight: 55, skill: { id: "skill-1", name: "TypeScript" } }],
+      tags: [{ value: "US_CITIZEN" }],
+      ...overrides
+    } as unknown as MatchConsultant;
+
+    return {
+      consultant,
+      features: {
+        skillOverlap: 0.55,
+        vectorScore: 0.7,
+        lexicalScore: 0.4,
+        availability: 1,
+        locationMatch: 1,
+        rateAlignment: 1,
+        recencyScore: 0.9,
+        domainExperience: 0.5,
+        certificationMatch: 0.5
+      },
+      alignedSkills: ["TypeScript"]
+    };
+  }
+
+  beforeEach(() => {
+    prismaMock.matchFilterPolicy.findMany.mockReset();
+  });
+
+  it("passes candidates that satisfy the default filters", () => {
+    expect(service.evaluate(buildCandidate(), requirement, DEFAULT_HARD_FILTERS)).toEqual([]);
+  });
+
+  it("reports every rule a candidate violates", () => {
+    const violations = service.evaluate(
+      buildCandidate({ availability: ConsultantAvailability.UNAVAILABLE, rate: new Prisma.Decimal(140) }),
+      requirement,
+      {
+        ...DEFAULT_HARD_FILTERS,
+        mustHaveSkills: [{ skillId: "skill-1", minWeight: 70 }, { skillId: "skill-2" }],
+        maxRate: 120,
+        workAuthorizationTags: ["GC", "H1B"]
+      }
+    );
+
+    expect(violations.map((violation) => violation.rule)).toEqual([
+      "AVAILABILITY_EXCLUDED",
+      "MUST_HAVE_SKILL",
+      "MUST_HAVE_SKILL",
+      "MAX_RATE",
+      "WORK_AUTHORIZATION"
+    ]);
+    expect(violations[2].detail).toContain("React");
+  });
+
+  it("enforces allowed locations and remote-only", () => {
+    const filters = { ...DEFAULT_HARD_FILTERS, allowedLocations: ["Dallas"], remoteOnly: true };
+
+    expect(service.evaluate(buildCandidate(), requirement, filters).map((violation) => violation.rule)).toEqual([
+      "LOCATION_NOT_ALLOWED",
+      "REMOTE_ONLY"
+    ]);
+    expect(
+      service.evaluate(buildCandidate({ location: "Dallas, TX (Remote)" }), requirement, filters)
+    ).toEqual([]);
+  });
+
+  it("lets requirement policies override the tenant default field by field", async () => {
+    const basePolicy = {
+      mustHaveSkills: null,
+      maxRate: null,
+      allowedLocations: [],
+      remoteOnly: null,
+      excludedAvailability: [],
+      workAuthorizationTags: [],
+      minSkillOverlap: null,
+      minLocationMatch: null,
+      minRateAlignment: null
+    };
+    prismaMock.matchFilterPolicy.findMany.mockResolvedValue([
+      { ...basePolicy, requirementId: null, maxRate: new Prisma.Decimal(110), workAuthorizationTags: ["GC"] },
+      { ...basePolicy, requirementId: "req-1", maxRate: new Prisma.Decimal(95), minSkillOverlap: 0.4 }
+    ]);
+
+    const resolved = await service.resolveForRequirements("tenant-1", ["req-1", "req-2"]);
+
+    expect(resolved.get("req-1")).toMatchObject({
+      source: "requirement",
+      maxRate: 95,
+      workAuthorizationTags: ["GC"],
+      minSkillOverlap: 0.4
+    });
+    expect(resolved.get("req-2")).toMatchObject({
+      source: "tenant",
+      maxRate: 110,
+      minSkillOverlap: DEFAULT_HARD_FILTERS.minSkillOverlap
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { MatchFilterPolicy, Prisma } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { RequestContextService } from "../../infrastructure/context";
+import { MatchFilterPolicyDto } from "./dto/match-filter-policy.dto";
+import {
+  CandidateFeatureBaseline,
+  DEFAULT_HARD_FILTERS,
+  HardFilterViolation,
+  MustHaveSkill,
+  RequirementWithSkills,
+  ResolvedHardFilters
+} from "./matching.domain";
+
+@Injectable()
+export class MatchFilterPolicyService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async getPolicy(tenantId: string, requirementId: string | null) {
+    const policy = await this.prisma.matchFilterPolicy.findFirst({ where: { tenantId, requirementId } });
+    const tenantPolicy = requirementId
+      ? await this.prisma.matchFilterPolicy.findFirst({ where: { tenantId, requirementId: null } })
+      : policy;
+
+    return {
+      policy,
+      effective: this.mergePolicies(tenantPolicy, requirementId ? policy : null)
+    };
+  }
+
+  async upsertPolicy(tenantId: string, requirementId: string | null, dto: MatchFilterPolicyDto) {
+    if (requirementId) {
+      const requirement = await this.prisma.requirement.findFirst({ where: { tenantId, id: requirementId } });
+      if (!requirement) {
+        throw new NotFoundException(`Requirement ${requirementId} not found`);
+      }
+    }
+
+    const data = {
+      mustHaveSkills: dto.mustHaveSkills
+        ? (dto.mustHaveSkills as unknown as Prisma.InputJsonValue)
+        : undefined,
+      maxRate: dto.maxRate === undefined ? undefined : dto.maxRate,
+      allowedLocations: dto.allowedLocations,
+      remoteOnly: dto.remoteOnly,
+      excludedAvailability: dto.excludedAvailability,
+      workAuthorizationTags: dto.workAuthorizationTags,
+      minSkillOverlap: dto.minSkillOverlap,
+      minLocationMatch: dto.minLocationMatch,
+      minRateAlignment: dto.minRateAlignment,
+      updatedBy: this.context.getUser()?.sub ?? null
+    };
+
+    const existing = await this.prisma.matchFilterPolicy.findFirst({ where: { tenantId, requirementId } });
+    if (existing) {
+      return this.prisma.matchFilterPolicy.update({ where: { id: existing.id }, data });
+    }
+
+    return this.prisma.matchFilterPolicy.create({
+      data: { ...data, tenantId, requirementId }
+    });
+  }
+
+  async deletePolicy(tenantId: string, requirementId: string | null) {
+    const existing = await this.prisma.matchFilterPolicy.findFirst({ where: { tenantId, requirementId } });
+    if (!existing) {
+      throw new NotFoundException(
+        requirementId ? `Filter policy for requirement ${requirementId} not found` : "Tenant filter policy not found"
+      );
+    }
+
+    await this.prisma.matchFilterPolicy.delete({ where: { id: existing.id } });
+    return { status: "ok" };
+  }
+
+  async resolveForRequirements(tenantId: string, requirementIds: string[]): Promise<Map<string, ResolvedHardFilters>> {
+    const policies = await this.prisma.matchFilterPolicy.findMany({
+      where: {
+        tenantId,
+        OR: [{ requirementId: null }, { requirementId: { in: requirementIds } }]
+      }
+    });
+
+    const tenantPolicy = policies.find((policy) => policy.requirementId === null) ?? null;
+    const byRequirement = new Map(
+      policies.filter((policy) => policy.requirementId !== null).map((policy) => [policy.requirementId as string, policy])
+    );
+
+    return new Map(
+      requirementIds.map((requirementId) => [
+        requirementId,
+        this.mergePolicies(tenantPolicy, byRequirement.get(requirementId) ?? null)
+      ])
+    );
+  }
+
+  evaluate(
+    candidate: CandidateFeatureBaseline,
+    requirement: RequirementWithSkills,
+    filters: ResolvedHardFilters
+  ): HardFilterViolation[] {
+    const violations: HardFilterViolation[] = [];
+    const { consultant, features } = candidate;
+
+    if (filters.excludedAvailability.includes(consultant.availability)) {
+      violations.push({ rule: "AVAILABILITY_EXCLUDED", detail: `Consultant is ${consultant.availability}` });
+    }
+
+    const consultantSkills = new Map(consultant.skills.map((skill) => [skill.skillId, skill.weight]));
+    const requirementSkillNames = new Map(requirement.skills.map((skill) => [skill.skillId, skill.skill?.name]));
+    for (const mustHave of filters.mustHaveSkills) {
+      const weight = consultantSkills.get(mustHave.skillId);
+      const name = requirementSkillNames.get(mustHave.skillId) ?? mustHave.skillId;
+      if (weight === undefined) {
+        violations.push({ rule: "MUST_HAVE_SKILL", detail: `Missing must-have skill ${name}` });
+      } else if (mustHave.minWeight !== undefined && weight < mustHave.minWeight) {
+        violations.push({
+          rule: "MUST_HAVE_SKILL",
+          detail: `${name} weight ${weight} is below the required ${mustHave.minWeight}`
+        });
+      }
+    }
+
+    if (filters.maxRate !== null && consultant.rate && Number(consultant.rate) > filters.maxRate) {
+      violations.push({
+        rule: "MAX_RATE",
+        detail: `Rate ${Number(consultant.rate)} exceeds the maximum ${filters.maxRate}`
+      });
+    }
+
+    const location = consultant.location?.toLowerCase().trim() ?? "";
+    if (filters.allowedLocations.length > 0) {
+      const allowed = filters.allowedLocations.some((entry) => {
+        const normalized = entry.toLowerCase().trim();
+        return normalized.length > 0 && location.includes(normalized);
+      });
+      if (!allowed) {
+        violations.push({
+          rule: "LOCATION_NOT_ALLOWED",
+          detail: `Location ${consultant.location ?? "unknown"} is not in ${filters.allowedLocations.join(", ")}`
+        });
+      }
+    }
+
+    if (filters.remoteOnly && !this.isRemote(consultant.location, consultant.preferences)) {
+      violations.push({ rule: "REMOTE_ONLY", detail: "Consultant is not available for remote work" });
+    }
+
+    if (filters.workAuthorizationTags.length > 0) {
+      const tags = new Set(consultant.tags.map((tag) => tag.value.toLowerCase()));
+      const authorized = filters.workAuthorizationTags.some((tag) => tags.has(tag.toLowerCase()));
+      if (!authorized) {
+        violations.push({
+          rule: "WORK_AUTHORIZATION",
+          detail: `Requires one of ${filters.workAuthorizationTags.join(", ")}`
+        });
+      }
+    }
+
+    if (requirement.skills.length > 0 && features.skillOverlap < filters.minSkillOverlap) {
+      violations.push({
+        rule: "MIN_SKILL_OVERLAP",
+        detail: `Skill overlap ${features.skillOverlap.toFixed(2)} is below ${filters.minSkillOverlap}`
+      });
+    }
+
+    if (requirement.location && features.locationMatch < filters.minLocationMatch) {
+      violations.push({
+        rule: "MIN_LOCATION_MATCH",
+        detail: `Location match ${features.locationMatch.toFixed(2)} is below ${filters.minLocationMatch}`
+      });
+    }
+
+    if (features.rateAlignment < filters.minRateAlignment) {
+      violations.push({
+        rule: "MIN_RATE_ALIGNMENT",
+        detail: `Rate alignment ${features.rateAlignment.toFixed(2)} is below ${filters.minRateAlignment}`
+      });
+    }
+
+    return violations;
+  }
+
+  // Requirement overrides win field by field; empty lists and nulls inherit from the level above.
+  private mergePolicies(
+    tenantPolicy: MatchFilterPolicy | null,
+    requirementPolicy: MatchFilterPolicy | null
+  ): ResolvedHardFilters {
+    return [tenantPolicy, requirementPolicy].reduce<ResolvedHardFilters>((resolved, policy) => {
+      if (!policy) {
+        return resolved;
+      }
+
+      const mustHaveSkills = this.parseMustHaveSkills(policy.mustHaveSkills);
+      return {
+        source: policy.requirementId ? "requirement" : "tenant",
+        mustHaveSkills: mustHaveSkills.length > 0 ? mustHaveSkills : resolved.mustHaveSkills,
+        maxRate: policy.maxRate !== null ? Number(policy.maxRate) : resolved.maxRate,
+        allowedLocations: policy.allowedLocations.length > 0 ? policy.allowedLocations : resolved.allowedLocations,
+        remoteOnly: policy.remoteOnly ?? resolved.remoteOnly,
+        excludedAvailability:
+          policy.excludedAvailability.length > 0 ? policy.excludedAvailability : resolved.excludedAvailability,
+        workAuthorizationTags:
+          policy.workAuthorizationTags.length > 0 ? policy.workAuthorizationTags : resolved.workAuthorizationTags,
+        minSkillOverlap: policy.minSkillOverlap ?? resolved.minSkillOverlap,
+        minLocationMatch: policy.minLocationMatch ?? resolved.minLocationMatch,
+        minRateAlignment: policy.minRateAlignment ?? resolved.minRateAlignment
+      };
+    }, DEFAULT_HARD_FILTERS);
+  }
+
+  private parseMustHaveSkills(value: Prisma.JsonValue | null): MustHaveSkill[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.flatMap((entry) => {
+      if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+        return [];
+      }
+      const { skillId, minWeight } = entry as Record<string, unknown>;
+      if (typeof skillId !== "string") {
+        return [];
+      }
+      return [{ skillId, minWeight: typeof minWeight === "number" ? minWeight : undefined }];
+    });
+  }
+
+  private isRemote(location: string | null, preferences: Prisma.JsonValue | null): boolean {
+    if (location?.toLowerCase().includes("remote")) {
+      return true;
+    }
+    if (preferences && typeof preferences === "object" && !Array.isArray(preferences)) {
+      return (preferences as Record<string, unknown>).remote === true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,65 @@
+import { MatchRescoreTrigger } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { MatchRescoreService } from "./match-rescore.service";
+import { isMaterialRankDrop } from "./matching.domain";
+import type { MatchingService } from "./matching.service";
+
+describe("isMaterialRankDrop", () => {
+  it("flags drops of several positions and falls out of the shortlist", () => {
+    expect(isMaterialRankDrop(2, 5)).toBe(true);
+    expect(isMaterialRankDrop(5, 6)).toBe(true);
+    expect(isMaterialRankDrop(1, 2)).toBe(false);
+    expect(isMaterialRankDrop(8, 9)).toBe(false);
+  });
+
+  it("treats exclusion by hard filters as a drop", () => {
+    expect(isMaterialRankDrop(3, null)).toBe(true);
+  });
+});
+
+describe("MatchRescoreService", () => {
+  const prismaMock = { match: { findMany: vi.fn() } };
+  const matchingMock = { rescoreRequirement: vi.fn() };
+
+  const service = new MatchRescoreService(
+    prismaMock as unknown as PrismaService,
+    matchingMock as unknown as MatchingService
+  );
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("re-scores every requirement a changed consultant is matched to", async () => {
+    prismaMock.match.findMany.mockResolvedValue([{ requirementId: "req-1" }, { requirementId: "req-2" }]);
+    matchingMock.rescoreRequirement
+      .mockResolvedValueOnce([{ matchId: "m-1", rankDropped: true }])
+      .mockRejectedValueOnce(new Error("boom"));
+
+    const summary = await service.process({
+      tenantId: "tenant-1",
+      trigger: "CONSULTANT_UPDATED",
+      consultantId: "consultant-1"
+    });
+
+    expect(matchingMock.rescoreRequirement).toHaveBeenCalledWith(
+      "tenant-1",
+      "req-1",
+      MatchRescoreTrigger.CONSULTANT_UPDATED
+    );
+    expect(summary.requirementCount).toBe(2);
+    expect(summary.droppedMatchIds).toEqual(["m-1"]);
+    expect(summary.failedRequirementIds).toEqual(["req-2"]);
+  });
+
+  it("re-scores only the changed requirement", async () => {
+    matchingMock.rescoreRequirement.mockResolvedValue([]);
+
+    await service.process({ tenantId: "tenant-1", trigger: "REQUIREMENT_UPDATED", requirementId: "req-9" });
+
+    expect(prismaMock.match.findMany).not.toHaveBeenCalled();
+    expect(matchingMock.rescoreRequirement).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { MatchRescoreTrigger } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { MatchRescoreJob } from "../ingestion/ingestion.types";
+import { MatchingService, MatchRescoreOutcome } from "./matching.service";
+
+export interface MatchRescoreSummary {
+  trigger: MatchRescoreTrigger;
+  requirementCount: number;
+  rescoredCount: number;
+  droppedMatchIds: string[];
+  failedRequirementIds: string[];
+}
+
+@Injectable()
+export class MatchRescoreService {
+  private readonly logger = new Logger(MatchRescoreService.name);
+
+  constructor(private readonly prisma: PrismaService, private readonly matchingService: MatchingService) {}
+
+  async process(job: MatchRescoreJob): Promise<MatchRescoreSummary> {
+    const trigger = job.trigger as MatchRescoreTrigger;
+    const requirementIds = await this.resolveRequirementIds(job);
+
+    const outcomes: MatchRescoreOutcome[] = [];
+    const failedRequirementIds: string[] = [];
+    for (const requirementId of requirementIds) {
+      try {
+        outcomes.push(...(await this.matchingService.rescoreRequirement(job.tenantId, requirementId, trigger)));
+      } catch (error) {
+        this.logger.warn(`Re-scoring failed for requirement ${requirementId}: ${(error as Error).message}`);
+        failedRequirementIds.push(requirementId);
+      }
+    }
+
+    const droppedMatchIds = outcomes.filter((outcome) => outcome.rankDropped).map((outcome) => outcome.matchId);
+    if (droppedMatchIds.length > 0) {
+      this.logger.log(`${trigger} re-scoring flagged ${droppedMatchIds.length} match(es) with a material rank drop`);
+    }
+
+    return {
+      trigger,
+      requirementCount: requirementIds.length,
+      rescoredCount: outcomes.length,
+      droppedMatchIds,
+      failedRequirementIds
+    };
+  }
+
+  private async resolveRequirementIds(job: MatchRescoreJob): Promise<string[]> {
+    if (job.requirementId) {
+      return [job.requirementId];
+    }
+    if (!job.consultantId) {
+      return [];
+    }
+
+    // A consultant change can move them within every shortlist they appear on, not just their own match rows.
+    const matches = await this.prisma.match.findMany({
+      where: { tenantId: job.tenantId, consultantId: job.consultantId },
+      select: { requirementId: true },
+      distinct: ["requirementId"]
+    });
+    return matches.map((match) => match.requirementId);
+  }
+}
@@ -0,0 +1,34 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { Job, Worker } from "bullmq";
+
+import { RequestContextService } from "../../infrastructure/context";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
+import { MatchRescoreJob } from "../ingestion/ingestion.types";
+import { MatchRescoreService } from "./match-rescore.service";
+
+@Injectable()
+export class MatchRescoreWorker implements OnModuleInit, OnModuleDestroy {
+  private worker: Worker<MatchRescoreJob> | null = null;
+
+  constructor(
+    private readonly queue: IngestionQueueService,
+    private readonly rescoreService: MatchRescoreService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async onModuleInit() {
+    this.worker = this.queue.createMatchRescoreWorker((job) => this.handle(job));
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    this.worker = null;
+  }
+
+  private handle(job: Job<MatchRescoreJob>) {
+    return this.context.run(() => {
+      this.context.setTenant(job.data.tenantId);
+      return this.rescoreService.process(job.data);
+    });
+  }
+}
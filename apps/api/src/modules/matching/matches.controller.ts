@@ -0,0 +1,33 @@
+import { Body, Controller, Get, Param, Patch, Query } from "@nestjs/common";
+import { UserRole } from "@prisma/client";
+
+import { Roles } from "../auth/decorators/roles.decorator";
+import { ListMatchesQueryDto, UpdateMatchStatusDto } from "./dto/list-matches.dto";
+import { MatchesService } from "./matches.service";
+
+@Controller("tenants/:tenantId/matches")
+export class MatchesController {
+  constructor(private readonly matches: MatchesService) {}
+
+  @Get()
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP, UserRole.VIEWER)
+  list(@Param("tenantId") tenantId: string, @Query() query: ListMatchesQueryDto) {
+    return this.matches.list(tenantId, query);
+  }
+
+  @Get(":matchId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP, UserRole.VIEWER)
+  get(@Param("tenantId") tenantId: string, @Param("matchId") matchId: string) {
+    return this.matches.get(tenantId, matchId);
+  }
+
+  @Patch(":matchId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP)
+  updateStatus(
+    @Param("tenantId") tenantId: string,
+    @Param("matchId") matchId: string,
+    @Body() dto: UpdateMatchStatusDto
+  ) {
+    return this.matches.updateStatus(tenantId, matchId, dto);
+  }
+}
@@ -0,0 +1,87 @@
+import { MatchStatus } from "@prisma/client";
+import { BadRequestException } from "@nestjs/common";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { RequestContextService } from "../../infrastructure/context";
+import type { AuditService } from "../audit/audit.service";
+import { MatchesService, decodeMatchCursor, encodeMatchCursor } from "./matches.service";
+
+describe("MatchesService", () => {
+  const prismaMock = {
+    match: { findMany: vi.fn(), findFirst: vi.fn(), update: vi.fn() }
+  };
+  const contextMock = { getUser: vi.fn() };
+  const auditMock = { record: vi.fn() };
+
+  const service = new MatchesService(
+    prismaMock as unknown as PrismaService,
+    contextMock as unknown as RequestContextService,
+    auditMock as unknown as AuditService
+  );
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("round-trips cursors and rejects garbage", () => {
+    const cursor = encodeMatchCursor({ value: 0.82, id: "match-1" });
+    expect(decodeMatchCursor(cursor)).toEqual({ value: 0.82, id: "match-1" });
+    expect(() => decodeMatchCursor("not-a-cursor")).toThrow(BadRequestException);
+  });
+
+  it("returns a next cursor when more rows exist and applies keyset filters", async () => {
+    const createdAt = new Date("2026-10-01T00:00:00.000Z");
+    prismaMock.match.findMany.mockResolvedValue([
+      { id: "m-3", score: 0.9, createdAt, updatedAt: createdAt },
+      { id: "m-2", score: 0.8, createdAt, updatedAt: createdAt },
+      { id: "m-1", score: 0.7, createdAt, updatedAt: createdAt }
+    ]);
+
+    const page = await service.list("tenant-1", {
+      status: [MatchStatus.REVIEW],
+      sortBy: "score",
+      limit: 2,
+      cursor: encodeMatchCursor({ value: 0.95, id: "m-4" })
+    });
+
+    expect(page.items).toHaveLength(2);
+    expect(decodeMatchCursor(page.nextCursor!)).toEqual({ value: 0.8, id: "m-2" });
+
+    const args = prismaMock.match.findMany.mock.calls[0][0];
+    expect(args.take).toBe(3);
+    expect(args.orderBy).toEqual([{ score: "desc" }, { id: "desc" }]);
+    expect(args.where.AND).toContainEqual({
+      OR: [{ score: { lt: 0.95 } }, { score: 0.95, id: { lt: "m-4" } }]
+    });
+  });
+
+  it("rejects status moves outside the review flow", async () => {
+    prismaMock.match.findFirst.mockResolvedValue({ id: "m-1", status: MatchStatus.SUBMITTED });
+
+    await expect(
+      service.updateStatus("tenant-1", "m-1", { status: MatchStatus.SHORTLISTED })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prismaMock.match.update).not.toHaveBeenCalled();
+    expect(auditMock.record).not.toHaveBeenCalled();
+  });
+
+  it("shortlists a match under review and records the move", async () => {
+    prismaMock.match.findFirst.mockResolvedValue({ id: "m-1", status: MatchStatus.REVIEW });
+    prismaMock.match.update.mockResolvedValue({ id: "m-1", status: MatchStatus.SHORTLISTED });
+    contextMock.getUser.mockReturnValue({ sub: "user-1", roles: ["REP"] });
+
+    const updated = await service.updateStatus("tenant-1", "m-1", { status: MatchStatus.SHORTLISTED });
+
+    expect(updated.status).toBe(MatchStatus.SHORTLISTED);
+    expect(auditMock.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: "tenant-1",
+        action: "Match status: REVIEW -> SHORTLISTED",
+        entityId: "m-1",
+        userId: "user-1",
+        actorRole: "REP"
+      })
+    );
+  });
+});
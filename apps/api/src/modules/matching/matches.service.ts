@@ -0,0 +1,179 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { MatchStatus, Prisma } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { RequestContextService } from "../../infrastructure/context";
+import { AuditService } from "../audit/audit.service";
+import { ListMatchesQueryDto, MatchSortField, UpdateMatchStatusDto } from "./dto/list-matches.dto";
+
+const DEFAULT_PAGE_SIZE = 25;
+const SNAPSHOT_HISTORY_LIMIT = 50;
+
+// SUBMITTED and HIRED follow the submission workflow and cannot be set by hand.
+const MATCH_STATUS_TRANSITIONS: Partial<Record<MatchStatus, MatchStatus[]>> = {
+  [MatchStatus.REVIEW]: [MatchStatus.SHORTLISTED, MatchStatus.REJECTED],
+  [MatchStatus.SHORTLISTED]: [MatchStatus.REJECTED, MatchStatus.REVIEW],
+  [MatchStatus.REJECTED]: [MatchStatus.REVIEW]
+};
+
+type MatchCursor = { value: string | number; id: string };
+
+export function encodeMatchCursor(cursor: MatchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+export function decodeMatchCursor(raw: string): MatchCursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as [string | number, string];
+    if ((typeof value !== "string" && typeof value !== "number") || typeof id !== "string") {
+      throw new Error("malformed");
+    }
+    return { value, id };
+  } catch {
+    throw new BadRequestException("Invalid cursor");
+  }
+}
+
+@Injectable()
+export class MatchesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly context: RequestContextService,
+    private readonly audit: AuditService
+  ) {}
+
+  async list(tenantId: string, query: ListMatchesQueryDto) {
+    const sortBy: MatchSortField = query.sortBy ?? "createdAt";
+    const sortOrder = query.sortOrder ?? "desc";
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    const filters: Prisma.MatchWhereInput[] = [{ tenantId }];
+    if (query.requirementId) {
+      filters.push({ requirementId: query.requirementId });
+    }
+    if (query.consultantId) {
+      filters.push({ consultantId: query.consultantId });
+    }
+    if (query.status?.length) {
+      filters.push({ status: { in: query.status } });
+    }
+    if (query.minScore !== undefined || query.maxScore !== undefined) {
+      filters.push({ score: { gte: query.minScore, lte: query.maxScore } });
+    }
+    if (query.createdFrom || query.createdTo) {
+      filters.push({
+        createdAt: {
+          gte: query.createdFrom ? new Date(query.createdFrom) : undefined,
+          lte: query.createdTo ? new Date(query.createdTo) : undefined
+        }
+      });
+    }
+    if (query.rankDropped !== undefined) {
+      filters.push({ rankDroppedAt: query.rankDropped ? { not: null } : null });
+    }
+    if (query.cursor) {
+      filters.push(this.cursorFilter(sortBy, sortOrder, decodeMatchCursor(query.cursor)));
+    }
+
+    const rows = await this.prisma.match.findMany({
+      where: { AND: filters },
+      orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }],
+      take: limit + 1,
+      select: {
+        id: true,
+        requirementId: true,
+        consultantId: true,
+        score: true,
+        status: true,
+        feedback: true,
+        experimentId: true,
+        variant: true,
+        rankDroppedAt: true,
+        createdAt: true,
+        updatedAt: true,
+        consultant: { select: { firstName: true, lastName: true, availability: true } },
+        requirement: { select: { title: true, clientName: true, status: true } }
+      }
+    });
+
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    const nextCursor =
+      rows.length > limit && last
+        ? encodeMatchCursor({
+            value: sortBy === "score" ? last.score : last[sortBy].toISOString(),
+            id: last.id
+          })
+        : null;
+
+    return { items, nextCursor };
+  }
+
+  async get(tenantId: string, matchId: string) {
+    const match = await this.prisma.match.findFirst({
+      where: { id: matchId, tenantId },
+      include: {
+        consultant: {
+          select: { id: true, firstName: true, lastName: true, availability: true, location: true, rate: true }
+        },
+        requirement: {
+          select: { id: true, title: true, clientName: true, status: true, location: true, minRate: true, maxRate: true }
+        },
+        featureSnapshots: { orderBy: { createdAt: "desc" }, take: SNAPSHOT_HISTORY_LIMIT },
+        feedbackRecords: { orderBy: { createdAt: "desc" } },
+        scoreHistory: { orderBy: { createdAt: "desc" }, take: SNAPSHOT_HISTORY_LIMIT },
+        submission: { select: { id: true, status: true } }
+      }
+    });
+
+    if (!match) {
+      throw new NotFoundException(`Match ${matchId} not found`);
+    }
+    return match;
+  }
+
+  async updateStatus(tenantId: string, matchId: string, dto: UpdateMatchStatusDto) {
+    const match = await this.prisma.match.findFirst({ where: { id: matchId, tenantId } });
+    if (!match) {
+      throw new NotFoundException(`Match ${matchId} not found`);
+    }
+    if (match.status === dto.status) {
+      return match;
+    }
+
+    const allowed = MATCH_STATUS_TRANSITIONS[match.status] ?? [];
+    if (!allowed.includes(dto.status)) {
+      throw new BadRequestException(`Invalid match status transition ${match.status} -> ${dto.status}`);
+    }
+
+    const user = this.context.getUser();
+    const updated = await this.prisma.match.update({ where: { id: matchId }, data: { status: dto.status } });
+    await this.audit.record({
+      tenantId,
+      userId: user?.sub,
+      actorRole: user?.roles?.[0],
+      action: `Match status: ${match.status} -> ${dto.status}`,
+      entityType: "Match",
+      entityId: matchId,
+      payload: dto.reason ? { reason: dto.reason } : undefined,
+      resultCode: "SUCCESS"
+    });
+
+    return updated;
+  }
+
+  private cursorFilter(sortBy: MatchSortField, sortOrder: "asc" | "desc", cursor: MatchCursor): Prisma.MatchWhereInput {
+    const value = sortBy === "score" ? Number(cursor.value) : new Date(String(cursor.value));
+    if (typeof value === "number" ? Number.isNaN(value) : Number.isNaN(value.getTime())) {
+      throw new BadRequestException("Invalid cursor");
+    }
+
+    const comparator = sortOrder === "desc" ? "lt" : "gt";
+    return {
+      OR: [
+        { [sortBy]: { [comparator]: value } },
+        { [sortBy]: value, id: { [comparator]: cursor.id } }
+      ]
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { MatchBatchStatus } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { RequestContextService } from "../../infrastructure/context";
+import type { IngestionQueueService } from "../ingestion/ingestion.queue";
+import { MatchingBatchService } from "./matching-batch.service";
+import type { MatchingService } from "./matching.service";
+
+describe("MatchingBatchService", () => {
+  const prismaMock = {
+    requirement: {
+      count: vi.fn(),
+      findMany: vi.fn()
+    },
+    matchBatchRun: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn()
+    }
+  };
+  const queueMock = { enqueueMatchingBatch: vi.fn() };
+  const matchingMock = { matchRequirement: vi.fn() };
+  const contextMock = { getUser: vi.fn() };
+
+  const service = new MatchingBatchService(
+    prismaMock as unknown as PrismaService,
+    queueMock as unknown as IngestionQueueService,
+    matchingMock as unknown as MatchingService,
+    contextMock as unknown as RequestContextService
+  );
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    prismaMock.matchBatchRun.update.mockImplementation(async ({ data }) => ({ id: "run-1", ...data }));
+  });
+
+  it("creates a run and enqueues it with the run id as job id", async () => {
+    prismaMock.requirement.count.mockResolvedValue(3);
+    prismaMock.matchBatchRun.create.mockResolvedValue({ id: "run-1", status: MatchBatchStatus.PENDING });
+    contextMock.getUser.mockReturnValue({ sub: "user-1" });
+
+    const run = await service.startBatch("tenant-1", 10);
+
+    expect(prismaMock.matchBatchRun.create).toHaveBeenCalledWith({
+      data: { tenantId: "tenant-1", topN: 10, requirementCount: 3, requestedBy: "user-1" }
+    });
+    expect(queueMock.enqueueMatchingBatch).toHaveBeenCalledWith(
+      { tenantId: "tenant-1", runId: "run-1" },
+      { jobId: "run-1" }
+    );
+    expect(run.status).toBe(MatchBatchStatus.PENDING);
+  });
+
+  it("records per-requirement outcomes and keeps going after a failure", async () => {
+    prismaMock.matchBatchRun.findFirst.mockResolvedValue({ id: "run-1", status: MatchBatchStatus.PENDING, topN: 5 });
+    prismaMock.requirement.findMany.mockResolvedValue([
+      { id: "req-1", title: "Java Developer" },
+      { id: "req-2", title: "Data Engineer" }
+    ]);
+    matchingMock.matchRequirement
+      .mockResolvedValueOnce({ results: [{ score: 0.91 }, { score: 0.72 }], excluded: [{ consultantId: "c-9" }] })
+      .mockRejectedValueOnce(new Error("search unavailable"));
+
+    const result = await service.processRun({ tenantId: "tenant-1", runId: "run-1" });
+
+    expect(matchingMock.matchRequirement).toHaveBeenCalledTimes(2);
+    expect(result?.status).toBe(MatchBatchStatus.COMPLETED);
+
+    const progressUpdate = prismaMock.matchBatchRun.update.mock.calls[2][0];
+    expect(progressUpdate.data.processedCount).toBe(1);
+    expect(progressUpdate.data.failedCount).toBe(1);
+    expect(progressUpdate.data.outcomes).toEqual([
+      expect.objectContaining({ requirementId: "req-1", status: "COMPLETED", matchCount: 2, excludedCount: 1, topScore: 0.91 }),
+      expect.objectContaining({ requirementId: "req-2", status: "FAILED", error: "search unavailable" })
+    ]);
+  });
+
+  it("skips runs that already finished", async () => {
+    prismaMock.matchBatchRun.findFirst.mockResolvedValue({ id: "run-1", status: MatchBatchStatus.COMPLETED });
+
+    await service.processRun({ tenantId: "tenant-1", runId: "run-1" });
+
+    expect(prismaMock.requirement.findMany).not.toHaveBeenCalled();
+    expect(matchingMock.matchRequirement).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { MatchBatchStatus, Prisma, RequirementStatus } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { RequestContextService } from "../../infrastructure/context";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
+import { MatchingBatchJob } from "../ingestion/ingestion.types";
+import { MatchingService } from "./matching.service";
+
+const BATCH_REQUIREMENT_STATUSES: RequirementStatus[] = [RequirementStatus.OPEN, RequirementStatus.IN_PROGRESS];
+
+const DEFAULT_BATCH_TOP_N = 5;
+
+export interface MatchBatchOutcome {
+  requirementId: string;
+  title: string;
+  status: "COMPLETED" | "FAILED";
+  matchCount: number;
+  excludedCount: number;
+  topScore: number | null;
+  durationMs: number;
+  error?: string;
+}
+
+@Injectable()
+export class MatchingBatchService {
+  private readonly logger = new Logger(MatchingBatchService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queue: IngestionQueueService,
+    private readonly matchingService: MatchingService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async startBatch(tenantId: string, topN = DEFAULT_BATCH_TOP_N) {
+    const requirementCount = await this.prisma.requirement.count({
+      where: { tenantId, status: { in: BATCH_REQUIREMENT_STATUSES } }
+    });
+
+    const run = await this.prisma.matchBatchRun.create({
+      data: {
+        tenantId,
+        topN,
+        requirementCount,
+        requestedBy: this.context.getUser()?.sub ?? null
+      }
+    });
+
+    try {
+      await this.queue.enqueueMatchingBatch({ tenantId, runId: run.id }, { jobId: run.id });
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`Failed to enqueue match batch ${run.id}: ${message}`);
+      return this.prisma.matchBatchRun.update({
+        where: { id: run.id },
+        data: { status: MatchBatchStatus.FAILED, error: message, completedAt: new Date() }
+      });
+    }
+
+    return run;
+  }
+
+  async getRun(tenantId: string, runId: string) {
+    const run = await this.prisma.matchBatchRun.findFirst({ where: { id: runId, tenantId } });
+    if (!run) {
+      throw new NotFoundException(`Match batch ${runId} not found`);
+    }
+
+    return {
+      ...run,
+      progress: run.requirementCount > 0 ? (run.processedCount + run.failedCount) / run.requirementCount : 1
+    };
+  }
+
+  listRuns(tenantId: string, limit = 20) {
+    return this.prisma.matchBatchRun.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      select: {
+        id: true,
+        status: true,
+        topN: true,
+        requirementCount: true,
+        processedCount: true,
+        failedCount: true,
+        requestedBy: true,
+        startedAt: true,
+        completedAt: true,
+        createdAt: true
+      }
+    });
+  }
+
+  async processRun(job: MatchingBatchJob) {
+    const { tenantId, runId } = job;
+    const run = await this.prisma.matchBatchRun.findFirst({ where: { id: runId, tenantId } });
+    if (!run) {
+      this.logger.warn(`Match batch ${runId} not found for tenant ${tenantId}`);
+      return null;
+    }
+
+    if (run.status === MatchBatchStatus.COMPLETED || run.status === MatchBatchStatus.FAILED) {
+      return run;
+    }
+
+    try {
+      const requirements = await this.prisma.requirement.findMany({
+        where: { tenantId, status: { in: BATCH_REQUIREMENT_STATUSES } },
+        select: { id: true, title: true },
+        orderBy: { createdAt: "asc" }
+      });
+
+      await this.prisma.matchBatchRun.update({
+        where: { id: runId },
+        data: {
+          status: MatchBatchStatus.RUNNING,
+          startedAt: new Date(),
+          requirementCount: requirements.length,
+          processedCount: 0,
+          failedCount: 0,
+          outcomes: [],
+          error: null
+        }
+      });
+
+      const outcomes: MatchBatchOutcome[] = [];
+      let processedCount = 0;
+      let failedCount = 0;
+
+      for (const requirement of requirements) {
+        const outcome = await this.matchOne(tenantId, requirement, run.topN);
+        outcomes.push(outcome);
+        if (outcome.status === "COMPLETED") {
+          processedCount += 1;
+        } else {
+          failedCount += 1;
+        }
+
+        await this.prisma.matchBatchRun.update({
+          where: { id: runId },
+          data: {
+            processedCount,
+            failedCount,
+            outcomes: outcomes as unknown as Prisma.InputJsonValue
+          }
+        });
+      }
+
+      return await this.prisma.matchBatchRun.update({
+        where: { id: runId },
+        data: { status: MatchBatchStatus.COMPLETED, completedAt: new Date() }
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`Match batch ${runId} failed: ${message}`);
+      return this.prisma.matchBatchRun.update({
+        where: { id: runId },
+        data: { status: MatchBatchStatus.FAILED, error: message, completedAt: new Date() }
+      });
+    }
+  }
+
+  private async matchOne(
+    tenantId: string,
+    requirement: { id: string; title: string },
+    topN: number
+  ): Promise<MatchBatchOutcome> {
+    const startedAt = Date.now();
+    try {
+      const { results, excluded } = await this.matchingService.matchRequirement(tenantId, requirement.id, topN);
+      return {
+        requirementId: requirement.id,
+        title: requirement.title,
+        status: "COMPLETED",
+        matchCount: results.length,
+        excludedCount: excluded.length,
+        topScore: results[0]?.score ?? null,
+        durationMs: Date.now() - startedAt
+      };
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.warn(`Batch matching failed for requirement ${requirement.id}: ${message}`);
+      return {
+        requirementId: requirement.id,
+        title: requirement.title,
+        status: "FAILED",
+        matchCount: 0,
+        excludedCount: 0,
+        topScore: null,
+        durationMs: Date.now() - startedAt,
+        error: message
+      };
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { Job, Worker } from "bullmq";
+
+import { RequestContextService } from "../../infrastructure/context";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
+import { MatchingBatchJob } from "../ingestion/ingestion.types";
+import { MatchingBatchService } from "./matching-batch.service";
+
+@Injectable()
+export class MatchingBatchWorker implements OnModuleInit, OnModuleDestroy {
+  private worker: Worker<MatchingBatchJob> | null = null;
+
+  constructor(
+    private readonly queue: IngestionQueueService,
+    private readonly batchService: MatchingBatchService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async onModuleInit() {
+    this.worker = this.queue.createMatchingBatchWorker((job) => this.handle(job));
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    this.worker = null;
+  }
+
+  private handle(job: Job<MatchingBatchJob>) {
+    // Jobs run outside any HTTP request, so scope Prisma's tenant middleware to the job's tenant.
+    return this.context.run(() => {
+      this.context.setTenant(job.data.tenantId);
+      return this.batchService.processRun(job.data);
+    });
+  }
+}
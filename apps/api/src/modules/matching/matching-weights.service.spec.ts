@@ -0,0 +1,89 @@
+import { BadRequestException } from "@nestjs/common";
+import type { ConfigService } from "@nestjs/config";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { RequestContextService } from "../../infrastructure/context";
+import { MatchingWeightsService } from "./matching-weights.service";
+import { FEATURE_WEIGHTS } from "./matching.domain";
+
+describe("MatchingWeightsService", () => {
+  const prismaMock = {
+    matchWeightSet: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn()
+    }
+  };
+  const configMock = { get: vi.fn() };
+  const contextMock = { getUser: vi.fn() };
+
+  const service = new MatchingWeightsService(
+    prismaMock as unknown as PrismaService,
+    configMock as unknown as ConfigService,
+    contextMock as unknown as RequestContextService
+  );
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("falls back to global weights and config when the tenant has no weight set", async () => {
+    prismaMock.matchWeightSet.findFirst.mockResolvedValue(null);
+    configMock.get.mockReturnValue({ matchBaseWeight: 0.1 });
+
+    const scoring = await service.resolve("tenant-1");
+
+    expect(scoring).toEqual({
+      weightSetVersion: "default",
+      featureWeights: FEATURE_WEIGHTS,
+      matchBaseWeight: 0.1,
+      enableLlmRerank: false,
+      llmRerankWeight: 0.15
+    });
+  });
+
+  it("rejects weights that do not sum to 1", () => {
+    expect(() => service.validateFeatureWeights({ ...FEATURE_WEIGHTS, skillOverlap: 0.5 })).toThrow(
+      BadRequestException
+    );
+  });
+
+  it("rejects unknown or missing features", () => {
+    const { recencyScore: _omitted, ...partial } = FEATURE_WEIGHTS;
+    expect(() => service.validateFeatureWeights(partial)).toThrow(/Missing feature weights: recencyScore/);
+    expect(() =>
+      service.validateFeatureWeights({ ...FEATURE_WEIGHTS, seniority: 0 } as unknown as typeof FEATURE_WEIGHTS)
+    ).toThrow(/Unknown feature weights: seniority/);
+  });
+
+  it("stores updates as the next version and inherits unset scalars", async () => {
+    prismaMock.matchWeightSet.findFirst
+      .mockResolvedValueOnce({
+        version: 2,
+        featureWeights: FEATURE_WEIGHTS,
+        matchBaseWeight: 0.25,
+        llmRerankWeight: 0.2,
+        enableLlmRerank: true
+      })
+      .mockResolvedValueOnce({ version: 2 });
+    prismaMock.matchWeightSet.create.mockImplementation(async ({ data }) => data);
+    contextMock.getUser.mockReturnValue({ sub: "admin-1" });
+
+    const featureWeights = { ...FEATURE_WEIGHTS, skillOverlap: 0.25, rateAlignment: 0.17 };
+    const result = await service.updateWeights("tenant-1", { featureWeights });
+
+    expect(prismaMock.matchWeightSet.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        tenantId: "tenant-1",
+        version: 3,
+        matchBaseWeight: 0.25,
+        llmRerankWeight: 0.2,
+        enableLlmRerank: true,
+        createdBy: "admin-1"
+      })
+    });
+    expect(result.weightSetVersion).toBe("w3");
+    expect(result.featureWeights.rateAlignment).toBe(0.17);
+  });
+});
@@ -0,0 +1,127 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { MatchWeightSet, Prisma } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { RequestContextService } from "../../infrastructure/context";
+import { UpdateMatchWeightsDto } from "./dto/match-weights.dto";
+import {
+  AiConfig,
+  DEFAULT_AI_CONFIG,
+  DEFAULT_WEIGHT_SET_VERSION,
+  FEATURE_WEIGHTS,
+  FeatureKey,
+  FeatureVector,
+  ScoringConfig
+} from "./matching.domain";
+
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+@Injectable()
+export class MatchingWeightsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async resolve(tenantId: string): Promise<ScoringConfig> {
+    const current = await this.prisma.matchWeightSet.findFirst({
+      where: { tenantId },
+      orderBy: { version: "desc" }
+    });
+    return current ? this.toScoringConfig(current) : this.defaultScoringConfig();
+  }
+
+  async resolveVersion(tenantId: string, version: number): Promise<ScoringConfig | null> {
+    const set = await this.prisma.matchWeightSet.findFirst({ where: { tenantId, version } });
+    return set ? this.toScoringConfig(set) : null;
+  }
+
+  async getWeights(tenantId: string) {
+    const current = await this.resolve(tenantId);
+    return { ...current, isDefault: current.weightSetVersion === DEFAULT_WEIGHT_SET_VERSION };
+  }
+
+  async listVersions(tenantId: string) {
+    const sets = await this.prisma.matchWeightSet.findMany({
+      where: { tenantId },
+      orderBy: { version: "desc" },
+      take: 50
+    });
+    return sets.map((set) => ({
+      ...this.toScoringConfig(set),
+      note: set.note,
+      createdBy: set.createdBy,
+      createdAt: set.createdAt
+    }));
+  }
+
+  async updateWeights(tenantId: string, dto: UpdateMatchWeightsDto) {
+    const featureWeights = this.validateFeatureWeights(dto.featureWeights);
+    const current = await this.resolve(tenantId);
+
+    const latest = await this.prisma.matchWeightSet.findFirst({
+      where: { tenantId },
+      orderBy: { version: "desc" },
+      select: { version: true }
+    });
+
+    const created = await this.prisma.matchWeightSet.create({
+      data: {
+        tenantId,
+        version: (latest?.version ?? 0) + 1,
+        featureWeights: featureWeights as unknown as Prisma.InputJsonValue,
+        matchBaseWeight: dto.matchBaseWeight ?? current.matchBaseWeight,
+        llmRerankWeight: dto.llmRerankWeight ?? current.llmRerankWeight,
+        enableLlmRerank: dto.enableLlmRerank ?? current.enableLlmRerank,
+        note: dto.note ?? null,
+        createdBy: this.context.getUser()?.sub ?? null
+      }
+    });
+
+    return this.toScoringConfig(created);
+  }
+
+  validateFeatureWeights(input: Partial<Record<FeatureKey, number>>): FeatureVector {
+    const keys = Object.keys(FEATURE_WEIGHTS) as FeatureKey[];
+    const unknown = Object.keys(input).filter((key) => !keys.includes(key as FeatureKey));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown feature weights: ${unknown.join(", ")}`);
+    }
+
+    const missing = keys.filter((key) => typeof input[key] !== "number" || Number.isNaN(input[key]));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Missing feature weights: ${missing.join(", ")}`);
+    }
+
+    const weights = Object.fromEntries(keys.map((key) => [key, input[key] as number])) as FeatureVector;
+    const total = keys.reduce((acc, key) => acc + weights[key], 0);
+    if (Math.abs(total - 1) > WEIGHT_SUM_TOLERANCE) {
+      throw new BadRequestException(`Feature weights must sum to 1 (got ${Number(total.toFixed(4))})`);
+    }
+
+    return weights;
+  }
+
+  private toScoringConfig(set: MatchWeightSet): ScoringConfig {
+    return {
+      weightSetVersion: `w${set.version}`,
+      featureWeights: { ...FEATURE_WEIGHTS, ...(set.featureWeights as Partial<FeatureVector>) },
+      matchBaseWeight: set.matchBaseWeight,
+      llmRerankWeight: set.llmRerankWeight,
+      enableLlmRerank: set.enableLlmRerank
+    };
+  }
+
+  private defaultScoringConfig(): ScoringConfig {
+    const config = this.configService.get<AiConfig>("ai");
+    return {
+      weightSetVersion: DEFAULT_WEIGHT_SET_VERSION,
+      featureWeights: FEATURE_WEIGHTS,
+      matchBaseWeight: config?.matchBaseWeight ?? DEFAULT_AI_CONFIG.matchBaseWeight,
+      enableLlmRerank: config?.enableLlmRerank ?? DEFAULT_AI_CONFIG.enableLlmRerank,
+      llmRerankWeight: config?.llmRerankWeight ?? DEFAULT_AI_CONFIG.llmRerankWeight
+    };
+  }
+}
@@ -1,14 +1,33 @@
-﻿import { Body, Controller, Param, Post } from "@nestjs/common";
+﻿import { Body, Controller, Delete, Get, Param, ParseBoolPipe, ParseIntPipe, Post, Put, Query } from "@nestjs/common";
 import { UserRole } from "@prisma/client";
 
 import { Roles } from "../auth/decorators/roles.decorator";
+import { BatchMatchRequestDto, ListBatchRunsQueryDto } from "./dto/batch-match-request.dto";
 import { MatchRequestDto } from "./dto/match-request.dto";
 import { MatchFeedbackDto } from "./dto/match-feedback.dto";
+import { MatchFilterPolicyDto } from "./dto/match-filter-policy.dto";
+import { CreateMatchExperimentDto } from "./dto/match-experiment.dto";
+import { UpdateMatchWeightsDto } from "./dto/match-weights.dto";
+import { TrainRankingModelDto } from "./dto/train-ranking-model.dto";
+import { MatchFilterPolicyService } from "./match-filter-policy.service";
+import { MatchingBatchService } from "./matching-batch.service";
 import { MatchingService } from "./matching.service";
+import { MatchingWeightsService } from "./matching-weights.service";
+import { MatchFairnessService } from "./diversity/match-fairness.service";
+import { MatchingExperimentService } from "./experiments/matching-experiment.service";
+import { LtrTrainingService } from "./training/ltr-training.service";
 
 @Controller("tenants/:tenantId/matching")
 export class MatchingController {
-  constructor(private readonly matchingService: MatchingService) {}
+  constructor(
+    private readonly matchingService: MatchingService,
+    private readonly batchService: MatchingBatchService,
+    private readonly filterPolicies: MatchFilterPolicyService,
+    private readonly training: LtrTrainingService,
+    private readonly weights: MatchingWeightsService,
+    private readonly experiments: MatchingExperimentService,
+    private readonly fairness: MatchFairnessService
+  ) {}
 
   @Post("requirements/:requirementId")
   @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
@@ -17,7 +36,17 @@ export class MatchingController {
     @Param("requirementId") requirementId: string,
     @Body() dto: MatchRequestDto
   ) {
-    return this.matchingService.matchRequirement(tenantId, requirementId, dto.topN ?? 5);
+    return this.matchingService.matchRequirement(tenantId, requirementId, dto.topN ?? 5, dto.diversity);
+  }
+
+  @Post("consultants/:consultantId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP)
+  matchConsultant(
+    @Param("tenantId") tenantId: string,
+    @Param("consultantId") consultantId: string,
+    @Body() dto: MatchRequestDto
+  ) {
+    return this.matchingService.matchConsultant(tenantId, consultantId, dto.topN ?? 5);
   }
 
   @Post("matches/:matchId/feedback")
@@ -29,4 +58,168 @@ export class MatchingController {
   ) {
     return this.matchingService.submitFeedback(tenantId, matchId, dto);
   }
+
+  @Get("matches/:matchId/counterfactual")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP)
+  explainCounterfactual(
+    @Param("tenantId") tenantId: string,
+    @Param("matchId") matchId: string,
+    @Query("topN", new ParseIntPipe({ optional: true })) topN?: number
+  ) {
+    return this.matchingService.explainCounterfactual(tenantId, matchId, topN ?? 5);
+  }
+
+  @Get("matches/:matchId/score-history")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP, UserRole.VIEWER)
+  getScoreHistory(@Param("tenantId") tenantId: string, @Param("matchId") matchId: string) {
+    return this.matchingService.getScoreHistory(tenantId, matchId);
+  }
+
+  @Post("batch")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  startBatch(@Param("tenantId") tenantId: string, @Body() dto: BatchMatchRequestDto) {
+    return this.batchService.startBatch(tenantId, dto.topN ?? 5);
+  }
+
+  @Get("batch")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP, UserRole.VIEWER)
+  listBatches(
+    @Param("tenantId") tenantId: string,
+    @Query() query: ListBatchRunsQueryDto
+  ) {
+    return this.batchService.listRuns(tenantId, query.limit ?? 20);
+  }
+
+  @Get("batch/:runId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP, UserRole.VIEWER)
+  getBatch(@Param("tenantId") tenantId: string, @Param("runId") runId: string) {
+    return this.batchService.getRun(tenantId, runId);
+  }
+
+  @Get("filters")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  getTenantFilters(@Param("tenantId") tenantId: string) {
+    return this.filterPolicies.getPolicy(tenantId, null);
+  }
+
+  @Put("filters")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  updateTenantFilters(@Param("tenantId") tenantId: string, @Body() dto: MatchFilterPolicyDto) {
+    return this.filterPolicies.upsertPolicy(tenantId, null, dto);
+  }
+
+  @Delete("filters")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  resetTenantFilters(@Param("tenantId") tenantId: string) {
+    return this.filterPolicies.deletePolicy(tenantId, null);
+  }
+
+  @Get("filters/requirements/:requirementId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  getRequirementFilters(@Param("tenantId") tenantId: string, @Param("requirementId") requirementId: string) {
+    return this.filterPolicies.getPolicy(tenantId, requirementId);
+  }
+
+  @Put("filters/requirements/:requirementId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  updateRequirementFilters(
+    @Param("tenantId") tenantId: string,
+    @Param("requirementId") requirementId: string,
+    @Body() dto: MatchFilterPolicyDto
+  ) {
+    return this.filterPolicies.upsertPolicy(tenantId, requirementId, dto);
+  }
+
+  @Delete("filters/requirements/:requirementId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  resetRequirementFilters(@Param("tenantId") tenantId: string, @Param("requirementId") requirementId: string) {
+    return this.filterPolicies.deletePolicy(tenantId, requirementId);
+  }
+
+  @Post("models/train")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  trainModel(@Param("tenantId") tenantId: string, @Body() dto: TrainRankingModelDto) {
+    return this.training.train(tenantId, dto);
+  }
+
+  @Get("models")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  listModels(@Param("tenantId") tenantId: string) {
+    return this.training.listModels(tenantId);
+  }
+
+  @Post("models/:modelId/activate")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  activateModel(@Param("tenantId") tenantId: string, @Param("modelId") modelId: string) {
+    return this.training.activateModel(tenantId, modelId);
+  }
+
+  @Get("weights")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  getWeights(@Param("tenantId") tenantId: string) {
+    return this.weights.getWeights(tenantId);
+  }
+
+  @Get("weights/versions")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  listWeightVersions(@Param("tenantId") tenantId: string) {
+    return this.weights.listVersions(tenantId);
+  }
+
+  @Put("weights")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  updateWeights(@Param("tenantId") tenantId: string, @Body() dto: UpdateMatchWeightsDto) {
+    return this.weights.updateWeights(tenantId, dto);
+  }
+
+  @Post("experiments")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  createExperiment(@Param("tenantId") tenantId: string, @Body() dto: CreateMatchExperimentDto) {
+    return this.experiments.create(tenantId, dto);
+  }
+
+  @Get("experiments")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  listExperiments(@Param("tenantId") tenantId: string) {
+    return this.experiments.list(tenantId);
+  }
+
+  @Get("experiments/:experimentId")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  getExperiment(@Param("tenantId") tenantId: string, @Param("experimentId") experimentId: string) {
+    return this.experiments.get(tenantId, experimentId);
+  }
+
+  @Post("experiments/:experimentId/start")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  startExperiment(@Param("tenantId") tenantId: string, @Param("experimentId") experimentId: string) {
+    return this.experiments.start(tenantId, experimentId);
+  }
+
+  @Post("experiments/:experimentId/stop")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  stopExperiment(@Param("tenantId") tenantId: string, @Param("experimentId") experimentId: string) {
+    return this.experiments.stop(tenantId, experimentId);
+  }
+
+  @Get("fairness/audits")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  listFairnessAudits(
+    @Param("tenantId") tenantId: string,
+    @Query("requirementId") requirementId?: string,
+    @Query("flagged", new ParseBoolPipe({ optional: true })) flagged?: boolean,
+    @Query("limit", new ParseIntPipe({ optional: true })) limit?: number
+  ) {
+    return this.fairness.list(tenantId, { requirementId, flagged, limit });
+  }
+
+  @Get("fairness/summary")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
+  summarizeFairness(
+    @Param("tenantId") tenantId: string,
+    @Query("days", new ParseIntPipe({ optional: true })) days?: number
+  ) {
+    const since = new Date(Date.now() - (days ?? 30) * 24 * 60 * 60 * 1000);
+    return this.fairness.summarize(tenantId, { since });
+  }
 }
@@ -8,6 +8,11 @@ export type AiConfig = {
   llmRerankWeight?: number;
 };
 
+export type ScoringConfig = Required<AiConfig> & {
+  weightSetVersion: string;
+  featureWeights: FeatureVector;
+};
+
 export type FeatureVector = {
   skillOverlap: number;
   vectorScore: number;
@@ -16,6 +21,8 @@ export type FeatureVector = {
   locationMatch: number;
   rateAlignment: number;
   recencyScore: number;
+  domainExperience: number;
+  certificationMatch: number;
 };
 
 export type FeatureKey = keyof FeatureVector;
@@ -27,15 +34,14 @@ export type FeatureContribution = {
   contribution: number;
 };
 
-export type MatchConsultant = Prisma.ConsultantGetPayload<{
-  include: {
-    skills: {
-      include: {
-        skill: true;
-      };
-    };
-  };
-}>;
+export const MATCH_CONSULTANT_INCLUDE = {
+  skills: { include: { skill: true } },
+  tags: true,
+  experiences: true,
+  certifications: true
+} satisfies Prisma.ConsultantInclude;
+
+export type MatchConsultant = Prisma.ConsultantGetPayload<{ include: typeof MATCH_CONSULTANT_INCLUDE }>;
 
 export type RequirementWithSkills = Prisma.RequirementGetPayload<{
   include: {
@@ -64,6 +70,53 @@ export interface CandidateScoreBundle extends CandidateFeatureBaseline {
   };
 }
 
+export type HardFilterRule =
+  | "AVAILABILITY_EXCLUDED"
+  | "MUST_HAVE_SKILL"
+  | "MAX_RATE"
+  | "LOCATION_NOT_ALLOWED"
+  | "REMOTE_ONLY"
+  | "WORK_AUTHORIZATION"
+  | "MIN_SKILL_OVERLAP"
+  | "MIN_LOCATION_MATCH"
+  | "MIN_RATE_ALIGNMENT";
+
+export type MustHaveSkill = {
+  skillId: string;
+  minWeight?: number;
+};
+
+export type ResolvedHardFilters = {
+  source: "default" | "tenant" | "requirement";
+  mustHaveSkills: MustHaveSkill[];
+  maxRate: number | null;
+  allowedLocations: string[];
+  remoteOnly: boolean;
+  excludedAvailability: ConsultantAvailability[];
+  workAuthorizationTags: string[];
+  minSkillOverlap: number;
+  minLocationMatch: number;
+  minRateAlignment: number;
+};
+
+export type HardFilterViolation = {
+  rule: HardFilterRule;
+  detail: string;
+};
+
+export const DEFAULT_HARD_FILTERS: ResolvedHardFilters = {
+  source: "default",
+  mustHaveSkills: [],
+  maxRate: null,
+  allowedLocations: [],
+  remoteOnly: false,
+  excludedAvailability: [ConsultantAvailability.UNAVAILABLE],
+  workAuthorizationTags: [],
+  minSkillOverlap: 0.15,
+  minLocationMatch: 0.25,
+  minRateAlignment: 0.2
+};
+
 export const FEATURE_WEIGHTS: FeatureVector = {
   skillOverlap: 0.35,
   vectorScore: 0.25,
@@ -71,9 +124,21 @@ export const FEATURE_WEIGHTS: FeatureVector = {
   availability: 0.1,
   locationMatch: 0.1,
   rateAlignment: 0.07,
-  recencyScore: 0.03
+  recencyScore: 0.03,
+  // Profile features start unweighted so existing rankings hold; tenants opt in through weight sets and LTR models
+  // learn them from feedback.
+  domainExperience: 0,
+  certificationMatch: 0
+};
+
+export const DEFAULT_AI_CONFIG: Required<AiConfig> = {
+  matchBaseWeight: 0.2,
+  enableLlmRerank: false,
+  llmRerankWeight: 0.15
 };
 
+export const DEFAULT_WEIGHT_SET_VERSION = "default";
+
 export const FEATURE_LABELS: Record<FeatureKey, string> = {
   skillOverlap: "Skill overlap",
   vectorScore: "Semantic similarity",
@@ -81,7 +146,9 @@ export const FEATURE_LABELS: Record<FeatureKey, string> = {
   availability: "Availability",
   locationMatch: "Location alignment",
   rateAlignment: "Rate alignment",
-  recencyScore: "Profile freshness"
+  recencyScore: "Profile freshness",
+  domainExperience: "Domain experience",
+  certificationMatch: "Certification match"
 };
 
 export const FEATURE_DESCRIPTIONS: Record<FeatureKey, string> = {
@@ -91,7 +158,9 @@ export const FEATURE_DESCRIPTIONS: Record<FeatureKey, string> = {
   availability: "Availability score based on consultant status.",
   locationMatch: "Geographic alignment between consultant and requirement.",
   rateAlignment: "How close the consultant rate is to the requirement budget.",
-  recencyScore: "How recently the consultant profile was updated."
+  recencyScore: "How recently the consultant profile was updated.",
+  domainExperience: "Years in roles using the requirement skills, from the consultant's work history.",
+  certificationMatch: "Whether the consultant holds a certification the requirement asks for."
 };
 
 export const LINEAR_MODEL_VERSION = "hybrid-linear-v2";
@@ -108,3 +177,28 @@ export const AVAILABILITY_TO_SCORE: Record<ConsultantAvailability, number> = {
 export function clampScore(value: number): number {
   return Number(Math.min(1, Math.max(0, value)).toFixed(4));
 }
+
+export function hashToUnit(value: string): number {
+  let hash = 2166136261;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+export const MATERIAL_RANK_DROP = 3;
+export const RESCORE_SHORTLIST_SIZE = 5;
+
+export function isMaterialRankDrop(previousRank: number | null, rank: number | null): boolean {
+  if (previousRank === null) {
+    return false;
+  }
+  if (rank === null) {
+    return true;
+  }
+  if (rank - previousRank >= MATERIAL_RANK_DROP) {
+    return true;
+  }
+  return previousRank <= RESCORE_SHORTLIST_SIZE && rank > RESCORE_SHORTLIST_SIZE;
+}
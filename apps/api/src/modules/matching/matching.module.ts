@@ -1,20 +1,48 @@
 import { Module } from "@nestjs/common";
 
 import { AiGatewayModule } from "../ai-gateway/ai-gateway.module";
+import { AuditModule } from "../audit/audit.module";
+import { IngestionQueueModule } from "../ingestion/ingestion-queue.module";
 import { VectorSearchModule } from "../vector-search/vector-search.module";
 import { RequestContextModule } from "../../infrastructure/context";
 import { PrismaModule } from "../../infrastructure/prisma/prisma.module";
 
 import { LearningToRankService } from "./learning-to-rank.service";
+import { MatchFilterPolicyService } from "./match-filter-policy.service";
+import { MatchRescoreService } from "./match-rescore.service";
+import { MatchRescoreWorker } from "./match-rescore.worker";
 import { MatchExplanationBuilder } from "./match-explanation.builder";
+import { MatchFairnessService } from "./diversity/match-fairness.service";
 import { MatchingEvaluationService } from "./evaluation/matching-evaluation.service";
+import { MatchingExperimentService } from "./experiments/matching-experiment.service";
+import { MatchingBatchService } from "./matching-batch.service";
+import { MatchingBatchWorker } from "./matching-batch.worker";
+import { MatchesController } from "./matches.controller";
+import { MatchesService } from "./matches.service";
 import { MatchingController } from "./matching.controller";
 import { MatchingService } from "./matching.service";
+import { MatchingWeightsService } from "./matching-weights.service";
+import { LtrTrainingService } from "./training/ltr-training.service";
 
 @Module({
-  imports: [PrismaModule, VectorSearchModule, RequestContextModule, AiGatewayModule],
-  controllers: [MatchingController],
-  providers: [MatchingService, LearningToRankService, MatchExplanationBuilder, MatchingEvaluationService],
-  exports: [MatchingEvaluationService]
+  imports: [PrismaModule, VectorSearchModule, RequestContextModule, AiGatewayModule, AuditModule, IngestionQueueModule],
+  controllers: [MatchingController, MatchesController],
+  providers: [
+    MatchingService,
+    MatchesService,
+    MatchingBatchService,
+    MatchingBatchWorker,
+    MatchRescoreService,
+    MatchRescoreWorker,
+    MatchFilterPolicyService,
+    MatchingWeightsService,
+    MatchingExperimentService,
+    MatchFairnessService,
+    LearningToRankService,
+    MatchExplanationBuilder,
+    MatchingEvaluationService,
+    LtrTrainingService
+  ],
+  exports: [MatchingEvaluationService, MatchFairnessService]
 })
 export class MatchingModule {}
\ No newline at end of file
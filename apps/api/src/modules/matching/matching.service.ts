@@ -1,9 +1,11 @@
-import { Injectable, Logger, NotFoundException } from "@nestjs/common";
-import { ConfigService } from "@nestjs/config";
+import { BadRequestException, Injectable, Logger, NotFoundException } from "@nestjs/common";
 import {
+  ConsultantAvailability,
   MatchFeedbackOutcome,
+  MatchRescoreTrigger,
   MatchStatus,
   Prisma,
+  RequirementStatus,
   SearchEntityType
 } from "@prisma/client";
 
@@ -12,12 +14,11 @@ import { RequestContextService } from "../../infrastructure/context";
 import { VectorSearchService, HybridSearchResult } from "../vector-search/vector-search.service";
 import type { MatchSummaryFacts, MatchSummaryResponse } from "../ai-gateway/dto/match-summary.dto";
 import {
-  AiConfig,
   CandidateFeatureBaseline,
   CandidateScoreBundle,
-  FEATURE_WEIGHTS,
+  ScoringConfig,
   LINEAR_MODEL_VERSION,
-  LTR_MODEL_VERSION,
+  MATCH_CONSULTANT_INCLUDE,
   MatchConsultant,
   RequirementWithSkills,
   FeatureContribution,
@@ -25,42 +26,86 @@ import {
   FeatureVector,
   AVAILABILITY_TO_SCORE,
   clampScore,
-  RECENCY_WINDOW_DAYS
+  DEFAULT_HARD_FILTERS,
+  HardFilterViolation,
+  RECENCY_WINDOW_DAYS,
+  isMaterialRankDrop
 } from "./matching.domain";
 import { MatchFeedbackDto } from "./dto/match-feedback.dto";
+import { computeCertificationMatch, computeDomainExperience } from "./profile-features";
 import { LearningToRankService } from "./learning-to-rank.service";
+import { MatchFilterPolicyService } from "./match-filter-policy.service";
 import { MatchExplanationBuilder, MatchExplanationDetails } from "./match-explanation.builder";
+import { MatchingExperimentService } from "./experiments/matching-experiment.service";
+import type { ExperimentAssignment, VariantScoringPlan } from "./experiments/experiment.types";
+import { MatchDiversityDto } from "./dto/match-request.dto";
+import { auditShortlistFairness } from "./diversity/fairness-audit";
+import { MatchFairnessService } from "./diversity/match-fairness.service";
+import { diversifyShortlist, parseTagGroups } from "./diversity/shortlist-diversity";
+import type { DiversityCandidate, DiversityOptions } from "./diversity/diversity.types";
+import {
+  CounterfactualExplanation,
+  CounterfactualLever,
+  findCounterfactuals
+} from "./counterfactual/counterfactual";
 
-const DEFAULT_AI_CONFIG: Required<AiConfig> = {
-  matchBaseWeight: 0.2,
-  enableLlmRerank: false,
-  llmRerankWeight: 0.15
-};
+const MATCHABLE_REQUIREMENT_STATUSES: RequirementStatus[] = [RequirementStatus.OPEN, RequirementStatus.IN_PROGRESS];
+
+const DEFAULT_DIVERSITY_LAMBDA = 0.7;
 
 type CandidatePipelineState = CandidateScoreBundle & {
+  requirement: RequirementWithSkills;
   summary?: MatchSummaryResponse;
   facts?: MatchSummaryFacts;
   explanation?: MatchExplanationDetails;
 };
 
+type RankedCandidate = CandidatePipelineState & {
+  summary: MatchSummaryResponse;
+  facts: MatchSummaryFacts;
+  explanation: MatchExplanationDetails;
+  linearVersion: string;
+  rankerVersion: string;
+};
+
+export interface MatchRescoreOutcome {
+  matchId: string;
+  consultantId: string;
+  previousScore: number;
+  score: number;
+  previousRank: number;
+  rank: number | null;
+  rankDropped: boolean;
+}
+
 type RequirementSkillWeightMap = Map<string, number>;
 
 type RequirementSkillNameMap = Map<string, string>;
 
+type RequirementSkillContext = {
+  weights: RequirementSkillWeightMap;
+  names: RequirementSkillNameMap;
+  total: number;
+};
+
 @Injectable()
 export class MatchingService {
   private readonly logger = new Logger(MatchingService.name);
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly configService: ConfigService,
     private readonly vectorSearch: VectorSearchService,
     private readonly learningToRank: LearningToRankService,
     private readonly explanationBuilder: MatchExplanationBuilder,
-    private readonly context: RequestContextService
+    private readonly context: RequestContextService,
+    private readonly filterPolicies: MatchFilterPolicyService,
+    private readonly experiments: MatchingExperimentService,
+    private readonly fairness: MatchFairnessService
   ) {}
 
-  async matchRequirement(tenantId: string, requirementId: string, topN: number) {
+  async matchRequirement(tenantId: string, requirementId: string, topN: number, diversityInput?: MatchDiversityDto) {
+    const diversity = this.resolveDiversity(diversityInput);
+
     const requirement = await this.prisma.requirement.findFirst({
       where: { tenantId, id: requirementId },
       include: { skills: { include: { skill: true } } }
@@ -70,15 +115,8 @@ export class MatchingService {
       throw new NotFoundException(`Requirement ${requirementId} not found`);
     }
 
-    const aiConfig = this.resolveAiConfig();
-
-    const requirementSkillWeights = new Map<string, number>(
-      requirement.skills.map((skill) => [skill.skillId, skill.weight])
-    );
-    const requirementSkillNames = new Map<string, string>(
-      requirement.skills.map((skill) => [skill.skillId, skill.skill?.name ?? ""])
-    );
-    const requirementWeightTotal = [...requirementSkillWeights.values()].reduce((acc, value) => acc + value, 0) || 1;
+    const plan = await this.experiments.planForRequirement(tenantId, requirementId);
+    const skillContext = this.buildRequirementSkillContext(requirement);
 
     const searchQuery = [requirement.title, requirement.clientName, requirement.description]
       .filter(Boolean)
@@ -93,12 +131,15 @@ export class MatchingService {
         tenantId,
         ...(candidateIds.length > 0 ? { id: { in: candidateIds } } : {})
       },
-      include: { skills: { include: { skill: true } } }
+      include: MATCH_CONSULTANT_INCLUDE
     });
 
+    const policies = await this.filterPolicies.resolveForRequirements(tenantId, [requirementId]);
+    const filters = policies.get(requirementId) ?? DEFAULT_HARD_FILTERS;
+
     if (consultants.length === 0) {
       this.logger.warn(`No consultants available for requirement ${requirementId}`);
-      return [];
+      return { requirementId, experiment: plan.assignment, filters, results: [], excluded: [], fairness: null };
     }
 
     const now = new Date();
@@ -108,34 +149,509 @@ export class MatchingService {
       this.buildCandidateBaseline(
         consultant,
         requirement,
-        requirementSkillWeights,
-        requirementSkillNames,
-        requirementWeightTotal,
-        candidateScoreMap,
+        skillContext,
+        candidateScoreMap.get(consultant.id),
         now,
         recencyWindowMs
       )
     );
 
-    let filtered = this.applyHardFilters(baselines, requirement);
-    if (filtered.length === 0) {
-      this.logger.debug("Hard filters removed all candidates; falling back to baseline set");
-      filtered = baselines;
+    const eligible: CandidateFeatureBaseline[] = [];
+    const excluded: Array<{ consultantId: string; consultantName: string; violations: HardFilterViolation[] }> = [];
+    for (const baseline of baselines) {
+      const violations = this.filterPolicies.evaluate(baseline, requirement, filters);
+      if (violations.length === 0) {
+        eligible.push(baseline);
+      } else {
+        excluded.push({
+          consultantId: baseline.consultant.id,
+          consultantName: `${baseline.consultant.firstName} ${baseline.consultant.lastName}`.trim(),
+          violations
+        });
+      }
+    }
+
+    if (eligible.length === 0) {
+      this.logger.debug(`Hard filters excluded all ${baselines.length} candidates for requirement ${requirementId}`);
     }
 
-    const scoreBundles = filtered.map((baseline) => this.buildScoreBundle(baseline, aiConfig.matchBaseWeight));
+    const { ranked, scored } = await this.rankCandidates(
+      tenantId,
+      eligible.map((baseline) => ({ requirement, baseline })),
+      topN,
+      plan,
+      diversity
+    );
 
-    const ltrScored = scoreBundles.map((candidate) => {
-      const retrievalScore = this.computeRetrievalScore(candidate);
-      const { probability: ltrScore } = this.learningToRank.scoreCandidate({
-        features: candidate.features,
-        linearScore: candidate.scores.linear,
-        retrievalScore
+    const fairness = auditShortlistFairness(
+      scored.map((candidate) => this.toDiversityCandidate(candidate)),
+      new Set(ranked.map((candidate) => this.pairKey(candidate)))
+    );
+    await this.fairness.record(tenantId, requirementId, topN, diversity, fairness);
+
+    const results = [] as Array<{
+      matchId: string;
+      consultantId: string;
+      consultantName: string;
+      score: number;
+      scores: CandidateScoreBundle["scores"];
+      skillScore: number;
+      availabilityScore: number;
+      explanation: MatchExplanationDetails;
+      signals: {
+        retrieval: number;
+        vector: number;
+        lexical: number;
+      };
+    }>;
+
+    for (const candidate of ranked) {
+      const matchRecord = await this.persistMatch(tenantId, candidate, plan.assignment);
+
+      results.push({
+        matchId: matchRecord.id,
+        consultantId: candidate.consultant.id,
+        consultantName: `${candidate.consultant.firstName} ${candidate.consultant.lastName}`.trim(),
+        score: candidate.scores.final,
+        scores: candidate.scores,
+        skillScore: candidate.features.skillOverlap,
+        availabilityScore: candidate.features.availability,
+        explanation: candidate.explanation,
+        signals: this.buildSignals(candidate)
+      });
+    }
+
+    return {
+      requirementId,
+      experiment: plan.assignment,
+      filters,
+      results: diversity ? results : results.sort((a, b) => b.score - a.score),
+      excluded,
+      fairness
+    };
+  }
+
+  async matchConsultant(tenantId: string, consultantId: string, topN: number) {
+    const consultant = await this.prisma.consultant.findFirst({
+      where: { tenantId, id: consultantId },
+      include: MATCH_CONSULTANT_INCLUDE
+    });
+
+    if (!consultant) {
+      throw new NotFoundException(`Consultant ${consultantId} not found`);
+    }
+
+    const searchQuery = [
+      consultant.summary,
+      consultant.skills.map((skill) => skill.skill?.name).filter(Boolean).join(", "),
+      consultant.location
+    ]
+      .filter(Boolean)
+      .join(" \n");
+
+    const requirementResults = await this.getRequirementResults(tenantId, searchQuery, topN);
+    const requirementScoreMap = new Map<string, HybridSearchResult>(
+      requirementResults.map((result) => [result.entityId, result])
+    );
+    const requirementIds = requirementResults.map((result) => result.entityId);
+
+    const requirements = await this.prisma.requirement.findMany({
+      where: {
+        tenantId,
+        status: { in: MATCHABLE_REQUIREMENT_STATUSES },
+        ...(requirementIds.length > 0 ? { id: { in: requirementIds } } : {})
+      },
+      include: { skills: { include: { skill: true } } }
+    });
+
+    if (requirements.length === 0) {
+      this.logger.warn(`No open requirements available for consultant ${consultantId}`);
+      return { consultantId, results: [], excluded: [] };
+    }
+
+    const policies = await this.filterPolicies.resolveForRequirements(
+      tenantId,
+      requirements.map((requirement) => requirement.id)
+    );
+
+    const now = new Date();
+    const recencyWindowMs = RECENCY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+    const pairs = requirements.map((requirement) => ({
+      requirement,
+      baseline: this.buildCandidateBaseline(
+        consultant,
+        requirement,
+        this.buildRequirementSkillContext(requirement),
+        requirementScoreMap.get(requirement.id),
+        now,
+        recencyWindowMs
+      )
+    }));
+
+    const eligible: typeof pairs = [];
+    const excluded: Array<{ requirementId: string; requirementTitle: string; violations: HardFilterViolation[] }> = [];
+    for (const pair of pairs) {
+      const filters = policies.get(pair.requirement.id) ?? DEFAULT_HARD_FILTERS;
+      const violations = this.filterPolicies.evaluate(pair.baseline, pair.requirement, filters);
+      if (violations.length === 0) {
+        eligible.push(pair);
+      } else {
+        excluded.push({ requirementId: pair.requirement.id, requirementTitle: pair.requirement.title, violations });
+      }
+    }
+
+    // Each requirement keeps its experiment variant, so reverse matching never re-tags a variant's matches.
+    const plans = await this.experiments.planForRequirements(
+      tenantId,
+      eligible.map((pair) => pair.requirement.id)
+    );
+    const pairsByPlan = new Map<VariantScoringPlan, typeof eligible>();
+    for (const pair of eligible) {
+      const plan = plans.get(pair.requirement.id) as VariantScoringPlan;
+      pairsByPlan.set(plan, [...(pairsByPlan.get(plan) ?? []), pair]);
+    }
+
+    const ranked: RankedCandidate[] = [];
+    for (const [plan, planPairs] of pairsByPlan) {
+      const planRanked = await this.rankCandidates(tenantId, planPairs, topN, plan, null);
+      ranked.push(...planRanked.ranked);
+    }
+    ranked.sort((a, b) => b.scores.final - a.scores.final);
+    ranked.splice(topN);
+
+    const results = [] as Array<{
+      matchId: string;
+      requirementId: string;
+      requirementTitle: string;
+      clientName: string;
+      location: string | null;
+      status: RequirementStatus;
+      score: number;
+      scores: CandidateScoreBundle["scores"];
+      skillScore: number;
+      rateScore: number;
+      explanation: MatchExplanationDetails;
+      signals: {
+        retrieval: number;
+        vector: number;
+        lexical: number;
+      };
+    }>;
+
+    for (const candidate of ranked) {
+      const matchRecord = await this.persistMatch(tenantId, candidate, plans.get(candidate.requirement.id)?.assignment);
+
+      results.push({
+        matchId: matchRecord.id,
+        requirementId: candidate.requirement.id,
+        requirementTitle: candidate.requirement.title,
+        clientName: candidate.requirement.clientName,
+        location: candidate.requirement.location,
+        status: candidate.requirement.status,
+        score: candidate.scores.final,
+        scores: candidate.scores,
+        skillScore: candidate.features.skillOverlap,
+        rateScore: candidate.features.rateAlignment,
+        explanation: candidate.explanation,
+        signals: this.buildSignals(candidate)
+      });
+    }
+
+    return {
+      consultantId,
+      results: results.sort((a, b) => b.score - a.score),
+      excluded
+    };
+  }
+
+  async submitFeedback(tenantId: string, matchId: string, dto: MatchFeedbackDto) {
+    const match = await this.prisma.match.findFirst({ where: { id: matchId, tenantId } });
+    if (!match) {
+      throw new NotFoundException(`Match ${matchId} not found`);
+    }
+
+    const user = this.context.getUser();
+    await this.prisma.matchFeedback.create({
+      data: {
+        tenantId,
+        matchId,
+        outcome: dto.outcome as MatchFeedbackOutcome,
+        rating: dto.rating ?? null,
+        reason: dto.reason ?? null,
+        submittedBy: user?.sub ?? null,
+        metadata: dto.metadata ? (dto.metadata as Prisma.InputJsonValue) : Prisma.JsonNull
+      }
+    });
+
+    await this.updateMatchFeedbackSummary(tenantId, matchId);
+
+    return { status: "ok" };
+  }
+
+  async getScoreHistory(tenantId: string, matchId: string) {
+    const match = await this.prisma.match.findFirst({
+      where: { id: matchId, tenantId },
+      select: { id: true, score: true, rankDroppedAt: true }
+    });
+    if (!match) {
+      throw new NotFoundException(`Match ${matchId} not found`);
+    }
+
+    const history = await this.prisma.matchScoreHistory.findMany({
+      where: { tenantId, matchId },
+      orderBy: { createdAt: "desc" }
+    });
+    return { ...match, history };
+  }
+
+  async explainCounterfactual(tenantId: string, matchId: string, topN: number) {
+    const match = await this.prisma.match.findFirst({
+      where: { id: matchId, tenantId },
+      include: {
+        consultant: { include: MATCH_CONSULTANT_INCLUDE },
+        requirement: { include: { skills: { include: { skill: true } } } }
+      }
+    });
+    if (!match) {
+      throw new NotFoundException(`Match ${matchId} not found`);
+    }
+
+    const competitors = await this.prisma.match.findMany({
+      where: { tenantId, requirementId: match.requirementId, id: { not: match.id } },
+      select: { score: true },
+      orderBy: { score: "desc" },
+      take: topN
+    });
+    const targetScore = competitors.length >= topN ? competitors[topN - 1].score : null;
+
+    const { requirement, consultant } = match;
+    const previous = match.explanation as unknown as Partial<MatchExplanationDetails> | null;
+    const plan = await this.experiments.planForRequirement(tenantId, requirement.id);
+    const skillContext = this.buildRequirementSkillContext(requirement);
+    const baseline = this.buildCandidateBaseline(
+      consultant,
+      requirement,
+      skillContext,
+      undefined,
+      new Date(),
+      RECENCY_WINDOW_DAYS * 24 * 60 * 60 * 1000
+    );
+    baseline.features.vectorScore = this.previousFeatureValue(previous, "vectorScore");
+    baseline.features.lexicalScore = this.previousFeatureValue(previous, "lexicalScore");
+
+    const llmScore = previous?.llm?.confidence;
+    const score = (features: FeatureVector) => {
+      const candidate = this.buildScoreBundle({ ...baseline, features }, plan.scoring);
+      const { probability: ltrScore } = this.learningToRank.scoreCandidate(
+        {
+          features,
+          linearScore: candidate.scores.linear,
+          retrievalScore: this.computeRetrievalScore(candidate)
+        },
+        plan.rankingModel
+      );
+      return this.computeFinalScore(candidate.scores.linear, ltrScore, llmScore, plan.scoring);
+    };
+
+    const currentScore = score(baseline.features);
+    const alreadyInTopN = targetScore === null || currentScore > targetScore;
+    const scenarios = alreadyInTopN
+      ? []
+      : findCounterfactuals(
+          baseline.features,
+          this.buildCounterfactualLevers(consultant, requirement, baseline.features, skillContext),
+          score,
+          targetScore
+        );
+
+    const counterfactual: CounterfactualExplanation = {
+      targetRank: topN,
+      targetScore,
+      currentScore,
+      alreadyInTopN,
+      reachable: alreadyInTopN || scenarios.length > 0,
+      scenarios
+    };
+
+    return { matchId: match.id, explanation: previous, counterfactual };
+  }
+
+  async rescoreRequirement(
+    tenantId: string,
+    requirementId: string,
+    trigger: MatchRescoreTrigger
+  ): Promise<MatchRescoreOutcome[]> {
+    const requirement = await this.prisma.requirement.findFirst({
+      where: { tenantId, id: requirementId },
+      include: { skills: { include: { skill: true } } }
+    });
+    if (!requirement || !MATCHABLE_REQUIREMENT_STATUSES.includes(requirement.status)) {
+      return [];
+    }
+
+    const matches = await this.prisma.match.findMany({
+      where: { tenantId, requirementId },
+      include: { consultant: { include: MATCH_CONSULTANT_INCLUDE } },
+      orderBy: { score: "desc" }
+    });
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const plan = await this.experiments.planForRequirement(tenantId, requirementId);
+    const policies = await this.filterPolicies.resolveForRequirements(tenantId, [requirementId]);
+    const filters = policies.get(requirementId) ?? DEFAULT_HARD_FILTERS;
+    const skillContext = this.buildRequirementSkillContext(requirement);
+    const now = new Date();
+    const recencyWindowMs = RECENCY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const linearVersion = `${LINEAR_MODEL_VERSION}@${plan.scoring.weightSetVersion}`;
+
+    // Retrieval signals and the LLM summary are carried over from the last full match run: re-scoring only
+    // reacts to structured changes and must not re-query search or the AI gateway for every edit.
+    const rescored = matches.map((match, index) => {
+      const previous = match.explanation as unknown as Partial<MatchExplanationDetails> | null;
+      const baseline = this.buildCandidateBaseline(
+        match.consultant,
+        requirement,
+        skillContext,
+        undefined,
+        now,
+        recencyWindowMs
+      );
+      baseline.features.vectorScore = this.previousFeatureValue(previous, "vectorScore");
+      baseline.features.lexicalScore = this.previousFeatureValue(previous, "lexicalScore");
+
+      const candidate = this.buildScoreBundle(baseline, plan.scoring);
+      const { probability: ltrScore } = this.learningToRank.scoreCandidate(
+        {
+          features: candidate.features,
+          linearScore: candidate.scores.linear,
+          retrievalScore: this.computeRetrievalScore(candidate)
+        },
+        plan.rankingModel
+      );
+      const llmScore = previous?.llm?.confidence;
+      candidate.scores = {
+        linear: candidate.scores.linear,
+        ltr: ltrScore,
+        llm: llmScore,
+        final: this.computeFinalScore(candidate.scores.linear, ltrScore, llmScore, plan.scoring)
+      };
+
+      return {
+        match,
+        previous,
+        candidate,
+        previousRank: index + 1,
+        eligible: this.filterPolicies.evaluate(baseline, requirement, filters).length === 0
+      };
+    });
+
+    const ranks = new Map<string, number>(
+      rescored
+        .filter((entry) => entry.eligible)
+        .sort((a, b) => b.candidate.scores.final - a.candidate.scores.final)
+        .map((entry, index) => [entry.match.id, index + 1])
+    );
+
+    const outcomes: MatchRescoreOutcome[] = [];
+    for (const entry of rescored) {
+      const { match, previous, candidate, previousRank } = entry;
+      const rank = ranks.get(match.id) ?? null;
+      const rankDropped = isMaterialRankDrop(previousRank, rank);
+
+      const summary: MatchSummaryResponse = previous?.summary
+        ? {
+            summary: previous.summary,
+            highlights: previous.highlights ?? [],
+            confidence: previous.llm?.confidence ?? candidate.scores.ltr,
+            grounded: previous.llm?.grounded ?? false,
+            provider: previous.llm?.provider ?? "unknown"
+          }
+        : (await this.explanationBuilder.buildSummary(tenantId, requirement, candidate)).summary;
+      const facts = this.explanationBuilder.buildFacts(requirement, candidate);
+      const explanation = {
+        ...this.explanationBuilder.buildExplanation(requirement, candidate, summary, facts),
+        modelVersion: linearVersion,
+        rankerVersion: plan.rankingModel.version
+      };
+      const modelVersion = `${linearVersion}+${plan.rankingModel.version}`;
+      const recovered = rank !== null && rank < previousRank;
+
+      await this.prisma.match.update({
+        where: { id: match.id },
+        data: {
+          score: candidate.scores.final,
+          explanation: this.toJson(explanation),
+          rankDroppedAt: rankDropped ? now : recovered ? null : undefined
+        }
+      });
+      await this.prisma.matchFeatureSnapshot.create({
+        data: {
+          tenantId,
+          matchId: match.id,
+          requirementId,
+          consultantId: match.consultantId,
+          modelVersion,
+          features: candidate.features,
+          explanation: this.toJson(explanation),
+          experimentId: plan.assignment?.experimentId,
+          variant: plan.assignment?.variant
+        }
+      });
+      await this.prisma.matchScoreHistory.create({
+        data: {
+          tenantId,
+          matchId: match.id,
+          trigger,
+          score: candidate.scores.final,
+          previousScore: match.score,
+          rank,
+          previousRank,
+          rankDropped,
+          modelVersion
+        }
+      });
+
+      outcomes.push({
+        matchId: match.id,
+        consultantId: match.consultantId,
+        previousScore: match.score,
+        score: candidate.scores.final,
+        previousRank,
+        rank,
+        rankDropped
       });
+    }
 
-      const finalScore = this.computeFinalScore(candidate.scores.linear, ltrScore, undefined, aiConfig);
+    return outcomes;
+  }
+
+  private async rankCandidates(
+    tenantId: string,
+    pairs: Array<{ requirement: RequirementWithSkills; baseline: CandidateFeatureBaseline }>,
+    topN: number,
+    plan: VariantScoringPlan,
+    diversity: DiversityOptions | null
+  ): Promise<{ ranked: RankedCandidate[]; scored: CandidatePipelineState[] }> {
+    const { scoring, rankingModel } = plan;
+    const ltrScored = pairs.map(({ requirement, baseline }) => {
+      const candidate = this.buildScoreBundle(baseline, scoring);
+      const retrievalScore = this.computeRetrievalScore(candidate);
+      const { probability: ltrScore } = this.learningToRank.scoreCandidate(
+        {
+          features: candidate.features,
+          linearScore: candidate.scores.linear,
+          retrievalScore
+        },
+        rankingModel
+      );
+
+      const finalScore = this.computeFinalScore(candidate.scores.linear, ltrScore, undefined, scoring);
       return {
         ...candidate,
+        requirement,
         scores: {
           ...candidate.scores,
           ltr: ltrScore,
@@ -145,7 +661,7 @@ export class MatchingService {
     });
 
     const sortedByLtr = [...ltrScored].sort((a, b) => b.scores.ltr - a.scores.ltr);
-    const evaluationCount = aiConfig.enableLlmRerank
+    const evaluationCount = scoring.enableLlmRerank
       ? Math.min(sortedByLtr.length, Math.max(topN * 2, 10))
       : Math.min(sortedByLtr.length, topN);
 
@@ -155,8 +671,8 @@ export class MatchingService {
       const targets = sortedByLtr.slice(0, evaluationCount);
       const withSummaries = await Promise.all(
         targets.map(async (candidate) => {
-          const { summary, facts } = await this.explanationBuilder.buildSummary(tenantId, requirement, candidate);
-          const finalScore = this.computeFinalScore(candidate.scores.linear, candidate.scores.ltr, summary.confidence, aiConfig);
+          const { summary, facts } = await this.explanationBuilder.buildSummary(tenantId, candidate.requirement, candidate);
+          const finalScore = this.computeFinalScore(candidate.scores.linear, candidate.scores.ltr, summary.confidence, scoring);
           return {
             ...candidate,
             summary,
@@ -171,12 +687,12 @@ export class MatchingService {
       );
 
       for (const candidate of withSummaries) {
-        evaluated.set(candidate.consultant.id, candidate);
+        evaluated.set(this.pairKey(candidate), candidate);
       }
     }
 
     const combined = sortedByLtr.map((candidate) => {
-      const evaluatedCandidate = evaluated.get(candidate.consultant.id);
+      const evaluatedCandidate = evaluated.get(this.pairKey(candidate));
       if (evaluatedCandidate) {
         return evaluatedCandidate;
       }
@@ -184,127 +700,170 @@ export class MatchingService {
         ...candidate,
         scores: {
           ...candidate.scores,
-          final: this.computeFinalScore(candidate.scores.linear, candidate.scores.ltr, candidate.scores.llm, aiConfig)
+          final: this.computeFinalScore(candidate.scores.linear, candidate.scores.ltr, candidate.scores.llm, scoring)
         }
       } satisfies CandidatePipelineState;
     });
 
     const finalSorted = combined.sort((a, b) => b.scores.final - a.scores.final);
-    const topCandidates = finalSorted.slice(0, topN);
-
-    const results = [] as Array<{
-      matchId: string;
-      consultantId: string;
-      consultantName: string;
-      score: number;
-      scores: CandidateScoreBundle["scores"];
-      skillScore: number;
-      availabilityScore: number;
-      explanation: MatchExplanationDetails;
-      signals: {
-        retrieval: number;
-        vector: number;
-        lexical: number;
-      };
-    }>;
+    const topCandidates = diversity
+      ? await this.diversify(tenantId, finalSorted, topN, diversity)
+      : finalSorted.slice(0, topN);
 
+    const ranked: RankedCandidate[] = [];
     for (const candidate of topCandidates) {
       if (!candidate.summary || !candidate.facts) {
-        const { summary, facts } = await this.explanationBuilder.buildSummary(tenantId, requirement, candidate);
+        const { summary, facts } = await this.explanationBuilder.buildSummary(tenantId, candidate.requirement, candidate);
         candidate.summary = summary;
         candidate.facts = facts;
         candidate.scores = {
           ...candidate.scores,
           llm: summary.confidence,
-          final: this.computeFinalScore(candidate.scores.linear, candidate.scores.ltr, summary.confidence, aiConfig)
+          final: this.computeFinalScore(candidate.scores.linear, candidate.scores.ltr, summary.confidence, scoring)
         };
       }
 
-      candidate.explanation = this.explanationBuilder.buildExplanation(
-        requirement,
-        candidate,
-        candidate.summary,
-        candidate.facts
-      );
-
-      const matchRecord = await this.prisma.match.upsert({
-        where: {
-          tenant_consultant_requirement: {
-            tenantId,
-            consultantId: candidate.consultant.id,
-            requirementId
-          }
-        },
-        create: {
-          tenantId,
-          consultantId: candidate.consultant.id,
-          requirementId,
-          score: candidate.scores.final,
-          status: MatchStatus.REVIEW,
-          explanation: this.toJson(candidate.explanation)
-        },
-        update: {
-          score: candidate.scores.final,
-          explanation: this.toJson(candidate.explanation)
-        }
-      });
+      const linearVersion = `${LINEAR_MODEL_VERSION}@${scoring.weightSetVersion}`;
+      const explanation = {
+        ...this.explanationBuilder.buildExplanation(candidate.requirement, candidate, candidate.summary, candidate.facts),
+        modelVersion: linearVersion,
+        rankerVersion: rankingModel.version
+      };
 
-      await this.prisma.matchFeatureSnapshot.create({
-        data: {
-          tenantId,
-          matchId: matchRecord.id,
-          requirementId,
-          consultantId: candidate.consultant.id,
-          modelVersion: `${LINEAR_MODEL_VERSION}+${LTR_MODEL_VERSION}`,
-          features: candidate.features,
-          explanation: this.toJson(candidate.explanation)
-        }
+      ranked.push({
+        ...candidate,
+        summary: candidate.summary,
+        facts: candidate.facts,
+        explanation,
+        linearVersion,
+        rankerVersion: rankingModel.version
       });
+    }
 
-      const retrievalScore = this.computeRetrievalScore(candidate);
+    return { ranked, scored: finalSorted };
+  }
 
-      results.push({
-        matchId: matchRecord.id,
-        consultantId: candidate.consultant.id,
-        consultantName: `${candidate.consultant.firstName} ${candidate.consultant.lastName}`.trim(),
-        score: candidate.scores.final,
-        scores: candidate.scores,
-        skillScore: candidate.features.skillOverlap,
-        availabilityScore: candidate.features.availability,
-        explanation: candidate.explanation,
-        signals: {
-          retrieval: retrievalScore,
-          vector: candidate.features.vectorScore,
-          lexical: candidate.features.lexicalScore
-        }
-      });
+  private async diversify(
+    tenantId: string,
+    candidates: CandidatePipelineState[],
+    topN: number,
+    diversity: DiversityOptions
+  ): Promise<CandidatePipelineState[]> {
+    let embeddings = new Map<string, number[]>();
+    if (diversity.lambda < 1) {
+      try {
+        embeddings = await this.vectorSearch.getEmbeddings(
+          tenantId,
+          SearchEntityType.CONSULTANT,
+          candidates.map((candidate) => candidate.consultant.id)
+        );
+      } catch (error) {
+        this.logger.warn(`Embedding lookup for diversification failed: ${(error as Error).message}`);
+      }
     }
 
-    return results.sort((a, b) => b.score - a.score);
+    const byKey = new Map(candidates.map((candidate) => [this.pairKey(candidate), candidate]));
+    const selected = diversifyShortlist(
+      candidates.map((candidate) => this.toDiversityCandidate(candidate, embeddings.get(candidate.consultant.id))),
+      topN,
+      diversity
+    );
+    return selected.map((item) => byKey.get(item.key)!);
   }
 
-  async submitFeedback(tenantId: string, matchId: string, dto: MatchFeedbackDto) {
-    const match = await this.prisma.match.findFirst({ where: { id: matchId, tenantId } });
-    if (!match) {
-      throw new NotFoundException(`Match ${matchId} not found`);
+  private toDiversityCandidate(candidate: CandidatePipelineState, embedding?: number[]): DiversityCandidate {
+    return {
+      key: this.pairKey(candidate),
+      score: candidate.scores.final,
+      embedding,
+      groups: parseTagGroups(candidate.consultant.tags)
+    };
+  }
+
+  private resolveDiversity(input?: MatchDiversityDto): DiversityOptions | null {
+    if (!input) {
+      return null;
     }
+    const groupCaps: Record<string, number> = {};
+    for (const [group, cap] of Object.entries(input.groupCaps ?? {})) {
+      if (!Number.isInteger(cap) || cap < 1) {
+        throw new BadRequestException(`Group cap for ${group} must be a positive integer`);
+      }
+      groupCaps[group.toLowerCase()] = cap;
+    }
+    return { lambda: input.lambda ?? DEFAULT_DIVERSITY_LAMBDA, groupCaps };
+  }
 
-    const user = this.context.getUser();
-    await this.prisma.matchFeedback.create({
+  private async persistMatch(tenantId: string, candidate: RankedCandidate, assignment?: ExperimentAssignment | null) {
+    const requirementId = candidate.requirement.id;
+    const matchRecord = await this.prisma.match.upsert({
+      where: {
+        tenant_consultant_requirement: {
+          tenantId,
+          consultantId: candidate.consultant.id,
+          requirementId
+        }
+      },
+      create: {
+        tenantId,
+        consultantId: candidate.consultant.id,
+        requirementId,
+        score: candidate.scores.final,
+        status: MatchStatus.REVIEW,
+        explanation: this.toJson(candidate.explanation),
+        experimentId: assignment?.experimentId,
+        variant: assignment?.variant
+      },
+      update: {
+        score: candidate.scores.final,
+        explanation: this.toJson(candidate.explanation),
+        rankDroppedAt: null,
+        experimentId: assignment?.experimentId,
+        variant: assignment?.variant
+      }
+    });
+
+    await this.prisma.matchFeatureSnapshot.create({
       data: {
         tenantId,
-        matchId,
-        outcome: dto.outcome as MatchFeedbackOutcome,
-        rating: dto.rating ?? null,
-        reason: dto.reason ?? null,
-        submittedBy: user?.sub ?? null,
-        metadata: dto.metadata ? (dto.metadata as Prisma.InputJsonValue) : Prisma.JsonNull
+        matchId: matchRecord.id,
+        requirementId,
+        consultantId: candidate.consultant.id,
+        modelVersion: `${candidate.linearVersion}+${candidate.rankerVersion}`,
+        features: candidate.features,
+        explanation: this.toJson(candidate.explanation),
+        experimentId: assignment?.experimentId,
+        variant: assignment?.variant
       }
     });
 
-    await this.updateMatchFeedbackSummary(tenantId, matchId);
+    return matchRecord;
+  }
 
-    return { status: "ok" };
+  private buildSignals(candidate: CandidateScoreBundle) {
+    return {
+      retrieval: this.computeRetrievalScore(candidate),
+      vector: candidate.features.vectorScore,
+      lexical: candidate.features.lexicalScore
+    };
+  }
+
+  private pairKey(candidate: CandidatePipelineState): string {
+    return `${candidate.requirement.id}:${candidate.consultant.id}`;
+  }
+
+  private async getRequirementResults(tenantId: string, query: string, topN: number): Promise<HybridSearchResult[]> {
+    try {
+      return await this.vectorSearch.hybridSearch(tenantId, {
+        query,
+        entityTypes: [SearchEntityType.REQUIREMENT],
+        limit: Math.max(topN * 3, 25),
+        plainText: true
+      });
+    } catch (error) {
+      this.logger.warn(`Hybrid search failed: ${(error as Error).message}`);
+      return [];
+    }
   }
 
   private async getCandidateResults(
@@ -318,7 +877,8 @@ export class MatchingService {
         query,
         entityTypes: [SearchEntityType.CONSULTANT],
         filters: location ? { location } : undefined,
-        limit: Math.max(topN * 3, 25)
+        limit: Math.max(topN * 3, 25),
+        plainText: true
       });
     } catch (error) {
       this.logger.warn(`Hybrid search failed: ${(error as Error).message}`);
@@ -326,17 +886,23 @@ export class MatchingService {
     }
   }
 
+  private buildRequirementSkillContext(requirement: RequirementWithSkills): RequirementSkillContext {
+    const weights = new Map<string, number>(requirement.skills.map((skill) => [skill.skillId, skill.weight]));
+    const names = new Map<string, string>(requirement.skills.map((skill) => [skill.skillId, skill.skill?.name ?? ""]));
+    const total = [...weights.values()].reduce((acc, value) => acc + value, 0) || 1;
+    return { weights, names, total };
+  }
+
   private buildCandidateBaseline(
     consultant: MatchConsultant,
     requirement: RequirementWithSkills,
-    requirementSkillWeights: RequirementSkillWeightMap,
-    requirementSkillNames: RequirementSkillNameMap,
-    requirementWeightTotal: number,
-    candidateScoreMap: Map<string, HybridSearchResult>,
+    skillContext: RequirementSkillContext,
+    hybridScore: HybridSearchResult | undefined,
     now: Date,
     recencyWindowMs: number
   ): CandidateFeatureBaseline {
-    const hybridScore = candidateScoreMap.get(consultant.id);
+    const { weights: requirementSkillWeights, names: requirementSkillNames, total: requirementWeightTotal } =
+      skillContext;
 
     const features: FeatureVector = {
       skillOverlap: this.computeSkillOverlap(consultant, requirementSkillWeights, requirementWeightTotal),
@@ -345,7 +911,18 @@ export class MatchingService {
       availability: AVAILABILITY_TO_SCORE[consultant.availability] ?? 0,
       locationMatch: this.computeLocationMatch(consultant.location, requirement.location),
       rateAlignment: this.computeRateAlignment(consultant.rate, requirement.minRate, requirement.maxRate),
-      recencyScore: this.computeRecencyScore(consultant.updatedAt ?? consultant.createdAt, now, recencyWindowMs)
+      recencyScore: this.computeRecencyScore(consultant.updatedAt ?? consultant.createdAt, now, recencyWindowMs),
+      domainExperience: computeDomainExperience(
+        consultant.experiences,
+        requirementSkillWeights,
+        requirementWeightTotal,
+        now
+      ),
+      certificationMatch: computeCertificationMatch(
+        consultant.certifications,
+        `${requirement.title}\n${requirement.description}`,
+        now
+      )
     };
 
     const alignedSkills = consultant.skills
@@ -360,10 +937,10 @@ export class MatchingService {
     };
   }
 
-  private buildScoreBundle(baseline: CandidateFeatureBaseline, baseWeight: number): CandidateScoreBundle {
-    const contributions = this.computeContributions(baseline.features);
+  private buildScoreBundle(baseline: CandidateFeatureBaseline, scoring: ScoringConfig): CandidateScoreBundle {
+    const contributions = this.computeContributions(baseline.features, scoring.featureWeights);
     const linearScore = clampScore(
-      baseWeight + contributions.reduce((acc, item) => acc + item.contribution, 0)
+      scoring.matchBaseWeight + contributions.reduce((acc, item) => acc + item.contribution, 0)
     );
 
     return {
@@ -377,39 +954,12 @@ export class MatchingService {
     };
   }
 
-  private applyHardFilters(
-    candidates: CandidateFeatureBaseline[],
-    requirement: RequirementWithSkills
-  ): CandidateFeatureBaseline[] {
-    const filtered = candidates.filter((candidate) => {
-      if (candidate.features.availability <= 0) {
-        return false;
-      }
-      if (requirement.skills.length > 0 && candidate.features.skillOverlap < 0.15) {
-        return false;
-      }
-      if (requirement.location && candidate.features.locationMatch < 0.25) {
-        return false;
-      }
-      if (candidate.features.rateAlignment < 0.2) {
-        return false;
-      }
-      return true;
-    });
-
-    if (filtered.length === 0) {
-      return candidates;
-    }
-
-    return filtered;
-  }
-
-  private computeContributions(features: FeatureVector): FeatureContribution[] {
-    return (Object.keys(FEATURE_WEIGHTS) as FeatureKey[]).map((feature) => ({
+  private computeContributions(features: FeatureVector, weights: FeatureVector): FeatureContribution[] {
+    return (Object.keys(weights) as FeatureKey[]).map((feature) => ({
       feature,
       value: Number(features[feature]?.toFixed(4) ?? 0),
-      weight: FEATURE_WEIGHTS[feature],
-      contribution: Number((features[feature] * FEATURE_WEIGHTS[feature]).toFixed(4))
+      weight: weights[feature],
+      contribution: Number((features[feature] * weights[feature]).toFixed(4))
     }));
   }
 
@@ -497,6 +1047,127 @@ export class MatchingService {
     return clampScore(weighted);
   }
 
+  private buildCounterfactualLevers(
+    consultant: MatchConsultant,
+    requirement: RequirementWithSkills,
+    features: FeatureVector,
+    skillContext: RequirementSkillContext
+  ): CounterfactualLever[] {
+    const levers: CounterfactualLever[] = [];
+    const consultantSkillIds = new Set(consultant.skills.map((skill) => skill.skillId));
+
+    const missingSkills = [...skillContext.weights.entries()]
+      .filter(([skillId]) => !consultantSkillIds.has(skillId))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5);
+    for (const [skillId, weight] of missingSkills) {
+      const gain = weight / skillContext.total;
+      const name = skillContext.names.get(skillId) || skillId;
+      levers.push({
+        change: {
+          kind: "ADD_SKILL",
+          feature: "skillOverlap",
+          description: `Add ${name} to the profile`,
+          from: null,
+          to: name,
+          featureDelta: Number(gain.toFixed(4))
+        },
+        effort: 2,
+        apply: (current) => ({ ...current, skillOverlap: clampScore(current.skillOverlap + gain) })
+      });
+    }
+
+    const rate = consultant.rate ? Number(consultant.rate) : null;
+    const minRate = requirement.minRate ? Number(requirement.minRate) : null;
+    const maxRate = requirement.maxRate ? Number(requirement.maxRate) : null;
+    const target = this.suggestRate(rate, minRate, maxRate);
+    if (features.rateAlignment < 1 && target !== null) {
+      const verb = rate === null ? "Quote a rate of" : rate > target ? "Lower rate to" : "Raise rate to";
+      levers.push({
+        change: {
+          kind: "ADJUST_RATE",
+          feature: "rateAlignment",
+          description: `${verb} ${target}`,
+          from: rate,
+          to: target,
+          featureDelta: Number((1 - features.rateAlignment).toFixed(4))
+        },
+        effort: 1,
+        apply: (current) => ({ ...current, rateAlignment: 1 })
+      });
+    }
+
+    const available = AVAILABILITY_TO_SCORE[ConsultantAvailability.AVAILABLE];
+    if (features.availability < available) {
+      levers.push({
+        change: {
+          kind: "SET_AVAILABILITY",
+          feature: "availability",
+          description: "Become AVAILABLE",
+          from: consultant.availability,
+          to: ConsultantAvailability.AVAILABLE,
+          featureDelta: Number((available - features.availability).toFixed(4))
+        },
+        effort: 2,
+        apply: (current) => ({ ...current, availability: available })
+      });
+    }
+
+    if (requirement.location && features.locationMatch < 1) {
+      levers.push({
+        change: {
+          kind: "MATCH_LOCATION",
+          feature: "locationMatch",
+          description: `Work from ${requirement.location}`,
+          from: consultant.location,
+          to: requirement.location,
+          featureDelta: Number((1 - features.locationMatch).toFixed(4))
+        },
+        effort: 3,
+        apply: (current) => ({ ...current, locationMatch: 1 })
+      });
+    }
+
+    if (features.recencyScore < 0.9) {
+      levers.push({
+        change: {
+          kind: "REFRESH_PROFILE",
+          feature: "recencyScore",
+          description: "Refresh the consultant profile",
+          from: Number(features.recencyScore.toFixed(4)),
+          to: 1,
+          featureDelta: Number((1 - features.recencyScore).toFixed(4))
+        },
+        effort: 0.5,
+        apply: (current) => ({ ...current, recencyScore: 1 })
+      });
+    }
+
+    return levers;
+  }
+
+  private suggestRate(rate: number | null, minRate: number | null, maxRate: number | null): number | null {
+    if (minRate === null && maxRate === null) {
+      return null;
+    }
+    if (rate === null) {
+      return minRate !== null && maxRate !== null ? (minRate + maxRate) / 2 : minRate ?? maxRate;
+    }
+    if (maxRate !== null && rate > maxRate) {
+      return maxRate;
+    }
+    if (minRate !== null && rate < minRate) {
+      return minRate;
+    }
+    // Single-bound budgets score distance to the bound itself.
+    return minRate ?? maxRate;
+  }
+
+  private previousFeatureValue(previous: Partial<MatchExplanationDetails> | null, feature: FeatureKey): number {
+    const contribution = previous?.contributions?.find((item) => item.feature === feature);
+    return contribution?.value ?? 0;
+  }
+
   private toJson<T>(value: T): Prisma.InputJsonValue | Prisma.JsonNullValueInput {
     if (value === undefined || value === null) {
       return Prisma.JsonNull;
@@ -508,7 +1179,7 @@ export class MatchingService {
     linearScore: number,
     ltrScore: number,
     llmConfidence: number | undefined,
-    config: Required<AiConfig>
+    config: ScoringConfig
   ): number {
     const llmWeight = config.enableLlmRerank ? Math.min(0.3, config.llmRerankWeight ?? 0.15) : 0;
     const linearWeight = 0.35;
@@ -523,15 +1194,6 @@ export class MatchingService {
     return clampScore(blended);
   }
 
-  private resolveAiConfig(): Required<AiConfig> {
-    const config = this.configService.get<AiConfig>("ai");
-    return {
-      matchBaseWeight: config?.matchBaseWeight ?? DEFAULT_AI_CONFIG.matchBaseWeight,
-      enableLlmRerank: config?.enableLlmRerank ?? DEFAULT_AI_CONFIG.enableLlmRerank,
-      llmRerankWeight: config?.llmRerankWeight ?? DEFAULT_AI_CONFIG.llmRerankWeight
-    };
-  }
-
   private async updateMatchFeedbackSummary(tenantId: string, matchId: string) {
     const aggregates = await this.prisma.matchFeedback.groupBy({
       by: ["outcome"],
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { computeCertificationMatch, computeDomainExperience } from "./profile-features";
+
+const NOW = new Date("2026-06-15T00:00:00Z");
+
+describe("computeDomainExperience", () => {
+  const weights = new Map([
+    ["s-spark", 60],
+    ["s-python", 40]
+  ]);
+
+  it("credits overlapping roles once and saturates at the target tenure", () => {
+    const score = computeDomainExperience(
+      [
+        {
+          startDate: new Date("2016-01-01T00:00:00Z"),
+          endDate: new Date("2021-12-01T00:00:00Z"),
+          current: false,
+          skillIds: ["s-spark"]
+        },
+        {
+          startDate: new Date("2021-01-01T00:00:00Z"),
+          endDate: null,
+          current: true,
+          skillIds: ["s-spark", "s-python"]
+        }
+      ],
+      weights,
+      100,
+      NOW
+    );
+
+    // Spark: 2016-01..2026-06 merged, capped at 1. Python: 2021-01..2026-06 is 66 months, also capped.
+    expect(score).toBe(1);
+  });
+
+  it("scales partial tenure by requirement skill weight", () => {
+    const score = computeDomainExperience(
+      [
+        {
+          startDate: new Date("2024-07-01T00:00:00Z"),
+          endDate: new Date("2026-06-01T00:00:00Z"),
+          current: false,
+          skillIds: ["s-python"]
+        }
+      ],
+      weights,
+      100,
+      NOW
+    );
+
+    expect(score).toBeCloseTo((40 * (2 / 5)) / 100, 4);
+  });
+
+  it("stays neutral without dated roles or requirement skills", () => {
+    expect(computeDomainExperience([], weights, 100, NOW)).toBe(0.5);
+    expect(
+      computeDomainExperience([{ startDate: null, endDate: null, current: false, skillIds: ["s-spark"] }], weights, 100, NOW)
+    ).toBe(0.5);
+    expect(computeDomainExperience([], new Map(), 1, NOW)).toBe(0.5);
+  });
+});
+
+describe("computeCertificationMatch", () => {
+  const aws = { name: "AWS Certified Solutions Architect", expiresAt: null };
+
+  it("matches a held certification named in the requirement", () => {
+    expect(computeCertificationMatch([aws], "Cloud engineer. AWS Solutions Architect certification required.", NOW)).toBe(1);
+  });
+
+  it("scores zero when a certification is requested but not held", () => {
+    expect(computeCertificationMatch([aws], "Must be CISSP certified.", NOW)).toBe(0);
+    expect(
+      computeCertificationMatch(
+        [{ ...aws, expiresAt: new Date("2025-01-01T00:00:00Z") }],
+        "AWS Solutions Architect certification required.",
+        NOW
+      )
+    ).toBe(0);
+  });
+
+  it("stays neutral when the requirement does not ask for certifications", () => {
+    expect(computeCertificationMatch([], "Senior React engineer", NOW)).toBe(0.5);
+  });
+});
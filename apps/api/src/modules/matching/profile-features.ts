@@ -0,0 +1,88 @@
+import type { ConsultantCertification, ConsultantExperience } from "@prisma/client";
+
+import { mergedMonths } from "../ingestion/resume-parser";
+
+// Years of hands-on use after which more tenure stops adding to the domain experience score.
+export const DOMAIN_EXPERIENCE_TARGET_YEARS = 5;
+
+// Words shared by most certification names; matching on them alone would tie every certificate to every posting.
+const GENERIC_CERTIFICATION_WORDS = new Set([
+  "certified",
+  "certification",
+  "certificate",
+  "professional",
+  "associate",
+  "specialist",
+  "of",
+  "in",
+  "and",
+  "the"
+]);
+
+const CERTIFICATION_REQUEST = /\bcertif(?:ied|ication|icate)s?\b/i;
+
+/**
+ * Requirement-weighted share of the requirement's skills the consultant has used for the target tenure, counting
+ * dated roles that mention each skill with overlaps merged. Neutral 0.5 when either side has nothing to compare.
+ */
+export function computeDomainExperience(
+  experiences: Pick<ConsultantExperience, "startDate" | "endDate" | "current" | "skillIds">[],
+  requirementSkillWeights: Map<string, number>,
+  requirementWeightTotal: number,
+  now: Date
+): number {
+  const dated = experiences.filter((role) => role.startDate && (role.endDate || role.current));
+  if (!dated.length || !requirementSkillWeights.size) {
+    return 0.5;
+  }
+
+  const intervals = new Map<string, Array<[number, number]>>();
+  for (const role of dated) {
+    const start = toMonthIndex(role.startDate!);
+    const end = toMonthIndex(role.current || !role.endDate ? now : role.endDate);
+    if (end < start) {
+      continue;
+    }
+    for (const skillId of role.skillIds) {
+      if (requirementSkillWeights.has(skillId)) {
+        intervals.set(skillId, [...(intervals.get(skillId) ?? []), [start, end]]);
+      }
+    }
+  }
+
+  let score = 0;
+  for (const [skillId, weight] of requirementSkillWeights) {
+    const years = mergedMonths(intervals.get(skillId) ?? []) / 12;
+    score += weight * Math.min(1, years / DOMAIN_EXPERIENCE_TARGET_YEARS);
+  }
+  return score / (requirementWeightTotal || 1);
+}
+
+/**
+ * 1 when the requirement text names one of the consultant's certifications, 0 when it asks for a certification the
+ * consultant lacks, and neutral 0.5 when it does not ask for any.
+ */
+export function computeCertificationMatch(
+  certifications: Pick<ConsultantCertification, "name" | "expiresAt">[],
+  requirementText: string,
+  now: Date
+): number {
+  const requirementTokens = new Set(tokenize(requirementText));
+  const held = certifications.filter((certification) => !certification.expiresAt || certification.expiresAt >= now);
+  const matched = held.some((certification) => {
+    const tokens = tokenize(certification.name).filter((token) => !GENERIC_CERTIFICATION_WORDS.has(token));
+    return tokens.length > 0 && tokens.every((token) => requirementTokens.has(token));
+  });
+  if (matched) {
+    return 1;
+  }
+  return CERTIFICATION_REQUEST.test(requirementText) ? 0 : 0.5;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9+#]+/g) ?? [];
+}
+
+function toMonthIndex(date: Date): number {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
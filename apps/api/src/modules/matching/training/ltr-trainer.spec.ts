@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_LTR_MODEL, LTR_FEATURE_KEYS, LtrFeatureMap, computeRawScore } from "../learning-to-rank.model";
+import {
+  evaluateOnHoldout,
+  splitByRequirement,
+  trainGradientBoostedTrees,
+  trainLogisticRegression
+} from "./ltr-trainer";
+import type { TrainingSample } from "./ltr-training.types";
+
+function pseudoRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+// Hires are driven by skill overlap and rate alignment; the remaining features are noise.
+function buildSamples(count: number): TrainingSample[] {
+  const random = pseudoRandom(42);
+  return Array.from({ length: count }, (_, index) => {
+    const features = Object.fromEntries(LTR_FEATURE_KEYS.map((key) => [key, Number(random().toFixed(3))])) as LtrFeatureMap;
+    const label: 0 | 1 = features.skillOverlap * 0.7 + features.rateAlignment * 0.3 > 0.5 ? 1 : 0;
+    return {
+      requirementId: `req-${index % 20}`,
+      matchId: `match-${index}`,
+      features,
+      label,
+      relevance: label === 1 ? 2 : 0
+    };
+  });
+}
+
+describe("ltr-trainer", () => {
+  const samples = buildSamples(400);
+  const { train, holdout } = splitByRequirement(samples, 0.25);
+
+  it("splits whole requirements between train and holdout", () => {
+    const trainRequirements = new Set(train.map((sample) => sample.requirementId));
+    expect(holdout.length).toBeGreaterThan(0);
+    expect(holdout.every((sample) => !trainRequirements.has(sample.requirementId))).toBe(true);
+  });
+
+  it("trains gradient boosted trees that beat the default model on holdout", () => {
+    const model = trainGradientBoostedTrees(train, "gbdt-test", { trees: 20 });
+    const trained = evaluateOnHoldout(model, holdout);
+    const baseline = evaluateOnHoldout(DEFAULT_LTR_MODEL, holdout);
+
+    expect(model.trees).toHaveLength(20);
+    expect(trained.ndcgAt10).toBeGreaterThan(baseline.ndcgAt10);
+    expect(trained.logLoss).toBeLessThan(baseline.logLoss);
+  });
+
+  it("trains a logistic model that weights the informative features", () => {
+    const model = trainLogisticRegression(train, "logistic-test");
+    const metrics = evaluateOnHoldout(model, holdout);
+
+    expect(model.weights.skillOverlap ?? 0).toBeGreaterThan(Math.abs(model.weights.recencyScore ?? 0));
+    expect(metrics.ndcgAt10).toBeGreaterThan(0.8);
+
+    const strong = { ...samples[0].features, skillOverlap: 0.95, rateAlignment: 0.9 };
+    const weak = { ...samples[0].features, skillOverlap: 0.05, rateAlignment: 0.1 };
+    expect(computeRawScore(model, strong)).toBeGreaterThan(computeRawScore(model, weak));
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  GradientBoostedModel,
+  LightGbmNode,
+  LogisticModel,
+  LTR_FEATURE_KEYS,
+  LtrFeatureKey,
+  LtrFeatureMap,
+  LtrModel,
+  computeRawScore,
+  evaluateTree,
+  sigmoid
+} from "../learning-to-rank.model";
+import { computeHitRate, computeMean, computeNormalizedDcg } from "../evaluation/evaluation.metrics";
+import { hashToUnit } from "../matching.domain";
+import type {
+  GradientBoostingOptions,
+  HoldoutMetrics,
+  LogisticOptions,
+  TrainingSample
+} from "./ltr-training.types";
+
+export const DEFAULT_GBDT_OPTIONS: GradientBoostingOptions = {
+  trees: 40,
+  maxDepth: 3,
+  learningRate: 0.1,
+  minSamplesLeaf: 5,
+  l2: 1,
+  bins: 16
+};
+
+export const DEFAULT_LOGISTIC_OPTIONS: LogisticOptions = {
+  epochs: 400,
+  learningRate: 0.5,
+  l2: 0.01
+};
+
+const EPSILON = 1e-12;
+
+export function trainGradientBoostedTrees(
+  samples: TrainingSample[],
+  version: string,
+  options: Partial<GradientBoostingOptions> = {}
+): GradientBoostedModel {
+  const config = { ...DEFAULT_GBDT_OPTIONS, ...options };
+  const positives = samples.filter((sample) => sample.label === 1).length;
+  const prior = Math.min(Math.max(positives / Math.max(samples.length, 1), 0.01), 0.99);
+  const baseScore = Math.log(prior / (1 - prior));
+
+  const rawScores = samples.map(() => baseScore);
+  const thresholds = buildCandidateThresholds(samples, config.bins);
+  const trees: LightGbmNode[] = [];
+
+  for (let round = 0; round < config.trees; round += 1) {
+    const gradients = samples.map((sample, index) => sigmoid(rawScores[index]) - sample.label);
+    const hessians = rawScores.map((score) => {
+      const probability = sigmoid(score);
+      return Math.max(probability * (1 - probability), EPSILON);
+    });
+
+    const indices = samples.map((_, index) => index);
+    const tree = growTree(samples, indices, gradients, hessians, thresholds, config, 0);
+    trees.push(tree);
+
+    for (let index = 0; index < samples.length; index += 1) {
+      rawScores[index] += config.learningRate * evaluateTree(tree, samples[index].features);
+    }
+  }
+
+  return {
+    algorithm: "gbdt",
+    version,
+    baseScore: round(baseScore),
+    learningRate: config.learningRate,
+    trees
+  };
+}
+
+export function trainLogisticRegression(
+  samples: TrainingSample[],
+  version: string,
+  options: Partial<LogisticOptions> = {}
+): LogisticModel {
+  const config = { ...DEFAULT_LOGISTIC_OPTIONS, ...options };
+  const weights = Object.fromEntries(LTR_FEATURE_KEYS.map((feature) => [feature, 0])) as LtrFeatureMap;
+  let bias = 0;
+  const count = Math.max(samples.length, 1);
+
+  for (let epoch = 0; epoch < config.epochs; epoch += 1) {
+    const weightGradients = Object.fromEntries(LTR_FEATURE_KEYS.map((feature) => [feature, 0])) as LtrFeatureMap;
+    let biasGradient = 0;
+
+    for (const sample of samples) {
+      const raw = LTR_FEATURE_KEYS.reduce((acc, feature) => acc + weights[feature] * sample.features[feature], bias);
+      const error = sigmoid(raw) - sample.label;
+      biasGradient += error;
+      for (const feature of LTR_FEATURE_KEYS) {
+        weightGradients[feature] += error * sample.features[feature];
+      }
+    }
+
+    bias -= (config.learningRate * biasGradient) / count;
+    for (const feature of LTR_FEATURE_KEYS) {
+      const gradient = weightGradients[feature] / count + config.l2 * weights[feature];
+      weights[feature] -= config.learningRate * gradient;
+    }
+  }
+
+  return {
+    algorithm: "logistic",
+    version,
+    bias: round(bias),
+    weights: Object.fromEntries(LTR_FEATURE_KEYS.map((feature) => [feature, round(weights[feature])]))
+  };
+}
+
+export function evaluateOnHoldout(model: LtrModel, samples: TrainingSample[], topK = 10): HoldoutMetrics {
+  const byRequirement = new Map<string, Array<{ score: number; relevance: number }>>();
+  let logLoss = 0;
+
+  for (const sample of samples) {
+    const probability = Math.min(Math.max(sigmoid(computeRawScore(model, sample.features)), EPSILON), 1 - EPSILON);
+    logLoss -= sample.label * Math.log(probability) + (1 - sample.label) * Math.log(1 - probability);
+
+    const bucket = byRequirement.get(sample.requirementId) ?? [];
+    bucket.push({ score: probability, relevance: sample.relevance });
+    byRequirement.set(sample.requirementId, bucket);
+  }
+
+  const rankings = [...byRequirement.values()].map((bucket) =>
+    bucket.sort((a, b) => b.score - a.score).map((entry) => entry.relevance)
+  );
+
+  return {
+    ndcgAt10: computeMean(rankings.map((relevances) => computeNormalizedDcg(relevances, topK))),
+    hitRateAt10: computeMean(rankings.map((relevances) => computeHitRate(relevances, topK))),
+    logLoss: samples.length > 0 ? round(logLoss / samples.length) : 0,
+    requirements: rankings.length,
+    samples: samples.length
+  };
+}
+
+export function splitByRequirement(
+  samples: TrainingSample[],
+  holdoutRatio: number
+): { train: TrainingSample[]; holdout: TrainingSample[] } {
+  // Hash on requirement so every candidate of a requirement lands in the same split and ranking metrics stay honest.
+  const train: TrainingSample[] = [];
+  const holdout: TrainingSample[] = [];
+  for (const sample of samples) {
+    if (hashToUnit(sample.requirementId) < holdoutRatio) {
+      holdout.push(sample);
+    } else {
+      train.push(sample);
+    }
+  }
+  return { train, holdout };
+}
+
+function growTree(
+  samples: TrainingSample[],
+  indices: number[],
+  gradients: number[],
+  hessians: number[],
+  thresholds: Map<LtrFeatureKey, number[]>,
+  config: GradientBoostingOptions,
+  depth: number
+): LightGbmNode {
+  const gradientSum = sum(indices, gradients);
+  const hessianSum = sum(indices, hessians);
+  const leaf: LightGbmNode = { value: round(-gradientSum / (hessianSum + config.l2)) };
+
+  if (depth >= config.maxDepth || indices.length < config.minSamplesLeaf * 2) {
+    return leaf;
+  }
+
+  const parentGain = (gradientSum * gradientSum) / (hessianSum + config.l2);
+  let best: { feature: LtrFeatureKey; threshold: number; gain: number; left: number[]; right: number[] } | null = null;
+
+  for (const [feature, candidates] of thresholds) {
+    for (const threshold of candidates) {
+      const left: number[] = [];
+      const right: number[] = [];
+      for (const index of indices) {
+        if (samples[index].features[feature] <= threshold) {
+          left.push(index);
+        } else {
+          right.push(index);
+        }
+      }
+      if (left.length < config.minSamplesLeaf || right.length < config.minSamplesLeaf) {
+        continue;
+      }
+
+      const leftGradient = sum(left, gradients);
+      const rightGradient = sum(right, gradients);
+      const gain =
+        (leftGradient * leftGradient) / (sum(left, hessians) + config.l2) +
+        (rightGradient * rightGradient) / (sum(right, hessians) + config.l2) -
+        parentGain;
+
+      if (gain > EPSILON && (!best || gain > best.gain)) {
+        best = { feature, threshold, gain, left, right };
+      }
+    }
+  }
+
+  if (!best) {
+    return leaf;
+  }
+
+  return {
+    feature: best.feature,
+    threshold: best.threshold,
+    left: growTree(samples, best.left, gradients, hessians, thresholds, config, depth + 1),
+    right: growTree(samples, best.right, gradients, hessians, thresholds, config, depth + 1)
+  };
+}
+
+function buildCandidateThresholds(samples: TrainingSample[], bins: number): Map<LtrFeatureKey, number[]> {
+  const thresholds = new Map<LtrFeatureKey, number[]>();
+  for (const feature of LTR_FEATURE_KEYS) {
+    const values = [...new Set(samples.map((sample) => sample.features[feature]))].sort((a, b) => a - b);
+    if (values.length < 2) {
+      continue;
+    }
+    const step = Math.max(1, Math.floor(values.length / bins));
+    const candidates: number[] = [];
+    for (let index = step; index < values.length; index += step) {
+      candidates.push(round((values[index - 1] + values[index]) / 2));
+    }
+    thresholds.set(feature, [...new Set(candidates)]);
+  }
+  return thresholds;
+}
+
+function sum(indices: number[], values: number[]): number {
+  let total = 0;
+  for (const index of indices) {
+    total += values[index];
+  }
+  return total;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(6));
+}
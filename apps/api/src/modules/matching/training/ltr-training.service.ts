@@ -0,0 +1,350 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { MatchFeedbackOutcome, Prisma, RankingModelStatus } from "@prisma/client";
+
+import { PrismaService } from "../../../infrastructure/prisma/prisma.service";
+import { RequestContextService } from "../../../infrastructure/context";
+import { MatchingEvaluationService } from "../evaluation/matching-evaluation.service";
+import { LearningToRankService } from "../learning-to-rank.service";
+import { LtrModel, parseLtrModel, toLtrFeatureMap } from "../learning-to-rank.model";
+import { FEATURE_WEIGHTS, FeatureKey, FeatureVector, clampScore } from "../matching.domain";
+import {
+  evaluateOnHoldout,
+  splitByRequirement,
+  trainGradientBoostedTrees,
+  trainLogisticRegression
+} from "./ltr-trainer";
+import type {
+  GradientBoostingOptions,
+  LogisticOptions,
+  RankingAlgorithm,
+  TrainingGateOptions,
+  TrainingGateResult,
+  TrainingSample
+} from "./ltr-training.types";
+
+const LABELLED_OUTCOMES: MatchFeedbackOutcome[] = [
+  MatchFeedbackOutcome.HIRED,
+  MatchFeedbackOutcome.POSITIVE,
+  MatchFeedbackOutcome.REJECTED,
+  MatchFeedbackOutcome.NEGATIVE
+];
+
+const OUTCOME_RELEVANCE: Partial<Record<MatchFeedbackOutcome, number>> = {
+  [MatchFeedbackOutcome.HIRED]: 3,
+  [MatchFeedbackOutcome.POSITIVE]: 2,
+  [MatchFeedbackOutcome.REJECTED]: 0,
+  [MatchFeedbackOutcome.NEGATIVE]: 0
+};
+
+const LEGACY_FEATURE_DEFAULTS: Partial<FeatureVector> = {
+  domainExperience: 0.5,
+  certificationMatch: 0.5
+};
+
+const DEFAULT_GATE: TrainingGateOptions = {
+  minSamples: 50,
+  minRequirements: 5,
+  minFeedbackCoverage: 0.05,
+  minNdcgLift: 0,
+  holdoutRatio: 0.2
+};
+
+const DEFAULT_WINDOW_DAYS = 180;
+
+export interface TrainRankingModelOptions {
+  algorithm?: RankingAlgorithm;
+  windowDays?: number;
+  activate?: boolean;
+  gate?: Partial<TrainingGateOptions>;
+  gbdt?: Partial<GradientBoostingOptions>;
+  logistic?: Partial<LogisticOptions>;
+}
+
+@Injectable()
+export class LtrTrainingService {
+  private readonly logger = new Logger(LtrTrainingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly evaluation: MatchingEvaluationService,
+    private readonly learningToRank: LearningToRankService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async train(tenantId: string, options: TrainRankingModelOptions = {}) {
+    const algorithm = options.algorithm ?? "gbdt";
+    const gate = { ...DEFAULT_GATE, ...options.gate };
+    const windowEnd = new Date();
+    const windowStart = new Date(windowEnd.getTime() - (options.windowDays ?? DEFAULT_WINDOW_DAYS) * 24 * 60 * 60 * 1000);
+
+    const evaluation = await this.evaluation.evaluateTenant(tenantId, { windowStart, windowEnd });
+    const samples = await this.loadSamples(tenantId, windowStart, windowEnd);
+
+    const dataGate = this.checkDataGate(evaluation.offline, samples, gate);
+    if (!dataGate.passed) {
+      this.logger.log(`Skipping ranking model training for tenant ${tenantId}: ${dataGate.reasons.join("; ")}`);
+      return { status: "SKIPPED" as const, gate: dataGate, evaluation: evaluation.offline, sampleCount: samples.length };
+    }
+
+    const { train, holdout } = splitByRequirement(samples, gate.holdoutRatio);
+    if (train.length === 0 || holdout.length === 0) {
+      const reasons = ["Not enough distinct requirements to build a holdout split"];
+      return {
+        status: "SKIPPED" as const,
+        gate: { passed: false, reasons },
+        evaluation: evaluation.offline,
+        sampleCount: samples.length
+      };
+    }
+
+    // The per-tenant sequence keeps versions unique when two runs finish within the same second.
+    const sequence = (await this.prisma.rankingModel.count({ where: { tenantId } })) + 1;
+    const version = `${algorithm}-${windowEnd.toISOString().replace(/[-:TZ.]/g, "").slice(0, 14)}-${sequence}`;
+    const candidate: LtrModel =
+      algorithm === "logistic"
+        ? trainLogisticRegression(train, version, options.logistic)
+        : trainGradientBoostedTrees(train, version, options.gbdt);
+
+    const incumbent = await this.learningToRank.resolveModel(tenantId);
+    const candidateMetrics = evaluateOnHoldout(candidate, holdout);
+    const incumbentMetrics = evaluateOnHoldout(incumbent, holdout);
+
+    const lift = Number((candidateMetrics.ndcgAt10 - incumbentMetrics.ndcgAt10).toFixed(6));
+    const modelGate: TrainingGateResult =
+      lift >= gate.minNdcgLift
+        ? { passed: true, reasons: [] }
+        : {
+            passed: false,
+            reasons: [
+              `Holdout nDCG@10 ${candidateMetrics.ndcgAt10} does not beat ${incumbent.version} (${incumbentMetrics.ndcgAt10}) by ${gate.minNdcgLift}`
+            ]
+          };
+
+    const activate = modelGate.passed && options.activate !== false;
+    const status = !modelGate.passed
+      ? RankingModelStatus.REJECTED
+      : activate
+        ? RankingModelStatus.ACTIVE
+        : RankingModelStatus.CANDIDATE;
+
+    const record = await this.persistModel(tenantId, version, async (tx) => {
+      if (activate) {
+        await tx.rankingModel.updateMany({
+          where: { tenantId, status: RankingModelStatus.ACTIVE },
+          data: { status: RankingModelStatus.RETIRED }
+        });
+      }
+
+      return tx.rankingModel.create({
+        data: {
+          tenantId,
+          version,
+          algorithm,
+          status,
+          definition: candidate as unknown as Prisma.InputJsonValue,
+          metrics: {
+            candidate: candidateMetrics,
+            incumbent: { version: incumbent.version, ...incumbentMetrics },
+            lift,
+            trainSamples: train.length,
+            evaluation: evaluation.offline
+          } as unknown as Prisma.InputJsonValue,
+          gate: modelGate as unknown as Prisma.InputJsonValue,
+          sampleCount: samples.length,
+          windowStart,
+          windowEnd,
+          trainedBy: this.context.getUser()?.sub ?? null,
+          activatedAt: activate ? new Date() : null
+        }
+      });
+    });
+
+    if (activate) {
+      this.learningToRank.invalidate(tenantId);
+    }
+
+    this.logger.log(
+      `Trained ${version} for tenant ${tenantId}: nDCG@10 ${candidateMetrics.ndcgAt10} vs ${incumbentMetrics.ndcgAt10} (${status})`
+    );
+
+    return { status, gate: modelGate, model: this.toSummary(record), evaluation: evaluation.offline, sampleCount: samples.length };
+  }
+
+  async listModels(tenantId: string) {
+    const models = await this.prisma.rankingModel.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: "desc" },
+      take: 50
+    });
+    return models.map((model) => this.toSummary(model));
+  }
+
+  async activateModel(tenantId: string, modelId: string) {
+    const model = await this.prisma.rankingModel.findFirst({ where: { id: modelId, tenantId } });
+    if (!model) {
+      throw new NotFoundException(`Ranking model ${modelId} not found`);
+    }
+    if (model.status === RankingModelStatus.REJECTED) {
+      throw new BadRequestException(`Ranking model ${model.version} failed its evaluation gate`);
+    }
+    if (model.status === RankingModelStatus.ACTIVE) {
+      return this.toSummary(model);
+    }
+    if (!parseLtrModel(model.definition)) {
+      throw new BadRequestException(`Ranking model ${model.version} has a malformed definition`);
+    }
+
+    const activated = await this.prisma.$transaction(async (tx) => {
+      await tx.rankingModel.updateMany({
+        where: { tenantId, status: RankingModelStatus.ACTIVE },
+        data: { status: RankingModelStatus.RETIRED }
+      });
+      return tx.rankingModel.update({
+        where: { id: model.id },
+        data: { status: RankingModelStatus.ACTIVE, activatedAt: new Date() }
+      });
+    });
+
+    this.learningToRank.invalidate(tenantId);
+    return this.toSummary(activated);
+  }
+
+  private async persistModel<T>(
+    tenantId: string,
+    version: string,
+    write: (tx: Prisma.TransactionClient) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await this.prisma.$transaction(write);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        throw new ConflictException(`Ranking model ${version} already exists for tenant ${tenantId}; retry training`);
+      }
+      throw error;
+    }
+  }
+
+  private async loadSamples(tenantId: string, windowStart: Date, windowEnd: Date): Promise<TrainingSample[]> {
+    const matches = await this.prisma.match.findMany({
+      where: {
+        tenantId,
+        createdAt: { gte: windowStart, lte: windowEnd },
+        feedbackRecords: { some: { outcome: { in: LABELLED_OUTCOMES } } }
+      },
+      include: {
+        feedbackRecords: {
+          where: { outcome: { in: LABELLED_OUTCOMES } },
+          orderBy: { createdAt: "desc" },
+          select: { outcome: true }
+        },
+        featureSnapshots: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { features: true, explanation: true }
+        }
+      }
+    });
+
+    return matches.flatMap((match) => {
+      const snapshot = match.featureSnapshots[0];
+      const outcome = match.feedbackRecords[0]?.outcome;
+      if (!snapshot || !outcome) {
+        return [];
+      }
+
+      const features = this.parseFeatures(snapshot.features);
+      if (!features) {
+        return [];
+      }
+
+      const explanation = snapshot.explanation as { scores?: { linear?: number } } | null;
+      const linearScore = explanation?.scores?.linear ?? this.computeLinearScore(features);
+      const retrievalScore = clampScore(0.6 * features.vectorScore + 0.4 * features.lexicalScore);
+      const label: 0 | 1 = outcome === MatchFeedbackOutcome.HIRED || outcome === MatchFeedbackOutcome.POSITIVE ? 1 : 0;
+
+      return [
+        {
+          requirementId: match.requirementId,
+          matchId: match.id,
+          features: toLtrFeatureMap(features, linearScore, retrievalScore),
+          label,
+          relevance: OUTCOME_RELEVANCE[outcome] ?? 0
+        }
+      ];
+    });
+  }
+
+  private checkDataGate(
+    offline: { coverage: number; sampleSize: number },
+    samples: TrainingSample[],
+    gate: TrainingGateOptions
+  ): TrainingGateResult {
+    const reasons: string[] = [];
+    if (samples.length < gate.minSamples) {
+      reasons.push(`Only ${samples.length} labelled samples (need ${gate.minSamples})`);
+    }
+    if (offline.sampleSize < gate.minRequirements) {
+      reasons.push(`Only ${offline.sampleSize} evaluated requirements (need ${gate.minRequirements})`);
+    }
+    if (offline.coverage < gate.minFeedbackCoverage) {
+      reasons.push(`Feedback coverage ${offline.coverage} is below ${gate.minFeedbackCoverage}`);
+    }
+    const positives = samples.filter((sample) => sample.label === 1).length;
+    if (positives === 0 || positives === samples.length) {
+      reasons.push("Labels contain a single class");
+    }
+    return { passed: reasons.length === 0, reasons };
+  }
+
+  private parseFeatures(value: Prisma.JsonValue): FeatureVector | null {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return null;
+    }
+    // Snapshots taken before the profile features existed lack them; read those as the neutral value.
+    const record = { ...LEGACY_FEATURE_DEFAULTS, ...(value as Record<string, unknown>) };
+    const keys = Object.keys(FEATURE_WEIGHTS) as FeatureKey[];
+    if (!keys.every((key) => typeof record[key] === "number")) {
+      return null;
+    }
+    return Object.fromEntries(keys.map((key) => [key, record[key] as number])) as FeatureVector;
+  }
+
+  private computeLinearScore(features: FeatureVector): number {
+    return clampScore(
+      (Object.keys(FEATURE_WEIGHTS) as FeatureKey[]).reduce(
+        (acc, feature) => acc + features[feature] * FEATURE_WEIGHTS[feature],
+        0
+      )
+    );
+  }
+
+  private toSummary(model: {
+    id: string;
+    version: string;
+    algorithm: string;
+    status: RankingModelStatus;
+    metrics: Prisma.JsonValue;
+    gate: Prisma.JsonValue;
+    sampleCount: number;
+    windowStart: Date;
+    windowEnd: Date;
+    trainedBy: string | null;
+    activatedAt: Date | null;
+    createdAt: Date;
+  }) {
+    return {
+      id: model.id,
+      version: model.version,
+      algorithm: model.algorithm,
+      status: model.status,
+      metrics: model.metrics,
+      gate: model.gate,
+      sampleCount: model.sampleCount,
+      windowStart: model.windowStart,
+      windowEnd: model.windowEnd,
+      trainedBy: model.trainedBy,
+      activatedAt: model.activatedAt,
+      createdAt: model.createdAt
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import type { LtrFeatureMap } from "../learning-to-rank.model";
+
+export type RankingAlgorithm = "gbdt" | "logistic";
+
+export interface TrainingSample {
+  requirementId: string;
+  matchId: string;
+  features: LtrFeatureMap;
+  label: 0 | 1;
+  relevance: number;
+}
+
+export interface GradientBoostingOptions {
+  trees: number;
+  maxDepth: number;
+  learningRate: number;
+  minSamplesLeaf: number;
+  l2: number;
+  bins: number;
+}
+
+export interface LogisticOptions {
+  epochs: number;
+  learningRate: number;
+  l2: number;
+}
+
+export interface TrainingGateOptions {
+  minSamples: number;
+  minRequirements: number;
+  minFeedbackCoverage: number;
+  minNdcgLift: number;
+  holdoutRatio: number;
+}
+
+export interface HoldoutMetrics {
+  ndcgAt10: number;
+  hitRateAt10: number;
+  logLoss: number;
+  requirements: number;
+  samples: number;
+}
+
+export interface TrainingGateResult {
+  passed: boolean;
+  reasons: string[];
+}
@@ -4,8 +4,10 @@ import { Injectable, Logger } from "@nestjs/common";
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
 
-  async notify(tenantId: string, message: { subject: string; body: string }) {
-    this.logger.log(`[${tenantId}] ${message.subject} :: ${message.body}`);
+  /** `recipient` is the auth subject of a single user; without it the message goes to the tenant. */
+  async notify(tenantId: string, message: { subject: string; body: string; recipient?: string }) {
+    const target = message.recipient ? `${tenantId}/${message.recipient}` : tenantId;
+    this.logger.log(`[${target}] ${message.subject} :: ${message.body}`);
     return { status: "ok" };
   }
 }
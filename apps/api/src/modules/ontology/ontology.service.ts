@@ -1,8 +1,13 @@
 import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { SkillAliasMatchType } from "@prisma/client";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { SkillRef, tokenizeSkillText } from "../ingestion/resume-parser";
 import { CreateOntologyVersionDto, OntologySkillDto, UpsertSkillOntologyDto } from "./dto/upsert-skill-ontology.dto";
 
+// Stems are left to the text-search dictionary; custom aliases are too loose to widen a recruiter's query.
+const EXPANSION_ALIAS_TYPES: SkillAliasMatchType[] = [SkillAliasMatchType.SYNONYM, SkillAliasMatchType.ACRONYM];
+
 @Injectable()
 export class OntologyService {
   constructor(private readonly prisma: PrismaService) {}
@@ -88,6 +93,85 @@ export class OntologyService {
     return version;
   }
 
+  /**
+   * Maps each term that names a skill in the active ontology, by canonical name or by synonym/acronym alias,
+   * to the other names of that skill. Keys are lower-cased; terms without a match are absent.
+   */
+  async expandSkillTerms(terms: string[]): Promise<Map<string, string[]>> {
+    const values = Array.from(new Set(terms.map((term) => term.trim().toLowerCase()).filter(Boolean)));
+    const expansions = new Map<string, string[]>();
+    if (values.length === 0) {
+      return expansions;
+    }
+
+    const nodes = await this.prisma.skillOntologyNode.findMany({
+      where: {
+        version: { isActive: true },
+        OR: [
+          { canonicalName: { in: values, mode: "insensitive" } },
+          { aliases: { some: { value: { in: values }, matchType: { in: EXPANSION_ALIAS_TYPES } } } }
+        ]
+      },
+      include: { aliases: { where: { matchType: { in: EXPANSION_ALIAS_TYPES } } } }
+    });
+
+    for (const node of nodes) {
+      const names = [node.canonicalName, ...node.aliases.map((alias) => alias.value)];
+      for (const name of names) {
+        const key = name.toLowerCase();
+        if (!values.includes(key)) {
+          continue;
+        }
+        const others = names.filter((other) => other.toLowerCase() !== key);
+        expansions.set(key, Array.from(new Set([...(expansions.get(key) ?? []), ...others])));
+      }
+    }
+    return expansions;
+  }
+
+  /**
+   * Catalog skills keyed by tokenized name for `findSkills`, plus the synonyms and acronyms of their nodes in the
+   * active ontology. A canonical name wins when an alias of another skill tokenizes the same way.
+   */
+  async buildSkillLookup(): Promise<{ lookup: Map<string, SkillRef>; maxWords: number }> {
+    const skills = await this.prisma.skill.findMany({
+      select: {
+        id: true,
+        name: true,
+        ontologyNode: {
+          select: {
+            version: { select: { isActive: true } },
+            aliases: { where: { matchType: { in: EXPANSION_ALIAS_TYPES } }, select: { value: true } }
+          }
+        }
+      }
+    });
+
+    const lookup = new Map<string, SkillRef>();
+    let maxWords = 1;
+    const add = (term: string, skill: SkillRef, overwrite: boolean) => {
+      const tokens = tokenizeSkillText(term);
+      const key = tokens.join(" ");
+      if (!key || (!overwrite && lookup.has(key))) {
+        return;
+      }
+      lookup.set(key, skill);
+      maxWords = Math.max(maxWords, tokens.length);
+    };
+
+    for (const skill of skills) {
+      add(skill.name, { id: skill.id, name: skill.name }, true);
+    }
+    for (const skill of skills) {
+      if (skill.ontologyNode?.version.isActive) {
+        for (const alias of skill.ontologyNode.aliases) {
+          add(alias.value, { id: skill.id, name: skill.name }, false);
+        }
+      }
+    }
+    return { lookup, maxWords };
+  }
+
   async getCoverageSummary() {
     const activeVersion = await this.getActiveVersion();
     if (!activeVersion) {
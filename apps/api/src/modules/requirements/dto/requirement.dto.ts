@@ -1,16 +1,38 @@
 import { PartialType } from "@nestjs/mapped-types";
 import { Type } from "class-transformer";
-import { IsArray, IsDateString, IsEnum, IsNumber, IsOptional, IsString, Min, ValidateNested } from "class-validator";
-
-import { RequirementSource, RequirementStatus, RequirementType } from "@prisma/client";
-
-class RequirementSkillInput {
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Min,
+  ValidateNested
+} from "class-validator";
+
+import {
+  RequirementRateUnit,
+  RequirementSource,
+  RequirementStatus,
+  RequirementType,
+  RequirementWorkMode
+} from "@prisma/client";
+
+export class RequirementSkillInput {
   @IsString()
   id!: string;
 
   @IsNumber()
   @Min(0)
   weight!: number;
+
+  @IsOptional()
+  @IsBoolean()
+  mustHave?: boolean;
 }
 
 export class CreateRequirementDto {
@@ -30,6 +52,10 @@ export class CreateRequirementDto {
   @IsString()
   location?: string;
 
+  @IsOptional()
+  @IsEnum(RequirementWorkMode)
+  workMode?: RequirementWorkMode;
+
   @IsOptional()
   @IsEnum(RequirementType)
   type?: RequirementType;
@@ -50,6 +76,20 @@ export class CreateRequirementDto {
   @IsNumber()
   maxRate?: number;
 
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  rateCurrency?: string;
+
+  @IsOptional()
+  @IsEnum(RequirementRateUnit)
+  rateUnit?: RequirementRateUnit;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  durationMonths?: number;
+
   @IsOptional()
   @IsDateString()
   closesAt?: string;
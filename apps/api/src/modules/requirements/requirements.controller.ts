@@ -24,6 +24,12 @@ export class RequirementsController {
     return this.requirementsService.get(tenantId, id);
   }
 
+  @Get(":id/revisions")
+  @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER, UserRole.REP, UserRole.VIEWER)
+  revisions(@Param("tenantId") tenantId: string, @Param("id") id: string) {
+    return this.requirementsService.revisions(tenantId, id);
+  }
+
   @Post()
   @Roles(UserRole.OWNER, UserRole.ADMIN, UserRole.MANAGER)
   create(@Param("tenantId") tenantId: string, @Body() dto: CreateRequirementDto) {
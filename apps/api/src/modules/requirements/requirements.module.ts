@@ -1,9 +1,11 @@
 import { Module } from "@nestjs/common";
 
+import { IngestionQueueModule } from "../ingestion/ingestion-queue.module";
 import { RequirementsController } from "./requirements.controller";
 import { RequirementsService } from "./requirements.service";
 
 @Module({
+  imports: [IngestionQueueModule],
   controllers: [RequirementsController],
   providers: [RequirementsService],
   exports: [RequirementsService]
@@ -1,12 +1,15 @@
-import { Injectable, NotFoundException } from "@nestjs/common";
-import { Prisma } from "@prisma/client";
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Prisma, SearchEntityType } from "@prisma/client";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
 import { CreateRequirementDto, UpdateRequirementDto } from "./dto/requirement.dto";
 
 @Injectable()
 export class RequirementsService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(RequirementsService.name);
+
+  constructor(private readonly prisma: PrismaService, private readonly queue: IngestionQueueService) {}
 
   list(tenantId: string, status?: string) {
     return this.prisma.requirement.findMany({
@@ -42,37 +45,60 @@ export class RequirementsService {
     return requirement;
   }
 
-  create(dto: CreateRequirementDto) {
+  /** Field changes applied by email replies in the requirement's thread, newest first. */
+  async revisions(tenantId: string, id: string) {
+    await this.get(tenantId, id);
+    return this.prisma.requirementRevision.findMany({
+      where: { tenantId, requirementId: id },
+      orderBy: { createdAt: "desc" }
+    });
+  }
+
+  async create(dto: CreateRequirementDto) {
     const data: Prisma.RequirementCreateInput = {
       tenant: { connect: { id: dto.tenantId } },
       title: dto.title,
       clientName: dto.clientName,
       description: dto.description,
       location: dto.location,
+      workMode: dto.workMode,
       type: dto.type,
       status: dto.status,
       source: dto.source,
       minRate: dto.minRate ? new Prisma.Decimal(dto.minRate) : undefined,
       maxRate: dto.maxRate ? new Prisma.Decimal(dto.maxRate) : undefined,
+      rateCurrency: dto.rateCurrency?.toUpperCase(),
+      rateUnit: dto.rateUnit,
+      durationMonths: dto.durationMonths,
       closesAt: dto.closesAt ? new Date(dto.closesAt) : undefined,
       skills: {
         create: dto.skills?.map((skill) => ({
           tenant: { connect: { id: dto.tenantId } },
           skill: { connect: { id: skill.id } },
-          weight: skill.weight
+          weight: skill.weight,
+          mustHave: skill.mustHave
         }))
       }
     };
 
-    return this.prisma.requirement.create({
+    const requirement = await this.prisma.requirement.create({
       data,
       include: { skills: { include: { skill: true } } }
     });
+
+    await this.enqueueIndex(dto.tenantId, requirement.id);
+    return requirement;
   }
 
-  async update(tenantId: string, id: string, dto: UpdateRequirementDto) {
+  /** `alongside` runs in the same transaction, for callers whose own writes must commit or fail with the update. */
+  async update(
+    tenantId: string,
+    id: string,
+    dto: UpdateRequirementDto,
+    alongside?: (tx: Prisma.TransactionClient) => Promise<unknown>
+  ) {
     await this.get(tenantId, id);
-    return this.prisma.$transaction(async (tx) => {
+    const updated = await this.prisma.$transaction(async (tx) => {
       if (dto.skills) {
         await tx.requirementSkill.deleteMany({ where: { requirementId: id, tenantId } });
         await tx.requirementSkill.createMany({
@@ -80,7 +106,8 @@ export class RequirementsService {
             tenantId,
             requirementId: id,
             skillId: skill.id,
-            weight: skill.weight
+            weight: skill.weight,
+            mustHave: skill.mustHave
           }))
         });
       }
@@ -90,19 +117,43 @@ export class RequirementsService {
         clientName: dto.clientName,
         description: dto.description,
         location: dto.location,
+        workMode: dto.workMode,
         type: dto.type,
         status: dto.status,
         source: dto.source,
         minRate: dto.minRate ? new Prisma.Decimal(dto.minRate) : undefined,
         maxRate: dto.maxRate ? new Prisma.Decimal(dto.maxRate) : undefined,
+        rateCurrency: dto.rateCurrency?.toUpperCase(),
+        rateUnit: dto.rateUnit,
+        durationMonths: dto.durationMonths,
         closesAt: dto.closesAt ? new Date(dto.closesAt) : undefined
       };
 
-      return tx.requirement.update({
+      const requirement = await tx.requirement.update({
         where: { id },
         data,
         include: { skills: { include: { skill: true } } }
       });
+      await alongside?.(tx);
+      return requirement;
     });
+
+    try {
+      await this.queue.enqueueMatchRescore({ tenantId, trigger: "REQUIREMENT_UPDATED", requirementId: id });
+    } catch (error) {
+      this.logger.warn(`Failed to enqueue match re-scoring for requirement ${id}: ${(error as Error).message}`);
+    }
+    await this.enqueueIndex(tenantId, id);
+
+    return updated;
+  }
+
+  /** Also used by requirement ingestion, which edits requirement rows and skills directly. */
+  async enqueueIndex(tenantId: string, requirementId: string) {
+    try {
+      await this.queue.enqueueSearchIndex({ tenantId, entityType: SearchEntityType.REQUIREMENT, entityId: requirementId });
+    } catch (error) {
+      this.logger.warn(`Failed to enqueue search indexing for requirement ${requirementId}: ${(error as Error).message}`);
+    }
   }
 }
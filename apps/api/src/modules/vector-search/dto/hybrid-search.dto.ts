@@ -1,7 +1,26 @@
 ﻿import { Type } from "class-transformer";
-import { IsArray, IsEnum, IsNumber, IsObject, IsOptional, IsString, Max, MaxLength, Min, ValidateNested } from "class-validator";
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested
+} from "class-validator";
 
-import { SearchEntityType } from "@prisma/client";
+import { ConsultantAvailability, RequirementStatus, SearchEntityType } from "@prisma/client";
+
+import { CHUNK_POOLING_MODES, ChunkPooling, FUSION_STRATEGIES, FusionStrategy } from "../fusion";
+
+export const SKILL_MATCH_MODES = ["all", "any"] as const;
+export type SkillMatchMode = (typeof SKILL_MATCH_MODES)[number];
 
 export class SearchFiltersDto {
   @IsOptional()
@@ -14,14 +33,57 @@ export class SearchFiltersDto {
   @Type(() => String)
   skills?: string[];
 
+  /** `all` (default) requires every listed skill; `any` requires at least one. */
+  @IsOptional()
+  @IsIn(SKILL_MATCH_MODES)
+  skillMatch?: SkillMatchMode;
+
+  /** Every listed tag must be present. */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  /** Consultant documents only. */
+  @IsOptional()
+  @IsEnum(ConsultantAvailability, { each: true })
+  availability?: ConsultantAvailability[];
+
+  /** Requirement documents only. */
+  @IsOptional()
+  @IsEnum(RequirementStatus, { each: true })
+  status?: RequirementStatus[];
+
   @IsOptional()
   @IsString()
   visaStatus?: string;
 
+  /** Consultant rate, or requirement rate range, must overlap [minRate, maxRate]. */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minRate?: number;
+
   @IsOptional()
   @IsNumber()
   @Min(0)
   maxRate?: number;
+
+  @IsOptional()
+  @IsDateString()
+  postedFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  postedTo?: string;
+
+  @IsOptional()
+  @IsDateString()
+  closesFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  closesTo?: string;
 }
 
 export class HybridSearchRequestDto {
@@ -43,4 +105,29 @@ export class HybridSearchRequestDto {
   @Min(1)
   @Max(100)
   limit?: number;
+
+  /** Facet counts are computed over the filtered set; pass false to skip the extra query. */
+  @IsOptional()
+  @IsBoolean()
+  facets?: boolean;
+
+  /** Overrides the tenant's fusion strategy for this request. */
+  @IsOptional()
+  @IsIn(FUSION_STRATEGIES)
+  fusion?: FusionStrategy;
+
+  /** How resume chunk scores roll up to their consultant; defaults to SEARCH_CHUNK_POOLING. */
+  @IsOptional()
+  @IsIn(CHUNK_POOLING_MODES)
+  chunkPooling?: ChunkPooling;
+
+  /** Match the query as plain words, ignoring operators and field prefixes. */
+  @IsOptional()
+  @IsBoolean()
+  plainText?: boolean;
+
+  /** Attaches each hit's rank under every fusion strategy and in the vector and lexical lists. */
+  @IsOptional()
+  @IsBoolean()
+  debug?: boolean;
 }
@@ -1,4 +1,4 @@
-﻿import { IsEnum, IsOptional, IsString } from "class-validator";
+﻿import { IsBoolean, IsEnum, IsOptional, IsString } from "class-validator";
 
 import { SearchEntityType } from "@prisma/client";
 
@@ -14,4 +14,9 @@ export class BulkIndexRequestDto {
   @IsOptional()
   @IsEnum(SearchEntityType)
   entityType?: SearchEntityType;
+
+  /** Re-embed every document instead of skipping those whose content is unchanged. */
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
 }
@@ -0,0 +1,65 @@
+﻿import { Type } from "class-transformer";
+import { IsBoolean, IsEnum, IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min, ValidateNested } from "class-validator";
+
+import { SavedSearchSchedule } from "@prisma/client";
+
+import { HybridSearchRequestDto } from "./hybrid-search.dto";
+
+export class CreateSavedSearchDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name!: string;
+
+  @ValidateNested()
+  @Type(() => HybridSearchRequestDto)
+  request!: HybridSearchRequestDto;
+
+  /** Defaults to DAILY; NONE only re-runs on demand or after indexing. */
+  @IsOptional()
+  @IsEnum(SavedSearchSchedule)
+  schedule?: SavedSearchSchedule;
+
+  /** Re-run (debounced) whenever a consultant or requirement of a searched type is indexed. */
+  @IsOptional()
+  @IsBoolean()
+  runOnIndex?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  notify?: boolean;
+}
+
+export class UpdateSavedSearchDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => HybridSearchRequestDto)
+  request?: HybridSearchRequestDto;
+
+  @IsOptional()
+  @IsEnum(SavedSearchSchedule)
+  schedule?: SavedSearchSchedule;
+
+  @IsOptional()
+  @IsBoolean()
+  runOnIndex?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  notify?: boolean;
+}
+
+export class ListSavedSearchRunsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
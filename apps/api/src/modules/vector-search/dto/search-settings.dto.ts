@@ -0,0 +1,28 @@
+﻿import { IsIn, IsInt, IsNumber, IsOptional, Max, Min } from "class-validator";
+
+import { FUSION_STRATEGIES, FusionStrategy } from "../fusion";
+
+/** Per-tenant overrides of the configured fusion defaults; omitted fields keep their current value. */
+export class UpdateSearchSettingsDto {
+  @IsOptional()
+  @IsIn(FUSION_STRATEGIES)
+  fusion?: FusionStrategy;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  vectorWeight?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  lexicalWeight?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  rrfK?: number;
+}
@@ -0,0 +1,24 @@
+export type EmbeddingProviderName = "openai" | "local";
+
+export interface EmbeddingSettings {
+  provider: EmbeddingProviderName;
+  dimensions: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  /** Returns one vector per input, each exactly `dimensions` long. */
+  embed(texts: string[], dimensions: number): Promise<number[][]>;
+}
+
+/** Identifies which provider/model/dimension produced a stored vector. */
+export interface EmbeddingSignature {
+  provider: EmbeddingProviderName | "none";
+  model: string;
+  dimensions: number;
+}
+
+export function formatEmbeddingSignature(signature: EmbeddingSignature): string {
+  return `${signature.provider}:${signature.model}:${signature.dimensions}`;
+}
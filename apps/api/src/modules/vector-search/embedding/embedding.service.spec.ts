@@ -0,0 +1,50 @@
+import type { ConfigService } from "@nestjs/config";
+import { describe, expect, it } from "vitest";
+
+import { EmbeddingService } from "./embedding.service";
+import { LocalHashingEmbeddingProvider } from "./local-hashing-embedding.provider";
+
+function cosine(left: number[], right: number[]) {
+  return left.reduce((sum, value, index) => sum + value * right[index], 0);
+}
+
+describe("LocalHashingEmbeddingProvider", () => {
+  const provider = new LocalHashingEmbeddingProvider();
+
+  it("is deterministic and unit-normalised at the requested dimension", async () => {
+    const [first, second] = await provider.embed(["Senior Java developer", "Senior Java developer"], 256);
+    expect(first).toHaveLength(256);
+    expect(first).toEqual(second);
+    expect(cosine(first, first)).toBeCloseTo(1, 6);
+  });
+
+  it("places related texts closer than unrelated ones", async () => {
+    const [query, related, unrelated] = await provider.embed(
+      ["React TypeScript frontend engineer", "Frontend engineer with React and TypeScript", "Payroll accountant in Chicago"],
+      512
+    );
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
+
+describe("EmbeddingService", () => {
+  const configFor = (values: Record<string, unknown>) =>
+    ({ get: (key: string) => values[key] }) as unknown as ConfigService;
+
+  it("reports the local provider signature and keeps empty inputs as zero vectors", async () => {
+    const service = new EmbeddingService(configFor({ embedding: { provider: "local", dimensions: 64 } }));
+
+    const [empty, filled] = await service.generateEmbeddings(["  ", "Kubernetes"]);
+
+    expect(service.getSignatureKey()).toBe("local:hashed-ngram-v1:64");
+    expect(empty).toEqual(new Array(64).fill(0));
+    expect(filled.some((value) => value !== 0)).toBe(true);
+  });
+
+  it("is disabled when OpenAI is selected without an API key", () => {
+    const service = new EmbeddingService(configFor({ embedding: { provider: "openai", dimensions: 64 } }));
+
+    expect(service.isEnabled()).toBe(false);
+    expect(service.getSignature().provider).toBe("none");
+  });
+});
@@ -0,0 +1,95 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import OpenAI from "openai";
+
+import {
+  EmbeddingProvider,
+  EmbeddingSettings,
+  EmbeddingSignature,
+  formatEmbeddingSignature
+} from "./embedding-provider";
+import { LocalHashingEmbeddingProvider } from "./local-hashing-embedding.provider";
+import { OpenAiEmbeddingProvider } from "./openai-embedding.provider";
+
+interface OpenAIConfig {
+  embeddingModel: string;
+}
+
+@Injectable()
+export class EmbeddingService {
+  private readonly logger = new Logger(EmbeddingService.name);
+  private readonly provider: EmbeddingProvider | null;
+  private readonly dimensions: number;
+
+  constructor(private readonly configService: ConfigService) {
+    const settings = this.configService.get<EmbeddingSettings>("embedding") ?? { provider: "local", dimensions: 3072 };
+    this.dimensions = settings.dimensions;
+    this.provider = this.createProvider(settings);
+  }
+
+  isEnabled(): boolean {
+    return this.provider !== null;
+  }
+
+  getEmbeddingDimensions(): number {
+    return this.dimensions;
+  }
+
+  getSignature(): EmbeddingSignature {
+    return {
+      provider: this.provider?.name ?? "none",
+      model: this.provider?.model ?? "none",
+      dimensions: this.dimensions
+    };
+  }
+
+  /** Compact form stored alongside each indexed vector to detect provider switches. */
+  getSignatureKey(): string {
+    return formatEmbeddingSignature(this.getSignature());
+  }
+
+  async generateEmbedding(input: string): Promise<number[]> {
+    const [vector] = await this.generateEmbeddings([input]);
+    return vector;
+  }
+
+  async generateEmbeddings(inputs: string[]): Promise<number[][]> {
+    if (!this.provider) {
+      throw new Error("No embedding provider is configured; cannot generate embeddings");
+    }
+
+    const trimmed = inputs.map((input) => input.trim());
+    const pending = trimmed.filter((input) => input.length > 0);
+    const vectors = pending.length ? await this.provider.embed(pending, this.dimensions) : [];
+    if (vectors.length !== pending.length) {
+      throw new Error(`Embedding provider ${this.provider.name} returned ${vectors.length} vectors for ${pending.length} inputs`);
+    }
+    vectors.forEach((vector) => this.assertDimensions(vector));
+
+    let cursor = 0;
+    return trimmed.map((input) => (input.length > 0 ? vectors[cursor++] : new Array(this.dimensions).fill(0)));
+  }
+
+  private assertDimensions(vector: number[]) {
+    if (vector.length !== this.dimensions) {
+      const { provider, model } = this.getSignature();
+      throw new Error(
+        `Embedding provider ${provider}/${model} returned ${vector.length} dimensions; expected ${this.dimensions}`
+      );
+    }
+  }
+
+  private createProvider(settings: EmbeddingSettings): EmbeddingProvider | null {
+    if (settings.provider === "local") {
+      return new LocalHashingEmbeddingProvider();
+    }
+
+    const apiKey = this.configService.get<string>("openaiApiKey") ?? "";
+    if (!apiKey) {
+      this.logger.warn("EMBEDDING_PROVIDER=openai but OPENAI_API_KEY is not set; vector search is disabled");
+      return null;
+    }
+    const openaiConfig = this.configService.get<OpenAIConfig>("openai");
+    return new OpenAiEmbeddingProvider(new OpenAI({ apiKey }), openaiConfig?.embeddingModel ?? "text-embedding-3-large");
+  }
+}
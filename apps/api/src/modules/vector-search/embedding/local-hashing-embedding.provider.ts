@@ -0,0 +1,74 @@
+import type { EmbeddingProvider } from "./embedding-provider";
+
+const TOKEN_PATTERN = /[a-z0-9][a-z0-9+#.]*/g;
+
+// Frequent words carry little signal; dampen them the way IDF would without needing a corpus.
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it", "of", "on", "or",
+  "the", "to", "with", "will", "we", "you", "our", "this", "that", "have", "has"
+]);
+
+const UNIGRAM_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.6;
+const TRIGRAM_WEIGHT = 0.25;
+const STOP_WORD_WEIGHT = 0.1;
+
+/**
+ * Deterministic CPU embedding: word unigrams, word bigrams and character trigrams are
+ * feature-hashed into a signed vector with sublinear term frequency, then L2-normalised.
+ * Identical text always maps to the identical vector, so it is safe for tests and air-gapped tenants.
+ */
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local" as const;
+  readonly model = "hashed-ngram-v1";
+
+  async embed(texts: string[], dimensions: number): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text, dimensions));
+  }
+
+  private embedOne(text: string, dimensions: number): number[] {
+    const features = new Map<string, { weight: number; count: number }>();
+    const add = (feature: string, weight: number) => {
+      const entry = features.get(feature);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        features.set(feature, { weight, count: 1 });
+      }
+    };
+
+    const tokens = text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+    tokens.forEach((token, index) => {
+      const stop = STOP_WORDS.has(token);
+      add(`w:${token}`, stop ? STOP_WORD_WEIGHT : UNIGRAM_WEIGHT);
+      if (index > 0) {
+        add(`b:${tokens[index - 1]} ${token}`, stop ? STOP_WORD_WEIGHT : BIGRAM_WEIGHT);
+      }
+      if (!stop) {
+        const padded = `^${token}$`;
+        for (let offset = 0; offset + 3 <= padded.length; offset += 1) {
+          add(`c:${padded.slice(offset, offset + 3)}`, TRIGRAM_WEIGHT);
+        }
+      }
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, { weight, count }] of features) {
+      const bucket = fnv1a(feature, 0x811c9dc5) % dimensions;
+      const sign = fnv1a(feature, 0x01000193) & 1 ? 1 : -1;
+      vector[bucket] += sign * weight * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+function fnv1a(input: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let index = 0; index < input.length; index += 1) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,18 @@
+import OpenAI from "openai";
+
+import type { EmbeddingProvider } from "./embedding-provider";
+
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai" as const;
+
+  constructor(private readonly client: OpenAI, readonly model: string) {}
+
+  async embed(texts: string[], dimensions: number): Promise<number[][]> {
+    // text-embedding-3 models shorten natively when asked, which keeps the vectors normalised.
+    const response = await this.client.embeddings.create({ model: this.model, input: texts, dimensions });
+    return response.data
+      .slice()
+      .sort((left, right) => left.index - right.index)
+      .map((item) => item.embedding);
+  }
+}
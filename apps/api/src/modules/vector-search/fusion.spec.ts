@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { FusionSettings, fuseCandidates } from "./fusion";
+
+describe("fuseCandidates", () => {
+  const settings: FusionSettings = { strategy: "linear", vectorWeight: 0.6, lexicalWeight: 0.4, rrfK: 60 };
+  // Lexical scores (ts_rank_cd) are an order of magnitude smaller than cosine similarities.
+  const candidates = [
+    { id: "a", vectorScore: 0.82, lexicalScore: 0.01 },
+    { id: "b", vectorScore: 0.8, lexicalScore: 0.09 },
+    { id: "c", vectorScore: 0.4, lexicalScore: 0.1 }
+  ];
+
+  it("keeps the raw linear blend as the default", () => {
+    const fused = fuseCandidates(candidates, settings);
+
+    expect(fused.map((item) => item.id)).toEqual(["b", "a", "c"]);
+    expect(fused[0].score).toBeCloseTo(0.6 * 0.8 + 0.4 * 0.09, 6);
+    expect(fused[0].ranks).toBeUndefined();
+  });
+
+  it("rescales both lists before blending with minmax", () => {
+    const fused = fuseCandidates(candidates, { ...settings, strategy: "minmax" });
+
+    expect(fused.map((item) => item.id)).toEqual(["b", "a", "c"]);
+    expect(fused[0].score).toBeCloseTo(0.6 * (0.4 / 0.42) + 0.4 * (0.08 / 0.09), 6);
+  });
+
+  it("fuses ranks with rrf and ignores lists a hit scored nothing in", () => {
+    const fused = fuseCandidates(
+      [
+        { id: "a", vectorScore: 0.9, lexicalScore: 0 },
+        { id: "b", vectorScore: 0.5, lexicalScore: 0.2 }
+      ],
+      { ...settings, strategy: "rrf", vectorWeight: 1, lexicalWeight: 1 }
+    );
+
+    expect(fused.map((item) => item.id)).toEqual(["b", "a"]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61, 6);
+    expect(fused[1].score).toBeCloseTo(1 / 61, 6);
+  });
+
+  it("reports every strategy's rank in debug mode", () => {
+    const fused = fuseCandidates(candidates, { ...settings, strategy: "rrf" }, true);
+
+    expect(fused[0].id).toBe("a");
+    expect(fused[0].ranks).toEqual({ linear: 2, rrf: 1, minmax: 2, vector: 1, lexical: 3 });
+  });
+});
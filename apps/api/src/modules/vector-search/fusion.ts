@@ -0,0 +1,120 @@
+export const FUSION_STRATEGIES = ["linear", "rrf", "minmax"] as const;
+export type FusionStrategy = (typeof FUSION_STRATEGIES)[number];
+
+export const DEFAULT_RRF_K = 60;
+
+/** max: an entity scores as its best matching row; mean: the average over its matching document and resume chunks. */
+export const CHUNK_POOLING_MODES = ["max", "mean"] as const;
+export type ChunkPooling = (typeof CHUNK_POOLING_MODES)[number];
+
+export interface FusionSettings {
+  strategy: FusionStrategy;
+  vectorWeight: number;
+  lexicalWeight: number;
+  /** Rank offset for reciprocal rank fusion; larger values flatten the head of each list. */
+  rrfK: number;
+}
+
+export interface FusionCandidate {
+  vectorScore: number;
+  lexicalScore: number;
+}
+
+/** 1-based rank of a hit under each strategy, plus its rank in each source list (null when it scored 0 there). */
+export type FusionRanks = Record<FusionStrategy, number> & {
+  vector: number | null;
+  lexical: number | null;
+};
+
+export type FusedCandidate<T extends FusionCandidate> = T & { score: number; ranks?: FusionRanks };
+
+/** Descending 1-based ranks; ties keep input order so results are deterministic. */
+function rankPositions(values: number[]): number[] {
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .sort((left, right) => right.value - left.value || left.index - right.index);
+  const ranks = new Array<number>(values.length);
+  order.forEach((entry, position) => {
+    ranks[entry.index] = position + 1;
+  });
+  return ranks;
+}
+
+function normalize(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+  // A list that does not discriminate (e.g. no lexical query) contributes nothing, or 1 if every hit scored.
+  return values.map((value) => (range > 0 ? (value - min) / range : value > 0 ? 1 : 0));
+}
+
+export function fusionScores(
+  candidates: FusionCandidate[],
+  settings: Omit<FusionSettings, "strategy">,
+  strategy: FusionStrategy
+): number[] {
+  const vectorScores = candidates.map((candidate) => candidate.vectorScore);
+  const lexicalScores = candidates.map((candidate) => candidate.lexicalScore);
+
+  switch (strategy) {
+    case "rrf": {
+      const vectorRanks = rankPositions(vectorScores);
+      const lexicalRanks = rankPositions(lexicalScores);
+      return candidates.map(
+        (candidate, index) =>
+          (candidate.vectorScore > 0 ? settings.vectorWeight / (settings.rrfK + vectorRanks[index]) : 0) +
+          (candidate.lexicalScore > 0 ? settings.lexicalWeight / (settings.rrfK + lexicalRanks[index]) : 0)
+      );
+    }
+    case "minmax": {
+      const vector = normalize(vectorScores);
+      const lexical = normalize(lexicalScores);
+      return candidates.map((_, index) => settings.vectorWeight * vector[index] + settings.lexicalWeight * lexical[index]);
+    }
+    default:
+      return candidates.map(
+        (candidate) => settings.vectorWeight * candidate.vectorScore + settings.lexicalWeight * candidate.lexicalScore
+      );
+  }
+}
+
+/**
+ * Scores the candidate pool with the configured strategy and sorts it best-first.
+ * With `debug`, every hit also carries its rank under each strategy and in each source list.
+ */
+export function fuseCandidates<T extends FusionCandidate>(
+  candidates: T[],
+  settings: FusionSettings,
+  debug = false
+): Array<FusedCandidate<T>> {
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const scores = fusionScores(candidates, settings, settings.strategy);
+  const fused: Array<FusedCandidate<T>> = candidates.map((candidate, index) => ({ ...candidate, score: scores[index] }));
+
+  if (debug) {
+    const strategyRanks = Object.fromEntries(
+      FUSION_STRATEGIES.map((strategy) => [strategy, rankPositions(fusionScores(candidates, settings, strategy))])
+    ) as Record<FusionStrategy, number[]>;
+    const vectorRanks = rankPositions(candidates.map((candidate) => candidate.vectorScore));
+    const lexicalRanks = rankPositions(candidates.map((candidate) => candidate.lexicalScore));
+
+    fused.forEach((item, index) => {
+      item.ranks = {
+        linear: strategyRanks.linear[index],
+        rrf: strategyRanks.rrf[index],
+        minmax: strategyRanks.minmax[index],
+        vector: item.vectorScore > 0 ? vectorRanks[index] : null,
+        lexical: item.lexicalScore > 0 ? lexicalRanks[index] : null
+      };
+    });
+  }
+
+  const ranks = rankPositions(scores);
+  return fused
+    .map((item, index) => ({ item, rank: ranks[index] }))
+    .sort((left, right) => left.rank - right.rank)
+    .map((entry) => entry.item);
+}
@@ -0,0 +1,74 @@
+import { BadRequestException } from "@nestjs/common";
+import { describe, expect, it } from "vitest";
+
+import { collectQueryTerms, compileSearchQuery, parseSearchQuery } from "./query-parser";
+
+describe("parseSearchQuery", () => {
+  it("parses phrases, boolean operators and negation", () => {
+    const { root } = parseSearchQuery('"react native" AND (aws OR gcp) -contract');
+
+    expect(root).toEqual({
+      kind: "and",
+      children: [
+        { kind: "term", text: "react native", phrase: true },
+        {
+          kind: "or",
+          children: [
+            { kind: "term", text: "aws", phrase: false },
+            { kind: "term", text: "gcp", phrase: false }
+          ]
+        },
+        { kind: "not", child: { kind: "term", text: "contract", phrase: false } }
+      ]
+    });
+  });
+
+  it("lifts location and rate prefixes into filters and keeps skill terms", () => {
+    const parsed = parseSearchQuery('skill:kubernetes location:"new york" rate:<90 full-stack');
+
+    expect(parsed.location).toBe("new york");
+    expect(parsed.maxRate).toBe(90);
+    expect(parsed.minRate).toBeUndefined();
+    expect(parsed.root).toEqual({
+      kind: "and",
+      children: [
+        { kind: "skill", text: "kubernetes" },
+        { kind: "term", text: "full-stack", phrase: false }
+      ]
+    });
+    expect(parseSearchQuery("rate:60-90")).toMatchObject({ minRate: 60, maxRate: 90 });
+  });
+
+  it("rejects filters that would be optional or negated", () => {
+    expect(() => parseSearchQuery("location:austin OR remote")).toThrow(BadRequestException);
+    expect(() => parseSearchQuery("java -rate:>100")).toThrow(BadRequestException);
+    expect(() => parseSearchQuery("rate:cheap")).toThrow(BadRequestException);
+  });
+
+  it("tolerates unbalanced quotes, parentheses and dangling operators", () => {
+    const { root } = parseSearchQuery('(java OR ) "spring boot');
+
+    expect(collectQueryTerms(root)).toEqual(["java", "spring boot"]);
+  });
+});
+
+describe("compileSearchQuery", () => {
+  it("expands terms, numbers placeholders and leaves negated terms out of the ranking", () => {
+    const { root } = parseSearchQuery("k8s -contract");
+    const compiled = compileSearchQuery(root, new Map([["k8s", ["Kubernetes"]]]), 3);
+
+    expect(compiled.params).toEqual(["k8s", "Kubernetes", "contract"]);
+    expect(compiled.predicate).toContain(`"searchVector" @@ (plainto_tsquery('english', $3) || phraseto_tsquery('english', $4))`);
+    expect(compiled.predicate).toContain("NOT (numnode((plainto_tsquery('english', $5)))");
+    expect(compiled.rankQuery).not.toContain("$5");
+    expect(compiled.embeddingText).toBe("k8s Kubernetes");
+  });
+
+  it("matches skill prefixes against the indexed skill list", () => {
+    const { root } = parseSearchQuery("skill:JS");
+    const compiled = compileSearchQuery(root, new Map([["js", ["JavaScript"]]]), 1);
+
+    expect(compiled.predicate).toMatch(/^EXISTS .* = ANY\(\$3::text\[\]\)\)$/);
+    expect(compiled.params[2]).toEqual(["js", "javascript"]);
+  });
+});
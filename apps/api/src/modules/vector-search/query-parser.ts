@@ -0,0 +1,363 @@
+import { BadRequestException } from "@nestjs/common";
+
+import { jsonArray } from "./search-filters";
+
+/**
+ * Recruiter query syntax:
+ *   "react native" AND (aws OR gcp) -contract skill:kubernetes location:austin rate:<90
+ * Terms are implicitly ANDed; AND, OR and NOT must be upper case. `-` negates the term, phrase or group it prefixes.
+ * `skill:` matches the indexed skill list; `location:` and `rate:` become structured filters and so may only
+ * appear in the top-level conjunction.
+ */
+export type QueryNode =
+  | { kind: "term"; text: string; phrase: boolean }
+  | { kind: "skill"; text: string }
+  | { kind: "and"; children: QueryNode[] }
+  | { kind: "or"; children: QueryNode[] }
+  | { kind: "not"; child: QueryNode };
+
+export interface ParsedSearchQuery {
+  root: QueryNode | null;
+  location?: string;
+  minRate?: number;
+  maxRate?: number;
+}
+
+export interface CompiledSearchQuery {
+  /** Boolean SQL predicate over SearchDocument, or null when the query has no text or skill terms. */
+  predicate: string | null;
+  /** tsquery expression ranking documents by the positive terms and their expansions. */
+  rankQuery: string | null;
+  params: unknown[];
+  /** Positive terms plus expansions, embedded in place of the raw query so operators do not skew the vector. */
+  embeddingText: string;
+}
+
+type Token =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not" | "minus" }
+  | { type: "word" | "phrase"; value: string }
+  | { type: "field"; name: string; value: string };
+
+const FIELD_ALIASES: Record<string, "skill" | "location" | "rate"> = {
+  skill: "skill",
+  skills: "skill",
+  location: "location",
+  rate: "rate"
+};
+
+const OPERATORS: Record<string, Token["type"]> = { AND: "and", OR: "or", NOT: "not" };
+
+function readQuoted(input: string, start: number) {
+  const end = input.indexOf('"', start + 1);
+  // An unterminated quote runs to the end of the query rather than failing the search.
+  const stop = end === -1 ? input.length : end;
+  return { value: input.slice(start + 1, stop).trim(), next: stop + 1 };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    const char = input[position];
+    if (/\s/.test(char)) {
+      position += 1;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen" });
+      position += 1;
+      continue;
+    }
+    // A leading dash negates; a dash inside a word ("full-stack") does not.
+    if (char === "-" && position + 1 < input.length && !/\s/.test(input[position + 1])) {
+      tokens.push({ type: "minus" });
+      position += 1;
+      continue;
+    }
+    if (char === '"') {
+      const { value, next } = readQuoted(input, position);
+      if (value) {
+        tokens.push({ type: "phrase", value });
+      }
+      position = next;
+      continue;
+    }
+
+    let end = position;
+    while (end < input.length && !/[\s()"]/.test(input[end])) {
+      end += 1;
+    }
+    const word = input.slice(position, end);
+    position = end;
+
+    const fieldMatch = /^([a-z]+):(.*)$/i.exec(word);
+    const field = fieldMatch ? FIELD_ALIASES[fieldMatch[1].toLowerCase()] : undefined;
+    if (fieldMatch && field) {
+      let value = fieldMatch[2];
+      if (!value && input[position] === '"') {
+        const quoted = readQuoted(input, position);
+        value = quoted.value;
+        position = quoted.next;
+      }
+      if (value) {
+        tokens.push({ type: "field", name: field, value });
+      }
+      continue;
+    }
+
+    const operator = OPERATORS[word];
+    tokens.push(operator ? ({ type: operator } as Token) : { type: "word", value: word });
+  }
+
+  return tokens;
+}
+
+function parseRate(value: string): Pick<ParsedSearchQuery, "minRate" | "maxRate"> {
+  const comparison = /^(<=|>=|<|>)?\s*(\d+(?:\.\d+)?)$/.exec(value);
+  if (comparison) {
+    const amount = Number(comparison[2]);
+    switch (comparison[1]) {
+      case "<":
+      case "<=":
+        return { maxRate: amount };
+      case ">":
+      case ">=":
+        return { minRate: amount };
+      default:
+        return { minRate: amount, maxRate: amount };
+    }
+  }
+
+  const range = /^(\d+(?:\.\d+)?)\s*(?:-|\.\.)\s*(\d+(?:\.\d+)?)$/.exec(value);
+  if (range) {
+    return { minRate: Number(range[1]), maxRate: Number(range[2]) };
+  }
+
+  throw new BadRequestException(`Invalid rate filter "rate:${value}"; use rate:<90, rate:>60 or rate:60-90`);
+}
+
+class QueryParser {
+  private position = 0;
+  private fieldFilterCount = 0;
+  readonly result: ParsedSearchQuery = { root: null };
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ParsedSearchQuery {
+    const children: QueryNode[] = [];
+    while (this.position < this.tokens.length) {
+      const start = this.position;
+      const node = this.parseOr(true);
+      if (node) {
+        children.push(node);
+      }
+      if (this.position === start) {
+        // A stray ")" stops the grammar; skip it rather than reject the whole query.
+        this.position += 1;
+      }
+    }
+    this.result.root = combine("and", children);
+    return this.result;
+  }
+
+  private peek() {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(conjunctive: boolean): QueryNode | null {
+    const filtersBefore = this.fieldFilterCount;
+    const first = this.parseAnd(conjunctive);
+    const children = first ? [first] : [];
+    while (this.peek()?.type === "or") {
+      // The left operand was parsed before the OR was visible; its filters are optional after all.
+      if (this.fieldFilterCount > filtersBefore) {
+        this.rejectNestedFilter();
+      }
+      this.position += 1;
+      const next = this.parseAnd(false);
+      if (next) {
+        children.push(next);
+      }
+    }
+    return combine("or", children);
+  }
+
+  private parseAnd(conjunctive: boolean): QueryNode | null {
+    const children: QueryNode[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type === "or" || token.type === "rparen") {
+        break;
+      }
+      if (token.type === "and") {
+        this.position += 1;
+        continue;
+      }
+      const node = this.parseUnary(conjunctive);
+      if (node) {
+        children.push(node);
+      }
+    }
+    return combine("and", children);
+  }
+
+  private parseUnary(conjunctive: boolean): QueryNode | null {
+    const token = this.peek();
+    if (token?.type === "not" || token?.type === "minus") {
+      this.position += 1;
+      const child = this.parseUnary(false);
+      return child ? { kind: "not", child } : null;
+    }
+    return this.parsePrimary(conjunctive);
+  }
+
+  private parsePrimary(conjunctive: boolean): QueryNode | null {
+    const token = this.tokens[this.position];
+    if (!token) {
+      return null;
+    }
+    this.position += 1;
+
+    switch (token.type) {
+      case "lparen": {
+        const node = this.parseOr(conjunctive);
+        if (this.peek()?.type === "rparen") {
+          this.position += 1;
+        }
+        return node;
+      }
+      case "word":
+        return { kind: "term", text: token.value, phrase: false };
+      case "phrase":
+        return { kind: "term", text: token.value, phrase: true };
+      case "field":
+        if (token.name === "skill") {
+          return { kind: "skill", text: token.value };
+        }
+        if (!conjunctive) {
+          this.rejectNestedFilter();
+        }
+        this.fieldFilterCount += 1;
+        if (token.name === "location") {
+          this.result.location = token.value;
+        } else {
+          Object.assign(this.result, parseRate(token.value));
+        }
+        return null;
+      default:
+        return null;
+    }
+  }
+
+  private rejectNestedFilter(): never {
+    throw new BadRequestException("location: and rate: filters cannot be negated or combined with OR");
+  }
+}
+
+function combine(kind: "and" | "or", children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) {
+    return null;
+  }
+  return children.length === 1 ? children[0] : { kind, children };
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  return new QueryParser(tokenize(input)).parse();
+}
+
+/** Machine-built queries (requirement text, resume summaries) are matched as plain words, without syntax. */
+export function parsePlainQuery(input: string): ParsedSearchQuery {
+  const text = input.trim();
+  return { root: text ? { kind: "term", text, phrase: false } : null };
+}
+
+/** Distinct lower-cased text of every term and skill node, the keys looked up in the skill ontology. */
+export function collectQueryTerms(root: QueryNode | null): string[] {
+  const terms = new Set<string>();
+  const visit = (node: QueryNode) => {
+    switch (node.kind) {
+      case "term":
+      case "skill":
+        terms.add(node.text.toLowerCase());
+        break;
+      case "not":
+        visit(node.child);
+        break;
+      default:
+        node.children.forEach(visit);
+    }
+  };
+  if (root) {
+    visit(root);
+  }
+  return Array.from(terms);
+}
+
+/**
+ * Compiles the query tree to SQL, numbering placeholders from `firstParamIndex`.
+ * Each term matches its own text or any ontology expansion (`expansions`, keyed by lower-cased term).
+ */
+export function compileSearchQuery(
+  root: QueryNode | null,
+  expansions: Map<string, string[]>,
+  firstParamIndex: number
+): CompiledSearchQuery {
+  const params: unknown[] = [];
+  const rankParts: string[] = [];
+  const embeddingParts: string[] = [];
+  const bind = (value: unknown) => {
+    params.push(value);
+    return `$${firstParamIndex + params.length - 1}`;
+  };
+
+  const variantsOf = (text: string) => {
+    const variants = new Map<string, string>();
+    for (const value of [text, ...(expansions.get(text.toLowerCase()) ?? [])]) {
+      variants.set(value.toLowerCase(), value);
+    }
+    return Array.from(variants.values());
+  };
+
+  // Unquoted input keeps plainto_tsquery's bag-of-words semantics; quotes and multi-word skill names need adjacency.
+  const tsQueryOf = (variants: string[], phrase: boolean) =>
+    `(${variants
+      .map((variant, index) => `${index === 0 && !phrase ? "plainto_tsquery" : "phraseto_tsquery"}('english', ${bind(variant)})`)
+      .join(" || ")})`;
+
+  const visit = (node: QueryNode, positive: boolean): string => {
+    switch (node.kind) {
+      case "term": {
+        const variants = variantsOf(node.text);
+        const tsQuery = tsQueryOf(variants, node.phrase);
+        if (positive) {
+          rankParts.push(tsQuery);
+          embeddingParts.push(...variants);
+        }
+        // Stop words compile to an empty tsquery, which matches nothing; treat them as matching everything.
+        return `(numnode(${tsQuery}) = 0 OR "searchVector" @@ ${tsQuery})`;
+      }
+      case "skill": {
+        const variants = variantsOf(node.text);
+        if (positive) {
+          rankParts.push(tsQueryOf(variants, true));
+          embeddingParts.push(...variants);
+        }
+        const placeholder = bind(variants.map((variant) => variant.toLowerCase()));
+        return `EXISTS (SELECT 1 FROM ${jsonArray("skills")} AS skill WHERE lower(skill) = ANY(${placeholder}::text[]))`;
+      }
+      case "not":
+        return `NOT ${visit(node.child, !positive)}`;
+      default:
+        return `(${node.children.map((child) => visit(child, positive)).join(node.kind === "and" ? " AND " : " OR ")})`;
+    }
+  };
+
+  const predicate = root ? visit(root, true) : null;
+  return {
+    predicate,
+    rankQuery: rankParts.length ? rankParts.join(" || ") : null,
+    params,
+    embeddingText: embeddingParts.join(" ")
+  };
+}
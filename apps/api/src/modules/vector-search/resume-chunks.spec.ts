@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { chunkResume } from "./resume-chunks";
+
+describe("chunkResume", () => {
+  it("splits by section and strips PII vault tokens", () => {
+    const chunks = chunkResume(
+      [
+        "Jane {{pii:NAME:1}}",
+        "{{pii:EMAIL:2}}",
+        "Summary",
+        "Data engineer with 8 years of Spark.",
+        "Experience",
+        "Acme Corp - Senior Data Engineer",
+        "Built streaming pipelines.",
+        "",
+        "Globex - Data Engineer",
+        "Education",
+        "BS Computer Science"
+      ].join("\n")
+    );
+
+    expect(chunks.map((chunk) => chunk.key)).toEqual(["contact:0", "summary:0", "experience:0", "education:0"]);
+    expect(chunks[0].content).toBe("Jane");
+    expect(chunks[2].content).toBe("Acme Corp - Senior Data Engineer\nBuilt streaming pipelines.\nGlobex - Data Engineer");
+  });
+
+  it("packs long sections into several bounded chunks", () => {
+    const role = `Senior engineer. ${"Designed and shipped distributed services. ".repeat(20)}`;
+    const chunks = chunkResume(["Experience", ...Array.from({ length: 6 }, () => `${role}\n`)].join("\n"));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.section === "experience" && chunk.content.length <= 1_500)).toBe(true);
+    expect(chunks.map((chunk) => chunk.key)).toEqual(chunks.map((_, index) => `experience:${index}`));
+  });
+
+  it("returns nothing for an empty resume", () => {
+    expect(chunkResume("")).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { ResumeSection, segmentResume } from "../ingestion/resume-parser";
+
+export interface ResumeChunk {
+  /** Stable per consultant while the section text is unchanged: "<section>:<n>". */
+  key: string;
+  section: ResumeSection;
+  content: string;
+}
+
+// Long enough to keep a role or degree together, short enough to stay well inside the embedding context.
+const MAX_CHUNK_LENGTH = 1_500;
+const MAX_CHUNKS = 40;
+
+// Vault tokens ("{{pii:EMAIL:…}}") carry no meaning for search and would only add noise to both indexes.
+const PII_TOKEN = /\{\{[^{}]*\}\}/g;
+
+/**
+ * Splits resume text into section-aware chunks. Each section is packed into chunks of whole paragraphs,
+ * falling back to lines and then hard cuts for walls of text.
+ */
+export function chunkResume(text: string): ResumeChunk[] {
+  const sections = segmentResume(text.replace(PII_TOKEN, " "));
+  const counters = new Map<ResumeSection, number>();
+  const chunks: ResumeChunk[] = [];
+  for (const { section, lines } of sections) {
+    for (const content of packSection(lines.join("\n"))) {
+      const index = counters.get(section) ?? 0;
+      counters.set(section, index + 1);
+      chunks.push({ key: `${section}:${index}`, section, content });
+      if (chunks.length === MAX_CHUNKS) {
+        return chunks;
+      }
+    }
+  }
+  return chunks;
+}
+
+function packSection(body: string): string[] {
+  const pieces = body
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/[ \t]+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => (paragraph.length <= MAX_CHUNK_LENGTH ? [paragraph] : splitLong(paragraph)));
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > MAX_CHUNK_LENGTH) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+function splitLong(paragraph: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (const line of paragraph.split("\n")) {
+    for (let start = 0; start < line.length; start += MAX_CHUNK_LENGTH) {
+      const slice = line.slice(start, start + MAX_CHUNK_LENGTH);
+      if (current && current.length + slice.length + 1 > MAX_CHUNK_LENGTH) {
+        parts.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n${slice}` : slice;
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
@@ -0,0 +1,48 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from "@nestjs/common";
+
+import { SavedSearchService } from "./saved-search.service";
+import { CreateSavedSearchDto, ListSavedSearchRunsQueryDto, UpdateSavedSearchDto } from "./dto/saved-search.dto";
+
+@Controller("tenants/:tenantId/search/saved")
+export class SavedSearchController {
+  constructor(private readonly savedSearches: SavedSearchService) {}
+
+  @Get()
+  list(@Param("tenantId") tenantId: string) {
+    return this.savedSearches.list(tenantId);
+  }
+
+  @Post()
+  create(@Param("tenantId") tenantId: string, @Body() payload: CreateSavedSearchDto) {
+    return this.savedSearches.create(tenantId, payload);
+  }
+
+  @Get(":id")
+  get(@Param("tenantId") tenantId: string, @Param("id") id: string) {
+    return this.savedSearches.get(tenantId, id);
+  }
+
+  @Patch(":id")
+  update(@Param("tenantId") tenantId: string, @Param("id") id: string, @Body() payload: UpdateSavedSearchDto) {
+    return this.savedSearches.update(tenantId, id, payload);
+  }
+
+  @Delete(":id")
+  remove(@Param("tenantId") tenantId: string, @Param("id") id: string) {
+    return this.savedSearches.remove(tenantId, id);
+  }
+
+  @Post(":id/run")
+  run(@Param("tenantId") tenantId: string, @Param("id") id: string) {
+    return this.savedSearches.runNow(tenantId, id);
+  }
+
+  @Get(":id/runs")
+  listRuns(
+    @Param("tenantId") tenantId: string,
+    @Param("id") id: string,
+    @Query() query: ListSavedSearchRunsQueryDto
+  ) {
+    return this.savedSearches.listRuns(tenantId, id, query.limit ?? 20);
+  }
+}
@@ -0,0 +1,117 @@
+import { SavedSearchRunTrigger, SavedSearchSchedule, SearchEntityType } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { RequestContextService } from "../../infrastructure/context";
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { IngestionQueueService } from "../ingestion/ingestion.queue";
+import type { NotificationsService } from "../notifications/notifications.service";
+import { computeNextRunAt, diffResultIds, SavedSearchService } from "./saved-search.service";
+import type { VectorSearchService } from "./vector-search.service";
+
+describe("diffResultIds", () => {
+  it("reports ids that appeared and counts ids that dropped out", () => {
+    expect(diffResultIds(["a", "b", "c"], ["b", "d", "a", "e"])).toEqual({ newIds: ["d", "e"], removedCount: 1 });
+  });
+});
+
+describe("computeNextRunAt", () => {
+  it("advances by the schedule interval and never schedules NONE", () => {
+    const from = new Date("2026-01-01T00:00:00Z");
+    expect(computeNextRunAt(SavedSearchSchedule.HOURLY, from)?.toISOString()).toBe("2026-01-01T01:00:00.000Z");
+    expect(computeNextRunAt(SavedSearchSchedule.WEEKLY, from)?.toISOString()).toBe("2026-01-08T00:00:00.000Z");
+    expect(computeNextRunAt(SavedSearchSchedule.NONE, from)).toBeNull();
+  });
+});
+
+describe("SavedSearchService", () => {
+  const prismaMock = {
+    savedSearch: { findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+    savedSearchRun: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn(), deleteMany: vi.fn() }
+  };
+  const vectorSearchMock = { search: vi.fn() };
+  const notificationsMock = { notify: vi.fn() };
+  const queueMock = { enqueueSavedSearchRun: vi.fn() };
+
+  const service = new SavedSearchService(
+    prismaMock as unknown as PrismaService,
+    vectorSearchMock as unknown as VectorSearchService,
+    notificationsMock as unknown as NotificationsService,
+    queueMock as unknown as IngestionQueueService,
+    {} as RequestContextService
+  );
+
+  const saved = {
+    id: "saved-1",
+    tenantId: "tenant-1",
+    ownerId: "user-1",
+    name: "React in Austin",
+    request: { query: "react", entityTypes: [SearchEntityType.CONSULTANT] },
+    schedule: SavedSearchSchedule.DAILY,
+    runOnIndex: true,
+    notify: true,
+    nextRunAt: new Date("2026-01-01T00:00:00Z")
+  };
+
+  const hit = (entityId: string, snippet?: string) => ({ entityId, entityType: SearchEntityType.CONSULTANT, snippet });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    prismaMock.savedSearch.findFirst.mockResolvedValue(saved);
+    prismaMock.savedSearchRun.create.mockImplementation(async ({ data }) => data);
+    prismaMock.savedSearchRun.findMany.mockResolvedValue([]);
+  });
+
+  it("records the first run as a baseline without notifying", async () => {
+    vectorSearchMock.search.mockResolvedValue({ results: [hit("c-1"), hit("c-2")] });
+    prismaMock.savedSearchRun.findFirst.mockResolvedValue(null);
+
+    const run = await service.processRun({ tenantId: "tenant-1", savedSearchId: "saved-1", trigger: SavedSearchRunTrigger.SCHEDULE });
+
+    expect(vectorSearchMock.search).toHaveBeenCalledWith("tenant-1", expect.objectContaining({ query: "react", facets: false }));
+    expect(run).toMatchObject({ resultCount: 2, newCount: 0, newIds: [], notified: false });
+    expect(notificationsMock.notify).not.toHaveBeenCalled();
+  });
+
+  it("notifies the owner about hits missing from the previous run", async () => {
+    vectorSearchMock.search.mockResolvedValue({ results: [hit("c-1"), hit("c-3", "Senior <mark>React</mark> engineer")] });
+    prismaMock.savedSearchRun.findFirst.mockResolvedValue({ resultIds: ["c-1", "c-2"] });
+
+    const run = await service.processRun({ tenantId: "tenant-1", savedSearchId: "saved-1", trigger: SavedSearchRunTrigger.INDEX });
+
+    expect(run).toMatchObject({ trigger: SavedSearchRunTrigger.INDEX, newIds: ["c-3"], removedCount: 1, notified: true });
+    expect(notificationsMock.notify).toHaveBeenCalledWith("tenant-1", {
+      subject: '1 new result for saved search "React in Austin"',
+      body: "CONSULTANT c-3: Senior React engineer",
+      recipient: "user-1"
+    });
+  });
+
+  it("queues due searches and advances their next run", async () => {
+    const now = new Date("2026-01-01T00:05:00Z");
+    prismaMock.savedSearch.findMany.mockResolvedValue([saved]);
+
+    await expect(service.sweepDue(now)).resolves.toBe(1);
+
+    expect(queueMock.enqueueSavedSearchRun).toHaveBeenCalledWith(
+      { tenantId: "tenant-1", savedSearchId: "saved-1", trigger: SavedSearchRunTrigger.SCHEDULE },
+      { jobId: `saved:saved-1:${saved.nextRunAt.getTime()}` }
+    );
+    expect(prismaMock.savedSearch.update).toHaveBeenCalledWith({
+      where: { id: "saved-1" },
+      data: { nextRunAt: new Date("2026-01-02T00:05:00Z") }
+    });
+  });
+
+  it("only queues index-triggered searches that cover the indexed entity type", async () => {
+    prismaMock.savedSearch.findMany.mockResolvedValue([
+      { id: "saved-1", request: { entityTypes: [SearchEntityType.CONSULTANT] } },
+      { id: "saved-2", request: { entityTypes: [SearchEntityType.REQUIREMENT] } },
+      { id: "saved-3", request: {} }
+    ]);
+
+    await service.onEntityIndexed("tenant-1", SearchEntityType.CONSULTANT);
+
+    const queued = queueMock.enqueueSavedSearchRun.mock.calls.map(([job]) => job.savedSearchId);
+    expect(queued).toEqual(["saved-1", "saved-3"]);
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit
+} from "@nestjs/common";
+import { Prisma, SavedSearch, SavedSearchRunTrigger, SavedSearchSchedule, SearchEntityType } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { RequestContextService } from "../../infrastructure/context";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
+import { SavedSearchRunJob } from "../ingestion/ingestion.types";
+import { NotificationsService } from "../notifications/notifications.service";
+import type { HybridSearchRequestDto } from "./dto/hybrid-search.dto";
+import type { CreateSavedSearchDto, UpdateSavedSearchDto } from "./dto/saved-search.dto";
+import { snippetText } from "./snippets";
+import { HighlightedSearchResult, VectorSearchService } from "./vector-search.service";
+
+const SWEEP_INTERVAL_MS = 60_000;
+const SWEEP_BATCH_SIZE = 200;
+const MAX_RUN_HISTORY = 50;
+const MAX_NOTIFIED_HITS = 10;
+
+const SCHEDULE_INTERVAL_MS: Record<SavedSearchSchedule, number | null> = {
+  [SavedSearchSchedule.NONE]: null,
+  [SavedSearchSchedule.HOURLY]: 60 * 60 * 1000,
+  [SavedSearchSchedule.DAILY]: 24 * 60 * 60 * 1000,
+  [SavedSearchSchedule.WEEKLY]: 7 * 24 * 60 * 60 * 1000
+};
+
+export function computeNextRunAt(schedule: SavedSearchSchedule, from: Date): Date | null {
+  const interval = SCHEDULE_INTERVAL_MS[schedule];
+  return interval === null ? null : new Date(from.getTime() + interval);
+}
+
+/** Entity ids in `current` that were not in `previous`, and the count that dropped out. */
+export function diffResultIds(previous: string[], current: string[]) {
+  const before = new Set(previous);
+  const after = new Set(current);
+  return {
+    newIds: current.filter((id) => !before.has(id)),
+    removedCount: previous.filter((id) => !after.has(id)).length
+  };
+}
+
+@Injectable()
+export class SavedSearchService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SavedSearchService.name);
+  private sweepHandle: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly vectorSearch: VectorSearchService,
+    private readonly notifications: NotificationsService,
+    private readonly queue: IngestionQueueService,
+    private readonly context: RequestContextService
+  ) {}
+
+  onModuleInit() {
+    this.sweepHandle = setInterval(() => void this.safeSweep(), SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.sweepHandle) {
+      clearInterval(this.sweepHandle);
+      this.sweepHandle = null;
+    }
+  }
+
+  list(tenantId: string) {
+    return this.prisma.savedSearch.findMany({
+      where: { tenantId, ownerId: this.requireOwner() },
+      orderBy: { createdAt: "desc" }
+    });
+  }
+
+  async get(tenantId: string, id: string) {
+    const saved = await this.prisma.savedSearch.findFirst({ where: { id, tenantId, ownerId: this.requireOwner() } });
+    if (!saved) {
+      throw new NotFoundException(`Saved search ${id} not found`);
+    }
+    return saved;
+  }
+
+  async create(tenantId: string, dto: CreateSavedSearchDto) {
+    const ownerId = this.requireOwner();
+    await this.assertNameAvailable(tenantId, ownerId, dto.name);
+
+    const schedule = dto.schedule ?? SavedSearchSchedule.DAILY;
+    const saved = await this.prisma.savedSearch.create({
+      data: {
+        tenantId,
+        ownerId,
+        name: dto.name.trim(),
+        request: dto.request as unknown as Prisma.InputJsonValue,
+        schedule,
+        runOnIndex: dto.runOnIndex ?? false,
+        notify: dto.notify ?? true,
+        nextRunAt: computeNextRunAt(schedule, new Date())
+      }
+    });
+
+    // The first run is the baseline later runs are diffed against; a failure here only delays it.
+    try {
+      await this.execute(tenantId, saved, SavedSearchRunTrigger.MANUAL);
+    } catch (error) {
+      this.logger.warn(`Baseline run for saved search ${saved.id} failed: ${(error as Error).message}`);
+    }
+    return this.get(tenantId, saved.id);
+  }
+
+  async update(tenantId: string, id: string, dto: UpdateSavedSearchDto) {
+    const existing = await this.get(tenantId, id);
+    if (dto.name && dto.name.trim() !== existing.name) {
+      await this.assertNameAvailable(tenantId, existing.ownerId, dto.name);
+    }
+
+    const schedule = dto.schedule ?? existing.schedule;
+    return this.prisma.savedSearch.update({
+      where: { id },
+      data: {
+        name: dto.name?.trim(),
+        request: dto.request ? (dto.request as unknown as Prisma.InputJsonValue) : undefined,
+        schedule,
+        runOnIndex: dto.runOnIndex,
+        notify: dto.notify,
+        nextRunAt: dto.schedule && dto.schedule !== existing.schedule ? computeNextRunAt(schedule, new Date()) : undefined
+      }
+    });
+  }
+
+  async remove(tenantId: string, id: string) {
+    await this.get(tenantId, id);
+    await this.prisma.savedSearch.delete({ where: { id } });
+    return { id, deleted: true };
+  }
+
+  async runNow(tenantId: string, id: string) {
+    const saved = await this.get(tenantId, id);
+    return this.execute(tenantId, saved, SavedSearchRunTrigger.MANUAL);
+  }
+
+  async listRuns(tenantId: string, id: string, limit = 20) {
+    await this.get(tenantId, id);
+    return this.prisma.savedSearchRun.findMany({
+      where: { tenantId, savedSearchId: id },
+      orderBy: { createdAt: "desc" },
+      take: limit
+    });
+  }
+
+  /** Queue handler; a saved search deleted after its job was queued is skipped. */
+  async processRun(job: SavedSearchRunJob) {
+    const saved = await this.prisma.savedSearch.findFirst({ where: { id: job.savedSearchId, tenantId: job.tenantId } });
+    if (!saved) {
+      this.logger.warn(`Saved search ${job.savedSearchId} not found for tenant ${job.tenantId}`);
+      return null;
+    }
+    return this.execute(job.tenantId, saved, job.trigger);
+  }
+
+  /** Queues every saved search that is past its next run time and advances the schedule. */
+  async sweepDue(now = new Date()) {
+    const due = await this.prisma.savedSearch.findMany({
+      where: { schedule: { not: SavedSearchSchedule.NONE }, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: "asc" },
+      take: SWEEP_BATCH_SIZE
+    });
+
+    let queued = 0;
+    for (const saved of due) {
+      try {
+        // Keyed by the due time, so two API instances sweeping together queue one run.
+        await this.queue.enqueueSavedSearchRun(
+          { tenantId: saved.tenantId, savedSearchId: saved.id, trigger: SavedSearchRunTrigger.SCHEDULE },
+          { jobId: `saved:${saved.id}:${saved.nextRunAt?.getTime() ?? 0}` }
+        );
+      } catch (error) {
+        this.logger.warn(`Failed to enqueue saved search ${saved.id}: ${(error as Error).message}`);
+        continue;
+      }
+      await this.prisma.savedSearch.update({
+        where: { id: saved.id },
+        data: { nextRunAt: computeNextRunAt(saved.schedule, now) }
+      });
+      queued += 1;
+    }
+    return queued;
+  }
+
+  /** Called after indexing; queues the tenant's index-triggered saved searches that cover `entityType`. */
+  async onEntityIndexed(tenantId: string, entityType?: SearchEntityType) {
+    const candidates = await this.prisma.savedSearch.findMany({
+      where: { tenantId, runOnIndex: true },
+      select: { id: true, request: true }
+    });
+
+    for (const saved of candidates) {
+      const entityTypes = (saved.request as unknown as HybridSearchRequestDto).entityTypes;
+      if (entityType && entityTypes?.length && !entityTypes.includes(entityType)) {
+        continue;
+      }
+      try {
+        await this.queue.enqueueSavedSearchRun({ tenantId, savedSearchId: saved.id, trigger: SavedSearchRunTrigger.INDEX });
+      } catch (error) {
+        this.logger.warn(`Failed to enqueue saved search ${saved.id}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private async execute(tenantId: string, saved: SavedSearch, trigger: SavedSearchRunTrigger) {
+    const request = saved.request as unknown as HybridSearchRequestDto;
+    const { results } = await this.vectorSearch.search(tenantId, { ...request, facets: false, debug: false });
+
+    const previous = await this.prisma.savedSearchRun.findFirst({
+      where: { tenantId, savedSearchId: saved.id },
+      orderBy: { createdAt: "desc" },
+      select: { resultIds: true }
+    });
+    const resultIds = results.map((result) => result.entityId);
+    // Without a previous run there is nothing to compare against; the first run is the baseline.
+    const { newIds, removedCount } = previous ? diffResultIds(previous.resultIds, resultIds) : { newIds: [], removedCount: 0 };
+
+    let notified = false;
+    if (saved.notify && newIds.length > 0) {
+      const newHits = results.filter((result) => newIds.includes(result.entityId));
+      await this.notifications.notify(tenantId, {
+        subject: `${newIds.length} new result${newIds.length === 1 ? "" : "s"} for saved search "${saved.name}"`,
+        body: this.formatHits(newHits),
+        recipient: saved.ownerId
+      });
+      notified = true;
+    }
+
+    const now = new Date();
+    const run = await this.prisma.savedSearchRun.create({
+      data: {
+        tenantId,
+        savedSearchId: saved.id,
+        trigger,
+        resultCount: resultIds.length,
+        newCount: newIds.length,
+        removedCount,
+        resultIds,
+        newIds,
+        notified
+      }
+    });
+    await this.prisma.savedSearch.update({ where: { id: saved.id }, data: { lastRunAt: now } });
+    await this.pruneRuns(tenantId, saved.id);
+    return run;
+  }
+
+  private formatHits(hits: HighlightedSearchResult[]) {
+    const lines = hits.slice(0, MAX_NOTIFIED_HITS).map((hit) => {
+      const snippet = snippetText(hit.snippet ?? "");
+      return `${hit.entityType} ${hit.entityId}${snippet ? `: ${snippet}` : ""}`;
+    });
+    if (hits.length > MAX_NOTIFIED_HITS) {
+      lines.push(`…and ${hits.length - MAX_NOTIFIED_HITS} more`);
+    }
+    return lines.join("\n");
+  }
+
+  private async pruneRuns(tenantId: string, savedSearchId: string) {
+    const stale = await this.prisma.savedSearchRun.findMany({
+      where: { tenantId, savedSearchId },
+      orderBy: { createdAt: "desc" },
+      skip: MAX_RUN_HISTORY,
+      select: { id: true }
+    });
+    if (stale.length) {
+      await this.prisma.savedSearchRun.deleteMany({ where: { id: { in: stale.map((run) => run.id) } } });
+    }
+  }
+
+  private async assertNameAvailable(tenantId: string, ownerId: string, name: string) {
+    const clash = await this.prisma.savedSearch.findFirst({ where: { tenantId, ownerId, name: name.trim() } });
+    if (clash) {
+      throw new BadRequestException(`Saved search "${name.trim()}" already exists`);
+    }
+  }
+
+  private requireOwner(): string {
+    const ownerId = this.context.getUser()?.sub;
+    if (!ownerId) {
+      throw new ForbiddenException("Missing authenticated user");
+    }
+    return ownerId;
+  }
+
+  private async safeSweep() {
+    try {
+      await this.sweepDue();
+    } catch (error) {
+      this.logger.error(`Saved search sweep failed: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { Job, Worker } from "bullmq";
+
+import { RequestContextService } from "../../infrastructure/context";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
+import { SavedSearchRunJob } from "../ingestion/ingestion.types";
+import { SavedSearchService } from "./saved-search.service";
+
+@Injectable()
+export class SavedSearchWorker implements OnModuleInit, OnModuleDestroy {
+  private worker: Worker<SavedSearchRunJob> | null = null;
+
+  constructor(
+    private readonly queue: IngestionQueueService,
+    private readonly savedSearches: SavedSearchService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async onModuleInit() {
+    this.worker = this.queue.createSavedSearchWorker((job) => this.handle(job));
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    this.worker = null;
+  }
+
+  private handle(job: Job<SavedSearchRunJob>) {
+    return this.context.run(() => {
+      this.context.setTenant(job.data.tenantId);
+      return this.savedSearches.processRun(job.data);
+    });
+  }
+}
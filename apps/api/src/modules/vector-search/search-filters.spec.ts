@@ -0,0 +1,54 @@
+import { ConsultantAvailability } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import { buildFilterPredicates, groupFacetRows } from "./search-filters";
+
+describe("buildFilterPredicates", () => {
+  it("numbers placeholders after the caller's parameters", () => {
+    const { clauses, params } = buildFilterPredicates(
+      { availability: [ConsultantAvailability.AVAILABLE], minRate: 60, maxRate: 90 },
+      4
+    );
+
+    expect(clauses[0]).toContain("= ANY($4::text[])");
+    expect(clauses[1]).toMatch(/>= \$5$/);
+    expect(clauses[2]).toMatch(/<= \$6$/);
+    expect(params).toEqual([[ConsultantAvailability.AVAILABLE], 60, 90]);
+  });
+
+  it("normalises skills and switches between all and any", () => {
+    const all = buildFilterPredicates({ skills: ["React", " react ", "Node.js"] }, 1);
+    const any = buildFilterPredicates({ skills: ["React"], skillMatch: "any" }, 1);
+
+    expect(all.params).toEqual([["react", "node.js"]]);
+    expect(all.clauses[0]).toContain("= cardinality($1::text[])");
+    expect(any.clauses[0]).toMatch(/^EXISTS/);
+  });
+
+  it("bounds posted and closing dates independently", () => {
+    const { clauses, params } = buildFilterPredicates({ postedFrom: "2026-01-01", closesTo: "2026-12-31" }, 2);
+
+    expect(clauses).toEqual([
+      "(metadata->>'postedAt')::timestamptz >= $2::timestamptz",
+      "(metadata->>'closesAt')::timestamptz <= $3::timestamptz"
+    ]);
+    expect(params).toEqual(["2026-01-01", "2026-12-31"]);
+  });
+});
+
+describe("groupFacetRows", () => {
+  it("groups rows per facet, sorted by count", () => {
+    const facets = groupFacetRows([
+      { facet: "skills", value: "Java", count: BigInt(2) },
+      { facet: "skills", value: "React", count: BigInt(5) },
+      { facet: "availability", value: "AVAILABLE", count: 7 }
+    ]);
+
+    expect(facets.skills).toEqual([
+      { value: "React", count: 5 },
+      { value: "Java", count: 2 }
+    ]);
+    expect(facets.availability).toEqual([{ value: "AVAILABLE", count: 7 }]);
+    expect(facets.tags).toEqual([]);
+  });
+});
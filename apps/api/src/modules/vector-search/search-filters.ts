@@ -0,0 +1,153 @@
+import type { SearchFiltersDto } from "./dto/hybrid-search.dto";
+
+export interface SqlPredicates {
+  clauses: string[];
+  params: unknown[];
+}
+
+export type SearchFacetName = "entityType" | "availability" | "status" | "location" | "skills" | "tags";
+
+export interface SearchFacetValue {
+  value: string;
+  count: number;
+}
+
+export type SearchFacets = Record<SearchFacetName, SearchFacetValue[]>;
+
+export interface SearchFacetRow {
+  facet: SearchFacetName;
+  value: string;
+  count: number | bigint;
+}
+
+const FACET_LIMITS: Record<SearchFacetName, number> = {
+  entityType: 2,
+  availability: 10,
+  status: 10,
+  location: 15,
+  skills: 25,
+  tags: 25
+};
+
+// Consultants carry a single rate, requirements a [min, max] range; either bound may be null.
+const RATE_LOW = `COALESCE((metadata->>'rate')::numeric, (metadata->'rateRange'->>0)::numeric, (metadata->'rateRange'->>1)::numeric)`;
+const RATE_HIGH = `COALESCE((metadata->>'rate')::numeric, (metadata->'rateRange'->>1)::numeric, (metadata->'rateRange'->>0)::numeric)`;
+
+export function jsonArray(key: string) {
+  return `jsonb_array_elements_text(COALESCE(metadata->'${key}', '[]'::jsonb))`;
+}
+
+function normalizeValues(values: string[]) {
+  return Array.from(new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Translates structured filters into SQL predicates over SearchDocument.metadata.
+ * Placeholders are numbered from `firstParamIndex` so they can be appended to an existing query.
+ */
+export function buildFilterPredicates(filters: SearchFiltersDto | undefined, firstParamIndex: number): SqlPredicates {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  const bind = (value: unknown) => {
+    params.push(value);
+    return `$${firstParamIndex + params.length - 1}`;
+  };
+
+  if (!filters) {
+    return { clauses, params };
+  }
+
+  if (filters.location) {
+    clauses.push(`coalesce(metadata->>'location', '') ILIKE ${bind(`%${filters.location}%`)}`);
+  }
+
+  const skills = normalizeValues(filters.skills ?? []);
+  if (skills.length) {
+    const placeholder = bind(skills);
+    clauses.push(
+      filters.skillMatch === "any"
+        ? `EXISTS (SELECT 1 FROM ${jsonArray("skills")} AS skill WHERE lower(skill) = ANY(${placeholder}::text[]))`
+        : `(SELECT count(DISTINCT lower(skill)) FROM ${jsonArray("skills")} AS skill ` +
+            `WHERE lower(skill) = ANY(${placeholder}::text[])) = cardinality(${placeholder}::text[])`
+    );
+  }
+
+  const tags = normalizeValues(filters.tags ?? []);
+  if (tags.length) {
+    const placeholder = bind(tags);
+    clauses.push(
+      `(SELECT count(DISTINCT lower(tag)) FROM ${jsonArray("tags")} AS tag ` +
+        `WHERE lower(tag) = ANY(${placeholder}::text[])) = cardinality(${placeholder}::text[])`
+    );
+  }
+
+  if (filters.availability?.length) {
+    clauses.push(`metadata->>'availability' = ANY(${bind(filters.availability)}::text[])`);
+  }
+
+  if (filters.status?.length) {
+    clauses.push(`metadata->>'status' = ANY(${bind(filters.status)}::text[])`);
+  }
+
+  if (typeof filters.minRate === "number") {
+    clauses.push(`${RATE_HIGH} >= ${bind(filters.minRate)}`);
+  }
+  if (typeof filters.maxRate === "number") {
+    clauses.push(`${RATE_LOW} <= ${bind(filters.maxRate)}`);
+  }
+
+  const dateRanges: Array<[string, string | undefined, string | undefined]> = [
+    ["postedAt", filters.postedFrom, filters.postedTo],
+    ["closesAt", filters.closesFrom, filters.closesTo]
+  ];
+  for (const [key, from, to] of dateRanges) {
+    if (from) {
+      clauses.push(`(metadata->>'${key}')::timestamptz >= ${bind(from)}::timestamptz`);
+    }
+    if (to) {
+      clauses.push(`(metadata->>'${key}')::timestamptz <= ${bind(to)}::timestamptz`);
+    }
+  }
+
+  return { clauses, params };
+}
+
+/** One pass over the filtered documents, one UNION branch per facet. */
+export function buildFacetSql(whereSql: string): string {
+  return `
+    WITH matched AS (
+      -- One row per entity however many of its resume chunks matched; its own document ('' sorts first) wins.
+      SELECT DISTINCT ON ("entityType", "entityId") "entityType", metadata FROM "SearchDocument" WHERE ${whereSql}
+      ORDER BY "entityType", "entityId", "chunkKey"
+    )
+    SELECT 'entityType' AS facet, "entityType"::text AS value, count(*) AS count FROM matched GROUP BY 2
+    UNION ALL
+    SELECT 'availability', metadata->>'availability', count(*) FROM matched
+      WHERE metadata->>'availability' IS NOT NULL GROUP BY 2
+    UNION ALL
+    SELECT 'status', metadata->>'status', count(*) FROM matched
+      WHERE metadata->>'status' IS NOT NULL GROUP BY 2
+    UNION ALL
+    SELECT 'location', metadata->>'location', count(*) FROM matched
+      WHERE coalesce(metadata->>'location', '') <> '' GROUP BY 2
+    UNION ALL
+    SELECT 'skills', skill, count(*) FROM matched, ${jsonArray("skills")} AS skill
+      WHERE skill <> '' GROUP BY 2
+    UNION ALL
+    SELECT 'tags', tag, count(*) FROM matched, ${jsonArray("tags")} AS tag GROUP BY 2;
+  `;
+}
+
+export function groupFacetRows(rows: SearchFacetRow[]): SearchFacets {
+  const facets: SearchFacets = { entityType: [], availability: [], status: [], location: [], skills: [], tags: [] };
+  for (const row of rows) {
+    facets[row.facet]?.push({ value: row.value, count: Number(row.count) });
+  }
+
+  for (const name of Object.keys(facets) as SearchFacetName[]) {
+    facets[name] = facets[name]
+      .sort((left, right) => right.count - left.count || left.value.localeCompare(right.value))
+      .slice(0, FACET_LIMITS[name]);
+  }
+  return facets;
+}
@@ -0,0 +1,74 @@
+import { SearchEntityType, SearchIndexRunStatus } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { RequestContextService } from "../../infrastructure/context";
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { IngestionQueueService } from "../ingestion/ingestion.queue";
+import type { EmbeddingService } from "./embedding/embedding.service";
+import type { SavedSearchService } from "./saved-search.service";
+import { SearchIndexService } from "./search-index.service";
+import type { VectorSearchService } from "./vector-search.service";
+
+describe("SearchIndexService", () => {
+  const prismaMock = {
+    searchIndexRun: { findFirst: vi.fn(), update: vi.fn() },
+    consultant: { findMany: vi.fn() },
+    requirement: { findMany: vi.fn() }
+  };
+  const vectorSearchMock = { indexById: vi.fn(), deleteOrphanedDocuments: vi.fn() };
+  const savedSearchesMock = { onEntityIndexed: vi.fn() };
+
+  const service = new SearchIndexService(
+    prismaMock as unknown as PrismaService,
+    vectorSearchMock as unknown as VectorSearchService,
+    {} as EmbeddingService,
+    {} as IngestionQueueService,
+    {} as RequestContextService,
+    savedSearchesMock as unknown as SavedSearchService
+  );
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    prismaMock.searchIndexRun.update.mockImplementation(async ({ data }) => data);
+  });
+
+  it("counts indexed, unchanged and failed documents and sweeps orphans", async () => {
+    prismaMock.searchIndexRun.findFirst.mockResolvedValue({
+      id: "run-1",
+      status: SearchIndexRunStatus.PENDING,
+      entityType: null,
+      force: false
+    });
+    prismaMock.consultant.findMany.mockResolvedValue([{ id: "c-1" }, { id: "c-2" }]);
+    prismaMock.requirement.findMany.mockResolvedValue([{ id: "r-1" }]);
+    vectorSearchMock.indexById
+      .mockResolvedValueOnce("INDEXED")
+      .mockResolvedValueOnce("UNCHANGED")
+      .mockRejectedValueOnce(new Error("embedding timeout"));
+    vectorSearchMock.deleteOrphanedDocuments.mockResolvedValue(4);
+
+    const result = await service.processReindex({ kind: "reindex", tenantId: "tenant-1", runId: "run-1" });
+
+    expect(vectorSearchMock.indexById).toHaveBeenCalledWith("tenant-1", SearchEntityType.CONSULTANT, "c-1", {
+      force: false
+    });
+    expect(result).toMatchObject({
+      status: SearchIndexRunStatus.COMPLETED,
+      indexedCount: 1,
+      unchangedCount: 1,
+      failedCount: 1,
+      deletedCount: 4,
+      failures: [{ entityType: SearchEntityType.REQUIREMENT, entityId: "r-1", error: "embedding timeout" }]
+    });
+    expect(savedSearchesMock.onEntityIndexed).toHaveBeenCalledWith("tenant-1", undefined);
+  });
+
+  it("does not re-run a finished reindex", async () => {
+    prismaMock.searchIndexRun.findFirst.mockResolvedValue({ id: "run-2", status: SearchIndexRunStatus.COMPLETED });
+
+    await service.processReindex({ kind: "reindex", tenantId: "tenant-1", runId: "run-2" });
+
+    expect(vectorSearchMock.indexById).not.toHaveBeenCalled();
+    expect(prismaMock.searchIndexRun.update).not.toHaveBeenCalled();
+  });
+});
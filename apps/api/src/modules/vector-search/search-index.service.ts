@@ -0,0 +1,238 @@
+import { Injectable, Logger, NotFoundException, OnApplicationBootstrap } from "@nestjs/common";
+import { Prisma, SearchEntityType, SearchIndexRunStatus } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { RequestContextService } from "../../infrastructure/context";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
+import { SearchEntityIndexJob, SearchReindexJob } from "../ingestion/ingestion.types";
+import { EmbeddingService } from "./embedding/embedding.service";
+import type { BulkIndexRequestDto } from "./dto/index-request.dto";
+import { SavedSearchService } from "./saved-search.service";
+import { SearchIndexOutcome, VectorSearchService } from "./vector-search.service";
+
+// Progress is flushed every N documents; per-document writes would double the cost of a reindex.
+const PROGRESS_FLUSH_EVERY = 25;
+const MAX_RECORDED_FAILURES = 100;
+
+export interface SearchIndexFailure {
+  entityType: SearchEntityType;
+  entityId: string;
+  error: string;
+}
+
+@Injectable()
+export class SearchIndexService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SearchIndexService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly vectorSearch: VectorSearchService,
+    private readonly embeddings: EmbeddingService,
+    private readonly queue: IngestionQueueService,
+    private readonly context: RequestContextService,
+    private readonly savedSearches: SavedSearchService
+  ) {}
+
+  onApplicationBootstrap() {
+    // Runs in the background so a provider switch does not block startup on a database scan.
+    void this.reindexStaleEmbeddings().catch((error) =>
+      this.logger.error(`Embedding reindex check failed: ${(error as Error).message}`)
+    );
+  }
+
+  /**
+   * Starts a reindex for every tenant whose stored vectors came from another provider, model or
+   * dimension. Vectors from different providers are not comparable, so they cannot be mixed.
+   */
+  async reindexStaleEmbeddings() {
+    if (!this.embeddings.isEnabled()) {
+      return [];
+    }
+
+    const tenantIds = await this.vectorSearch.findTenantsWithStaleEmbeddings();
+    const runs = [];
+    for (const tenantId of tenantIds) {
+      const active = await this.prisma.searchIndexRun.findFirst({
+        where: { tenantId, status: { in: [SearchIndexRunStatus.PENDING, SearchIndexRunStatus.RUNNING] } }
+      });
+      if (active) {
+        continue;
+      }
+      this.logger.log(`Embedding model changed to ${this.embeddings.getSignatureKey()}; reindexing tenant ${tenantId}`);
+      runs.push(await this.startReindex(tenantId));
+    }
+    return runs;
+  }
+
+  async startReindex(tenantId: string, dto: BulkIndexRequestDto = {}) {
+    const run = await this.prisma.searchIndexRun.create({
+      data: {
+        tenantId,
+        entityType: dto.entityType ?? null,
+        force: dto.force ?? false,
+        totalCount: await this.countEntities(tenantId, dto.entityType),
+        requestedBy: this.context.getUser()?.sub ?? null
+      }
+    });
+
+    try {
+      await this.queue.enqueueSearchReindex({ tenantId, runId: run.id });
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`Failed to enqueue search reindex ${run.id}: ${message}`);
+      return this.prisma.searchIndexRun.update({
+        where: { id: run.id },
+        data: { status: SearchIndexRunStatus.FAILED, error: message, completedAt: new Date() }
+      });
+    }
+
+    return run;
+  }
+
+  async getRun(tenantId: string, runId: string) {
+    const run = await this.prisma.searchIndexRun.findFirst({ where: { id: runId, tenantId } });
+    if (!run) {
+      throw new NotFoundException(`Search index run ${runId} not found`);
+    }
+
+    const processed = run.indexedCount + run.unchangedCount + run.failedCount;
+    return { ...run, progress: run.totalCount > 0 ? processed / run.totalCount : 1 };
+  }
+
+  listRuns(tenantId: string, limit = 20) {
+    return this.prisma.searchIndexRun.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      select: {
+        id: true,
+        status: true,
+        entityType: true,
+        force: true,
+        totalCount: true,
+        indexedCount: true,
+        unchangedCount: true,
+        failedCount: true,
+        deletedCount: true,
+        requestedBy: true,
+        startedAt: true,
+        completedAt: true,
+        createdAt: true
+      }
+    });
+  }
+
+  /** Incremental single-entity job; errors propagate so the queue retries with backoff. */
+  async processEntity(job: SearchEntityIndexJob): Promise<SearchIndexOutcome> {
+    const outcome = await this.vectorSearch.indexById(job.tenantId, job.entityType, job.entityId);
+    if (outcome === "INDEXED") {
+      await this.savedSearches.onEntityIndexed(job.tenantId, job.entityType);
+    }
+    return outcome;
+  }
+
+  async processReindex(job: SearchReindexJob) {
+    const { tenantId, runId } = job;
+    const run = await this.prisma.searchIndexRun.findFirst({ where: { id: runId, tenantId } });
+    if (!run) {
+      this.logger.warn(`Search index run ${runId} not found for tenant ${tenantId}`);
+      return null;
+    }
+
+    if (run.status === SearchIndexRunStatus.COMPLETED || run.status === SearchIndexRunStatus.FAILED) {
+      return run;
+    }
+
+    try {
+      const targets = await this.listEntities(tenantId, run.entityType);
+      await this.prisma.searchIndexRun.update({
+        where: { id: runId },
+        data: {
+          status: SearchIndexRunStatus.RUNNING,
+          startedAt: new Date(),
+          totalCount: targets.length,
+          indexedCount: 0,
+          unchangedCount: 0,
+          failedCount: 0,
+          deletedCount: 0,
+          failures: [],
+          error: null
+        }
+      });
+
+      const counts = { indexedCount: 0, unchangedCount: 0, failedCount: 0 };
+      const failures: SearchIndexFailure[] = [];
+
+      for (const [position, target] of targets.entries()) {
+        try {
+          const outcome = await this.vectorSearch.indexById(tenantId, target.entityType, target.entityId, {
+            force: run.force
+          });
+          if (outcome === "INDEXED") {
+            counts.indexedCount += 1;
+          } else {
+            // A row deleted mid-run is as good as unchanged: its document is already gone.
+            counts.unchangedCount += 1;
+          }
+        } catch (error) {
+          counts.failedCount += 1;
+          if (failures.length < MAX_RECORDED_FAILURES) {
+            failures.push({ ...target, error: (error as Error).message });
+          }
+        }
+
+        if ((position + 1) % PROGRESS_FLUSH_EVERY === 0) {
+          await this.prisma.searchIndexRun.update({
+            where: { id: runId },
+            data: { ...counts, failures: failures as unknown as Prisma.InputJsonValue }
+          });
+        }
+      }
+
+      const deletedCount = await this.vectorSearch.deleteOrphanedDocuments(tenantId, run.entityType ?? undefined);
+
+      const completed = await this.prisma.searchIndexRun.update({
+        where: { id: runId },
+        data: {
+          ...counts,
+          deletedCount,
+          failures: failures as unknown as Prisma.InputJsonValue,
+          status: SearchIndexRunStatus.COMPLETED,
+          completedAt: new Date()
+        }
+      });
+      if (counts.indexedCount > 0) {
+        await this.savedSearches.onEntityIndexed(tenantId, run.entityType ?? undefined);
+      }
+      return completed;
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`Search index run ${runId} failed: ${message}`);
+      return this.prisma.searchIndexRun.update({
+        where: { id: runId },
+        data: { status: SearchIndexRunStatus.FAILED, error: message, completedAt: new Date() }
+      });
+    }
+  }
+
+  private async countEntities(tenantId: string, entityType?: SearchEntityType | null) {
+    const [consultants, requirements] = await Promise.all([
+      !entityType || entityType === SearchEntityType.CONSULTANT ? this.prisma.consultant.count({ where: { tenantId } }) : 0,
+      !entityType || entityType === SearchEntityType.REQUIREMENT ? this.prisma.requirement.count({ where: { tenantId } }) : 0
+    ]);
+    return consultants + requirements;
+  }
+
+  private async listEntities(tenantId: string, entityType?: SearchEntityType | null) {
+    const targets: Array<{ entityType: SearchEntityType; entityId: string }> = [];
+    if (!entityType || entityType === SearchEntityType.CONSULTANT) {
+      const consultants = await this.prisma.consultant.findMany({ where: { tenantId }, select: { id: true } });
+      targets.push(...consultants.map((item) => ({ entityType: SearchEntityType.CONSULTANT, entityId: item.id })));
+    }
+    if (!entityType || entityType === SearchEntityType.REQUIREMENT) {
+      const requirements = await this.prisma.requirement.findMany({ where: { tenantId }, select: { id: true } });
+      targets.push(...requirements.map((item) => ({ entityType: SearchEntityType.REQUIREMENT, entityId: item.id })));
+    }
+    return targets;
+  }
+}
@@ -0,0 +1,36 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { Job, Worker } from "bullmq";
+
+import { RequestContextService } from "../../infrastructure/context";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
+import { SearchIndexJob } from "../ingestion/ingestion.types";
+import { SearchIndexService } from "./search-index.service";
+
+@Injectable()
+export class SearchIndexWorker implements OnModuleInit, OnModuleDestroy {
+  private worker: Worker<SearchIndexJob> | null = null;
+
+  constructor(
+    private readonly queue: IngestionQueueService,
+    private readonly searchIndex: SearchIndexService,
+    private readonly context: RequestContextService
+  ) {}
+
+  async onModuleInit() {
+    this.worker = this.queue.createSearchIndexWorker((job) => this.handle(job));
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    this.worker = null;
+  }
+
+  private handle(job: Job<SearchIndexJob>) {
+    // Jobs run outside any HTTP request, so scope Prisma's tenant middleware to the job's tenant.
+    return this.context.run(() => {
+      this.context.setTenant(job.data.tenantId);
+      const data = job.data;
+      return data.kind === "reindex" ? this.searchIndex.processReindex(data) : this.searchIndex.processEntity(data);
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Prisma } from "@prisma/client";
+
+import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { UpdateSearchSettingsDto } from "./dto/search-settings.dto";
+import { DEFAULT_RRF_K, FUSION_STRATEGIES, FusionSettings, FusionStrategy } from "./fusion";
+
+// Tenant overrides live in the feature flag table; a disabled or missing flag means config defaults.
+export const SEARCH_SETTINGS_FLAG_KEY = "search.fusion";
+
+interface SearchConfig {
+  vectorWeight: number;
+  lexicalWeight: number;
+  fusion?: FusionStrategy;
+  rrfK?: number;
+}
+
+export interface SearchSettings extends FusionSettings {
+  /** True when the tenant has overrides; false when the values are the configured defaults. */
+  customized: boolean;
+}
+
+@Injectable()
+export class SearchSettingsService {
+  private readonly defaults: FusionSettings;
+
+  constructor(private readonly prisma: PrismaService, private readonly configService: ConfigService) {
+    const searchConfig = this.configService.get<SearchConfig>("search");
+    this.defaults = {
+      strategy: searchConfig?.fusion ?? "linear",
+      vectorWeight: searchConfig?.vectorWeight ?? 0.6,
+      lexicalWeight: searchConfig?.lexicalWeight ?? 0.4,
+      rrfK: searchConfig?.rrfK ?? DEFAULT_RRF_K
+    };
+  }
+
+  async getSettings(tenantId: string): Promise<SearchSettings> {
+    const flag = await this.prisma.featureFlag.findUnique({
+      where: { tenantId_key: { tenantId, key: SEARCH_SETTINGS_FLAG_KEY } }
+    });
+    if (!flag?.enabled) {
+      return { ...this.defaults, customized: false };
+    }
+    return { ...this.applyOverrides(this.defaults, flag.config), customized: true };
+  }
+
+  /** Settings for one search: the request's strategy wins over the tenant's, which wins over config. */
+  async resolve(tenantId: string, requested?: FusionStrategy): Promise<FusionSettings> {
+    const settings = await this.getSettings(tenantId);
+    return {
+      strategy: requested ?? settings.strategy,
+      vectorWeight: settings.vectorWeight,
+      lexicalWeight: settings.lexicalWeight,
+      rrfK: settings.rrfK
+    };
+  }
+
+  async updateSettings(tenantId: string, dto: UpdateSearchSettingsDto): Promise<SearchSettings> {
+    const current = await this.getSettings(tenantId);
+    const next = this.applyOverrides(current, {
+      strategy: dto.fusion,
+      vectorWeight: dto.vectorWeight,
+      lexicalWeight: dto.lexicalWeight,
+      rrfK: dto.rrfK
+    });
+    const config = next as unknown as Prisma.InputJsonValue;
+
+    await this.prisma.featureFlag.upsert({
+      where: { tenantId_key: { tenantId, key: SEARCH_SETTINGS_FLAG_KEY } },
+      create: { tenantId, key: SEARCH_SETTINGS_FLAG_KEY, enabled: true, config },
+      update: { enabled: true, config }
+    });
+    return { ...next, customized: true };
+  }
+
+  async resetSettings(tenantId: string): Promise<SearchSettings> {
+    await this.prisma.featureFlag.deleteMany({ where: { tenantId, key: SEARCH_SETTINGS_FLAG_KEY } });
+    return { ...this.defaults, customized: false };
+  }
+
+  private applyOverrides(base: FusionSettings, overrides: unknown): FusionSettings {
+    if (!overrides || typeof overrides !== "object") {
+      return { ...base };
+    }
+
+    const value = overrides as Record<string, unknown>;
+    const isWeight = (input: unknown): input is number => typeof input === "number" && input >= 0 && input <= 1;
+    return {
+      strategy: FUSION_STRATEGIES.includes(value.strategy as FusionStrategy) ? (value.strategy as FusionStrategy) : base.strategy,
+      vectorWeight: isWeight(value.vectorWeight) ? value.vectorWeight : base.vectorWeight,
+      lexicalWeight: isWeight(value.lexicalWeight) ? value.lexicalWeight : base.lexicalWeight,
+      rrfK: typeof value.rrfK === "number" && value.rrfK > 0 ? value.rrfK : base.rrfK
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  matchSkills,
+  pickBestSentence,
+  renderSnippet,
+  snippetText,
+  splitSentences
+} from "./snippets";
+
+describe("snippets", () => {
+  it("splits indexed fields and sentences", () => {
+    expect(splitSentences("Jane Doe\nBuilt Spark pipelines. Led a team of 4!\n\nReact, Node.js")).toEqual([
+      "Jane Doe",
+      "Built Spark pipelines.",
+      "Led a team of 4!",
+      "React, Node.js"
+    ]);
+  });
+
+  it("picks the sentence closest to the query vector", () => {
+    expect(pickBestSentence([[1, 0], [0.6, 0.8], [0, 1]], [0.5, 0.9])).toBe(1);
+    expect(pickBestSentence([[0, 0]], [1, 0])).toBe(-1);
+  });
+
+  it("returns document skills named by the query once, in document order", () => {
+    expect(matchSkills(["Kubernetes", "Go", "kubernetes", "AWS"], ["aws", "k8s", "Kubernetes"])).toEqual([
+      "Kubernetes",
+      "AWS"
+    ]);
+    expect(matchSkills(null, ["aws"])).toEqual([]);
+  });
+
+  it("escapes indexed text before adding highlight tags", () => {
+    const headline = `<img src=x onerror=alert(1)> ${HIGHLIGHT_START}React${HIGHLIGHT_STOP} & "Node"`;
+    const snippet = renderSnippet(headline);
+
+    expect(snippet).toBe("&lt;img src=x onerror=alert(1)&gt; <mark>React</mark> &amp; &quot;Node&quot;");
+    expect(snippetText(snippet)).toBe('<img src=x onerror=alert(1)> React & "Node"');
+  });
+});
@@ -0,0 +1,86 @@
+import { cosineSimilarity } from "../matching/diversity/shortlist-diversity";
+
+// Private-use sentinels mark ts_headline matches; they are stripped from the content first and only
+// become <mark> tags after the text around them has been HTML-escaped.
+export const HIGHLIGHT_START = "\uE000";
+export const HIGHLIGHT_STOP = "\uE001";
+
+// Two short fragments keep result cards to a couple of lines.
+export const HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, ` + "MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=\" … \"";
+
+// Sentences are embedded on every search, so only the top few vector-only hits get one; the rest show their lead.
+export const MAX_VECTOR_SNIPPETS = 3;
+
+const MAX_SENTENCES_PER_DOCUMENT = 12;
+const MAX_SENTENCE_LENGTH = 240;
+
+/**
+ * lexical: ts_headline fragments with matched terms wrapped in <mark>.
+ * vector: the sentence closest to the query embedding.
+ * lead: the opening sentence, when neither signal is available.
+ */
+export type SnippetSource = "lexical" | "vector" | "lead";
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;"
+};
+
+/** Escapes indexed text and turns highlight sentinels into <mark> tags; the result is safe to render as HTML. */
+export function renderSnippet(text: string): string {
+  return text
+    .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+    .split(HIGHLIGHT_START)
+    .join("<mark>")
+    .split(HIGHLIGHT_STOP)
+    .join("</mark>");
+}
+
+/** The plain text of a rendered snippet, for notifications. */
+export function snippetText(snippet: string): string {
+  const entities = new Map(Object.entries(HTML_ESCAPES).map(([char, entity]) => [entity, char]));
+  return snippet.replace(/<\/?mark>/g, "").replace(/&(?:amp|lt|gt|quot|#39);/g, (entity) => entities.get(entity) ?? entity);
+}
+
+/** Splits indexed content (one field per line) into sentences short enough to show as a snippet. */
+export function splitSentences(content: string): string[] {
+  return content
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0)
+    .slice(0, MAX_SENTENCES_PER_DOCUMENT)
+    .map((sentence) => (sentence.length > MAX_SENTENCE_LENGTH ? `${sentence.slice(0, MAX_SENTENCE_LENGTH - 1)}…` : sentence));
+}
+
+/** Index of the sentence most similar to the query, or -1 when nothing scores above zero. */
+export function pickBestSentence(sentenceVectors: number[][], queryVector: number[]): number {
+  let best = -1;
+  let bestScore = 0;
+  sentenceVectors.forEach((vector, index) => {
+    const score = cosineSimilarity(vector, queryVector);
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/** The document's skills named by the query, its expansions or the skill filter, in document order. */
+export function matchSkills(documentSkills: unknown, queryTerms: Iterable<string>): string[] {
+  if (!Array.isArray(documentSkills)) {
+    return [];
+  }
+  const terms = new Set(Array.from(queryTerms, (term) => term.trim().toLowerCase()));
+  const matched = new Map<string, string>();
+  for (const skill of documentSkills) {
+    if (typeof skill === "string" && skill && terms.has(skill.toLowerCase()) && !matched.has(skill.toLowerCase())) {
+      matched.set(skill.toLowerCase(), skill);
+    }
+  }
+  return Array.from(matched.values());
+}
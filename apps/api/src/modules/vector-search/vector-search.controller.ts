@@ -1,13 +1,21 @@
-﻿import { Body, Controller, Param, ParseIntPipe, Post } from "@nestjs/common";
-import { SearchEntityType } from "@prisma/client";
+﻿import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post, Put, Query } from "@nestjs/common";
+import { UserRole } from "@prisma/client";
 
-import { VectorSearchService, HybridSearchResult } from "./vector-search.service";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { SearchIndexService } from "./search-index.service";
+import { SearchSettingsService } from "./search-settings.service";
+import { VectorSearchService, HybridSearchResponse } from "./vector-search.service";
 import { HybridSearchRequestDto } from "./dto/hybrid-search.dto";
 import { BulkIndexRequestDto, IndexEntityRequestDto } from "./dto/index-request.dto";
+import { UpdateSearchSettingsDto } from "./dto/search-settings.dto";
 
 @Controller("tenants/:tenantId/search")
 export class VectorSearchController {
-  constructor(private readonly vectorSearch: VectorSearchService) {}
+  constructor(
+    private readonly vectorSearch: VectorSearchService,
+    private readonly searchIndex: SearchIndexService,
+    private readonly searchSettings: SearchSettingsService
+  ) {}
 
   @Post("/index")
   indexEntity(@Param("tenantId") tenantId: string, @Body() payload: IndexEntityRequestDto) {
@@ -16,11 +24,41 @@ export class VectorSearchController {
 
   @Post("/index/all")
   bulkIndex(@Param("tenantId") tenantId: string, @Body() payload: BulkIndexRequestDto) {
-    return this.vectorSearch.bulkIndex(tenantId, payload);
+    return this.searchIndex.startReindex(tenantId, payload);
+  }
+
+  @Get("/index/runs")
+  listIndexRuns(
+    @Param("tenantId") tenantId: string,
+    @Query("limit", new ParseIntPipe({ optional: true })) limit?: number
+  ) {
+    return this.searchIndex.listRuns(tenantId, limit ?? 20);
+  }
+
+  @Get("/index/runs/:runId")
+  getIndexRun(@Param("tenantId") tenantId: string, @Param("runId") runId: string) {
+    return this.searchIndex.getRun(tenantId, runId);
   }
 
   @Post("/hybrid")
-  hybridSearch(@Param("tenantId") tenantId: string, @Body() payload: HybridSearchRequestDto): Promise<HybridSearchResult[]> {
-    return this.vectorSearch.hybridSearch(tenantId, payload);
+  hybridSearch(@Param("tenantId") tenantId: string, @Body() payload: HybridSearchRequestDto): Promise<HybridSearchResponse> {
+    return this.vectorSearch.search(tenantId, payload);
+  }
+
+  @Get("/settings")
+  getSettings(@Param("tenantId") tenantId: string) {
+    return this.searchSettings.getSettings(tenantId);
+  }
+
+  @Put("/settings")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  updateSettings(@Param("tenantId") tenantId: string, @Body() payload: UpdateSearchSettingsDto) {
+    return this.searchSettings.updateSettings(tenantId, payload);
+  }
+
+  @Delete("/settings")
+  @Roles(UserRole.OWNER, UserRole.ADMIN)
+  resetSettings(@Param("tenantId") tenantId: string) {
+    return this.searchSettings.resetSettings(tenantId);
   }
-}
+}
\ No newline at end of file
@@ -1,14 +1,30 @@
 ﻿import { Module } from "@nestjs/common";
 
 import { PrismaModule } from "../../infrastructure/prisma/prisma.module";
-import { EmbeddingService } from "./embedding.service";
+import { IngestionQueueModule } from "../ingestion/ingestion-queue.module";
+import { NotificationsModule } from "../notifications/notifications.module";
+import { OntologyModule } from "../ontology/ontology.module";
+import { EmbeddingModule } from "./embedding/embedding.module";
+import { SavedSearchController } from "./saved-search.controller";
+import { SavedSearchService } from "./saved-search.service";
+import { SavedSearchWorker } from "./saved-search.worker";
+import { SearchIndexService } from "./search-index.service";
+import { SearchIndexWorker } from "./search-index.worker";
+import { SearchSettingsService } from "./search-settings.service";
 import { VectorSearchController } from "./vector-search.controller";
 import { VectorSearchService } from "./vector-search.service";
 
 @Module({
-  imports: [PrismaModule],
-  controllers: [VectorSearchController],
-  providers: [VectorSearchService, EmbeddingService],
+  imports: [PrismaModule, EmbeddingModule, IngestionQueueModule, NotificationsModule, OntologyModule],
+  controllers: [VectorSearchController, SavedSearchController],
+  providers: [
+    VectorSearchService,
+    SearchIndexService,
+    SearchIndexWorker,
+    SearchSettingsService,
+    SavedSearchService,
+    SavedSearchWorker
+  ],
   exports: [VectorSearchService]
 })
 export class VectorSearchModule {}
@@ -0,0 +1,115 @@
+import type { ConfigService } from "@nestjs/config";
+import { SearchEntityType } from "@prisma/client";
+import crypto from "node:crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import type { OntologyService } from "../ontology/ontology.service";
+import type { EmbeddingService } from "./embedding/embedding.service";
+import type { SearchSettingsService } from "./search-settings.service";
+import { VectorSearchService } from "./vector-search.service";
+
+describe("VectorSearchService indexing", () => {
+  const prismaMock = {
+    consultant: { findFirst: vi.fn() },
+    requirement: { findFirst: vi.fn() },
+    $queryRawUnsafe: vi.fn(),
+    $executeRawUnsafe: vi.fn()
+  };
+  const embeddingMock = {
+    getEmbeddingDimensions: () => 4,
+    getSignatureKey: () => "local:hashed-ngram-v1:4",
+    isEnabled: () => true,
+    generateEmbedding: vi.fn()
+  };
+
+  const service = new VectorSearchService(
+    prismaMock as unknown as PrismaService,
+    embeddingMock as unknown as EmbeddingService,
+    { get: () => undefined } as unknown as ConfigService,
+    {} as SearchSettingsService,
+    {} as OntologyService
+  );
+
+  const requirement = {
+    id: "req-1",
+    title: "Data Engineer",
+    clientName: "Acme",
+    description: "Spark pipelines",
+    status: "OPEN",
+    location: "Remote",
+    minRate: null,
+    maxRate: null,
+    postedAt: null,
+    closesAt: null,
+    skills: []
+  };
+  const contentHash = crypto.createHash("sha256").update("Data Engineer\nAcme\nSpark pipelines").digest("hex");
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    prismaMock.requirement.findFirst.mockResolvedValue(requirement);
+  });
+
+  it("skips re-embedding when the content hash and model are unchanged", async () => {
+    prismaMock.$queryRawUnsafe.mockResolvedValue([{ contentHash, embeddingModel: "local:hashed-ngram-v1:4" }]);
+
+    const outcome = await service.indexById("tenant-1", SearchEntityType.REQUIREMENT, "req-1");
+
+    expect(outcome).toBe("UNCHANGED");
+    expect(embeddingMock.generateEmbedding).not.toHaveBeenCalled();
+    expect(prismaMock.$executeRawUnsafe.mock.calls[0][0]).toContain('UPDATE "SearchDocument" SET "metadata"');
+  });
+
+  it("re-embeds when the stored vector came from another model", async () => {
+    prismaMock.$queryRawUnsafe.mockResolvedValue([{ contentHash, embeddingModel: "openai:text-embedding-3-large:4" }]);
+    embeddingMock.generateEmbedding.mockResolvedValue([0.5, 0.5, 0.5, 0.5]);
+
+    const outcome = await service.indexById("tenant-1", SearchEntityType.REQUIREMENT, "req-1");
+
+    expect(outcome).toBe("INDEXED");
+    expect(embeddingMock.generateEmbedding).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops the document when the entity no longer exists", async () => {
+    prismaMock.requirement.findFirst.mockResolvedValue(null);
+
+    const outcome = await service.indexById("tenant-1", SearchEntityType.REQUIREMENT, "req-1");
+
+    expect(outcome).toBe("DELETED");
+    expect(prismaMock.$executeRawUnsafe.mock.calls[0][0]).toContain('DELETE FROM "SearchDocument"');
+  });
+
+  it("indexes resume sections as chunk rows and drops chunks that disappeared", async () => {
+    prismaMock.consultant.findFirst.mockResolvedValue({
+      id: "con-1",
+      firstName: "Jane",
+      lastName: "Doe",
+      summary: "Data engineer",
+      availability: "AVAILABLE",
+      location: "Austin",
+      rate: null,
+      updatedAt: new Date("2026-01-01T00:00:00Z"),
+      skills: [],
+      tags: [],
+      documents: [],
+      resumes: [{ text: "Experience\nAcme - Spark pipelines\nEducation\nBS Computer Science" }],
+      experiences: [{ title: "Data Engineer", employer: "Acme" }],
+      education: [{ degree: "BS Computer Science", institution: null }],
+      certifications: [{ name: "AWS Solutions Architect" }]
+    });
+    prismaMock.$queryRawUnsafe.mockResolvedValue([]);
+    prismaMock.$executeRawUnsafe.mockResolvedValue(1);
+    embeddingMock.generateEmbedding.mockResolvedValue([0.5, 0.5, 0.5, 0.5]);
+
+    const outcome = await service.indexById("tenant-1", SearchEntityType.CONSULTANT, "con-1");
+
+    expect(outcome).toBe("INDEXED");
+    const inserts = prismaMock.$executeRawUnsafe.mock.calls.filter(([sql]) => String(sql).includes("INSERT INTO"));
+    expect(inserts.map((call) => call[8])).toEqual(["", "experience:0", "education:0"]);
+    expect(inserts[0]).toContain("Jane Doe\nData engineer\nData Engineer at Acme\nBS Computer Science\nAWS Solutions Architect");
+    const cleanup = prismaMock.$executeRawUnsafe.mock.calls.at(-1);
+    expect(cleanup?.[0]).toContain('"chunkKey" <> \'\'');
+    expect(cleanup?.[3]).toEqual(["experience:0", "education:0"]);
+  });
+});
@@ -1,21 +1,50 @@
-import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Injectable, Logger, NotFoundException, OnModuleInit } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { Prisma, SearchEntityType } from "@prisma/client";
+import crypto from "node:crypto";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
-import { EmbeddingService } from "./embedding.service";
-import type { HybridSearchRequestDto } from "./dto/hybrid-search.dto";
-import type { BulkIndexRequestDto, IndexEntityRequestDto } from "./dto/index-request.dto";
+import { EmbeddingService } from "./embedding/embedding.service";
+import type { ResumeSection } from "../ingestion/resume-parser";
+import { OntologyService } from "../ontology/ontology.service";
+import type { HybridSearchRequestDto, SearchFiltersDto } from "./dto/hybrid-search.dto";
+import type { IndexEntityRequestDto } from "./dto/index-request.dto";
+import { ChunkPooling, FUSION_STRATEGIES, FusionRanks, FusionSettings, FusionStrategy, fuseCandidates } from "./fusion";
+import { collectQueryTerms, compileSearchQuery, parsePlainQuery, parseSearchQuery, QueryNode } from "./query-parser";
+import { chunkResume } from "./resume-chunks";
+import {
+  HEADLINE_OPTIONS,
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  MAX_VECTOR_SNIPPETS,
+  matchSkills,
+  pickBestSentence,
+  renderSnippet,
+  SnippetSource,
+  splitSentences
+} from "./snippets";
+import { buildFacetSql, buildFilterPredicates, groupFacetRows, SearchFacetRow, SearchFacets } from "./search-filters";
+import { SearchSettingsService } from "./search-settings.service";
+
+// Fusion runs over the union of each list's head, so a hit outside every top-N cannot reach the results.
+const CANDIDATE_POOL_FACTOR = 3;
+const MAX_CANDIDATE_POOL = 300;
 
 interface HybridSearchQueryResult {
   id: string;
   entityType: SearchEntityType;
   entityId: string;
+  chunkKey: string;
   content: string;
   metadata: Prisma.JsonValue | null;
   vector_score: number | null;
   lexical_score: number | null;
-  total_score: number | null;
+}
+
+/** The resume chunk that scored best for a consultant hit. */
+export interface SearchChunkMatch {
+  key: string;
+  section: ResumeSection;
 }
 
 export interface HybridSearchResult {
@@ -27,88 +56,154 @@ export interface HybridSearchResult {
   vectorScore: number;
   lexicalScore: number;
   score: number;
+  /** Null when the entity's own document matched best; `content` is always the text of the best row. */
+  chunk: SearchChunkMatch | null;
+  /** Only present in debug mode. */
+  ranks?: FusionRanks;
+}
+
+/** A search API hit with an explanation of why it matched. */
+export interface HighlightedSearchResult extends HybridSearchResult {
+  /** Safe HTML: the indexed text is escaped and matched terms are wrapped in <mark>…</mark>. */
+  snippet: string | null;
+  snippetSource: SnippetSource | null;
+  matchedSkills: string[];
+}
+
+type SearchCandidate = Omit<HybridSearchResult, "score" | "ranks">;
+
+/** The parsed query with its ontology expansions, resolved once per request. */
+interface AnalyzedSearchQuery {
+  root: QueryNode | null;
+  expansions: Map<string, string[]>;
+  filters: SearchFiltersDto;
+}
+
+export interface HybridSearchResponse {
+  results: HighlightedSearchResult[];
+  facets: SearchFacets | null;
+  fusion: FusionStrategy;
 }
 
 interface SearchConfig {
-  vectorWeight: number;
-  lexicalWeight: number;
   maxResults: number;
+  chunkPooling?: ChunkPooling;
+}
+
+/**
+ * INDEXED: content changed (or the embedding model did) and was re-embedded.
+ * UNCHANGED: content hash matched, only metadata was refreshed.
+ * DELETED: the entity no longer exists and its document was removed.
+ */
+export type SearchIndexOutcome = "INDEXED" | "UNCHANGED" | "DELETED";
+
+export interface SearchIndexOptions {
+  /** Re-embed even when the content hash matches. */
+  force?: boolean;
 }
 
 @Injectable()
-export class VectorSearchService {
+export class VectorSearchService implements OnModuleInit {
   private readonly logger = new Logger(VectorSearchService.name);
-  private readonly vectorWeight: number;
-  private readonly lexicalWeight: number;
   private readonly maxResults: number;
+  private readonly chunkPooling: ChunkPooling;
   private readonly embeddingDimensions: number;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly embeddingService: EmbeddingService,
-    private readonly configService: ConfigService
+    private readonly configService: ConfigService,
+    private readonly searchSettings: SearchSettingsService,
+    private readonly ontology: OntologyService
   ) {
-    const searchConfig = this.configService.get<SearchConfig>("search") ?? {
-      vectorWeight: 0.6,
-      lexicalWeight: 0.4,
-      maxResults: 20
-    };
-    this.vectorWeight = searchConfig.vectorWeight;
-    this.lexicalWeight = searchConfig.lexicalWeight;
+    const searchConfig = this.configService.get<SearchConfig>("search") ?? { maxResults: 20 };
     this.maxResults = searchConfig.maxResults;
+    this.chunkPooling = searchConfig.chunkPooling ?? "max";
     this.embeddingDimensions = this.embeddingService.getEmbeddingDimensions();
   }
 
-  async indexEntity(tenantId: string, payload: IndexEntityRequestDto): Promise<void> {
-    switch (payload.entityType) {
+  async onModuleInit() {
+    const columnDimensions = await this.readColumnDimensions();
+    if (columnDimensions !== null && columnDimensions !== this.embeddingDimensions) {
+      throw new Error(
+        `SearchDocument.embedding is vector(${columnDimensions}) but EMBEDDING_DIMENSIONS is ${this.embeddingDimensions}; ` +
+          "align the configuration with the column or migrate the column first"
+      );
+    }
+  }
+
+  async indexEntity(tenantId: string, payload: IndexEntityRequestDto): Promise<SearchIndexOutcome> {
+    const outcome = await this.indexById(tenantId, payload.entityType, payload.entityId, { force: true });
+    if (outcome === "DELETED") {
+      throw new NotFoundException(`${payload.entityType} ${payload.entityId} not found for tenant ${tenantId}`);
+    }
+    return outcome;
+  }
+
+  indexById(
+    tenantId: string,
+    entityType: SearchEntityType,
+    entityId: string,
+    options: SearchIndexOptions = {}
+  ): Promise<SearchIndexOutcome> {
+    switch (entityType) {
       case SearchEntityType.CONSULTANT:
-        await this.indexConsultant(tenantId, payload.entityId);
-        break;
+        return this.indexConsultant(tenantId, entityId, options);
       case SearchEntityType.REQUIREMENT:
-        await this.indexRequirement(tenantId, payload.entityId);
-        break;
+        return this.indexRequirement(tenantId, entityId, options);
       default:
-        throw new NotFoundException(`Unsupported entity type ${payload.entityType}`);
+        throw new NotFoundException(`Unsupported entity type ${entityType}`);
     }
   }
 
-  async bulkIndex(tenantId: string, payload: BulkIndexRequestDto = {}): Promise<number> {
-    let indexed = 0;
+  /** Tenants holding vectors from a provider, model or dimension other than the configured one. */
+  async findTenantsWithStaleEmbeddings(): Promise<string[]> {
+    const rows = (await this.prisma.$queryRawUnsafe(
+      `SELECT DISTINCT "tenantId" FROM "SearchDocument" WHERE "embeddingModel" IS DISTINCT FROM $1;`,
+      this.embeddingService.getSignatureKey()
+    )) as Array<{ tenantId: string }>;
+    return rows.map((row) => row.tenantId);
+  }
 
-    if (!payload.entityType || payload.entityType === SearchEntityType.CONSULTANT) {
-      const consultants = await this.prisma.consultant.findMany({ where: { tenantId }, select: { id: true } });
-      for (const consultant of consultants) {
-        await this.indexConsultant(tenantId, consultant.id);
-      }
-      indexed += consultants.length;
-      if (payload.entityType === SearchEntityType.CONSULTANT) {
-        return indexed;
-      }
+  /** Removes documents whose consultant or requirement has been deleted. */
+  async deleteOrphanedDocuments(tenantId: string, entityType?: SearchEntityType): Promise<number> {
+    let deleted = 0;
+    if (!entityType || entityType === SearchEntityType.CONSULTANT) {
+      deleted += await this.prisma.$executeRawUnsafe(
+        `DELETE FROM "SearchDocument" sd
+         WHERE sd."tenantId" = $1 AND sd."entityType" = 'CONSULTANT'::"SearchEntityType"
+           AND NOT EXISTS (SELECT 1 FROM "Consultant" c WHERE c."id" = sd."entityId" AND c."tenantId" = sd."tenantId");`,
+        tenantId
+      );
     }
-
-    if (!payload.entityType || payload.entityType === SearchEntityType.REQUIREMENT) {
-      const requirements = await this.prisma.requirement.findMany({ where: { tenantId }, select: { id: true } });
-      for (const requirement of requirements) {
-        await this.indexRequirement(tenantId, requirement.id);
-      }
-      indexed += requirements.length;
+    if (!entityType || entityType === SearchEntityType.REQUIREMENT) {
+      deleted += await this.prisma.$executeRawUnsafe(
+        `DELETE FROM "SearchDocument" sd
+         WHERE sd."tenantId" = $1 AND sd."entityType" = 'REQUIREMENT'::"SearchEntityType"
+           AND NOT EXISTS (SELECT 1 FROM "Requirement" r WHERE r."id" = sd."entityId" AND r."tenantId" = sd."tenantId");`,
+        tenantId
+      );
     }
-
-    return indexed;
+    return deleted;
   }
 
-  async indexConsultant(tenantId: string, consultantId: string): Promise<void> {
+  async indexConsultant(tenantId: string, consultantId: string, options: SearchIndexOptions = {}): Promise<SearchIndexOutcome> {
     const consultant = await this.prisma.consultant.findFirst({
       where: { id: consultantId, tenantId },
       include: {
         skills: { include: { skill: true } },
         tags: true,
-        documents: true
+        documents: true,
+        resumes: { where: { text: { not: null } }, orderBy: { createdAt: "desc" }, take: 1 },
+        experiences: { orderBy: [{ current: "desc" }, { startDate: "desc" }] },
+        education: true,
+        certifications: true
       }
     });
 
     if (!consultant) {
-      throw new NotFoundException(`Consultant ${consultantId} not found for tenant ${tenantId}`);
+      await this.removeDocument(tenantId, SearchEntityType.CONSULTANT, consultantId);
+      return "DELETED";
     }
 
     const metadata: Prisma.JsonObject = {
@@ -118,6 +213,8 @@ export class VectorSearchService {
       rate: consultant.rate ? Number(consultant.rate) : null,
       skills: consultant.skills.map((item) => item.skill?.name ?? ""),
       tags: consultant.tags.map((tag) => tag.value),
+      certifications: consultant.certifications.map((certification) => certification.name),
+      experienceYears: consultant.experience ? Number(consultant.experience) : null,
       documents: consultant.documents.length,
       updatedAt: consultant.updatedAt?.toISOString?.() ?? new Date().toISOString()
     };
@@ -129,16 +226,57 @@ export class VectorSearchService {
         .map((item) => item.skill?.name ?? "")
         .filter(Boolean)
         .join(", "),
-      consultant.tags.map((tag) => tag.value).join(", ")
+      consultant.tags.map((tag) => tag.value).join(", "),
+      ...consultant.experiences.map((role) => [role.title, role.employer].filter(Boolean).join(" at ")),
+      ...consultant.education.map((entry) => [entry.degree, entry.institution].filter(Boolean).join(", ")),
+      consultant.certifications.map((certification) => certification.name).join(", ")
     ].filter(Boolean);
 
     const content = contentParts.join("\n");
-    const embedding = await this.embedText(content);
+    const outcome = await this.upsertSearchDocument(tenantId, SearchEntityType.CONSULTANT, consultant.id, content, metadata, options);
+    const chunksChanged = await this.syncResumeChunks(tenantId, consultant.id, consultant.resumes[0]?.text ?? "", metadata, options);
+    return chunksChanged ? "INDEXED" : outcome;
+  }
 
-    await this.upsertSearchDocument(tenantId, SearchEntityType.CONSULTANT, consultant.id, content, metadata, embedding);
+  /**
+   * Indexes the latest resume as one row per section chunk, each with the consultant's metadata so filters apply.
+   * Returns true when any chunk was embedded or removed.
+   */
+  private async syncResumeChunks(
+    tenantId: string,
+    consultantId: string,
+    resumeText: string,
+    metadata: Prisma.JsonObject,
+    options: SearchIndexOptions
+  ): Promise<boolean> {
+    const chunks = chunkResume(resumeText);
+    let changed = false;
+    for (const chunk of chunks) {
+      const chunkMetadata: Prisma.JsonObject = { ...metadata, section: chunk.section, chunkKey: chunk.key };
+      const outcome = await this.upsertSearchDocument(
+        tenantId,
+        SearchEntityType.CONSULTANT,
+        consultantId,
+        chunk.content,
+        chunkMetadata,
+        options,
+        chunk.key
+      );
+      changed = changed || outcome === "INDEXED";
+    }
+
+    const removed = await this.prisma.$executeRawUnsafe(
+      `DELETE FROM "SearchDocument"
+       WHERE "tenantId" = $1 AND "entityType" = 'CONSULTANT'::"SearchEntityType" AND "entityId" = $2
+         AND "chunkKey" <> '' AND NOT ("chunkKey" = ANY($3::text[]));`,
+      tenantId,
+      consultantId,
+      chunks.map((chunk) => chunk.key)
+    );
+    return changed || removed > 0;
   }
 
-  async indexRequirement(tenantId: string, requirementId: string): Promise<void> {
+  async indexRequirement(tenantId: string, requirementId: string, options: SearchIndexOptions = {}): Promise<SearchIndexOutcome> {
     const requirement = await this.prisma.requirement.findFirst({
       where: { id: requirementId, tenantId },
       include: {
@@ -147,7 +285,8 @@ export class VectorSearchService {
     });
 
     if (!requirement) {
-      throw new NotFoundException(`Requirement ${requirementId} not found for tenant ${tenantId}`);
+      await this.removeDocument(tenantId, SearchEntityType.REQUIREMENT, requirementId);
+      return "DELETED";
     }
 
     const metadata: Prisma.JsonObject = {
@@ -174,87 +313,133 @@ export class VectorSearchService {
     ].filter(Boolean);
 
     const content = contentParts.join("\n");
-    const embedding = await this.embedText(content);
+    return this.upsertSearchDocument(tenantId, SearchEntityType.REQUIREMENT, requirement.id, content, metadata, options);
+  }
 
-    await this.upsertSearchDocument(tenantId, SearchEntityType.REQUIREMENT, requirement.id, content, metadata, embedding);
+  /** Ranked results plus facet counts over the same filtered set, for the search API. */
+  async search(tenantId: string, payload: HybridSearchRequestDto): Promise<HybridSearchResponse> {
+    const [fusion, analyzed] = await Promise.all([
+      this.searchSettings.resolve(tenantId, payload.fusion),
+      this.analyzeQuery(payload)
+    ]);
+    const limit = Math.min(payload.limit ?? this.maxResults, 100);
+    const [{ candidates, queryEmbedding }, facets] = await Promise.all([
+      this.fetchCandidates(tenantId, payload, analyzed, fusion, limit),
+      payload.facets === false ? Promise.resolve(null) : this.facetCounts(tenantId, payload, analyzed)
+    ]);
+    const ranked = fuseCandidates(candidates, fusion, payload.debug === true).slice(0, limit);
+    const results = await this.highlight(tenantId, ranked, analyzed, queryEmbedding);
+    return { results, facets, fusion: fusion.strategy };
   }
 
   async hybridSearch(tenantId: string, payload: HybridSearchRequestDto): Promise<HybridSearchResult[]> {
     const limit = Math.min(payload.limit ?? this.maxResults, 100);
-    const entityTypes = payload.entityTypes?.length ? payload.entityTypes : [SearchEntityType.CONSULTANT, SearchEntityType.REQUIREMENT];
-
-    const filters: string[] = [];
-    const params: unknown[] = [];
-    let paramIndex = 1;
+    const [settings, analyzed] = await Promise.all([
+      this.searchSettings.resolve(tenantId, payload.fusion),
+      this.analyzeQuery(payload)
+    ]);
+    const { candidates } = await this.fetchCandidates(tenantId, payload, analyzed, settings, limit);
+    return fuseCandidates(candidates, settings, payload.debug === true).slice(0, limit);
+  }
 
-    filters.push(`"tenantId" = $${paramIndex}`);
-    params.push(tenantId);
-    paramIndex += 1;
+  /** Orders one candidate pool under every strategy, so evaluations compare them on identical inputs. */
+  async rankByStrategy(tenantId: string, payload: HybridSearchRequestDto): Promise<Record<FusionStrategy, HybridSearchResult[]>> {
+    const limit = Math.min(payload.limit ?? this.maxResults, 100);
+    const [settings, analyzed] = await Promise.all([this.searchSettings.resolve(tenantId), this.analyzeQuery(payload)]);
+    const { candidates } = await this.fetchCandidates(tenantId, payload, analyzed, settings, limit);
+    return Object.fromEntries(
+      FUSION_STRATEGIES.map((strategy) => [strategy, fuseCandidates(candidates, { ...settings, strategy }).slice(0, limit)])
+    ) as Record<FusionStrategy, HybridSearchResult[]>;
+  }
 
-    if (entityTypes.length === 1) {
-      filters.push(`"entityType" = $${paramIndex}::"SearchEntityType"`);
-      params.push(entityTypes[0]);
-      paramIndex += 1;
-    } else {
-      filters.push(`"entityType" = ANY($${paramIndex}::"SearchEntityType"[])`);
-      params.push(entityTypes);
-      paramIndex += 1;
-    }
+  async facetCounts(tenantId: string, payload: HybridSearchRequestDto, analyzed?: AnalyzedSearchQuery): Promise<SearchFacets> {
+    const { where, params } = this.buildWhere(tenantId, payload, analyzed ?? (await this.analyzeQuery(payload)));
+    const rows = (await this.prisma.$queryRawUnsafe(buildFacetSql(where), ...params)) as SearchFacetRow[];
+    return groupFacetRows(rows);
+  }
 
-    const queryText = payload.query.trim();
-    let tsQueryParamIndex: number | null = null;
-    if (queryText.length > 0) {
-      tsQueryParamIndex = paramIndex;
-      filters.push(`plainto_tsquery('english', $${paramIndex}) @@ "searchVector"`);
-      params.push(queryText);
-      paramIndex += 1;
+  async getEmbeddings(tenantId: string, entityType: SearchEntityType, entityIds: string[]): Promise<Map<string, number[]>> {
+    if (entityIds.length === 0) {
+      return new Map();
     }
 
-    if (payload.filters?.location) {
-      filters.push(`coalesce(metadata->>'location', '') ILIKE $${paramIndex}`);
-      params.push(`%${payload.filters.location}%`);
-      paramIndex += 1;
-    }
+    const rows = (await this.prisma.$queryRawUnsafe(
+      `
+      SELECT "entityId", "embedding"::text AS embedding
+      FROM "SearchDocument"
+      WHERE "tenantId" = $1 AND "entityType" = $2::"SearchEntityType" AND "entityId" = ANY($3::text[])
+        AND "chunkKey" = '' AND "embeddingModel" = $4;
+    `,
+      tenantId,
+      entityType,
+      entityIds,
+      this.embeddingService.getSignatureKey()
+    )) as Array<{ entityId: string; embedding: string }>;
+
+    return new Map(rows.map((row) => [row.entityId, JSON.parse(row.embedding) as number[]]));
+  }
 
-    if (payload.filters?.skills?.length) {
-      filters.push(`metadata->'skills' \?& $${paramIndex}`);
-      params.push(payload.filters.skills);
+  /**
+   * The union of the vector, lexical and blended top-N entities, with raw scores for fusion. A consultant's document
+   * and resume chunks are pooled into one candidate carrying the best-scoring row's text.
+   */
+  private async fetchCandidates(
+    tenantId: string,
+    payload: HybridSearchRequestDto,
+    analyzed: AnalyzedSearchQuery,
+    settings: FusionSettings,
+    limit: number
+  ): Promise<{ candidates: SearchCandidate[]; queryEmbedding: number[] }> {
+    const { where, params, rankQuery, embeddingText } = this.buildWhere(tenantId, payload, analyzed);
+    let paramIndex = params.length + 1;
+
+    const embedding = await this.embedText(embeddingText || " ");
+    const embeddingLiteral = this.vectorLiteral(embedding);
+    let vectorScoreExpr = "0";
+    if (this.embeddingService.isEnabled()) {
+      // Rows still carrying another provider's vectors score 0 until the reindex reaches them.
+      vectorScoreExpr =
+        `(CASE WHEN "embeddingModel" = $${paramIndex} ` +
+        `THEN 1 - ("embedding" <=> ${embeddingLiteral}::vector) ELSE 0 END)`;
+      params.push(this.embeddingService.getSignatureKey());
       paramIndex += 1;
     }
+    const lexicalScoreExpr = rankQuery ? `ts_rank_cd("searchVector", ${rankQuery})` : "0";
 
-    if (typeof payload.filters?.maxRate === "number") {
-      filters.push(`(metadata->'rateRange'->>1)::numeric <= $${paramIndex}`);
-      params.push(payload.filters.maxRate);
-      paramIndex += 1;
-    }
-
-    const embedding = await this.embedText(queryText || " ");
-    const embeddingLiteral = this.vectorLiteral(embedding);
-    const vectorScoreExpr = this.embeddingService.isEnabled()
-      ? `(1 - ("embedding" <=> ${embeddingLiteral}::vector))`
-      : "0";
-    const lexicalScoreExpr = tsQueryParamIndex
-      ? `ts_rank_cd("searchVector", plainto_tsquery('english', $${tsQueryParamIndex}))`
-      : "0";
-    const totalScoreExpr = `(${this.vectorWeight} * ${vectorScoreExpr} + ${this.lexicalWeight} * ${lexicalScoreExpr})`;
-
-    const limitParamIndex = paramIndex;
-    params.push(limit);
+    const poolParamIndex = paramIndex;
+    params.push(Math.min(limit * CANDIDATE_POOL_FACTOR, MAX_CANDIDATE_POOL));
 
+    const blend = (vector: string, lexical: string) =>
+      `${Number(settings.vectorWeight)} * ${vector} + ${Number(settings.lexicalWeight)} * ${lexical}`;
+    const pooling = (payload.chunkPooling ?? this.chunkPooling) === "mean" ? "avg" : "max";
     const sql = `
-      SELECT "id", "entityType", "entityId", "content", "metadata",
-             ${vectorScoreExpr} AS vector_score,
-             ${lexicalScoreExpr} AS lexical_score,
-             ${totalScoreExpr} AS total_score
-      FROM "SearchDocument"
-      WHERE ${filters.join(" AND ")}
-      ORDER BY total_score DESC
-      LIMIT $${limitParamIndex};
+      WITH scored AS (
+        SELECT "id", "entityType", "entityId", "chunkKey", "content", "metadata",
+               ${vectorScoreExpr} AS vector_score,
+               ${lexicalScoreExpr} AS lexical_score
+        FROM "SearchDocument"
+        WHERE ${where}
+      ), entities AS (
+        SELECT DISTINCT ON ("entityType", "entityId")
+               "id", "entityType", "entityId", "chunkKey", "content", "metadata",
+               ${pooling}(vector_score) OVER entity AS vector_score,
+               ${pooling}(lexical_score) OVER entity AS lexical_score
+        FROM scored
+        WINDOW entity AS (PARTITION BY "entityType", "entityId")
+        ORDER BY "entityType", "entityId", ${blend("scored.vector_score", "scored.lexical_score")} DESC, "chunkKey"
+      ), pool AS (
+        (SELECT "id" FROM entities ORDER BY vector_score DESC LIMIT $${poolParamIndex})
+        UNION
+        (SELECT "id" FROM entities ORDER BY lexical_score DESC LIMIT $${poolParamIndex})
+        UNION
+        (SELECT "id" FROM entities ORDER BY ${blend("vector_score", "lexical_score")} DESC LIMIT $${poolParamIndex})
+      )
+      SELECT entities.* FROM entities JOIN pool USING ("id");
     `;
 
     const rows = (await this.prisma.$queryRawUnsafe(sql, ...params)) as HybridSearchQueryResult[];
 
-    return rows.map((row) => ({
+    const candidates = rows.map((row) => ({
       id: row.id,
       entityType: row.entityType,
       entityId: row.entityId,
@@ -262,8 +447,125 @@ export class VectorSearchService {
       metadata: row.metadata,
       vectorScore: Number(row.vector_score ?? 0),
       lexicalScore: Number(row.lexical_score ?? 0),
-      score: Number(row.total_score ?? 0)
+      chunk: row.chunkKey ? { key: row.chunkKey, section: row.chunkKey.split(":")[0] as ResumeSection } : null
     }));
+    return { candidates, queryEmbedding: embedding };
+  }
+
+  /**
+   * Explains the final page only: ts_headline fragments for lexical hits, the sentence nearest the query
+   * embedding for vector-only hits, and the document skills the query asked for.
+   */
+  private async highlight(
+    tenantId: string,
+    results: HybridSearchResult[],
+    analyzed: AnalyzedSearchQuery,
+    queryEmbedding: number[]
+  ): Promise<HighlightedSearchResult[]> {
+    const queryTerms = new Set([
+      ...collectQueryTerms(analyzed.root),
+      ...Array.from(analyzed.expansions.values()).flat(),
+      ...(analyzed.filters.skills ?? [])
+    ]);
+    const headlines = new Map<string, string>();
+    const sentences = new Map<string, string>();
+
+    const lexicalIds = results.filter((result) => result.lexicalScore > 0).map((result) => result.id);
+    const query = compileSearchQuery(analyzed.root, analyzed.expansions, 5);
+    if (lexicalIds.length && query.rankQuery) {
+      const rows = (await this.prisma.$queryRawUnsafe(
+        `SELECT "id", ts_headline('english', translate("content", $4, ''), ${query.rankQuery}, $3) AS headline
+         FROM "SearchDocument" WHERE "tenantId" = $1 AND "id" = ANY($2::text[]);`,
+        tenantId,
+        lexicalIds,
+        HEADLINE_OPTIONS,
+        `${HIGHLIGHT_START}${HIGHLIGHT_STOP}`,
+        ...query.params
+      )) as Array<{ id: string; headline: string }>;
+      rows.forEach((row) => headlines.set(row.id, row.headline));
+    }
+
+    const vectorOnly = results
+      .filter((result) => !headlines.has(result.id) && result.content)
+      .slice(0, MAX_VECTOR_SNIPPETS);
+    if (vectorOnly.length && queryEmbedding.some((value) => value !== 0)) {
+      const documents = vectorOnly.map((result) => ({ id: result.id, sentences: splitSentences(result.content) }));
+      try {
+        const vectors = await this.embeddingService.generateEmbeddings(documents.flatMap((document) => document.sentences));
+        let offset = 0;
+        for (const document of documents) {
+          const best = pickBestSentence(vectors.slice(offset, offset + document.sentences.length), queryEmbedding);
+          offset += document.sentences.length;
+          if (best >= 0) {
+            sentences.set(document.id, document.sentences[best]);
+          }
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to embed snippet sentences: ${(error as Error).message}`);
+      }
+    }
+
+    return results.map((result) => {
+      const metadata = (result.metadata ?? {}) as Prisma.JsonObject;
+      const headline = headlines.get(result.id);
+      const sentence = sentences.get(result.id);
+      const lead = splitSentences(result.content)[0] ?? null;
+      const text = headline ?? sentence ?? lead;
+      return {
+        ...result,
+        snippet: text === null ? null : renderSnippet(text),
+        snippetSource: headline ? "lexical" : sentence ? "vector" : lead ? "lead" : null,
+        matchedSkills: matchSkills(metadata.skills, queryTerms)
+      };
+    });
+  }
+
+  /** Parses the query syntax and looks up skill synonyms; `location:` and `rate:` fill filters the request left unset. */
+  private async analyzeQuery(payload: HybridSearchRequestDto): Promise<AnalyzedSearchQuery> {
+    const parsed = payload.plainText ? parsePlainQuery(payload.query) : parseSearchQuery(payload.query);
+    let expansions = new Map<string, string[]>();
+    if (!payload.plainText) {
+      try {
+        expansions = await this.ontology.expandSkillTerms(collectQueryTerms(parsed.root));
+      } catch (error) {
+        this.logger.warn(`Skill expansion failed; searching without synonyms: ${(error as Error).message}`);
+      }
+    }
+
+    const filters: SearchFiltersDto = { ...payload.filters };
+    filters.location = payload.filters?.location ?? parsed.location;
+    filters.minRate = payload.filters?.minRate ?? parsed.minRate;
+    filters.maxRate = payload.filters?.maxRate ?? parsed.maxRate;
+    return { root: parsed.root, expansions, filters };
+  }
+
+  private buildWhere(tenantId: string, payload: HybridSearchRequestDto, analyzed: AnalyzedSearchQuery) {
+    const entityTypes = payload.entityTypes?.length ? payload.entityTypes : [SearchEntityType.CONSULTANT, SearchEntityType.REQUIREMENT];
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    params.push(tenantId);
+    clauses.push(`"tenantId" = $${params.length}`);
+
+    if (entityTypes.length === 1) {
+      params.push(entityTypes[0]);
+      clauses.push(`"entityType" = $${params.length}::"SearchEntityType"`);
+    } else {
+      params.push(entityTypes);
+      clauses.push(`"entityType" = ANY($${params.length}::"SearchEntityType"[])`);
+    }
+
+    const query = compileSearchQuery(analyzed.root, analyzed.expansions, params.length + 1);
+    if (query.predicate) {
+      clauses.push(query.predicate);
+    }
+    params.push(...query.params);
+
+    const predicates = buildFilterPredicates(analyzed.filters, params.length + 1);
+    clauses.push(...predicates.clauses);
+    params.push(...predicates.params);
+
+    return { where: clauses.join(" AND "), params, rankQuery: query.rankQuery, embeddingText: query.embeddingText };
   }
 
   private async embedText(text: string): Promise<number[]> {
@@ -286,32 +588,103 @@ export class VectorSearchService {
     entityId: string,
     content: string,
     metadata: Prisma.JsonValue,
-    embedding: number[]
-  ): Promise<void> {
+    options: SearchIndexOptions,
+    chunkKey = ""
+  ): Promise<SearchIndexOutcome> {
+    const contentHash = crypto.createHash("sha256").update(content).digest("hex");
+    const signature = this.embeddingService.getSignatureKey();
+    const serializedMetadata = JSON.stringify(metadata ?? {});
+
+    if (!options.force) {
+      const [existing] = (await this.prisma.$queryRawUnsafe(
+        `SELECT "contentHash", "embeddingModel" FROM "SearchDocument"
+         WHERE "tenantId" = $1 AND "entityType" = $2::"SearchEntityType" AND "entityId" = $3 AND "chunkKey" = $4;`,
+        tenantId,
+        entityType,
+        entityId,
+        chunkKey
+      )) as Array<{ contentHash: string | null; embeddingModel: string | null }>;
+
+      // Same text under the same model embeds to the same vector; only filters in metadata may have moved.
+      if (existing && existing.contentHash === contentHash && existing.embeddingModel === signature) {
+        await this.prisma.$executeRawUnsafe(
+          `UPDATE "SearchDocument" SET "metadata" = $4::jsonb, "updatedAt" = NOW()
+           WHERE "tenantId" = $1 AND "entityType" = $2::"SearchEntityType" AND "entityId" = $3 AND "chunkKey" = $5;`,
+          tenantId,
+          entityType,
+          entityId,
+          serializedMetadata,
+          chunkKey
+        );
+        return "UNCHANGED";
+      }
+    }
+
+    // Embedding failures propagate so the index job retries instead of storing a zero vector as current.
+    const embedding =
+      this.embeddingService.isEnabled() && content.trim().length > 0
+        ? await this.embeddingService.generateEmbedding(content)
+        : new Array(this.embeddingDimensions).fill(0);
     const embeddingLiteral = this.vectorLiteral(embedding);
     const sql = `
-      INSERT INTO "SearchDocument" ("tenantId", "entityType", "entityId", "content", "metadata", "searchVector", "embedding")
-      VALUES ($1, $2::"SearchEntityType", $3, $4, $5::jsonb, to_tsvector('english', $4), ${embeddingLiteral}::vector)
-      ON CONFLICT ("tenantId", "entityType", "entityId")
+      INSERT INTO "SearchDocument"
+        ("tenantId", "entityType", "entityId", "chunkKey", "content", "metadata", "searchVector", "embedding", "embeddingModel", "contentHash")
+      VALUES ($1, $2::"SearchEntityType", $3, $8, $4, $5::jsonb, to_tsvector('english', $4), ${embeddingLiteral}::vector, $6, $7)
+      ON CONFLICT ("tenantId", "entityType", "entityId", "chunkKey")
       DO UPDATE SET
         "content" = EXCLUDED."content",
         "metadata" = EXCLUDED."metadata",
         "searchVector" = EXCLUDED."searchVector",
         "embedding" = EXCLUDED."embedding",
+        "embeddingModel" = EXCLUDED."embeddingModel",
+        "contentHash" = EXCLUDED."contentHash",
         "updatedAt" = NOW();
     `;
 
-    await this.prisma.$executeRawUnsafe(sql, tenantId, entityType, entityId, content, JSON.stringify(metadata ?? {}));
+    await this.prisma.$executeRawUnsafe(
+      sql,
+      tenantId,
+      entityType,
+      entityId,
+      content,
+      serializedMetadata,
+      signature,
+      contentHash,
+      chunkKey
+    );
+    return "INDEXED";
+  }
+
+  private async removeDocument(tenantId: string, entityType: SearchEntityType, entityId: string): Promise<void> {
+    await this.prisma.$executeRawUnsafe(
+      `DELETE FROM "SearchDocument" WHERE "tenantId" = $1 AND "entityType" = $2::"SearchEntityType" AND "entityId" = $3;`,
+      tenantId,
+      entityType,
+      entityId
+    );
+  }
+
+  private async readColumnDimensions(): Promise<number | null> {
+    try {
+      // pgvector stores the declared dimension as the column's type modifier.
+      const rows = (await this.prisma.$queryRawUnsafe(
+        `SELECT atttypmod AS dimensions FROM pg_attribute
+         WHERE attrelid = '"SearchDocument"'::regclass AND attname = 'embedding';`
+      )) as Array<{ dimensions: number }>;
+      const dimensions = Number(rows[0]?.dimensions ?? -1);
+      return dimensions > 0 ? dimensions : null;
+    } catch (error) {
+      this.logger.warn(`Could not read SearchDocument embedding dimensions: ${(error as Error).message}`);
+      return null;
+    }
   }
 
   private vectorLiteral(vector: number[]): string {
-    const normalized = vector.length === this.embeddingDimensions
-      ? vector
-      : vector.length > this.embeddingDimensions
-        ? vector.slice(0, this.embeddingDimensions)
-        : [...vector, ...new Array(this.embeddingDimensions - vector.length).fill(0)];
+    if (vector.length !== this.embeddingDimensions) {
+      throw new Error(`Embedding has ${vector.length} dimensions; expected ${this.embeddingDimensions}`);
+    }
 
-    const formatted = normalized.map((value) => (Number.isFinite(value) ? value.toFixed(6) : "0"));
+    const formatted = vector.map((value) => (Number.isFinite(value) ? value.toFixed(6) : "0"));
     return `'[${formatted.join(",")}]'`;
   }
 }
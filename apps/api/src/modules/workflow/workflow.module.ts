@@ -1,5 +1,6 @@
 import { Module } from "@nestjs/common";
 
+import { IngestionQueueModule } from "../ingestion/ingestion-queue.module";
 import { NotificationsModule } from "../notifications/notifications.module";
 import { RequirementsModule } from "../requirements/requirements.module";
 import { SubmissionsModule } from "../submissions/submissions.module";
@@ -7,7 +8,7 @@ import { WorkflowController } from "./workflow.controller";
 import { WorkflowService } from "./workflow.service";
 
 @Module({
-  imports: [RequirementsModule, SubmissionsModule, NotificationsModule],
+  imports: [RequirementsModule, SubmissionsModule, NotificationsModule, IngestionQueueModule],
   controllers: [WorkflowController],
   providers: [WorkflowService]
 })
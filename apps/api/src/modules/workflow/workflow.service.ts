@@ -1,7 +1,8 @@
-import { Injectable, NotFoundException } from "@nestjs/common";
-import { Prisma, RequirementStatus, SubmissionStatus, UserRole } from "@prisma/client";
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Prisma, RequirementStatus, SearchEntityType, SubmissionStatus, UserRole } from "@prisma/client";
 
 import { PrismaService } from "../../infrastructure/prisma/prisma.service";
+import { IngestionQueueService } from "../ingestion/ingestion.queue";
 import { NotificationsService } from "../notifications/notifications.service";
 
 type RequirementTransition = {
@@ -30,9 +31,14 @@ const SUB_FSM: SubmissionTransition[] = [
 
 @Injectable()
 export class WorkflowService {
+  private readonly logger = new Logger(WorkflowService.name);
   private readonly timers = new Map<string, NodeJS.Timeout>();
 
-  constructor(private readonly prisma: PrismaService, private readonly notifications: NotificationsService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notifications: NotificationsService,
+    private readonly queue: IngestionQueueService
+  ) {}
 
   async transitionRequirement(tenantId: string, id: string, to: RequirementStatus, actor?: { id?: string; role?: UserRole }) {
     const req = await this.prisma.requirement.findFirst({ where: { id, tenantId } });
@@ -46,6 +52,17 @@ export class WorkflowService {
       subject: `Requirement ${updated.title} is now ${to}`,
       body: `Requirement ${updated.id} transitioned to ${to}`
     });
+    try {
+      await this.queue.enqueueMatchRescore({ tenantId, trigger: "REQUIREMENT_TRANSITION", requirementId: id });
+    } catch (error) {
+      this.logger.warn(`Failed to enqueue match re-scoring for requirement ${id}: ${(error as Error).message}`);
+    }
+    try {
+      // Status is a search filter, so the document's metadata has to follow the transition.
+      await this.queue.enqueueSearchIndex({ tenantId, entityType: SearchEntityType.REQUIREMENT, entityId: id });
+    } catch (error) {
+      this.logger.warn(`Failed to enqueue search indexing for requirement ${id}: ${(error as Error).message}`);
+    }
     return updated;
   }
 
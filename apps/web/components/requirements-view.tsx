@@ -6,7 +6,7 @@ import { useState } from "react";
 import { ErrorState } from "./error-state";
 import { matchRequirement, submitMatchFeedback } from "../lib/api";
 import { DEFAULT_TENANT_ID } from "../lib/config";
-import type { MatchFeedbackOutcome, MatchResult, Requirement } from "../lib/types";
+import type { HardFilterExclusion, MatchFeedbackOutcome, MatchResult, Requirement } from "../lib/types";
 
 function formatPercentage(value: number | undefined): string {
   if (typeof value !== "number" || Number.isNaN(value)) {
@@ -50,6 +50,7 @@ function describeRateDelta(delta: MatchResult["explanation"]["deltas"]["rate"]):
 
 export function RequirementsView({ initialData }: { initialData: Requirement[] }) {
   const [matches, setMatches] = useState<MatchResult[] | null>(null);
+  const [excluded, setExcluded] = useState<HardFilterExclusion[]>([]);
   const [activeRequirement, setActiveRequirement] = useState<Requirement | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [feedbackError, setFeedbackError] = useState<string | null>(null);
@@ -59,13 +60,15 @@ export function RequirementsView({ initialData }: { initialData: Requirement[] }
     mutationFn: async (requirementId: string) => matchRequirement(DEFAULT_TENANT_ID, requirementId),
     onSuccess(data) {
       setErrorMessage(null);
-      setMatches(data);
+      setMatches(data.results);
+      setExcluded(data.excluded);
       setFeedbackState({});
       setFeedbackError(null);
     },
     onError(error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       setMatches(null);
+      setExcluded([]);
       setErrorMessage(`${message}. Make sure the API is running and try again.`);
     }
   });
@@ -252,8 +255,25 @@ export function RequirementsView({ initialData }: { initialData: Requirement[] }
               );
             })}
             {matches.length === 0 && (
-              <p className="text-sm text-slate-500">No strong matches yet. Try enriching consultant data.</p>
+              <p className="text-sm text-slate-500">
+                {excluded.length > 0
+                  ? "Every candidate was excluded by this requirement's hard filters."
+                  : "No strong matches yet. Try enriching consultant data."}
+              </p>
             )}
+            {excluded.length > 0 ? (
+              <details className="text-xs text-slate-500">
+                <summary className="cursor-pointer">{excluded.length} candidates excluded by hard filters</summary>
+                <ul className="mt-2 space-y-1">
+                  {excluded.map((item) => (
+                    <li key={item.consultantId}>
+                      <span className="font-medium text-slate-700 dark:text-slate-300">{item.consultantName}</span>:{" "}
+                      {item.violations.map((violation) => violation.detail).join("; ")}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            ) : null}
           </div>
         </div>
       ) : null}
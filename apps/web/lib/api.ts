@@ -2,12 +2,20 @@ import { API_TOKEN, API_URL } from "./config";
 import type {
   AnalyticsSummary,
   Consultant,
+  ConsultantMatchResponse,
   DataPlatformOverview,
   DocumentAssetKind,
-  HybridSearchResult,
+  HybridSearchResponse,
+  MatchBatchRun,
+  MatchDetail,
   MatchFeedbackOutcome,
-  MatchResult,
-  Requirement
+  MatchListItem,
+  MatchListPage,
+  MatchListQuery,
+  MatchStatus,
+  Requirement,
+  RequirementMatchResponse,
+  SearchFusionStrategy
 } from "./types";
 
 const IS_BUILD_PHASE = process.env.NEXT_PHASE === "phase-production-build";
@@ -185,9 +193,22 @@ export type HybridSearchPayload = {
   entityTypes?: ("CONSULTANT" | "REQUIREMENT")[];
   filters?: {
     location?: string;
+    skills?: string[];
+    skillMatch?: "all" | "any";
+    tags?: string[];
+    availability?: Consultant["availability"][];
+    status?: Requirement["status"][];
+    minRate?: number;
     maxRate?: number;
+    postedFrom?: string;
+    postedTo?: string;
+    closesFrom?: string;
+    closesTo?: string;
   };
   limit?: number;
+  facets?: boolean;
+  fusion?: SearchFusionStrategy;
+  debug?: boolean;
 };
 
 export type MatchFeedbackPayload = {
@@ -312,7 +333,7 @@ export function getDataPlatformOverview(tenantId: string) {
 }
 
 export async function matchRequirement(tenantId: string, requirementId: string) {
-  const response = await request<MatchResult[]>(`/matching/requirements/${requirementId}`, {
+  const response = await request<RequirementMatchResponse>(`/matching/requirements/${requirementId}`, {
     tenantId,
     init: {
       method: "POST",
@@ -322,7 +343,15 @@ export async function matchRequirement(tenantId: string, requirementId: string)
   return response;
 }
 
-
+export function matchConsultant(tenantId: string, consultantId: string, topN?: number) {
+  return request<ConsultantMatchResponse>(`/matching/consultants/${consultantId}`, {
+    tenantId,
+    init: {
+      method: "POST",
+      body: JSON.stringify(topN ? { topN } : {})
+    }
+  });
+}
 
 export function getDocumentDownloadUrl(tenantId: string, documentId: string) {
   return request<{ documentId: string; downloadUrl: string; expiresInSeconds: number }>(
@@ -332,7 +361,7 @@ export function getDocumentDownloadUrl(tenantId: string, documentId: string) {
 }
 
 export function hybridSearch(tenantId: string, payload: HybridSearchPayload) {
-  return request<HybridSearchResult[]>("/search/hybrid", {
+  return request<HybridSearchResponse>("/search/hybrid", {
     tenantId,
     init: {
       method: "POST",
@@ -350,3 +379,43 @@ export function submitMatchFeedback(tenantId: string, matchId: string, payload:
     }
   });
 }
+
+export function listMatches(tenantId: string, query: MatchListQuery = {}) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  const search = params.toString();
+  return request<MatchListPage>(`/matches${search ? `?${search}` : ""}`, { tenantId });
+}
+
+export function getMatch(tenantId: string, matchId: string) {
+  return request<MatchDetail>(`/matches/${matchId}`, { tenantId });
+}
+
+export function updateMatchStatus(tenantId: string, matchId: string, status: MatchStatus, reason?: string) {
+  return request<Omit<MatchListItem, "consultant" | "requirement">>(`/matches/${matchId}`, {
+    tenantId,
+    init: {
+      method: "PATCH",
+      body: JSON.stringify(reason ? { status, reason } : { status })
+    }
+  });
+}
+
+export function startBatchMatching(tenantId: string, topN?: number) {
+  return request<MatchBatchRun>("/matching/batch", {
+    tenantId,
+    init: {
+      method: "POST",
+      body: JSON.stringify(topN ? { topN } : {})
+    }
+  });
+}
+
+export function getBatchMatchingRun(tenantId: string, runId: string) {
+  return request<MatchBatchRun>(`/matching/batch/${runId}`, { tenantId });
+}
@@ -12,6 +12,41 @@ export type Consultant = {
     skill: { id: string; name: string };
     weight: number;
   }>;
+  experiences?: ConsultantExperience[];
+  education?: ConsultantEducation[];
+  certifications?: ConsultantCertification[];
+};
+
+export type ConsultantProfileSource = "RESUME" | "MANUAL";
+
+export type ConsultantExperience = {
+  id: string;
+  source: ConsultantProfileSource;
+  employer?: string | null;
+  title?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  current: boolean;
+  description?: string | null;
+  skillIds: string[];
+};
+
+export type ConsultantEducation = {
+  id: string;
+  source: ConsultantProfileSource;
+  institution?: string | null;
+  degree?: string | null;
+  field?: string | null;
+  graduationYear?: number | null;
+};
+
+export type ConsultantCertification = {
+  id: string;
+  source: ConsultantProfileSource;
+  name: string;
+  issuer?: string | null;
+  year?: number | null;
+  expiresAt?: string | null;
 };
 
 export type Requirement = {
@@ -21,9 +56,16 @@ export type Requirement = {
   description: string;
   status: string;
   location?: string;
+  workMode?: "ONSITE" | "HYBRID" | "REMOTE" | null;
+  minRate?: string | null;
+  maxRate?: string | null;
+  rateCurrency?: string | null;
+  rateUnit?: "HOURLY" | "DAILY" | "ANNUAL" | null;
+  durationMonths?: number | null;
   skills: Array<{
     skill: { id: string; name: string };
     weight: number;
+    mustHave?: boolean;
   }>;
 };
 
@@ -59,6 +101,72 @@ export type MatchResult = {
   signals: MatchSignals;
 };
 
+export type HardFilterViolation = {
+  rule: string;
+  detail: string;
+};
+
+export type HardFilterExclusion = {
+  consultantId: string;
+  consultantName: string;
+  violations: HardFilterViolation[];
+};
+
+export type RequirementMatchResponse = {
+  requirementId: string;
+  results: MatchResult[];
+  excluded: HardFilterExclusion[];
+};
+
+export type ConsultantMatchResponse = {
+  consultantId: string;
+  results: RequirementMatchResult[];
+  excluded: Array<{ requirementId: string; requirementTitle: string; violations: HardFilterViolation[] }>;
+};
+
+export type RequirementMatchResult = {
+  matchId: string;
+  requirementId: string;
+  requirementTitle: string;
+  clientName: string;
+  location: string | null;
+  status: Requirement["status"];
+  score: number;
+  scores: MatchScores;
+  skillScore: number;
+  rateScore: number;
+  explanation: MatchExplanation;
+  signals: MatchSignals;
+};
+
+export type MatchBatchStatus = "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+
+export type MatchBatchOutcome = {
+  requirementId: string;
+  title: string;
+  status: "COMPLETED" | "FAILED";
+  matchCount: number;
+  topScore: number | null;
+  durationMs: number;
+  error?: string;
+};
+
+export type MatchBatchRun = {
+  id: string;
+  status: MatchBatchStatus;
+  topN: number;
+  requirementCount: number;
+  processedCount: number;
+  failedCount: number;
+  outcomes?: MatchBatchOutcome[] | null;
+  error?: string | null;
+  progress?: number;
+  requestedBy?: string | null;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  createdAt: string;
+};
+
 export type DocumentMetadata = {
   documentId: string;
   sha256: string;
@@ -135,6 +243,33 @@ export type HybridSearchResult = {
   score: number;
   vectorScore: number;
   lexicalScore: number;
+  ranks?: SearchFusionRanks;
+  /** Matched terms are wrapped in <mark>; render as text segments, not HTML. */
+  snippet: string | null;
+  snippetSource: "lexical" | "vector" | "lead" | null;
+  matchedSkills: string[];
+  /** The resume section that matched best; null when the consultant or requirement record itself did. */
+  chunk: { key: string; section: string } | null;
+};
+
+export type SearchFusionStrategy = "linear" | "rrf" | "minmax";
+
+export type SearchFusionRanks = Record<SearchFusionStrategy, number> & {
+  vector: number | null;
+  lexical: number | null;
+};
+
+export type SearchFacetValue = {
+  value: string;
+  count: number;
+};
+
+export type SearchFacets = Record<"entityType" | "availability" | "status" | "location" | "skills" | "tags", SearchFacetValue[]>;
+
+export type HybridSearchResponse = {
+  results: HybridSearchResult[];
+  facets: SearchFacets | null;
+  fusion: SearchFusionStrategy;
 };
 
 export type MatchExplanationContribution = {
@@ -225,4 +360,73 @@ export type MatchExplanation = {
 
 export type MatchFeedbackOutcome = "POSITIVE" | "NEGATIVE" | "NEUTRAL" | "HIRED" | "REJECTED";
 
+export type MatchStatus = "REVIEW" | "SHORTLISTED" | "SUBMITTED" | "REJECTED" | "HIRED";
+
+export type MatchListItem = {
+  id: string;
+  requirementId: string;
+  consultantId: string;
+  score: number;
+  status: MatchStatus;
+  feedback?: Record<string, number> | null;
+  experimentId?: string | null;
+  variant?: string | null;
+  rankDroppedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  consultant: { firstName: string; lastName: string; availability: string };
+  requirement: { title: string; clientName: string; status: string };
+};
+
+export type MatchListPage = {
+  items: MatchListItem[];
+  nextCursor: string | null;
+};
+
+export type MatchListQuery = {
+  requirementId?: string;
+  consultantId?: string;
+  status?: MatchStatus[];
+  minScore?: number;
+  maxScore?: number;
+  createdFrom?: string;
+  createdTo?: string;
+  rankDropped?: boolean;
+  sortBy?: "createdAt" | "updatedAt" | "score";
+  sortOrder?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+};
+
+export type MatchDetail = Omit<MatchListItem, "consultant" | "requirement"> & {
+  explanation: MatchExplanation;
+  consultant: { id: string; firstName: string; lastName: string; availability: string; location?: string | null };
+  requirement: { id: string; title: string; clientName: string; status: string; location?: string | null };
+  featureSnapshots: Array<{
+    id: string;
+    modelVersion: string;
+    features: Record<string, number>;
+    variant?: string | null;
+    createdAt: string;
+  }>;
+  feedbackRecords: Array<{
+    id: string;
+    outcome: MatchFeedbackOutcome;
+    rating?: number | null;
+    reason?: string | null;
+    submittedBy?: string | null;
+    createdAt: string;
+  }>;
+  scoreHistory: Array<{
+    id: string;
+    trigger: string;
+    score: number;
+    previousScore: number;
+    rank?: number | null;
+    previousRank?: number | null;
+    rankDropped: boolean;
+    createdAt: string;
+  }>;
+};
+
 
@@ -0,0 +1,33 @@
+-- Batch matching runs: one row per queued "match the whole bench" job
+CREATE TYPE "MatchBatchStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+CREATE TABLE "MatchBatchRun" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "status" "MatchBatchStatus" NOT NULL DEFAULT 'PENDING',
+    "topN" INTEGER NOT NULL DEFAULT 5,
+    "requirementCount" INTEGER NOT NULL DEFAULT 0,
+    "processedCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "outcomes" JSONB,
+    "error" TEXT,
+    "requestedBy" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MatchBatchRun_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "MatchBatchRun_tenantId_createdAt_idx" ON "MatchBatchRun"("tenantId", "createdAt");
+CREATE INDEX "MatchBatchRun_tenantId_status_idx" ON "MatchBatchRun"("tenantId", "status");
+
+ALTER TABLE "MatchBatchRun" ADD CONSTRAINT "MatchBatchRun_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public."MatchBatchRun" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."MatchBatchRun" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_MatchBatchRun" ON public."MatchBatchRun";
+CREATE POLICY "tenant_isolation_MatchBatchRun" ON public."MatchBatchRun"
+  USING (app.is_system_actor() OR "MatchBatchRun"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "MatchBatchRun"."tenantId" = app.current_tenant());
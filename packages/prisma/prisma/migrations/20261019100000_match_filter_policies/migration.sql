@@ -0,0 +1,35 @@
+-- Hard filter policies for matching: one tenant-wide default plus optional per-requirement overrides
+CREATE TABLE "MatchFilterPolicy" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "requirementId" TEXT,
+    "mustHaveSkills" JSONB,
+    "maxRate" DECIMAL(10,2),
+    "allowedLocations" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "remoteOnly" BOOLEAN,
+    "excludedAvailability" "ConsultantAvailability"[] DEFAULT ARRAY[]::"ConsultantAvailability"[],
+    "workAuthorizationTags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "minSkillOverlap" DOUBLE PRECISION,
+    "minLocationMatch" DOUBLE PRECISION,
+    "minRateAlignment" DOUBLE PRECISION,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MatchFilterPolicy_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "MatchFilterPolicy_requirementId_key" ON "MatchFilterPolicy"("requirementId");
+CREATE INDEX "MatchFilterPolicy_tenantId_idx" ON "MatchFilterPolicy"("tenantId");
+-- Prisma cannot express "one default per tenant", so enforce it with a partial index
+CREATE UNIQUE INDEX "MatchFilterPolicy_tenant_default_key" ON "MatchFilterPolicy"("tenantId") WHERE "requirementId" IS NULL;
+
+ALTER TABLE "MatchFilterPolicy" ADD CONSTRAINT "MatchFilterPolicy_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "MatchFilterPolicy" ADD CONSTRAINT "MatchFilterPolicy_requirementId_fkey" FOREIGN KEY ("requirementId") REFERENCES "Requirement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public."MatchFilterPolicy" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."MatchFilterPolicy" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_MatchFilterPolicy" ON public."MatchFilterPolicy";
+CREATE POLICY "tenant_isolation_MatchFilterPolicy" ON public."MatchFilterPolicy"
+  USING (app.is_system_actor() OR "MatchFilterPolicy"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "MatchFilterPolicy"."tenantId" = app.current_tenant());
@@ -0,0 +1,36 @@
+-- Versioned learning-to-rank models trained per tenant from match feedback
+CREATE TYPE "RankingModelStatus" AS ENUM ('CANDIDATE', 'ACTIVE', 'REJECTED', 'RETIRED');
+
+CREATE TABLE "RankingModel" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "status" "RankingModelStatus" NOT NULL DEFAULT 'CANDIDATE',
+    "definition" JSONB NOT NULL,
+    "metrics" JSONB,
+    "gate" JSONB,
+    "sampleCount" INTEGER NOT NULL DEFAULT 0,
+    "windowStart" TIMESTAMP(3) NOT NULL,
+    "windowEnd" TIMESTAMP(3) NOT NULL,
+    "trainedBy" TEXT,
+    "activatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RankingModel_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "RankingModel_tenantId_version_key" ON "RankingModel"("tenantId", "version");
+CREATE INDEX "RankingModel_tenantId_status_idx" ON "RankingModel"("tenantId", "status");
+-- At most one live model per tenant
+CREATE UNIQUE INDEX "RankingModel_tenant_active_key" ON "RankingModel"("tenantId") WHERE "status" = 'ACTIVE';
+
+ALTER TABLE "RankingModel" ADD CONSTRAINT "RankingModel_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public."RankingModel" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."RankingModel" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_RankingModel" ON public."RankingModel";
+CREATE POLICY "tenant_isolation_RankingModel" ON public."RankingModel"
+  USING (app.is_system_actor() OR "RankingModel"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "RankingModel"."tenantId" = app.current_tenant());
@@ -0,0 +1,26 @@
+-- Versioned per-tenant linear scorer weights; rows are append-only so old snapshots stay explainable
+CREATE TABLE "MatchWeightSet" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "featureWeights" JSONB NOT NULL,
+    "matchBaseWeight" DOUBLE PRECISION NOT NULL,
+    "llmRerankWeight" DOUBLE PRECISION NOT NULL,
+    "enableLlmRerank" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MatchWeightSet_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "MatchWeightSet_tenantId_version_key" ON "MatchWeightSet"("tenantId", "version");
+
+ALTER TABLE "MatchWeightSet" ADD CONSTRAINT "MatchWeightSet_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public."MatchWeightSet" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."MatchWeightSet" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_MatchWeightSet" ON public."MatchWeightSet";
+CREATE POLICY "tenant_isolation_MatchWeightSet" ON public."MatchWeightSet"
+  USING (app.is_system_actor() OR "MatchWeightSet"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "MatchWeightSet"."tenantId" = app.current_tenant());
@@ -0,0 +1,42 @@
+-- Ranking A/B experiments: experiment definitions plus variant tags on matches and feature snapshots
+CREATE TYPE "MatchExperimentStatus" AS ENUM ('DRAFT', 'RUNNING', 'STOPPED');
+
+CREATE TABLE "MatchExperiment" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "status" "MatchExperimentStatus" NOT NULL DEFAULT 'DRAFT',
+    "variants" JSONB NOT NULL,
+    "salt" TEXT NOT NULL,
+    "createdBy" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "stoppedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MatchExperiment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "MatchExperiment_tenantId_status_idx" ON "MatchExperiment"("tenantId", "status");
+-- A requirement can only be bucketed by one experiment at a time
+CREATE UNIQUE INDEX "MatchExperiment_tenant_running_key" ON "MatchExperiment"("tenantId") WHERE "status" = 'RUNNING';
+
+ALTER TABLE "MatchExperiment" ADD CONSTRAINT "MatchExperiment_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Match" ADD COLUMN "experimentId" TEXT;
+ALTER TABLE "Match" ADD COLUMN "variant" TEXT;
+CREATE INDEX "Match_tenantId_experimentId_variant_idx" ON "Match"("tenantId", "experimentId", "variant");
+ALTER TABLE "Match" ADD CONSTRAINT "Match_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "MatchExperiment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "MatchFeatureSnapshot" ADD COLUMN "experimentId" TEXT;
+ALTER TABLE "MatchFeatureSnapshot" ADD COLUMN "variant" TEXT;
+CREATE INDEX "MatchFeatureSnapshot_experimentId_variant_idx" ON "MatchFeatureSnapshot"("experimentId", "variant");
+ALTER TABLE "MatchFeatureSnapshot" ADD CONSTRAINT "MatchFeatureSnapshot_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "MatchExperiment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE public."MatchExperiment" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."MatchExperiment" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_MatchExperiment" ON public."MatchExperiment";
+CREATE POLICY "tenant_isolation_MatchExperiment" ON public."MatchExperiment"
+  USING (app.is_system_actor() OR "MatchExperiment"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "MatchExperiment"."tenantId" = app.current_tenant());
@@ -0,0 +1,33 @@
+-- Change-driven re-scoring: score history per match and a flag for material rank drops
+CREATE TYPE "MatchRescoreTrigger" AS ENUM ('CONSULTANT_UPDATED', 'REQUIREMENT_UPDATED', 'REQUIREMENT_TRANSITION');
+
+ALTER TABLE "Match" ADD COLUMN "rankDroppedAt" TIMESTAMP(3);
+CREATE INDEX "Match_tenantId_rankDroppedAt_idx" ON "Match"("tenantId", "rankDroppedAt");
+
+CREATE TABLE "MatchScoreHistory" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "trigger" "MatchRescoreTrigger" NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "previousScore" DOUBLE PRECISION NOT NULL,
+    "rank" INTEGER,
+    "previousRank" INTEGER,
+    "rankDropped" BOOLEAN NOT NULL DEFAULT false,
+    "modelVersion" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MatchScoreHistory_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "MatchScoreHistory_tenantId_matchId_createdAt_idx" ON "MatchScoreHistory"("tenantId", "matchId", "createdAt");
+
+ALTER TABLE "MatchScoreHistory" ADD CONSTRAINT "MatchScoreHistory_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "MatchScoreHistory" ADD CONSTRAINT "MatchScoreHistory_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public."MatchScoreHistory" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."MatchScoreHistory" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_MatchScoreHistory" ON public."MatchScoreHistory";
+CREATE POLICY "tenant_isolation_MatchScoreHistory" ON public."MatchScoreHistory"
+  USING (app.is_system_actor() OR "MatchScoreHistory"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "MatchScoreHistory"."tenantId" = app.current_tenant());
@@ -0,0 +1,29 @@
+-- Shortlist fairness audits: per-run score distributions across consultant tag groups
+CREATE TABLE "MatchFairnessAudit" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "requirementId" TEXT NOT NULL,
+    "topN" INTEGER NOT NULL,
+    "diversity" JSONB,
+    "candidateCount" INTEGER NOT NULL,
+    "shortlistCount" INTEGER NOT NULL,
+    "groups" JSONB NOT NULL,
+    "minImpactRatio" DOUBLE PRECISION,
+    "flagged" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MatchFairnessAudit_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "MatchFairnessAudit_tenantId_createdAt_idx" ON "MatchFairnessAudit"("tenantId", "createdAt");
+CREATE INDEX "MatchFairnessAudit_tenantId_requirementId_idx" ON "MatchFairnessAudit"("tenantId", "requirementId");
+
+ALTER TABLE "MatchFairnessAudit" ADD CONSTRAINT "MatchFairnessAudit_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "MatchFairnessAudit" ADD CONSTRAINT "MatchFairnessAudit_requirementId_fkey" FOREIGN KEY ("requirementId") REFERENCES "Requirement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public."MatchFairnessAudit" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."MatchFairnessAudit" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_MatchFairnessAudit" ON public."MatchFairnessAudit";
+CREATE POLICY "tenant_isolation_MatchFairnessAudit" ON public."MatchFairnessAudit"
+  USING (app.is_system_actor() OR "MatchFairnessAudit"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "MatchFairnessAudit"."tenantId" = app.current_tenant());
@@ -0,0 +1,7 @@
+-- Pluggable embedding providers: record which provider/model produced each vector and AI call
+ALTER TABLE "AiActivity" ADD COLUMN "provider" TEXT;
+ALTER TABLE "AiActivity" ADD COLUMN "model" TEXT;
+
+-- "<provider>:<model>:<dimensions>"; rows that differ from the running configuration are reindexed
+ALTER TABLE "SearchDocument" ADD COLUMN "embeddingModel" TEXT;
+CREATE INDEX "SearchDocument_embeddingModel_idx" ON "SearchDocument"("embeddingModel");
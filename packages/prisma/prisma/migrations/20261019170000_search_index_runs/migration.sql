@@ -0,0 +1,38 @@
+-- Incremental search indexing: content hashes on documents and tracked reindex runs
+ALTER TABLE "SearchDocument" ADD COLUMN "contentHash" TEXT;
+
+CREATE TYPE "SearchIndexRunStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+CREATE TABLE "SearchIndexRun" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "status" "SearchIndexRunStatus" NOT NULL DEFAULT 'PENDING',
+    "entityType" "SearchEntityType",
+    "force" BOOLEAN NOT NULL DEFAULT false,
+    "totalCount" INTEGER NOT NULL DEFAULT 0,
+    "indexedCount" INTEGER NOT NULL DEFAULT 0,
+    "unchangedCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "deletedCount" INTEGER NOT NULL DEFAULT 0,
+    "failures" JSONB,
+    "error" TEXT,
+    "requestedBy" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SearchIndexRun_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "SearchIndexRun_tenantId_createdAt_idx" ON "SearchIndexRun"("tenantId", "createdAt");
+CREATE INDEX "SearchIndexRun_tenantId_status_idx" ON "SearchIndexRun"("tenantId", "status");
+
+ALTER TABLE "SearchIndexRun" ADD CONSTRAINT "SearchIndexRun_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public."SearchIndexRun" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."SearchIndexRun" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_SearchIndexRun" ON public."SearchIndexRun";
+CREATE POLICY "tenant_isolation_SearchIndexRun" ON public."SearchIndexRun"
+  USING (app.is_system_actor() OR "SearchIndexRun"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "SearchIndexRun"."tenantId" = app.current_tenant());
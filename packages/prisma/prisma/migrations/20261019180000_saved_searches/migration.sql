@@ -0,0 +1,59 @@
+-- Saved searches: per-user persisted hybrid search requests, re-run on a schedule or after indexing
+CREATE TYPE "SavedSearchSchedule" AS ENUM ('NONE', 'HOURLY', 'DAILY', 'WEEKLY');
+CREATE TYPE "SavedSearchRunTrigger" AS ENUM ('SCHEDULE', 'INDEX', 'MANUAL');
+
+CREATE TABLE "SavedSearch" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "request" JSONB NOT NULL,
+    "schedule" "SavedSearchSchedule" NOT NULL DEFAULT 'DAILY',
+    "runOnIndex" BOOLEAN NOT NULL DEFAULT false,
+    "notify" BOOLEAN NOT NULL DEFAULT true,
+    "lastRunAt" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "SavedSearchRun" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "savedSearchId" TEXT NOT NULL,
+    "trigger" "SavedSearchRunTrigger" NOT NULL,
+    "resultCount" INTEGER NOT NULL DEFAULT 0,
+    "newCount" INTEGER NOT NULL DEFAULT 0,
+    "removedCount" INTEGER NOT NULL DEFAULT 0,
+    "resultIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "newIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "notified" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SavedSearchRun_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SavedSearch_tenantId_ownerId_name_key" ON "SavedSearch"("tenantId", "ownerId", "name");
+CREATE INDEX "SavedSearch_schedule_nextRunAt_idx" ON "SavedSearch"("schedule", "nextRunAt");
+CREATE INDEX "SavedSearch_tenantId_runOnIndex_idx" ON "SavedSearch"("tenantId", "runOnIndex");
+CREATE INDEX "SavedSearchRun_savedSearchId_createdAt_idx" ON "SavedSearchRun"("savedSearchId", "createdAt");
+
+ALTER TABLE "SavedSearch" ADD CONSTRAINT "SavedSearch_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "SavedSearchRun" ADD CONSTRAINT "SavedSearchRun_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "SavedSearchRun" ADD CONSTRAINT "SavedSearchRun_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "SavedSearch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public."SavedSearch" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."SavedSearch" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_SavedSearch" ON public."SavedSearch";
+CREATE POLICY "tenant_isolation_SavedSearch" ON public."SavedSearch"
+  USING (app.is_system_actor() OR "SavedSearch"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "SavedSearch"."tenantId" = app.current_tenant());
+
+ALTER TABLE public."SavedSearchRun" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."SavedSearchRun" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_SavedSearchRun" ON public."SavedSearchRun";
+CREATE POLICY "tenant_isolation_SavedSearchRun" ON public."SavedSearchRun"
+  USING (app.is_system_actor() OR "SavedSearchRun"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "SavedSearchRun"."tenantId" = app.current_tenant());
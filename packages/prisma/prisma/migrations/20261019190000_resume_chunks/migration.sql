@@ -0,0 +1,8 @@
+-- Chunked resume indexing: keep redacted resume text and store its sections as extra search rows per consultant
+ALTER TABLE "Resume" ADD COLUMN "text" TEXT;
+
+-- '' is the entity's own document; resume chunks use "<section>:<n>"
+ALTER TABLE "SearchDocument" ADD COLUMN "chunkKey" TEXT NOT NULL DEFAULT '';
+
+DROP INDEX IF EXISTS "SearchDocument_tenantId_entityType_entityId_key";
+CREATE UNIQUE INDEX "SearchDocument_tenantId_entityType_entityId_chunkKey_key" ON "SearchDocument"("tenantId", "entityType", "entityId", "chunkKey");
@@ -0,0 +1,88 @@
+-- Consultant profile: work history, education and certifications parsed from resumes or entered by recruiters
+CREATE TYPE "ConsultantProfileSource" AS ENUM ('RESUME', 'MANUAL');
+
+CREATE TABLE "ConsultantExperience" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "consultantId" TEXT NOT NULL,
+    "resumeId" TEXT,
+    "source" "ConsultantProfileSource" NOT NULL DEFAULT 'MANUAL',
+    "employer" TEXT,
+    "title" TEXT,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "current" BOOLEAN NOT NULL DEFAULT false,
+    "description" TEXT,
+    "skillIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConsultantExperience_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ConsultantEducation" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "consultantId" TEXT NOT NULL,
+    "resumeId" TEXT,
+    "source" "ConsultantProfileSource" NOT NULL DEFAULT 'MANUAL',
+    "institution" TEXT,
+    "degree" TEXT,
+    "field" TEXT,
+    "graduationYear" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConsultantEducation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ConsultantCertification" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "consultantId" TEXT NOT NULL,
+    "resumeId" TEXT,
+    "source" "ConsultantProfileSource" NOT NULL DEFAULT 'MANUAL',
+    "name" TEXT NOT NULL,
+    "issuer" TEXT,
+    "year" INTEGER,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConsultantCertification_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "ConsultantExperience_tenantId_consultantId_idx" ON "ConsultantExperience"("tenantId", "consultantId");
+CREATE INDEX "ConsultantEducation_tenantId_consultantId_idx" ON "ConsultantEducation"("tenantId", "consultantId");
+CREATE INDEX "ConsultantCertification_tenantId_consultantId_idx" ON "ConsultantCertification"("tenantId", "consultantId");
+
+ALTER TABLE "ConsultantExperience" ADD CONSTRAINT "ConsultantExperience_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ConsultantExperience" ADD CONSTRAINT "ConsultantExperience_consultantId_fkey" FOREIGN KEY ("consultantId") REFERENCES "Consultant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ConsultantExperience" ADD CONSTRAINT "ConsultantExperience_resumeId_fkey" FOREIGN KEY ("resumeId") REFERENCES "Resume"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ConsultantEducation" ADD CONSTRAINT "ConsultantEducation_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ConsultantEducation" ADD CONSTRAINT "ConsultantEducation_consultantId_fkey" FOREIGN KEY ("consultantId") REFERENCES "Consultant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ConsultantEducation" ADD CONSTRAINT "ConsultantEducation_resumeId_fkey" FOREIGN KEY ("resumeId") REFERENCES "Resume"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ConsultantCertification" ADD CONSTRAINT "ConsultantCertification_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ConsultantCertification" ADD CONSTRAINT "ConsultantCertification_consultantId_fkey" FOREIGN KEY ("consultantId") REFERENCES "Consultant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ConsultantCertification" ADD CONSTRAINT "ConsultantCertification_resumeId_fkey" FOREIGN KEY ("resumeId") REFERENCES "Resume"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE public."ConsultantExperience" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."ConsultantExperience" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_ConsultantExperience" ON public."ConsultantExperience";
+CREATE POLICY "tenant_isolation_ConsultantExperience" ON public."ConsultantExperience"
+  USING (app.is_system_actor() OR "ConsultantExperience"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "ConsultantExperience"."tenantId" = app.current_tenant());
+
+ALTER TABLE public."ConsultantEducation" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."ConsultantEducation" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_ConsultantEducation" ON public."ConsultantEducation";
+CREATE POLICY "tenant_isolation_ConsultantEducation" ON public."ConsultantEducation"
+  USING (app.is_system_actor() OR "ConsultantEducation"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "ConsultantEducation"."tenantId" = app.current_tenant());
+
+ALTER TABLE public."ConsultantCertification" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."ConsultantCertification" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_ConsultantCertification" ON public."ConsultantCertification";
+CREATE POLICY "tenant_isolation_ConsultantCertification" ON public."ConsultantCertification"
+  USING (app.is_system_actor() OR "ConsultantCertification"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "ConsultantCertification"."tenantId" = app.current_tenant());
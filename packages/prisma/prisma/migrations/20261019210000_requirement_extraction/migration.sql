@@ -0,0 +1,13 @@
+-- Requirement extraction: work mode, rate currency/unit, duration, must-have skills and ingestion confidence
+CREATE TYPE "RequirementWorkMode" AS ENUM ('ONSITE', 'HYBRID', 'REMOTE');
+CREATE TYPE "RequirementRateUnit" AS ENUM ('HOURLY', 'DAILY', 'ANNUAL');
+ALTER TYPE "IngestionStatus" ADD VALUE IF NOT EXISTS 'PENDING_REVIEW' AFTER 'PENDING';
+
+ALTER TABLE "Requirement" ADD COLUMN "workMode" "RequirementWorkMode";
+ALTER TABLE "Requirement" ADD COLUMN "rateCurrency" TEXT;
+ALTER TABLE "Requirement" ADD COLUMN "rateUnit" "RequirementRateUnit";
+ALTER TABLE "Requirement" ADD COLUMN "durationMonths" INTEGER;
+
+ALTER TABLE "RequirementSkill" ADD COLUMN "mustHave" BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE "RequirementIngestion" ADD COLUMN "confidence" DOUBLE PRECISION;
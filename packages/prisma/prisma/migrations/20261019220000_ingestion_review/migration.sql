@@ -0,0 +1,14 @@
+-- Ingestion review queue: review states and reasons, reviewer stamps and held resume parses
+CREATE TYPE "IngestionReviewReason" AS ENUM ('LOW_CONFIDENCE', 'MISSING_TITLE', 'AMBIGUOUS_IDENTITY', 'MISSING_IDENTITY');
+ALTER TYPE "IngestionStatus" ADD VALUE IF NOT EXISTS 'REJECTED';
+ALTER TYPE "DocumentIngestionStatus" ADD VALUE IF NOT EXISTS 'PENDING_REVIEW' AFTER 'PROCESSING';
+ALTER TYPE "DocumentIngestionStatus" ADD VALUE IF NOT EXISTS 'REJECTED';
+
+ALTER TABLE "RequirementIngestion" ADD COLUMN "reviewReason" "IngestionReviewReason";
+ALTER TABLE "RequirementIngestion" ADD COLUMN "reviewedBy" TEXT;
+ALTER TABLE "RequirementIngestion" ADD COLUMN "reviewedAt" TIMESTAMP(3);
+
+ALTER TABLE "DocumentMetadata" ADD COLUMN "reviewReason" "IngestionReviewReason";
+ALTER TABLE "DocumentMetadata" ADD COLUMN "reviewData" JSONB;
+ALTER TABLE "DocumentMetadata" ADD COLUMN "reviewedBy" TEXT;
+ALTER TABLE "DocumentMetadata" ADD COLUMN "reviewedAt" TIMESTAMP(3);
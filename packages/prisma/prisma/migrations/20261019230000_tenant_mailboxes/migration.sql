@@ -0,0 +1,64 @@
+-- Tenant mailboxes: per-tenant IMAP inboxes with encrypted credentials, health status and routing rules
+CREATE TYPE "MailboxStatus" AS ENUM ('PENDING', 'CONNECTED', 'ERROR', 'DISABLED');
+CREATE TYPE "MailboxRoute" AS ENUM ('REQUIREMENT', 'RESUME', 'IGNORE');
+
+CREATE TABLE "TenantMailbox" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "host" TEXT NOT NULL,
+    "port" INTEGER NOT NULL DEFAULT 993,
+    "secure" BOOLEAN NOT NULL DEFAULT true,
+    "username" TEXT NOT NULL,
+    "passwordCiphertext" TEXT NOT NULL,
+    "folder" TEXT NOT NULL DEFAULT 'INBOX',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "pollIntervalSeconds" INTEGER NOT NULL DEFAULT 60,
+    "status" "MailboxStatus" NOT NULL DEFAULT 'PENDING',
+    "lastPollAt" TIMESTAMP(3),
+    "lastSuccessAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "lastMessageCount" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TenantMailbox_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "MailboxRoutingRule" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "mailboxId" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "senderDomain" TEXT,
+    "subjectPattern" TEXT,
+    "clientName" TEXT,
+    "route" "MailboxRoute",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MailboxRoutingRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "TenantMailbox_tenantId_name_key" ON "TenantMailbox"("tenantId", "name");
+CREATE INDEX "TenantMailbox_enabled_idx" ON "TenantMailbox"("enabled");
+CREATE INDEX "MailboxRoutingRule_tenantId_priority_idx" ON "MailboxRoutingRule"("tenantId", "priority");
+
+ALTER TABLE "TenantMailbox" ADD CONSTRAINT "TenantMailbox_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "MailboxRoutingRule" ADD CONSTRAINT "MailboxRoutingRule_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "MailboxRoutingRule" ADD CONSTRAINT "MailboxRoutingRule_mailboxId_fkey" FOREIGN KEY ("mailboxId") REFERENCES "TenantMailbox"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public."TenantMailbox" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."TenantMailbox" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_TenantMailbox" ON public."TenantMailbox";
+CREATE POLICY "tenant_isolation_TenantMailbox" ON public."TenantMailbox"
+  USING (app.is_system_actor() OR "TenantMailbox"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "TenantMailbox"."tenantId" = app.current_tenant());
+
+ALTER TABLE public."MailboxRoutingRule" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."MailboxRoutingRule" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_MailboxRoutingRule" ON public."MailboxRoutingRule";
+CREATE POLICY "tenant_isolation_MailboxRoutingRule" ON public."MailboxRoutingRule"
+  USING (app.is_system_actor() OR "MailboxRoutingRule"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "MailboxRoutingRule"."tenantId" = app.current_tenant());
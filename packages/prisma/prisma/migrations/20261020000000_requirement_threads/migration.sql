@@ -0,0 +1,41 @@
+-- Requirement threads: email thread headers on ingestions, links to the requirement they produced, and field-level revisions from replies
+ALTER TABLE "RequirementIngestion" ADD COLUMN "messageId" TEXT,
+ADD COLUMN "inReplyTo" TEXT,
+ADD COLUMN "references" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "parentIngestionId" TEXT,
+ADD COLUMN "requirementId" TEXT;
+
+-- Earlier ingestions recorded the requirement only in parsedData
+UPDATE "RequirementIngestion" ri
+SET "requirementId" = ri."parsedData"->>'requirementId'
+WHERE ri."parsedData" ? 'requirementId'
+  AND EXISTS (SELECT 1 FROM "Requirement" r WHERE r."id" = ri."parsedData"->>'requirementId');
+
+CREATE TABLE "RequirementRevision" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "requirementId" TEXT NOT NULL,
+    "ingestionId" TEXT,
+    "messageId" TEXT,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RequirementRevision_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "RequirementIngestion_tenantId_messageId_idx" ON "RequirementIngestion"("tenantId", "messageId");
+CREATE INDEX "RequirementIngestion_requirementId_idx" ON "RequirementIngestion"("requirementId");
+CREATE INDEX "RequirementRevision_tenantId_requirementId_createdAt_idx" ON "RequirementRevision"("tenantId", "requirementId", "createdAt");
+
+ALTER TABLE "RequirementIngestion" ADD CONSTRAINT "RequirementIngestion_parentIngestionId_fkey" FOREIGN KEY ("parentIngestionId") REFERENCES "RequirementIngestion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "RequirementIngestion" ADD CONSTRAINT "RequirementIngestion_requirementId_fkey" FOREIGN KEY ("requirementId") REFERENCES "Requirement"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "RequirementRevision" ADD CONSTRAINT "RequirementRevision_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "RequirementRevision" ADD CONSTRAINT "RequirementRevision_requirementId_fkey" FOREIGN KEY ("requirementId") REFERENCES "Requirement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "RequirementRevision" ADD CONSTRAINT "RequirementRevision_ingestionId_fkey" FOREIGN KEY ("ingestionId") REFERENCES "RequirementIngestion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE public."RequirementRevision" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public."RequirementRevision" FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tenant_isolation_RequirementRevision" ON public."RequirementRevision";
+CREATE POLICY "tenant_isolation_RequirementRevision" ON public."RequirementRevision"
+  USING (app.is_system_actor() OR "RequirementRevision"."tenantId" = app.current_tenant())
+  WITH CHECK (app.is_system_actor() OR "RequirementRevision"."tenantId" = app.current_tenant());
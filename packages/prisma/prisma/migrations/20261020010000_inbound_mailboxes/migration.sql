@@ -0,0 +1,12 @@
+-- Inbound mailboxes: mail pushed through the inbound webhook or SMTP listener instead of polled over IMAP
+CREATE TYPE "MailboxKind" AS ENUM ('IMAP', 'INBOUND');
+
+ALTER TABLE "TenantMailbox" ADD COLUMN "kind" "MailboxKind" NOT NULL DEFAULT 'IMAP',
+ADD COLUMN "inboundTokenHash" TEXT,
+ADD COLUMN "inboundAddress" TEXT,
+ALTER COLUMN "host" DROP NOT NULL,
+ALTER COLUMN "username" DROP NOT NULL,
+ALTER COLUMN "passwordCiphertext" DROP NOT NULL;
+
+CREATE UNIQUE INDEX "TenantMailbox_inboundTokenHash_key" ON "TenantMailbox"("inboundTokenHash");
+CREATE UNIQUE INDEX "TenantMailbox_inboundAddress_key" ON "TenantMailbox"("inboundAddress");
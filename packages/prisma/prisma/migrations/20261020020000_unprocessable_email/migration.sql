@@ -0,0 +1,2 @@
+-- Polled emails that keep failing to process are set aside in the review queue
+ALTER TYPE "IngestionReviewReason" ADD VALUE IF NOT EXISTS 'UNPROCESSABLE';